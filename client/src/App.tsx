@@ -9,12 +9,26 @@ import NotFound from "@/pages/not-found";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
 import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
+import AcceptInvitation from "@/pages/accept-invitation";
+import GuardianConsent from "@/pages/guardian-consent";
+import TwoFactorSetup from "@/pages/two-factor-setup";
+import ChangePassword from "@/pages/change-password";
 import Dashboard from "@/pages/dashboard";
 import Opportunities from "@/pages/opportunities";
 import NewsFeed from "@/pages/news-feed";
 import Students from "@/pages/students";
 import Reports from "@/pages/reports";
 import UserManagement from "@/pages/user-management";
+import RegistrationApprovals from "@/pages/registration-approvals";
+import OpportunityReviews from "@/pages/opportunity-reviews";
+import RoleManagement from "@/pages/role-management";
+import AuditLog from "@/pages/audit-log";
+import UserImport from "@/pages/user-import";
+import RosterSync from "@/pages/roster-sync";
+import DataRetention from "@/pages/data-retention";
+import MyChildren from "@/pages/my-children";
 import SchoolManagement from "@/pages/school-management";
 import SchoolSettings from "@/pages/school-settings";
 import SystemSettings from "@/pages/system-settings";
@@ -23,14 +37,20 @@ import Documents from "@/pages/documents";
 import Settings from "@/pages/settings";
 import { AuthProvider, useAuth } from "@/providers/AuthProvider";
 import MainLayout from "@/components/layout/MainLayout";
+import { can, type PolicyAction } from "@shared/policy";
+
+interface ProtectedRouteProps {
+  component: React.ComponentType<any>;
+  action?: PolicyAction;
+  [prop: string]: any;
+}
 
 // Protected route component
 function ProtectedRoute({
   component: Component,
-  permission,
-  roles,
+  action,
   ...rest
-}: any) {
+}: ProtectedRouteProps) {
   const { user, isLoading } = useAuth();
   const [, navigate] = useLocation();
 
@@ -59,17 +79,21 @@ function ProtectedRoute({
     );
   }
 
-  // Check permission-based access if permission is specified
-  if (permission && user.permissions) {
-    const hasPermission =
-      user.permissions[permission as keyof typeof user.permissions];
-    if (!hasPermission) {
-      // Redirect to dashboard for unauthorized access
-      return <Redirect to="/dashboard" />;
-    }
+  // Staff who must use two-factor authentication enrol before anything else
+  if (user.twoFactorSetupRequired) {
+    return <Redirect to="/two-factor-setup" />;
+  }
+
+  // Admin-reset and expired passwords are replaced before anything else
+  if (user.mustChangePassword) {
+    return <Redirect to="/change-password" />;
   }
 
-  // Legacy role check removed - using permission-based access only
+  // Check access through the shared policy if an action is specified
+  if (action && !can(user, action)) {
+    // Redirect to dashboard for unauthorized access
+    return <Redirect to="/dashboard" />;
+  }
 
   return <Component {...rest} />;
 }
@@ -81,6 +105,12 @@ function Router() {
       <Route path="/login">{(params) => <Login />}</Route>
       <Route path="/register">{(params) => <Register />}</Route>
       <Route path="/forgot-password">{(params) => <ForgotPassword />}</Route>
+      <Route path="/reset-password">{(params) => <ResetPassword />}</Route>
+      <Route path="/verify-email">{(params) => <VerifyEmail />}</Route>
+      <Route path="/accept-invitation">{(params) => <AcceptInvitation />}</Route>
+      <Route path="/guardian-consent">{(params) => <GuardianConsent />}</Route>
+      <Route path="/two-factor-setup">{(params) => <TwoFactorSetup />}</Route>
+      <Route path="/change-password">{(params) => <ChangePassword />}</Route>
 
       {/* Protected routes with MainLayout */}
       <Route path="/">
@@ -104,7 +134,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={Opportunities}
-              permission="canViewOpportunities"
+              action="opportunity:view"
             />
           </MainLayout>
         )}
@@ -115,7 +145,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={Opportunities}
-              permission="canCreateOpportunities"
+              action="opportunity:create"
               createMode={true}
             />
           </MainLayout>
@@ -127,7 +157,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={Opportunities}
-              permission="canEditOwnOpportunities"
+              action="opportunity:update"
               editMode={true}
               opportunityId={parseInt(params.id)}
             />
@@ -148,7 +178,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={Students}
-              roles={["teacher", "admin", "superadmin"]}
+              action="user:view"
             />
           </MainLayout>
         )}
@@ -157,7 +187,7 @@ function Router() {
       <Route path="/reports">
         {() => (
           <MainLayout>
-            <ProtectedRoute component={Reports} permission="canViewReports" />
+            <ProtectedRoute component={Reports} action="reports:view" />
           </MainLayout>
         )}
       </Route>
@@ -168,7 +198,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={Attendees}
-              roles={["teacher", "admin", "superadmin"]}
+              action="opportunity:viewAttendees"
             />
           </MainLayout>
         )}
@@ -179,7 +209,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={Documents}
-              roles={["teacher", "admin", "superadmin"]}
+              action="document:upload"
             />
           </MainLayout>
         )}
@@ -193,18 +223,91 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={UserManagement}
-              permission="canManageUsers"
+              action="user:manage"
+            />
+          </MainLayout>
+        )}
+      </Route>
+
+      <Route path="/user-import">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute component={UserImport} action="user:manage" />
+          </MainLayout>
+        )}
+      </Route>
+
+      <Route path="/opportunity-reviews">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute
+              component={OpportunityReviews}
+              action="opportunity:review"
+            />
+          </MainLayout>
+        )}
+      </Route>
+
+      <Route path="/registration-approvals">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute
+              component={RegistrationApprovals}
+              action="user:manage"
+            />
+          </MainLayout>
+        )}
+      </Route>
+
+      <Route path="/role-management">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute
+              component={RoleManagement}
+              action="role:manage"
             />
           </MainLayout>
         )}
       </Route>
 
+      <Route path="/my-children">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute component={MyChildren} action="guardian:view" />
+          </MainLayout>
+        )}
+      </Route>
+
+      <Route path="/roster-sync">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute component={RosterSync} action="school:manage" />
+          </MainLayout>
+        )}
+      </Route>
+
+      <Route path="/data-retention">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute component={DataRetention} action="retention:manage" />
+          </MainLayout>
+        )}
+      </Route>
+
+      <Route path="/audit-log">
+        {() => (
+          <MainLayout>
+            <ProtectedRoute component={AuditLog} action="audit:view" />
+          </MainLayout>
+        )}
+      </Route>
+
       <Route path="/school-management">
         {() => (
           <MainLayout>
             <ProtectedRoute
               component={SchoolManagement}
-              permission="canManageSchools"
+              action="school:manage"
             />
           </MainLayout>
         )}
@@ -222,7 +325,7 @@ function Router() {
                   </p>
                 </div>
               )}
-              roles={["admin", "superadmin"]}
+              action="news:create"
             />
           </MainLayout>
         )}
@@ -240,7 +343,7 @@ function Router() {
                   </p>
                 </div>
               )}
-              roles={["admin", "superadmin"]}
+              action="user:manage"
             />
           </MainLayout>
         )}
@@ -258,7 +361,7 @@ function Router() {
                   </p>
                 </div>
               )}
-              roles={["admin", "superadmin"]}
+              action="opportunity:update"
             />
           </MainLayout>
         )}
@@ -277,7 +380,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={SchoolSettings}
-              permission="canManageSettings"
+              action="settings:manage"
             />
           </MainLayout>
         )}
@@ -288,7 +391,7 @@ function Router() {
           <MainLayout>
             <ProtectedRoute
               component={SystemSettings}
-              roles={["admin", "superadmin"]}
+              action="settings:manage"
             />
           </MainLayout>
         )}
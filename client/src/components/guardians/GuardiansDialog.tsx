@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, UserPlus, Unlink } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { guardiansApi } from "@/lib/api";
+
+interface GuardiansResponse {
+  guardians: {
+    id: number;
+    email: string;
+    firstName: string;
+    lastName: string;
+    isActive: boolean;
+    relationship: string | null;
+  }[];
+  invitations: {
+    id: number;
+    email: string;
+    relationship: string | null;
+    expiresAt: string;
+  }[];
+}
+
+interface GuardiansDialogProps {
+  student: { id: number; firstName: string; lastName: string } | null;
+  onClose: () => void;
+}
+
+export default function GuardiansDialog({ student, onClose }: GuardiansDialogProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [relationship, setRelationship] = useState("");
+
+  const queryKey = ["/api/users", student?.id, "guardians"];
+
+  const { data, isLoading } = useQuery<GuardiansResponse>({
+    queryKey,
+    queryFn: () => guardiansApi.getForStudent(student!.id),
+    enabled: !!student,
+  });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      guardiansApi.add(student!.id, {
+        email: email.trim(),
+        relationship: relationship.trim() || undefined,
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey });
+      setEmail("");
+      setRelationship("");
+      toast({ title: "Guardian added", description: result.message });
+    },
+    onError: (error) => showError(error, "Failed to add guardian"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (guardianId: number) => guardiansApi.remove(student!.id, guardianId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Guardian unlinked" });
+    },
+    onError: (error) => showError(error, "Failed to unlink guardian"),
+  });
+
+  return (
+    <Dialog open={!!student} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            Guardians of {student?.firstName} {student?.lastName}
+          </DialogTitle>
+          <DialogDescription>
+            Guardians see this student's registrations, forms and deadlines, are
+            emailed when they register, and give consent where it's needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="space-y-2">
+            {!data?.guardians.length && !data?.invitations.length && (
+              <p className="text-sm text-muted-foreground">No guardians linked yet</p>
+            )}
+            {data?.guardians.map((guardian) => (
+              <div
+                key={guardian.id}
+                className="flex items-center justify-between border rounded p-2"
+              >
+                <div>
+                  <p className="font-medium">
+                    {guardian.firstName} {guardian.lastName}
+                    {guardian.relationship && (
+                      <span className="text-muted-foreground font-normal">
+                        {" "}
+                        ({guardian.relationship})
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{guardian.email}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Unlink guardian"
+                  onClick={() => removeMutation.mutate(guardian.id)}
+                  disabled={removeMutation.isPending}
+                >
+                  <Unlink className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {data?.invitations.map((invitation) => (
+              <div
+                key={`invitation-${invitation.id}`}
+                className="flex items-center justify-between border border-dashed rounded p-2"
+              >
+                <div>
+                  <p className="font-medium">
+                    {invitation.email}
+                    {invitation.relationship && (
+                      <span className="text-muted-foreground font-normal">
+                        {" "}
+                        ({invitation.relationship})
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Invitation expires{" "}
+                    {formatDistanceToNow(new Date(invitation.expiresAt), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                </div>
+                <Badge variant="outline">invited</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="guardian-email">Guardian email</Label>
+              <Input
+                id="guardian-email"
+                type="email"
+                placeholder="parent@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian-relationship">Relationship</Label>
+              <Input
+                id="guardian-relationship"
+                placeholder="e.g. mother"
+                value={relationship}
+                onChange={(e) => setRelationship(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Existing guardian accounts are linked straight away; anyone else is
+            emailed an invitation.
+          </p>
+          <Button
+            onClick={() => addMutation.mutate()}
+            disabled={!email.trim() || addMutation.isPending}
+          >
+            {addMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <UserPlus className="h-4 w-4 mr-2" />
+            )}
+            Add Guardian
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, MailPlus, RotateCw, XCircle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { invitationsApi, usersApi } from "@/lib/api";
+import { useAuth } from "@/providers/AuthProvider";
+import { can } from "@shared/policy";
+
+type InvitationStatus = "pending" | "expired" | "accepted" | "revoked";
+
+interface Invitation {
+  id: number;
+  email: string;
+  roleName: string;
+  schoolName: string;
+  status: InvitationStatus;
+  expiresAt: string;
+  lastSentAt: string;
+  acceptedAt: string | null;
+  invitedByFirstName: string | null;
+  invitedByLastName: string | null;
+}
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: "bg-blue-50 text-blue-700 border-blue-200",
+  expired: "bg-amber-50 text-amber-700 border-amber-200",
+  accepted: "bg-green-50 text-green-700 border-green-200",
+  revoked: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+interface InvitationsCardProps {
+  // Superadmins pick the school for each invitation; school admins always
+  // invite into their own school
+  schools?: { id: number; name: string }[];
+}
+
+export default function InvitationsCard({ schools }: InvitationsCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [roleId, setRoleId] = useState<number | undefined>();
+  const [schoolId, setSchoolId] = useState<number | undefined>();
+
+  const canAssignGlobalRoles = can(user, "school:manage");
+
+  const { data: invitations, isLoading } = useQuery<Invitation[]>({
+    queryKey: ["/api/invitations"],
+    queryFn: () => invitationsApi.getAll(),
+  });
+
+  const { data: userRoles } = useQuery({
+    queryKey: ["/api/user-roles"],
+    queryFn: usersApi.getRoles,
+  });
+
+  // Students register themselves and guardians are invited from the student's
+  // record, so neither is offered here
+  const invitableRoles = (userRoles || []).filter(
+    (role: any) =>
+      !role.isRetired &&
+      role.name !== "student" &&
+      role.name !== "guardian" &&
+      (!role.canManageSchools || canAssignGlobalRoles),
+  );
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: invitationsApi.create,
+    onSuccess: (result) => {
+      refresh();
+      setIsDialogOpen(false);
+      setEmail("");
+      setRoleId(undefined);
+      setSchoolId(undefined);
+      toast({ title: "Invitation created", description: result.message });
+    },
+    onError: (error) => showError(error, "Failed to send invitation"),
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: invitationsApi.resend,
+    onSuccess: (result) => {
+      refresh();
+      toast({ title: "Invitation resent", description: result.message });
+    },
+    onError: (error) => showError(error, "Failed to resend invitation"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: invitationsApi.revoke,
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Invitation revoked", description: "The link no longer works" });
+    },
+    onError: (error) => showError(error, "Failed to revoke invitation"),
+  });
+
+  const canSubmit = email.trim() && roleId && (!schools || schoolId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Staff Invitations</CardTitle>
+        <Button onClick={() => setIsDialogOpen(true)}>
+          <MailPlus className="h-4 w-4 mr-2" />
+          Invite Staff
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : !invitations?.length ? (
+          <p className="text-center text-muted-foreground py-8">
+            No invitations have been sent yet
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                {schools && <TableHead>School</TableHead>}
+                <TableHead>Status</TableHead>
+                <TableHead>Invited by</TableHead>
+                <TableHead>Last sent</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell>{invitation.email}</TableCell>
+                  <TableCell className="capitalize">{invitation.roleName}</TableCell>
+                  {schools && <TableCell>{invitation.schoolName}</TableCell>}
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_STYLES[invitation.status]}>
+                      {invitation.status}
+                    </Badge>
+                    {invitation.status === "pending" && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Expires{" "}
+                        {formatDistanceToNow(new Date(invitation.expiresAt), {
+                          addSuffix: true,
+                        })}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {invitation.invitedByFirstName
+                      ? `${invitation.invitedByFirstName} ${invitation.invitedByLastName}`
+                      : "-"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(invitation.lastSentAt), "MMM d, yyyy HH:mm")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(invitation.status === "pending" || invitation.status === "expired") && (
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Resend"
+                          onClick={() => resendMutation.mutate(invitation.id)}
+                          disabled={resendMutation.isPending}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Revoke"
+                          onClick={() => revokeMutation.mutate(invitation.id)}
+                          disabled={revokeMutation.isPending}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Staff</DialogTitle>
+            <DialogDescription>
+              We'll email a link that lets them create an account with this role. The
+              link can be used once and expires after 7 days.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="teacher@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={roleId ? String(roleId) : undefined}
+                onValueChange={(value) => setRoleId(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {invitableRoles.map((role: any) => (
+                    <SelectItem key={role.id} value={String(role.id)}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {schools && (
+              <div className="space-y-2">
+                <Label>School</Label>
+                <Select
+                  value={schoolId ? String(schoolId) : undefined}
+                  onValueChange={(value) => setSchoolId(parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select school" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schools.map((school) => (
+                      <SelectItem key={school.id} value={String(school.id)}>
+                        {school.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                createMutation.mutate({ email: email.trim(), roleId: roleId!, schoolId })
+              }
+              disabled={!canSubmit || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
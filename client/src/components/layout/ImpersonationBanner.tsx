@@ -0,0 +1,77 @@
+import { useEffect } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { format } from 'date-fns';
+import { Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/providers/AuthProvider';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient } from '@/lib/queryClient';
+import { auth } from '@/lib/auth';
+
+// Shown on every page while a superadmin is viewing the app as another user
+export default function ImpersonationBanner() {
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const impersonation = user?.impersonation;
+
+  const backToOwnAccount = async (path: string) => {
+    queryClient.clear();
+    await refreshUser();
+    navigate(path);
+  };
+
+  // The server ends the session by itself; pick that up without a reload
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const remaining = new Date(impersonation.expiresAt).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      toast({
+        title: 'View as user ended',
+        description: 'The time limit was reached',
+      });
+      backToOwnAccount('/user-management');
+    }, Math.max(remaining, 0) + 1000);
+
+    return () => clearTimeout(timer);
+  }, [impersonation?.expiresAt]);
+
+  const stopMutation = useMutation({
+    mutationFn: auth.stopImpersonation,
+    onSuccess: () => backToOwnAccount('/user-management'),
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to stop viewing as user',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!impersonation || !user) return null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm text-white">
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        <span>
+          {impersonation.impersonatorName}, you are viewing as{' '}
+          <strong>
+            {user.firstName} {user.lastName}
+          </strong>{' '}
+          ({user.role}). Read-only, ends at {format(new Date(impersonation.expiresAt), 'HH:mm')}.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="secondary"
+        onClick={() => stopMutation.mutate()}
+        disabled={stopMutation.isPending}
+      >
+        {stopMutation.isPending ? 'Stopping...' : 'Stop viewing'}
+      </Button>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { ReactNode, useState } from 'react';
 import Sidebar from './Sidebar';
 import Header from './Header';
+import ImpersonationBanner from './ImpersonationBanner';
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -16,6 +17,8 @@ export default function MainLayout({ children }: MainLayoutProps) {
 
       {/* Main Content Area */}
       <div className="flex-1 flex flex-col h-screen overflow-hidden">
+        <ImpersonationBanner />
+
         {/* Header */}
         <Header onMenuToggle={() => setSidebarOpen(!sidebarOpen)} />
 
@@ -2,6 +2,7 @@ import { Link, useLocation } from "wouter";
 import { useAuth } from "@/providers/AuthProvider";
 import { cn } from "@/lib/utils";
 import type { UserWithPermissions } from "@shared/schema";
+import { can } from "@shared/policy";
 
 interface SidebarProps {
   isOpen: boolean;
@@ -114,7 +115,7 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
           </li>
 
           {/* Show opportunities for users who can view opportunities */}
-          {userWithPermissions.permissions?.canViewOpportunities && (
+          {can(user, "opportunity:view") && (
             <li>
               <Link href="/opportunities">
                 <a
@@ -130,10 +131,27 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
             </li>
           )}
 
+          {/* Opportunities waiting for approval */}
+          {can(user, "opportunity:review") && (
+            <li>
+              <Link href="/opportunity-reviews">
+                <a
+                  className={cn(
+                    "flex items-center p-2 rounded hover:bg-primary-dark",
+                    location === "/opportunity-reviews" && "bg-primary-dark",
+                  )}
+                >
+                  <span className="material-icons mr-3 text-sm">rule</span>
+                  <span>Opportunity Reviews</span>
+                </a>
+              </Link>
+            </li>
+          )}
+
           {/* Student-only features */}
 
           {/* Document upload feature */}
-          {userWithPermissions.permissions?.canUploadDocuments && (
+          {can(user, "document:upload") && (
             <li>
               <Link href="/documents">
                 <a
@@ -152,7 +170,7 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
           )}
 
           {/* View attendees feature */}
-          {userWithPermissions.permissions?.canViewAttendees && (
+          {can(user, "opportunity:viewAttendees") && (
             <li>
               <Link href="/attendees">
                 <a
@@ -169,7 +187,7 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
           )}
 
           {/* News management feature */}
-          {userWithPermissions.permissions?.canManageNews && (
+          {can(user, "news:create") && (
             <li>
               <Link href="/news-management">
                 <a
@@ -187,8 +205,27 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
             </li>
           )}
 
+          {/* Guardians follow their children's registrations */}
+          {can(user, "guardian:view") && (
+            <li>
+              <Link href="/my-children">
+                <a
+                  className={cn(
+                    "flex items-center p-2 rounded hover:bg-primary-dark",
+                    location === "/my-children" && "bg-primary-dark",
+                  )}
+                >
+                  <span className="material-icons mr-3 text-sm">
+                    family_restroom
+                  </span>
+                  <span>My Children</span>
+                </a>
+              </Link>
+            </li>
+          )}
+
           {/* Reports - Show only if user can view reports */}
-          {userWithPermissions.permissions?.canViewReports && (
+          {can(user, "reports:view") && (
             <li>
               <Link href="/reports">
                 <a
@@ -206,16 +243,16 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
         </ul>
 
         {/* Admin Section - Only visible if user has admin permissions */}
-        {(userWithPermissions.permissions?.canManageUsers ||
-          userWithPermissions.permissions?.canManageSchools ||
-          userWithPermissions.permissions?.canManageSettings) && (
+        {(can(user, "user:manage") ||
+          can(user, "school:manage") ||
+          can(user, "settings:manage")) && (
           <div>
             <h2 className="text-xs uppercase text-primary-light font-medium mt-6 mb-2">
               Administration
             </h2>
             <ul className="space-y-1">
               {/* User Management - Show only if user can manage users */}
-              {userWithPermissions.permissions?.canManageUsers && (
+              {can(user, "user:manage") && (
                 <li>
                   <Link href="/user-management">
                     <a
@@ -233,8 +270,66 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
                 </li>
               )}
 
+              {/* Registration Approvals - Show only if user can manage users */}
+              {can(user, "user:manage") && (
+                <li>
+                  <Link href="/registration-approvals">
+                    <a
+                      className={cn(
+                        "flex items-center p-2 rounded hover:bg-primary-dark",
+                        location === "/registration-approvals" &&
+                          "bg-primary-dark",
+                      )}
+                    >
+                      <span className="material-icons mr-3 text-sm">
+                        how_to_reg
+                      </span>
+                      <span>Registration Approvals</span>
+                    </a>
+                  </Link>
+                </li>
+              )}
+
+              {/* Role Management - Show only to superadmins */}
+              {can(user, "role:manage") && (
+                <li>
+                  <Link href="/role-management">
+                    <a
+                      className={cn(
+                        "flex items-center p-2 rounded hover:bg-primary-dark",
+                        location === "/role-management" && "bg-primary-dark",
+                      )}
+                    >
+                      <span className="material-icons mr-3 text-sm">
+                        admin_panel_settings
+                      </span>
+                      <span>Roles & Permissions</span>
+                    </a>
+                  </Link>
+                </li>
+              )}
+
+              {/* Audit Log - school admins see their own school */}
+              {can(user, "audit:view") && (
+                <li>
+                  <Link href="/audit-log">
+                    <a
+                      className={cn(
+                        "flex items-center p-2 rounded hover:bg-primary-dark",
+                        location === "/audit-log" && "bg-primary-dark",
+                      )}
+                    >
+                      <span className="material-icons mr-3 text-sm">
+                        history
+                      </span>
+                      <span>Audit Log</span>
+                    </a>
+                  </Link>
+                </li>
+              )}
+
               {/* School Management - Show only if user can manage schools */}
-              {userWithPermissions.permissions?.canManageSchools && (
+              {can(user, "school:manage") && (
                 <li>
                   <Link href="/school-management">
                     <a
@@ -251,6 +346,44 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
                   </Link>
                 </li>
               )}
+
+              {/* Roster Sync - schools synced from an SIS */}
+              {can(user, "school:manage") && (
+                <li>
+                  <Link href="/roster-sync">
+                    <a
+                      className={cn(
+                        "flex items-center p-2 rounded hover:bg-primary-dark",
+                        location === "/roster-sync" && "bg-primary-dark",
+                      )}
+                    >
+                      <span className="material-icons mr-3 text-sm">
+                        sync
+                      </span>
+                      <span>Roster Sync</span>
+                    </a>
+                  </Link>
+                </li>
+              )}
+
+              {/* Data Retention - purging data past its retention period */}
+              {can(user, "retention:manage") && (
+                <li>
+                  <Link href="/data-retention">
+                    <a
+                      className={cn(
+                        "flex items-center p-2 rounded hover:bg-primary-dark",
+                        location === "/data-retention" && "bg-primary-dark",
+                      )}
+                    >
+                      <span className="material-icons mr-3 text-sm">
+                        auto_delete
+                      </span>
+                      <span>Data Retention</span>
+                    </a>
+                  </Link>
+                </li>
+              )}
               <li>
                 <Link href="/opportunities-management">
                   <a
@@ -283,7 +416,7 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
                 </Link>
               </li>
               {/* School Settings - Show only if user can manage settings */}
-              {userWithPermissions.permissions?.canManageSettings && (
+              {can(user, "settings:manage") && (
                 <>
                   <li>
                     <Link href="/school-settings">
@@ -11,15 +11,28 @@ import { CalendarIcon, ChevronDown, ChevronUp, Filter, Loader2, X } from 'lucide
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import { apiRequest } from '@/lib/queryClient';
-import { filterOptionsApi, preferencesApi } from '@/lib/api';
+import { filterOptionsApi, preferencesApi, type FacetCount, type OpportunityFacets } from '@/lib/api';
 
 interface FilterSidebarProps {
   onFilterChange: (filters: any) => void;
   initialFilters?: any;
   opportunities?: any[];
+  // Match counts from the server; options with none are hidden
+  facets?: OpportunityFacets;
 }
 
-export default function FilterSidebar({ onFilterChange, initialFilters = {}, opportunities = [] }: FilterSidebarProps) {
+// Options that have matches, or are already selected, with their counts.
+// Without facets every option is shown.
+function withCounts(options: any[], counts: FacetCount[] | undefined, selected: string[]) {
+  return options
+    .map((option) => ({
+      ...option,
+      count: counts?.find((facet) => facet.value === option.value)?.count ?? 0,
+    }))
+    .filter((option) => !counts || option.count > 0 || selected.includes(option.value));
+}
+
+export default function FilterSidebar({ onFilterChange, initialFilters = {}, opportunities = [], facets }: FilterSidebarProps) {
   // State for filters
   const [industries, setIndustries] = useState<string[]>(initialFilters.industries || []);
   const [ageGroups, setAgeGroups] = useState<string[]>(initialFilters.ageGroups || []);
@@ -210,7 +223,7 @@ export default function FilterSidebar({ onFilterChange, initialFilters = {}, opp
                   </div>
                 ) : (
                   <div className="p-2">
-                    {industryOptions.map((option: any) => (
+                    {withCounts(industryOptions, facets?.industry, industries).map((option: any) => (
                       <div key={option.id} className="flex items-center space-x-2 p-2 hover:bg-gray-50 rounded">
                         <Checkbox
                           id={`industry-${option.id}`}
@@ -222,6 +235,7 @@ export default function FilterSidebar({ onFilterChange, initialFilters = {}, opp
                           className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                         >
                           {option.label}
+                          {facets && <span className="text-gray-500"> ({option.count})</span>}
                         </label>
                       </div>
                     ))}
@@ -281,7 +295,7 @@ export default function FilterSidebar({ onFilterChange, initialFilters = {}, opp
                   </div>
                 ) : (
                   <div className="p-2">
-                    {ageGroupOptions.map((option: any) => (
+                    {withCounts(ageGroupOptions, facets?.ageGroup, ageGroups).map((option: any) => (
                       <div key={option.id} className="flex items-center space-x-2 p-2 hover:bg-gray-50 rounded">
                         <Checkbox
                           id={`age-${option.id}`}
@@ -293,6 +307,7 @@ export default function FilterSidebar({ onFilterChange, initialFilters = {}, opp
                           className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                         >
                           {option.label}
+                          {facets && <span className="text-gray-500"> ({option.count})</span>}
                         </label>
                       </div>
                     ))}
@@ -382,7 +397,7 @@ export default function FilterSidebar({ onFilterChange, initialFilters = {}, opp
                       </div>
                     ) : (
                       <div className="p-2">
-                        {opportunityTypeOptions.map((option: any) => (
+                        {withCounts(opportunityTypeOptions, facets?.opportunityType, opportunityTypes).map((option: any) => (
                           <div key={option.id} className="flex items-center space-x-2 p-2 hover:bg-gray-50 rounded">
                             <Checkbox
                               id={`type-${option.id}`}
@@ -394,6 +409,7 @@ export default function FilterSidebar({ onFilterChange, initialFilters = {}, opp
                               className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer"
                             >
                               {option.label}
+                              {facets && <span className="text-gray-500"> ({option.count})</span>}
                             </label>
                           </div>
                         ))}
@@ -536,8 +552,16 @@ export default function FilterSidebar({ onFilterChange, initialFilters = {}, opp
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="">All Formats</SelectItem>
-                  <SelectItem value="true">Virtual</SelectItem>
-                  <SelectItem value="false">In-Person</SelectItem>
+                  {(!facets || facets.format.virtual > 0 || isVirtual === true) && (
+                    <SelectItem value="true">
+                      Virtual{facets && ` (${facets.format.virtual})`}
+                    </SelectItem>
+                  )}
+                  {(!facets || facets.format.inPerson > 0 || isVirtual === false) && (
+                    <SelectItem value="false">
+                      In-Person{facets && ` (${facets.format.inPerson})`}
+                    </SelectItem>
+                  )}
                 </SelectContent>
               </Select>
             </div>
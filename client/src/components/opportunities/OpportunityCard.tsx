@@ -1,5 +1,6 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/providers/AuthProvider";
+import { can } from "@shared/policy";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -13,10 +14,68 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { opportunitiesApi, interestsApi } from "@/lib/api";
+import {
+  opportunitiesApi,
+  interestsApi,
+  type OpportunityStatus,
+  type OpportunityTransition,
+} from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import { savedStatusMessage } from "@/components/opportunities/OpportunityForm";
 import briefcaseIcon from "@assets/briefcase-icon-2048x2048_1749131430329.png";
 
+// Renders a search snippet by splitting on the <mark> tags the server adds,
+// so the rest of the text is never treated as HTML
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+        part.startsWith("<mark>") ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 rounded-sm">
+            {part.slice("<mark>".length, -"</mark>".length)}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
+
+// Shown on the card for anything students can't see yet or any more
+const STATUS_LABELS: Partial<Record<OpportunityStatus, string>> = {
+  draft: "Draft",
+  pending_review: "Awaiting review",
+  scheduled: "Scheduled",
+  closed: "Closed",
+  archived: "Archived",
+};
+
+// The status changes offered to editors from each status
+const STATUS_ACTIONS: Record<
+  OpportunityStatus,
+  { transition: OpportunityTransition; label: string }[]
+> = {
+  draft: [
+    { transition: "submit", label: "Publish" },
+    { transition: "archive", label: "Archive" },
+  ],
+  pending_review: [{ transition: "withdraw", label: "Withdraw" }],
+  scheduled: [
+    { transition: "withdraw", label: "Unschedule" },
+    { transition: "archive", label: "Archive" },
+  ],
+  published: [
+    { transition: "close", label: "Close" },
+    { transition: "archive", label: "Archive" },
+  ],
+  closed: [
+    { transition: "reopen", label: "Reopen" },
+    { transition: "archive", label: "Archive" },
+  ],
+  archived: [],
+};
+
 interface OpportunityCardProps {
   opportunity: {
     id: number;
@@ -34,8 +93,16 @@ interface OpportunityCardProps {
     createdById: number;
     schoolId: number;
     applicationDeadline?: string;
+    status?: OpportunityStatus;
+    publishAt?: string | null;
+    // Description excerpt from search, with matches wrapped in <mark>
+    snippet?: string | null;
+    // Set when the list is sorted by distance
+    distanceKm?: number | null;
   };
   isInterested?: boolean;
+  // Set while the student is on the opportunity's waitlist
+  waitlistPosition?: number | null;
   interestCount?: number;
   onViewDetails: (id: number) => void;
 }
@@ -43,6 +110,7 @@ interface OpportunityCardProps {
 export default function OpportunityCard({
   opportunity,
   isInterested = false,
+  waitlistPosition = null,
   interestCount = 0,
   onViewDetails,
 }: OpportunityCardProps) {
@@ -51,14 +119,12 @@ export default function OpportunityCard({
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
 
-  // Permission logic using permission-based system
-  const isCreator = user?.id === opportunity.createdById;
-  const isSameSchool = user?.schoolId === opportunity.schoolId;
-  const canEdit =
-    user?.permissions &&
-    (user.permissions.canEditAllOpportunities || // superadmin/admin level
-      (user.permissions.canEditSchoolOpportunities && isSameSchool) || // school-level permissions
-      (user.permissions.canEditOwnOpportunities && isCreator)); // creator permissions
+  const canEdit = can(user, "opportunity:update", opportunity);
+
+  // interestCount only counts students holding a place
+  const placesLeft = opportunity.numberOfSpaces
+    ? Math.max(0, opportunity.numberOfSpaces - interestCount)
+    : null;
 
   // Format dates
   const formattedDateRange = `${format(new Date(opportunity.startDate), "MMM d, yyyy")} - ${format(new Date(opportunity.endDate), "MMM d, yyyy")}`;
@@ -79,7 +145,7 @@ export default function OpportunityCard({
         return await interestsApi.registerInterest(opportunity.id);
       }
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
       queryClient.invalidateQueries({
         queryKey: ["/api/student-interests/student"],
@@ -90,11 +156,20 @@ export default function OpportunityCard({
       queryClient.invalidateQueries({
         queryKey: ["/api/student-interests/counts"],
       });
+      if (!isInterested && result?.status === "waitlisted") {
+        toast({
+          title: "Added to waitlist",
+          description: `This opportunity is full. You are number ${result.waitlistPosition} on the waitlist and will be emailed if a place opens up.`,
+        });
+        return;
+      }
       toast({
         title: isInterested ? "Interest removed" : "Interest registered",
         description: isInterested
           ? "You are no longer registered for this opportunity"
-          : "You have successfully registered interest in this opportunity",
+          : result?.status === "pending_consent"
+            ? "Your place is held until a guardian gives consent"
+            : "You have successfully registered interest in this opportunity",
       });
     },
     onError: (error) => {
@@ -125,6 +200,25 @@ export default function OpportunityCard({
     },
   });
 
+  const transitionMutation = useMutation({
+    mutationFn: (transition: OpportunityTransition) =>
+      opportunitiesApi.transition(opportunity.id, transition),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
+      toast({
+        title: "Opportunity updated",
+        description: savedStatusMessage(updated.status),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update opportunity",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleToggleInterest = (e: React.MouseEvent) => {
     e.stopPropagation();
     toggleInterestMutation.mutate();
@@ -178,6 +272,14 @@ export default function OpportunityCard({
               <div>
                 <h3 className="text-lg font-medium text-neutral-400 dark:text-white">
                   {opportunity.title}
+                  {opportunity.status && STATUS_LABELS[opportunity.status] && (
+                    <Badge variant="secondary" className="ml-2 align-middle">
+                      {STATUS_LABELS[opportunity.status]}
+                      {opportunity.status === "scheduled" &&
+                        opportunity.publishAt &&
+                        ` for ${format(new Date(opportunity.publishAt), "MMM d, h:mm a")}`}
+                    </Badge>
+                  )}
                 </h3>
                 <p className="text-sm text-neutral-300 dark:text-gray-400">
                   {opportunity.organization}
@@ -187,6 +289,22 @@ export default function OpportunityCard({
               {/* Teacher/Admin Actions */}
               {canEdit && (
                 <div className="flex space-x-1">
+                  {opportunity.status &&
+                    STATUS_ACTIONS[opportunity.status].map((action) => (
+                      <Button
+                        key={action.transition}
+                        variant="ghost"
+                        size="sm"
+                        className="text-neutral-300 hover:text-primary dark:text-gray-400 dark:hover:text-primary px-2 py-1 h-auto text-xs"
+                        disabled={transitionMutation.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          transitionMutation.mutate(action.transition);
+                        }}
+                      >
+                        {action.label}
+                      </Button>
+                    ))}
                   <Button
                     variant="ghost"
                     size="sm"
@@ -217,9 +335,23 @@ export default function OpportunityCard({
                 <span className="dark:text-gray-300">
                   {opportunity.location} {opportunity.isVirtual && "(Virtual)"}
                 </span>
+                {opportunity.distanceKm != null && (
+                  <span className="ml-2 text-neutral-300 dark:text-gray-400">
+                    {opportunity.distanceKm < 1
+                      ? "Under 1 km away"
+                      : `${Math.round(opportunity.distanceKm)} km away`}
+                  </span>
+                )}
               </div>
               <p className="text-sm mt-2 dark:text-gray-300">
-                {opportunity.description.substring(0, 120)}...
+                {opportunity.snippet ? (
+                  <>
+                    <HighlightedSnippet snippet={opportunity.snippet} />
+                    ...
+                  </>
+                ) : (
+                  `${opportunity.description.substring(0, 120)}...`
+                )}
               </p>
             </div>
 
@@ -253,24 +385,31 @@ export default function OpportunityCard({
                 <Users className="h-4 w-4 mr-1" />
                 <span>{interestCount} students interested</span>
               </div>
-              {opportunity.numberOfSpaces && (
+              {placesLeft !== null && (
                 <div className="flex items-center">
                   <span
                     className={`font-medium ${
-                      opportunity.numberOfSpaces - interestCount <= 5
+                      placesLeft <= 5
                         ? "text-red-500 dark:text-red-400"
                         : "text-green-600 dark:text-green-400"
                     }`}
                   >
-                    {Math.max(0, opportunity.numberOfSpaces - interestCount)}{" "}
-                    spaces left
+                    {placesLeft} of {opportunity.numberOfSpaces} places left
                   </span>
                 </div>
               )}
+              {waitlistPosition && (
+                <Badge
+                  variant="outline"
+                  className="bg-amber-50 text-amber-700 dark:bg-amber-900 dark:text-amber-200"
+                >
+                  Waitlisted #{waitlistPosition}
+                </Badge>
+              )}
             </div>
 
             <div className="flex space-x-2 mt-2 sm:mt-0">
-              {user?.permissions?.canManagePreferences && (
+              {can(user, "preferences:manage") && (
                 <Button
                   variant={isInterested ? "default" : "outline"}
                   className={`${isInterested ? "bg-primary text-white hover:bg-primary-dark" : "border-primary text-primary hover:bg-primary hover:text-white"}`}
@@ -278,7 +417,13 @@ export default function OpportunityCard({
                   onClick={handleToggleInterest}
                   disabled={toggleInterestMutation.isPending}
                 >
-                  {isInterested ? "Unregister Interest" : "Register Interest"}
+                  {waitlistPosition
+                    ? "Leave Waitlist"
+                    : isInterested
+                      ? "Unregister Interest"
+                      : placesLeft === 0
+                        ? "Join Waitlist"
+                        : "Register Interest"}
                 </Button>
               )}
 
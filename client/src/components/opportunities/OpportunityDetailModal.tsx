@@ -13,6 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/providers/AuthProvider";
+import { can } from "@shared/policy";
 import briefcaseIcon from "@assets/briefcase-icon-2048x2048_1749131430329.png";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { opportunitiesApi, interestsApi, documentsApi } from "@/lib/api";
@@ -65,25 +66,14 @@ export default function OpportunityDetailModal({
       ? [`/api/student-interests/opportunity/${opportunityId}`]
       : [],
     enabled:
-      !!opportunityId &&
-      isOpen &&
-      user?.permissions &&
-      (user.permissions.canViewOpportunities ||
-        user.permissions.canEditAllOpportunities ||
-        user.permissions.canEditSchoolOpportunities),
+      !!opportunityId && isOpen && can(user, "opportunity:viewAttendees"),
   });
 
   // Fetch attendees for space calculation (teachers/admins only)
   const { data: attendees = [] } = useQuery({
     queryKey: [`/api/student-interests/opportunity/${opportunityId}`],
     queryFn: () => interestsApi.getForOpportunity(opportunityId!),
-    enabled:
-      !!opportunityId &&
-      !!(
-        user?.permissions?.canEditOwnOpportunities ||
-        user?.permissions?.canEditSchoolOpportunities ||
-        user?.permissions?.canEditAllOpportunities
-      ),
+    enabled: !!opportunityId && can(user, "opportunity:update"),
     retry: false,
   });
 
@@ -102,7 +92,20 @@ export default function OpportunityDetailModal({
   const { data: studentInterests = [] } = useQuery({
     queryKey: ["/api/student-interests/student"],
     queryFn: () => interestsApi.getForStudent(),
-    enabled: !!user?.permissions?.canViewOpportunities,
+    enabled: can(user, "opportunity:view"),
+    retry: false,
+  });
+
+  // Reviewer decisions, for the author and reviewers
+  const { data: reviews = [] } = useQuery<any[]>({
+    queryKey: [`/api/opportunities/${opportunityId}/reviews`],
+    queryFn: () => opportunitiesApi.getReviews(opportunityId!),
+    enabled:
+      !!opportunityId &&
+      isOpen &&
+      !!opportunity &&
+      (can(user, "opportunity:update", opportunity) ||
+        can(user, "opportunity:review", opportunity)),
     retry: false,
   });
 
@@ -114,6 +117,11 @@ export default function OpportunityDetailModal({
     retry: false,
   });
 
+  const waitlistPosition: number | null =
+    studentInterests.find(
+      (interest: any) => interest.opportunityId === opportunityId,
+    )?.waitlistPosition ?? null;
+
   // Check if current student is interested
   useEffect(() => {
     if (opportunityId && studentInterests.length >= 0) {
@@ -126,24 +134,34 @@ export default function OpportunityDetailModal({
 
   // Calculate space availability with proper dependencies
   const spaceInfo = useMemo(() => {
+    // Waitlisted students and declined registrations don't hold a place
+    const placeHolders = attendees.filter(
+      (attendee: any) =>
+        attendee.status !== "waitlisted" && attendee.status !== "consent_declined",
+    );
+    const waitingCount = attendees.filter(
+      (attendee: any) => attendee.status === "waitlisted",
+    ).length;
+
     if (!opportunity)
-      return { hasSpaces: true, spacesLeft: null, totalSpaces: null, registeredCount: 0 };
+      return { hasSpaces: true, spacesLeft: null, totalSpaces: null, registeredCount: 0, waitingCount };
 
     const totalSpaces = opportunity.numberOfSpaces;
     if (!totalSpaces)
-      return { hasSpaces: true, spacesLeft: null, totalSpaces: null, registeredCount: 0 };
+      return { hasSpaces: true, spacesLeft: null, totalSpaces: null, registeredCount: placeHolders.length, waitingCount };
 
     // Use attendees array for teachers/admins, interest counts for students
     const registeredCount = attendees.length > 0 
-      ? attendees.length 
+      ? placeHolders.length 
       : (interestCounts[opportunity.id] || 0);
-    const spacesLeft = totalSpaces - registeredCount;
+    const spacesLeft = Math.max(0, totalSpaces - registeredCount);
 
     return {
       hasSpaces: spacesLeft > 0,
       spacesLeft,
       totalSpaces,
       registeredCount,
+      waitingCount,
     };
   }, [opportunity, attendees, interestCounts]);
 
@@ -158,7 +176,7 @@ export default function OpportunityDetailModal({
         return await interestsApi.registerInterest(opportunityId);
       }
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       setIsInterested(!isInterested);
       queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
       queryClient.invalidateQueries({
@@ -170,11 +188,20 @@ export default function OpportunityDetailModal({
       queryClient.invalidateQueries({
         queryKey: ["/api/student-interests/counts"],
       });
+      if (!isInterested && result?.status === "waitlisted") {
+        toast({
+          title: "Added to waitlist",
+          description: `This opportunity is full. You are number ${result.waitlistPosition} on the waitlist and will be emailed if a place opens up.`,
+        });
+        return;
+      }
       toast({
         title: isInterested ? "Interest removed" : "Interest registered",
         description: isInterested
           ? "You are no longer registered for this opportunity"
-          : "You have successfully registered interest in this opportunity",
+          : result?.status === "pending_consent"
+            ? "Your place is held until a guardian gives consent"
+            : "You have successfully registered interest in this opportunity",
       });
     },
     onError: (error) => {
@@ -554,7 +581,7 @@ export default function OpportunityDetailModal({
                         <p className="text-sm dark:text-gray-300">
                           {!spaceInfo.totalSpaces
                             ? "Unlimited spaces"
-                            : `${spaceInfo.registeredCount}/${spaceInfo.totalSpaces} registered`}
+                            : `${spaceInfo.spacesLeft} of ${spaceInfo.totalSpaces} places left`}
                         </p>
                         {spaceInfo.spacesLeft !== null &&
                           spaceInfo.spacesLeft <= 5 &&
@@ -565,7 +592,17 @@ export default function OpportunityDetailModal({
                           )}
                         {spaceInfo.spacesLeft === 0 && (
                           <p className="text-xs text-red-600 dark:text-red-400 font-medium">
-                            No spaces left
+                            Full - new registrations join the waitlist
+                          </p>
+                        )}
+                        {spaceInfo.waitingCount > 0 && (
+                          <p className="text-xs text-gray-600 dark:text-gray-400">
+                            {spaceInfo.waitingCount} on the waitlist
+                          </p>
+                        )}
+                        {waitlistPosition && (
+                          <p className="text-xs text-amber-600 dark:text-amber-400 font-medium">
+                            You are number {waitlistPosition} on the waitlist
                           </p>
                         )}
                       </div>
@@ -622,40 +659,39 @@ export default function OpportunityDetailModal({
                   )}
 
                   {/* Student Registration Actions */}
-                  {user?.permissions?.canManagePreferences && (
+                  {can(user, "preferences:manage") && (
                     <div className="border-t border-neutral-200 dark:border-gray-700 pt-3 mt-3">
                       <div className="space-y-2">
                         {(() => {
-                          const canRegister =
-                            !isInterested &&
-                            (spaceInfo.hasSpaces ||
-                              spaceInfo.totalSpaces === null);
+                          // Once it's full, registering joins the waitlist
+                          const hasPlace =
+                            spaceInfo.hasSpaces ||
+                            spaceInfo.totalSpaces === null;
 
                           return (
                             <Button
                               className={`w-full ${
                                 isInterested
                                   ? "bg-red-600 hover:bg-red-700 text-white"
-                                  : canRegister
+                                  : hasPlace
                                     ? "bg-green-600 hover:bg-green-700 text-white"
-                                    : "bg-gray-400 text-gray-700 cursor-not-allowed"
+                                    : "bg-amber-600 hover:bg-amber-700 text-white"
                               }`}
                               onClick={() => toggleInterestMutation.mutate()}
-                              disabled={
-                                toggleInterestMutation.isPending ||
-                                (!canRegister && !isInterested)
-                              }
+                              disabled={toggleInterestMutation.isPending}
                             >
                               <Star className="mr-2 h-4 w-4" />
                               {toggleInterestMutation.isPending
                                 ? isInterested
                                   ? "Removing..."
                                   : "Registering..."
-                                : isInterested
-                                  ? "Remove Interest"
-                                  : canRegister
-                                    ? "Register Interest"
-                                    : `No spaces left (${spaceInfo.spacesLeft === 0 ? "0" : spaceInfo.spacesLeft} spaces left)`}
+                                : waitlistPosition
+                                  ? "Leave Waitlist"
+                                  : isInterested
+                                    ? "Remove Interest"
+                                    : hasPlace
+                                      ? "Register Interest"
+                                      : "Join Waitlist"}
                             </Button>
                           );
                         })()}
@@ -664,17 +700,14 @@ export default function OpportunityDetailModal({
                   )}
 
                   {/* Teacher/Admin Actions */}
-                  {user?.permissions &&
-                    (user.permissions.canEditOwnOpportunities ||
-                      user.permissions.canEditAllOpportunities ||
-                      user.permissions.canEditSchoolOpportunities) && (
+                  {can(user, "opportunity:update", opportunity) && (
                       <div className="border-t border-neutral-200 dark:border-gray-700 pt-3 mt-3">
                         <p className="text-sm font-medium mb-2 dark:text-white">
                           Teacher Actions
                         </p>
                         <div className="space-y-2">
                           {/* Only show download button if user has canViewAttendees permission and there are attendees */}
-                          {user?.permissions?.canViewAttendees &&
+                          {can(user, "opportunity:viewAttendees", opportunity) &&
                             attendees.length > 0 && (
                               <Button
                                 variant="outline"
@@ -690,22 +723,45 @@ export default function OpportunityDetailModal({
                             )}
 
                           <div className="text-xs text-gray-600 dark:text-gray-400">
-                            {attendees.length} students registered
+                            {spaceInfo.registeredCount} students registered
                           </div>
                         </div>
                       </div>
                     )}
+
+                  {reviews.length > 0 && (
+                    <div className="border-t border-neutral-200 dark:border-gray-700 pt-3 mt-3">
+                      <p className="text-sm font-medium mb-2 dark:text-white">
+                        Review History
+                      </p>
+                      <ul className="space-y-2">
+                        {reviews.map((review) => (
+                          <li key={review.id} className="text-xs dark:text-gray-300">
+                            <span className="font-medium">
+                              {review.decision === "approved"
+                                ? "Approved"
+                                : "Changes requested"}
+                            </span>{" "}
+                            by {review.reviewerFirstName ?? "a former reviewer"}{" "}
+                            {review.reviewerLastName ?? ""} on{" "}
+                            {format(new Date(review.createdAt), "MMM d, yyyy")}
+                            {review.comment && (
+                              <p className="mt-1 whitespace-pre-line text-gray-600 dark:text-gray-400">
+                                {review.comment}
+                              </p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
 
             {/* Forms/Documents Section */}
-            {(documents && documents.length > 0) || 
-             (user?.permissions?.canEditAllOpportunities ||
-              (user?.permissions?.canEditSchoolOpportunities && 
-               user?.schoolId === opportunity?.schoolId) ||
-              (user?.permissions?.canEditOwnOpportunities && 
-               user?.id === opportunity?.createdById)) ? (
+            {(documents && documents.length > 0) ||
+             can(user, "document:upload", opportunity) ? (
               <div className="mt-6 border-t border-neutral-200 dark:border-gray-700 pt-6">
                 <h3 className="text-lg font-medium dark:text-white mb-3">
                   Forms/Documents
@@ -738,12 +794,10 @@ export default function OpportunityDetailModal({
                             Download
                           </Button>
                           {/* Show delete button for users with proper permissions */}
-                          {(user?.permissions?.canEditAllOpportunities ||
-                            (user?.permissions?.canEditSchoolOpportunities && 
-                             user?.schoolId === opportunity?.schoolId) ||
-                            (user?.permissions?.canEditOwnOpportunities && 
-                             user?.id === opportunity?.createdById) ||
-                            user?.id === document.uploadedById) && (
+                          {can(user, "document:delete", {
+                            uploadedById: document.uploadedById,
+                            opportunity,
+                          }) && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -765,11 +819,7 @@ export default function OpportunityDetailModal({
                 )}
 
                 {/* Upload Document Button for authorized users */}
-                {(user?.permissions?.canEditAllOpportunities ||
-                  (user?.permissions?.canEditSchoolOpportunities && 
-                   user?.schoolId === opportunity?.schoolId) ||
-                  (user?.permissions?.canEditOwnOpportunities && 
-                   user?.id === opportunity?.createdById)) && (
+                {can(user, "document:upload", opportunity) && (
                   <div className="border-t pt-4 mt-4">
                     <div className="flex items-center justify-center">
                       <label className="cursor-pointer">
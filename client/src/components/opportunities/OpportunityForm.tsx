@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -8,6 +8,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { opportunitiesApi, filterOptionsApi, schoolsApi } from "@/lib/api";
 import { useLocation } from "wouter";
 import { School, FilterOption } from "@shared/schema";
+import { can } from "@shared/policy";
 import {
   DateRangePicker,
   type DateRange,
@@ -70,8 +71,24 @@ const opportunityFormSchema = z
     applicationDeadline: z.date({
       required_error: "Application deadline date is required",
     }),
+    // Local date and time from the input; empty publishes on submit
+    publishAt: z.string().optional(),
     location: z.string().optional(),
+    // Optional, so students can sort by distance
+    latitude: z
+      .string()
+      .optional()
+      .refine((value) => !value || Math.abs(Number(value)) <= 90, {
+        message: "Latitude must be between -90 and 90",
+      }),
+    longitude: z
+      .string()
+      .optional()
+      .refine((value) => !value || Math.abs(Number(value)) <= 180, {
+        message: "Longitude must be between -180 and 180",
+      }),
     isVirtual: z.boolean().default(false),
+    requiresGuardianConsent: z.boolean().default(false),
     opportunityType: z
       .string()
       .min(1, { message: "Opportunity type is required" }),
@@ -113,11 +130,24 @@ const opportunityFormSchema = z
 
 type OpportunityFormValues = z.infer<typeof opportunityFormSchema>;
 
+// What happened to an opportunity once saved or moved, for the confirmation toast
+export const savedStatusMessage = (status?: string) => {
+  if (status === "published") return "It is now live for students to view.";
+  if (status === "scheduled") return "It will go live on its publish date.";
+  if (status === "pending_review") {
+    return "It has been sent for review and will go live once approved.";
+  }
+  if (status === "closed") return "It no longer takes registrations or shows to students.";
+  if (status === "archived") return "It has been archived and is hidden from students.";
+  return "It has been saved as a draft. Publish it when it's ready for students.";
+};
+
 interface OpportunityFormProps {
   opportunityId?: number;
   onSuccess?: () => void;
   isCreating?: boolean;
-  customSubmit?: (data: any) => Promise<void>;
+  // publish is set when the author chose to publish rather than save a draft
+  customSubmit?: (data: any, publish: boolean) => Promise<void>;
 }
 
 export default function OpportunityForm({
@@ -133,6 +163,10 @@ export default function OpportunityForm({
   const [isEditMode] = useState(!!opportunityId);
   const [formChanged, setFormChanged] = useState(false);
   const [selectedSchools, setSelectedSchools] = useState<number[]>([]);
+  // Set by whichever save button was clicked, just before the form submits
+  const publishRef = useRef(true);
+  const needsApproval =
+    !!user?.school?.requireOpportunityApproval && !can(user, "opportunity:review");
 
   // Get filter options
   const {
@@ -197,8 +231,12 @@ export default function OpportunityForm({
         to: undefined,
       },
       applicationDeadline: undefined,
+      publishAt: "",
       location: "",
+      latitude: "",
+      longitude: "",
       isVirtual: false,
+      requiresGuardianConsent: false,
       opportunityType: "",
       compensation: "",
       industry: "",
@@ -221,6 +259,19 @@ export default function OpportunityForm({
     enabled: !!opportunityId,
   });
 
+  // New opportunities and drafts can be saved for later or published;
+  // anything further along is just updated in place, going back for review
+  // if it was live and the school requires approval
+  const isDraft = !isEditMode || opportunityData?.status === "draft";
+  const isLive =
+    opportunityData?.status === "published" || opportunityData?.status === "scheduled";
+  const publishAt = form.watch("publishAt");
+  const isScheduling = !!publishAt && new Date(publishAt) > new Date();
+  let saveLabel = "Update Opportunity";
+  if (isLive && needsApproval) saveLabel = "Submit Changes for Review";
+  else if (isDraft && needsApproval) saveLabel = "Submit for Review";
+  else if (isDraft) saveLabel = isScheduling ? "Schedule" : "Publish";
+
   // For edit mode, always allow updates
   useEffect(() => {
     // Simplify the state tracking - always allow updates in edit mode
@@ -275,6 +326,11 @@ export default function OpportunityForm({
           ? opportunityData.ageGroup
           : [opportunityData.ageGroup].filter(Boolean),
         location: opportunityData.location || "",
+        latitude: opportunityData.latitude?.toString() ?? "",
+        longitude: opportunityData.longitude?.toString() ?? "",
+        publishAt: opportunityData.publishAt
+          ? format(new Date(opportunityData.publishAt), "yyyy-MM-dd'T'HH:mm")
+          : "",
         // Ensure single-choice dropdowns are properly set
         opportunityType: opportunityData.opportunityType || "",
         industry: opportunityData.industry || "",
@@ -307,7 +363,7 @@ export default function OpportunityForm({
 
   // Create/Update mutation with enhanced error handling
   const mutation = useMutation({
-    mutationFn: (values: OpportunityFormValues) => {
+    mutationFn: async (values: OpportunityFormValues) => {
       // Transform date range back to individual dates for API
       const formattedValues = {
         ...values,
@@ -327,12 +383,15 @@ export default function OpportunityForm({
       console.log("Submitting data:", data);
 
       if (isEditMode && opportunityId) {
-        return opportunitiesApi.update(opportunityId, data);
+        const updated = await opportunitiesApi.update(opportunityId, data);
+        return publishRef.current && updated.status === "draft"
+          ? opportunitiesApi.transition(opportunityId, "submit")
+          : updated;
       } else {
-        return opportunitiesApi.create(data);
+        return opportunitiesApi.create(data, publishRef.current);
       }
     },
-    onSuccess: () => {
+    onSuccess: (saved) => {
       // Immediately invalidate the opportunities list to refresh data
       queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
 
@@ -346,9 +405,7 @@ export default function OpportunityForm({
         title: isEditMode
           ? "🎉 Opportunity Updated Successfully!"
           : "🎉 Opportunity Created Successfully!",
-        description: isEditMode
-          ? "Your opportunity has been updated and is now live for students to view."
-          : "Your opportunity has been created and is now live for students to view.",
+        description: savedStatusMessage(saved?.status),
         variant: "default",
         duration: 4000,
         className:
@@ -487,6 +544,9 @@ export default function OpportunityForm({
         endDate: values.dateRange.to.toISOString().split('T')[0],
         // Transform applicationDeadline to ISO date string
         applicationDeadline: values.applicationDeadline.toISOString().split('T')[0],
+        latitude: values.latitude ? Number(values.latitude) : null,
+        longitude: values.longitude ? Number(values.longitude) : null,
+        publishAt: values.publishAt ? new Date(values.publishAt).toISOString() : null,
         visibleToSchools: selectedSchools,
       };
 
@@ -499,7 +559,7 @@ export default function OpportunityForm({
 
       if (customSubmit) {
         // Use the custom submit handler from props
-        await customSubmit(submissionData);
+        await customSubmit(submissionData, publishRef.current);
       } else {
         // Use the default mutation
         console.log("📤 Calling mutation.mutate with data:", submissionData);
@@ -723,6 +783,29 @@ export default function OpportunityForm({
                 />
               </div>
 
+              {(isDraft || opportunityData?.status === "scheduled") && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+                  <FormField
+                    control={form.control}
+                    name="publishAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Publish On</FormLabel>
+                        <FormControl>
+                          <Input type="datetime-local" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Leave empty to publish as soon as it's submitted.
+                          Applications close after the deadline and the
+                          opportunity is archived once it ends.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
                 <FormField
                   control={form.control}
@@ -770,6 +853,74 @@ export default function OpportunityForm({
                     </FormItem>
                   )}
                 />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="latitude"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Latitude</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            placeholder="e.g. 37.7749"
+                            disabled={form.watch("isVirtual")}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="longitude"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Longitude</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            placeholder="e.g. -122.4194"
+                            disabled={form.watch("isVirtual")}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Optional. Lets students sort by distance.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="requiresGuardianConsent"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">
+                          Guardian Consent Required
+                        </FormLabel>
+                        <FormDescription>
+                          For off-site or overnight activities. Registrations
+                          wait for a guardian to approve them.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
               </div>
             </div>
 
@@ -1245,11 +1396,24 @@ export default function OpportunityForm({
               >
                 Cancel
               </Button>
+              {isDraft && (
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={mutation.isPending}
+                  onClick={() => {
+                    publishRef.current = false;
+                  }}
+                >
+                  Save Draft
+                </Button>
+              )}
               <Button
                 type="submit"
                 disabled={mutation.isPending}
                 className="bg-primary hover:bg-primary/90"
                 onClick={() => {
+                  publishRef.current = isDraft;
                   console.log("🔘 SUBMIT BUTTON CLICKED!");
                   console.log("Button state:", {
                     disabled: mutation.isPending,
@@ -1262,7 +1426,7 @@ export default function OpportunityForm({
                 {mutation.isPending && (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 )}
-                {isEditMode ? "Update Opportunity" : "Create Opportunity"}
+                {saveLabel}
               </Button>
             </div>
           </form>
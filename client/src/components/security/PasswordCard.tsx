@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { auth } from "@/lib/auth";
+import PasswordStrengthMeter from "@/components/security/PasswordStrengthMeter";
+
+interface PasswordCardProps {
+  description?: string;
+  onChanged?: () => void;
+}
+
+export default function PasswordCard({ description, onChanged }: PasswordCardProps) {
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const changeMutation = useMutation({
+    mutationFn: () => auth.changePassword({ currentPassword, password, confirmPassword }),
+    onSuccess: (data) => {
+      setCurrentPassword("");
+      setPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Password changed",
+        description: `${data.message}. Your other sessions have been signed out.`,
+      });
+      onChanged?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordsMatch = password === confirmPassword;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Password
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {description ?? "Changing your password signs you out of your other sessions and devices."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4 max-w-md">
+        <div className="space-y-1">
+          <Label htmlFor="current-password">Current password</Label>
+          <Input
+            id="current-password"
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-password">New password</Label>
+          <Input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <PasswordStrengthMeter password={password} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="confirm-new-password">Confirm new password</Label>
+          <Input
+            id="confirm-new-password"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+          />
+          {confirmPassword && !passwordsMatch && (
+            <p className="text-xs text-destructive">Passwords do not match</p>
+          )}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => changeMutation.mutate()}
+            disabled={
+              !currentPassword || !password || !passwordsMatch || changeMutation.isPending
+            }
+          >
+            {changeMutation.isPending ? "Saving..." : "Change password"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { settingsApi } from "@/lib/api";
+import type { PasswordPolicy } from "@/components/security/PasswordStrengthMeter";
+
+const CHARACTER_RULES: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: "requireLowercase", label: "Require a lowercase letter" },
+  { key: "requireUppercase", label: "Require an uppercase letter" },
+  { key: "requireNumber", label: "Require a number" },
+  { key: "requireSymbol", label: "Require a symbol" },
+];
+
+export default function PasswordPolicyCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  const { data: saved, isLoading } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+    queryFn: settingsApi.getPasswordPolicy,
+  });
+
+  useEffect(() => {
+    if (saved) setPolicy(saved);
+  }, [saved]);
+
+  const update = (changes: Partial<PasswordPolicy>) =>
+    setPolicy((current) => current && { ...current, ...changes });
+
+  const saveMutation = useMutation({
+    mutationFn: () => settingsApi.savePasswordPolicy(policy),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/password-policy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/password-policy"] });
+      toast({
+        title: "Password policy saved",
+        description: "New rules apply the next time someone sets a password",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save password policy",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isDirty = !!policy && JSON.stringify(policy) !== JSON.stringify(saved);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password Policy</CardTitle>
+        <CardDescription>
+          Rules for new passwords. Existing passwords keep working until they are changed
+          or expire.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !policy ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1">
+                <Label htmlFor="min-length">Minimum length</Label>
+                <Input
+                  id="min-length"
+                  type="number"
+                  min={8}
+                  max={64}
+                  value={policy.minLength}
+                  onChange={(e) => update({ minLength: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="history-count">Recent passwords that can't be reused</Label>
+                <Input
+                  id="history-count"
+                  type="number"
+                  min={0}
+                  max={24}
+                  value={policy.historyCount}
+                  onChange={(e) => update({ historyCount: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="staff-expiry">Staff password expiry (days)</Label>
+                <Input
+                  id="staff-expiry"
+                  type="number"
+                  min={0}
+                  max={730}
+                  value={policy.staffExpiryDays}
+                  onChange={(e) => update({ staffExpiryDays: Number(e.target.value) })}
+                />
+                <p className="text-xs text-muted-foreground">0 means passwords never expire</p>
+              </div>
+            </div>
+
+            <div className="grid gap-3 md:grid-cols-2">
+              {CHARACTER_RULES.map((rule) => (
+                <div key={rule.key} className="flex items-center justify-between border rounded p-3">
+                  <Label htmlFor={rule.key}>{rule.label}</Label>
+                  <Switch
+                    id={rule.key}
+                    checked={Boolean(policy[rule.key])}
+                    onCheckedChange={(checked) => update({ [rule.key]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between border rounded p-3">
+              <div>
+                <Label htmlFor="reject-breached">Reject breached passwords</Label>
+                <p className="text-xs text-muted-foreground">
+                  Checked against a bundled list of passwords known from data breaches
+                </p>
+              </div>
+              <Switch
+                id="reject-breached"
+                checked={policy.rejectBreached}
+                onCheckedChange={(checked) => update({ rejectBreached: checked })}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={!isDirty || saveMutation.isPending}
+              >
+                {saveMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save Policy
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { auth } from "@/lib/auth";
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+  staffExpiryDays: number;
+  rejectBreached: boolean;
+}
+
+const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Good", "Strong"];
+const STRENGTH_COLORS = [
+  "bg-red-500",
+  "bg-red-500",
+  "bg-amber-500",
+  "bg-lime-500",
+  "bg-green-600",
+];
+
+// Hashes in the browser and only asks the server for hashes sharing the
+// first five characters, so the password itself is never sent
+async function isBreached(password: string) {
+  if (!window.crypto?.subtle) return false;
+  const digest = await window.crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(password),
+  );
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+  const suffixes = await auth.getBreachedRange(hash.slice(0, 5));
+  return suffixes.includes(hash.slice(5));
+}
+
+// A rough 0-4 score from length and variety; the server's policy decides
+// what is actually accepted
+function scorePassword(password: string) {
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^A-Za-z0-9]/].filter((pattern) =>
+    pattern.test(password),
+  ).length;
+  let score = 0;
+  if (password.length >= 8) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (classes >= 3) score++;
+  if (/(.)\1{2,}/.test(password) || classes === 1) score--;
+  return Math.max(0, Math.min(4, score));
+}
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+export default function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const [breached, setBreached] = useState(false);
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+    queryFn: auth.getPasswordPolicy,
+  });
+
+  useEffect(() => {
+    setBreached(false);
+    if (!password || !policy?.rejectBreached) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      isBreached(password)
+        .then((result) => !cancelled && setBreached(result))
+        .catch(() => undefined);
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [password, policy?.rejectBreached]);
+
+  if (!password) return null;
+
+  const requirements = policy
+    ? [
+        {
+          label: `At least ${policy.minLength} characters`,
+          met: password.length >= policy.minLength,
+        },
+        policy.requireLowercase && {
+          label: "A lowercase letter",
+          met: /[a-z]/.test(password),
+        },
+        policy.requireUppercase && {
+          label: "An uppercase letter",
+          met: /[A-Z]/.test(password),
+        },
+        policy.requireNumber && { label: "A number", met: /[0-9]/.test(password) },
+        policy.requireSymbol && {
+          label: "A symbol",
+          met: /[^A-Za-z0-9]/.test(password),
+        },
+      ].filter((requirement): requirement is { label: string; met: boolean } =>
+        Boolean(requirement),
+      )
+    : [];
+
+  // A password the policy would reject never shows as better than weak
+  let score = scorePassword(password);
+  if (breached) {
+    score = 0;
+  } else if (!requirements.every((requirement) => requirement.met)) {
+    score = Math.min(1, score);
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={cn(
+              "h-1.5 flex-1 rounded-full",
+              score >= segment ? STRENGTH_COLORS[score] : "bg-gray-200",
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Strength: <span className="font-medium">{STRENGTH_LABELS[score]}</span>
+      </p>
+      {breached && (
+        <p className="text-xs text-destructive">
+          This password has appeared in a data breach. Please choose a different one.
+        </p>
+      )}
+      {requirements.length > 0 && (
+        <ul className="space-y-0.5">
+          {requirements.map((requirement) => (
+            <li
+              key={requirement.label}
+              className={cn(
+                "flex items-center text-xs",
+                requirement.met ? "text-green-700" : "text-muted-foreground",
+              )}
+            >
+              {requirement.met ? (
+                <Check className="h-3 w-3 mr-1" />
+              ) : (
+                <X className="h-3 w-3 mr-1" />
+              )}
+              {requirement.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
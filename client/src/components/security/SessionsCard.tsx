@@ -0,0 +1,206 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Laptop, Smartphone, MonitorSmartphone } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { auth } from "@/lib/auth";
+
+interface BrowserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  current: boolean;
+}
+
+interface Device {
+  id: number;
+  deviceName: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+}
+
+// Turn a user agent into something like "Chrome on Windows"
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return "Unknown browser";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os =
+    /Windows/.test(userAgent) ? "Windows"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function lastActive(date: string | null) {
+  return date
+    ? `Last active ${formatDistanceToNow(new Date(date), { addSuffix: true })}`
+    : "Last active unknown";
+}
+
+export default function SessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading: isLoadingSessions } = useQuery<BrowserSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    queryFn: auth.getSessions,
+  });
+
+  const { data: devices, isLoading: isLoadingDevices } = useQuery<Device[]>({
+    queryKey: ["/api/auth/devices"],
+    queryFn: auth.getDevices,
+  });
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Failed to sign out",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/devices"] });
+  };
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: (id: string) => auth.revokeSession(id),
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Session signed out",
+        description: "That browser will need to sign in again",
+      });
+    },
+    onError: showError,
+  });
+
+  const revokeDeviceMutation = useMutation({
+    mutationFn: (id: number) => auth.revokeDevice(id),
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Device signed out",
+        description: "The app on that device will need to sign in again",
+      });
+    },
+    onError: showError,
+  });
+
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: auth.signOutEverywhere,
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Signed out everywhere",
+        description: "All of your other sessions and devices have been signed out",
+      });
+    },
+    onError: showError,
+  });
+
+  const isLoading = isLoadingSessions || isLoadingDevices;
+  const hasOtherSessions =
+    !!sessions?.some((session) => !session.current) || !!devices?.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Where You're Signed In
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Browsers and mobile devices that are currently signed in to your account.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : (
+          <>
+            {sessions?.map((session) => (
+              <div key={session.id} className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Laptop className="h-5 w-5 text-gray-500" />
+                  <div>
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && <Badge variant="secondary">This browser</Badge>}
+                    </p>
+                    <p className="text-xs text-gray-600">
+                      {session.ipAddress && `${session.ipAddress} · `}
+                      {lastActive(session.lastSeenAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revokeSessionMutation.mutate(session.id)}
+                    disabled={revokeSessionMutation.isPending}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {devices?.map((device) => (
+              <div key={device.id} className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Smartphone className="h-5 w-5 text-gray-500" />
+                  <div>
+                    <p className="text-sm font-medium">{device.deviceName || "Mobile app"}</p>
+                    <p className="text-xs text-gray-600">
+                      {device.ipAddress && `${device.ipAddress} · `}
+                      {lastActive(device.lastUsedAt)}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeDeviceMutation.mutate(device.id)}
+                  disabled={revokeDeviceMutation.isPending}
+                >
+                  Sign out
+                </Button>
+              </div>
+            ))}
+
+            <Separator />
+
+            <div className="flex justify-end">
+              <Button
+                variant="destructive"
+                onClick={() => signOutEverywhereMutation.mutate()}
+                disabled={!hasOtherSessions || signOutEverywhereMutation.isPending}
+              >
+                {signOutEverywhereMutation.isPending ? "Signing out..." : "Sign out everywhere else"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
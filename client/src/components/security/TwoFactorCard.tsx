@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { auth } from "@/lib/auth";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  remainingRecoveryCodes: number;
+}
+
+interface TwoFactorCardProps {
+  onEnabled?: () => void;
+}
+
+export default function TwoFactorCard({ onEnabled }: TwoFactorCardProps) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<{ qrCode: string; secret: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [dialog, setDialog] = useState<"disable" | "regenerate" | null>(null);
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/two-factor"],
+    queryFn: auth.getTwoFactorStatus,
+  });
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const closeDialog = () => {
+    setDialog(null);
+    setCode("");
+    setPassword("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: auth.startTwoFactorSetup,
+    onSuccess: (data) => {
+      setSetup({ qrCode: data.qrCode, secret: data.secret });
+      setCode("");
+    },
+    onError: showError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: (value: string) => auth.enableTwoFactor(value),
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "Save your recovery codes somewhere safe",
+      });
+    },
+    onError: showError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => auth.disableTwoFactor(password, code),
+    onSuccess: () => {
+      closeDialog();
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "You will only need your password to sign in",
+      });
+    },
+    onError: showError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => auth.regenerateRecoveryCodes(code),
+    onSuccess: (data) => {
+      closeDialog();
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/two-factor"] });
+    },
+    onError: showError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Require a code from an authenticator app in addition to your password when signing in.
+          {status?.required && " Two-factor authentication is required for your role."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-10 bg-gray-200 rounded animate-pulse"></div>
+        ) : recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Each recovery code can be used once if you lose access to your authenticator app.
+              They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 p-4 rounded">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => {
+                  setRecoveryCodes(null);
+                  onEnabled?.();
+                }}
+              >
+                I have saved these codes
+              </Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Two-factor QR code" className="h-48 w-48" />
+            <p className="text-xs text-gray-600">
+              Can't scan it? Enter this key instead:{" "}
+              <span className="font-mono">{setup.secret}</span>
+            </p>
+            <div className="flex gap-2 max-w-sm">
+              <Input
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+              <Button
+                onClick={() => enableMutation.mutate(code)}
+                disabled={code.length < 6 || enableMutation.isPending}
+              >
+                {enableMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+            </div>
+          </div>
+        ) : status?.enabled ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {status.remainingRecoveryCodes} recovery codes remaining
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setDialog("regenerate")}>
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" onClick={() => setDialog("disable")}>
+                  Disable
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-end">
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              {setupMutation.isPending ? "Preparing..." : "Set up two-factor authentication"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === "disable"
+                ? "Disable Two-Factor Authentication"
+                : "Generate New Recovery Codes"}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog === "disable"
+                ? "Confirm your password and a code from your authenticator app."
+                : "Your existing recovery codes will stop working."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {dialog === "disable" && (
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-password">Password</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Authentication code</Label>
+              <Input
+                id="two-factor-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            {dialog === "disable" ? (
+              <Button
+                variant="destructive"
+                onClick={() => disableMutation.mutate()}
+                disabled={!password || !code || disableMutation.isPending}
+              >
+                Disable
+              </Button>
+            ) : (
+              <Button
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!code || regenerateMutation.isPending}
+              >
+                Generate
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
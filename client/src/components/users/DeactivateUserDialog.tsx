@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, UserX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { usersApi } from "@/lib/api";
+
+interface OffboardingDetails {
+  authored: { opportunities: number; newsPosts: number };
+  reassignTo: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+    roleName: string;
+  }[];
+}
+
+interface DeactivateUserDialogProps {
+  user: { id: number; firstName: string; lastName: string } | null;
+  onClose: () => void;
+}
+
+export default function DeactivateUserDialog({ user, onClose }: DeactivateUserDialogProps) {
+  const { toast } = useToast();
+  const [reassignToId, setReassignToId] = useState<number | undefined>();
+  const [reason, setReason] = useState("");
+
+  const { data: details, isLoading, error } = useQuery<OffboardingDetails>({
+    queryKey: ["/api/users", user?.id, "offboarding"],
+    queryFn: () => usersApi.getOffboarding(user!.id),
+    enabled: !!user,
+    retry: false,
+  });
+
+  const close = () => {
+    setReassignToId(undefined);
+    setReason("");
+    onClose();
+  };
+
+  const deactivateMutation = useMutation({
+    mutationFn: () =>
+      usersApi.deactivate(user!.id, {
+        reassignToId: reassignToId ?? null,
+        reason: reason.trim() || undefined,
+      }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/school"] });
+      toast({ title: "User deactivated", description: result.message });
+      close();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to deactivate user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasAuthored =
+    !!details && (details.authored.opportunities > 0 || details.authored.newsPosts > 0);
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Deactivate {user?.firstName} {user?.lastName}
+          </DialogTitle>
+          <DialogDescription>
+            They are signed out everywhere and can no longer sign in. Their registrations
+            and attendance history are kept, and you can reactivate the account later.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to load offboarding details"}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {hasAuthored ? (
+              <div className="space-y-2">
+                <Label>Hand over their content to</Label>
+                <p className="text-xs text-muted-foreground">
+                  {details!.authored.opportunities} opportunities and{" "}
+                  {details!.authored.newsPosts} news posts will move to this person.
+                </p>
+                <Select
+                  value={reassignToId ? String(reassignToId) : undefined}
+                  onValueChange={(value) => setReassignToId(parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select staff member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {details!.reassignTo.map((staff) => (
+                      <SelectItem key={staff.id} value={String(staff.id)}>
+                        {staff.firstName} {staff.lastName} ({staff.roleName})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                They haven't authored any opportunities or news posts.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="deactivation-reason">Reason (optional)</Label>
+              <Textarea
+                id="deactivation-reason"
+                placeholder="e.g. Left the school in July"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => deactivateMutation.mutate()}
+            disabled={
+              !details || (hasAuthored && !reassignToId) || deactivateMutation.isPending
+            }
+          >
+            {deactivateMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <UserX className="h-4 w-4 mr-2" />
+            )}
+            Deactivate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, ShieldX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { usersApi } from "@/lib/api";
+
+type ErasureAction = "anonymise" | "delete" | "keep";
+
+interface ErasurePreview {
+  policy: Record<string, { action: ErasureAction; description: string }>;
+  counts: Record<string, number>;
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  profile: "Profile",
+  preferences: "Preferences",
+  interests: "Registrations",
+  formRequests: "Form requests",
+  guardianLinks: "Guardian links",
+  documents: "Documents",
+  signInData: "Sign-in data",
+};
+
+const ACTION_STYLES: Record<ErasureAction, string> = {
+  anonymise: "bg-amber-50 text-amber-700 border-amber-200",
+  delete: "bg-red-50 text-red-700 border-red-200",
+  keep: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+interface EraseUserDialogProps {
+  user: { id: number; email: string; firstName: string; lastName: string } | null;
+  onClose: () => void;
+}
+
+export default function EraseUserDialog({ user, onClose }: EraseUserDialogProps) {
+  const { toast } = useToast();
+  const [confirmEmail, setConfirmEmail] = useState("");
+
+  const { data: preview, isLoading, error } = useQuery<ErasurePreview>({
+    queryKey: ["/api/users", user?.id, "erasure"],
+    queryFn: () => usersApi.getErasurePreview(user!.id),
+    enabled: !!user,
+    retry: false,
+  });
+
+  const close = () => {
+    setConfirmEmail("");
+    onClose();
+  };
+
+  const eraseMutation = useMutation({
+    mutationFn: () => usersApi.erase(user!.id, confirmEmail.trim()),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/school"] });
+      toast({ title: "User erased", description: result.message });
+      close();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to erase user",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const emailMatches =
+    !!user && confirmEmail.trim().toLowerCase() === user.email.toLowerCase();
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            Erase {user?.firstName} {user?.lastName}
+          </DialogTitle>
+          <DialogDescription>
+            Erasure can't be undone. The account is deactivated and its personal data
+            anonymised or deleted as below. Report totals are not affected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to preview erasure"}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {Object.entries(preview?.policy || {}).map(([category, rule]) => (
+              <div key={category} className="flex items-start justify-between border rounded p-2">
+                <div className="pr-2">
+                  <p className="font-medium text-sm">
+                    {CATEGORY_LABELS[category] ?? category}
+                    <span className="text-muted-foreground font-normal">
+                      {" "}
+                      ({preview?.counts[category] ?? 0})
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">{rule.description}</p>
+                </div>
+                <Badge variant="outline" className={ACTION_STYLES[rule.action]}>
+                  {rule.action}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="erase-confirm-email">
+            Type <span className="font-mono">{user?.email}</span> to confirm
+          </Label>
+          <Input
+            id="erase-confirm-email"
+            value={confirmEmail}
+            onChange={(e) => setConfirmEmail(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => eraseMutation.mutate()}
+            disabled={!preview || !emailMatches || eraseMutation.isPending}
+          >
+            {eraseMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldX className="h-4 w-4 mr-2" />
+            )}
+            Erase User
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
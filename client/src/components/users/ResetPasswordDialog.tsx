@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeyRound, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { usersApi } from "@/lib/api";
+import PasswordStrengthMeter from "@/components/security/PasswordStrengthMeter";
+
+interface ResetPasswordDialogProps {
+  user: { id: number; firstName: string; lastName: string } | null;
+  onClose: () => void;
+}
+
+export default function ResetPasswordDialog({ user, onClose }: ResetPasswordDialogProps) {
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const close = () => {
+    setPassword("");
+    setConfirmPassword("");
+    onClose();
+  };
+
+  const resetMutation = useMutation({
+    mutationFn: () => usersApi.resetPassword(user!.id, { password, confirmPassword }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/school"] });
+      toast({ title: "Password reset", description: result.message });
+      close();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const passwordsMatch = password === confirmPassword;
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Reset password for {user?.firstName} {user?.lastName}
+          </DialogTitle>
+          <DialogDescription>
+            Set a temporary password and share it with them. They are signed out
+            everywhere and must choose their own password when they next sign in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="temporary-password">Temporary password</Label>
+            <Input
+              id="temporary-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <PasswordStrengthMeter password={password} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="confirm-temporary-password">Confirm password</Label>
+            <Input
+              id="confirm-temporary-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+            {confirmPassword && !passwordsMatch && (
+              <p className="text-xs text-destructive">Passwords do not match</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => resetMutation.mutate()}
+            disabled={!password || !passwordsMatch || resetMutation.isPending}
+          >
+            {resetMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <KeyRound className="h-4 w-4 mr-2" />
+            )}
+            Reset Password
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
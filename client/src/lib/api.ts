@@ -1,16 +1,107 @@
 import { apiRequest } from "./queryClient";
 
 // Opportunities
+export type OpportunitySort =
+  | "relevance"
+  | "newest"
+  | "deadline"
+  | "popular"
+  | "closest";
+
+export type OpportunityStatus =
+  | "draft"
+  | "pending_review"
+  | "scheduled"
+  | "published"
+  | "closed"
+  | "archived";
+
+export type OpportunityTransition =
+  | "submit"
+  | "withdraw"
+  | "close"
+  | "reopen"
+  | "archive";
+
+export interface OpportunityListParams {
+  q?: string;
+  status?: OpportunityStatus[];
+  industry?: string[];
+  opportunityType?: string[];
+  ageGroup?: string[];
+  location?: string;
+  startDate?: string;
+  endDate?: string;
+  ethnicityFocus?: string;
+  genderFocus?: string;
+  isVirtual?: boolean;
+  createdById?: number;
+  sort?: OpportunitySort;
+  lat?: number;
+  lng?: number;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface OpportunityFacets {
+  industry: FacetCount[];
+  opportunityType: FacetCount[];
+  ageGroup: FacetCount[];
+  format: { virtual: number; inPerson: number };
+}
+
+export interface OpportunityPage {
+  opportunities: any[];
+  total: number;
+  nextCursor: string | null;
+  matchedBy: "text" | "similarity" | null;
+  facets: OpportunityFacets;
+}
+
+const toOpportunityQuery = (params: OpportunityListParams) => {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((v) => searchParams.append(key, v));
+    } else if (value !== undefined && value !== "") {
+      searchParams.append(key, String(value));
+    }
+  });
+  return searchParams.toString();
+};
+
 export const opportunitiesApi = {
-  getAll: async () => {
-    const response = await fetch("/api/opportunities", {
-      credentials: "include",
-    });
+  list: async (params: OpportunityListParams = {}): Promise<OpportunityPage> => {
+    const response = await fetch(
+      `/api/opportunities?${toOpportunityQuery(params)}`,
+      { credentials: "include" },
+    );
 
-    if (!response.ok) throw new Error("Failed to fetch opportunities");
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.message || "Failed to fetch opportunities");
+    }
     return response.json();
   },
 
+  // Every opportunity the user can see, newest first, for views that
+  // summarise them all rather than page through them
+  getAll: async () => {
+    const all: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await opportunitiesApi.list({ limit: 100, cursor });
+      all.push(...page.opportunities);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return all;
+  },
+
   getById: async (id: number) => {
     const response = await fetch(`/api/opportunities/${id}`, {
       credentials: "include",
@@ -38,42 +129,62 @@ export const opportunitiesApi = {
     return response.json();
   },
 
-  search: async (query: string, filters?: any) => {
-    const searchParams = new URLSearchParams({ q: query });
+  // Saves a draft, or publishes it straight away when submit is set (or
+  // sends it for review if the school requires approval)
+  create: async (data: any, submit = false) => {
+    const response = await apiRequest("POST", "/api/opportunities", {
+      ...data,
+      submit,
+    });
+    return response.json();
+  },
 
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (Array.isArray(value)) {
-          value.forEach((v) => searchParams.append(key, v));
-        } else if (value) {
-          searchParams.append(key, String(value));
-        }
-      });
-    }
+  update: async (id: number, data: any) => {
+    const response = await apiRequest("PUT", `/api/opportunities/${id}`, data);
+    return response.json();
+  },
 
-    const response = await fetch(
-      `/api/opportunities/search?${searchParams.toString()}`,
-      {
-        credentials: "include",
-      },
-    );
+  delete: async (id: number) => {
+    const response = await apiRequest("DELETE", `/api/opportunities/${id}`);
+    return response.json();
+  },
 
-    if (!response.ok) throw new Error("Failed to search opportunities");
+  transition: async (id: number, transition: OpportunityTransition) => {
+    const response = await apiRequest(
+      "POST",
+      `/api/opportunities/${id}/${transition}`,
+    );
     return response.json();
   },
 
-  create: async (data: any) => {
-    const response = await apiRequest("POST", "/api/opportunities", data);
+  getReviewQueue: async () => {
+    const response = await fetch("/api/opportunities/review-queue", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch review queue");
     return response.json();
   },
 
-  update: async (id: number, data: any) => {
-    const response = await apiRequest("PUT", `/api/opportunities/${id}`, data);
+  getReviews: async (id: number) => {
+    const response = await fetch(`/api/opportunities/${id}/reviews`, {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch reviews");
     return response.json();
   },
 
-  delete: async (id: number) => {
-    const response = await apiRequest("DELETE", `/api/opportunities/${id}`);
+  review: async (
+    id: number,
+    decision: "approve" | "request_changes",
+    comment?: string,
+  ) => {
+    const response = await apiRequest(
+      "POST",
+      `/api/opportunities/${id}/review`,
+      { decision, comment },
+    );
     return response.json();
   },
 
@@ -236,18 +347,37 @@ export const schoolsApi = {
 };
 
 // Users
+export type UserImportField =
+  | "email"
+  | "username"
+  | "firstName"
+  | "lastName"
+  | "password"
+  | "role"
+  | "school";
+
+export interface UserImportOptions {
+  mapping?: Partial<Record<UserImportField, string>>;
+  roleId?: number;
+  schoolId?: number;
+  dryRun?: boolean;
+  sendInvites?: boolean;
+}
+
 export const usersApi = {
   create: async (data: any) => {
     const response = await apiRequest("POST", "/api/users", data);
     return response.json();
   },
 
-  getBySchool: async (schoolId: number, role?: string) => {
-    const url = role
-      ? `/api/users/school/${schoolId}?role=${role}`
-      : `/api/users/school/${schoolId}`;
+  // Deactivated users are only included when asked for
+  getBySchool: async (schoolId: number, role?: string, includeInactive?: boolean) => {
+    const params = new URLSearchParams();
+    if (role) params.append("role", role);
+    if (includeInactive) params.append("includeInactive", "true");
 
-    const response = await fetch(url, {
+    const query = params.toString();
+    const response = await fetch(`/api/users/school/${schoolId}${query ? `?${query}` : ""}`, {
       credentials: "include",
     });
 
@@ -269,6 +399,120 @@ export const usersApi = {
     return response.json();
   },
 
+  unlock: async (id: number) => {
+    const response = await apiRequest("POST", `/api/users/${id}/unlock`);
+    return response.json();
+  },
+
+  // Sets a temporary password the user must replace at their next sign-in
+  resetPassword: async (
+    id: number,
+    data: { password: string; confirmPassword: string },
+  ) => {
+    const response = await fetch(`/api/users/${id}/reset-password`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(data),
+    });
+
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.message || "Failed to reset password");
+    return result;
+  },
+
+  revokeSessions: async (id: number) => {
+    const response = await apiRequest("POST", `/api/users/${id}/sessions/revoke`);
+    return response.json();
+  },
+
+  // Authored content and who can take it over, for the deactivation dialog
+  getOffboarding: async (id: number) => {
+    const response = await fetch(`/api/users/${id}/offboarding`, {
+      credentials: "include",
+    });
+
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.message || "Failed to load offboarding details");
+    return data;
+  },
+
+  deactivate: async (id: number, data: { reassignToId?: number | null; reason?: string }) => {
+    const response = await apiRequest("POST", `/api/users/${id}/deactivate`, data);
+    return response.json();
+  },
+
+  reactivate: async (id: number) => {
+    const response = await apiRequest("POST", `/api/users/${id}/reactivate`);
+    return response.json();
+  },
+
+  // Downloads a ZIP of everything held about the user
+  exportData: async (id: number) => {
+    const response = await fetch(`/api/users/${id}/data-export`, {
+      credentials: "include",
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || "Failed to export user data");
+    }
+
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.style.display = "none";
+    a.href = url;
+    a.download = `user-${id}-data.zip`;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  },
+
+  getErasurePreview: async (id: number) => {
+    const response = await fetch(`/api/users/${id}/erasure`, {
+      credentials: "include",
+    });
+
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.message || "Failed to preview erasure");
+    return data;
+  },
+
+  erase: async (id: number, confirmEmail: string) => {
+    const response = await apiRequest("POST", `/api/users/${id}/erase`, { confirmEmail });
+    return response.json();
+  },
+
+  // Runs a dry run unless options.dryRun is "false"
+  import: async (file: File, options: UserImportOptions) => {
+    const data = new FormData();
+    data.append("file", file);
+    Object.entries(options).forEach(([key, value]) => {
+      if (value === undefined) return;
+      data.append(key, typeof value === "object" ? JSON.stringify(value) : String(value));
+    });
+
+    const response = await fetch("/api/users/import", {
+      method: "POST",
+      credentials: "include",
+      body: data,
+    });
+
+    const result = await response.json();
+    // A refused import still carries the report, so hand it back
+    if (!response.ok && !result.rows) {
+      throw new Error(result.message || "Failed to import users");
+    }
+    return result;
+  },
+
+  impersonate: async (id: number) => {
+    const response = await apiRequest("POST", `/api/users/${id}/impersonate`);
+    return response.json();
+  },
+
   getRoles: async () => {
     const response = await fetch("/api/user-roles", {
       credentials: "include",
@@ -279,6 +523,31 @@ export const usersApi = {
   },
 };
 
+// User Roles
+export const rolesApi = {
+  create: async (data: any) => {
+    const response = await apiRequest("POST", "/api/user-roles", data);
+    return response.json();
+  },
+
+  update: async (id: number, data: any) => {
+    const response = await apiRequest("PUT", `/api/user-roles/${id}`, data);
+    return response.json();
+  },
+
+  setRetired: async (id: number, retired: boolean) => {
+    const response = await apiRequest("POST", `/api/user-roles/${id}/retire`, {
+      retired,
+    });
+    return response.json();
+  },
+
+  delete: async (id: number) => {
+    const response = await apiRequest("DELETE", `/api/user-roles/${id}`);
+    return response.json();
+  },
+};
+
 // Student Preferences
 export const preferencesApi = {
   get: async (userId?: number) => {
@@ -489,3 +758,254 @@ export const reportsApi = {
     return response.json();
   },
 };
+
+// Registration Approvals
+export const registrationsApi = {
+  getPending: async () => {
+    const response = await fetch("/api/registrations/pending", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch pending registrations");
+    return response.json();
+  },
+
+  decide: async (
+    userIds: number[],
+    action: "approve" | "reject",
+    reason?: string,
+  ) => {
+    const response = await apiRequest("POST", "/api/registrations/decision", {
+      userIds,
+      action,
+      reason,
+    });
+    return response.json();
+  },
+};
+
+// Staff Invitations
+export const invitationsApi = {
+  // Superadmins can narrow the list to one school; others always get their own
+  getAll: async (schoolId?: number) => {
+    const url = schoolId ? `/api/invitations?schoolId=${schoolId}` : "/api/invitations";
+    const response = await fetch(url, {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch invitations");
+    return response.json();
+  },
+
+  create: async (data: { email: string; roleId: number; schoolId?: number }) => {
+    const response = await apiRequest("POST", "/api/invitations", data);
+    return response.json();
+  },
+
+  resend: async (id: number) => {
+    const response = await apiRequest("POST", `/api/invitations/${id}/resend`);
+    return response.json();
+  },
+
+  revoke: async (id: number) => {
+    const response = await apiRequest("POST", `/api/invitations/${id}/revoke`);
+    return response.json();
+  },
+};
+
+// Guardians
+export const guardiansApi = {
+  // Guardians linked to a student, plus invitations not yet accepted
+  getForStudent: async (studentId: number) => {
+    const response = await fetch(`/api/users/${studentId}/guardians`, {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch guardians");
+    return response.json();
+  },
+
+  add: async (studentId: number, data: { email: string; relationship?: string }) => {
+    const response = await apiRequest("POST", `/api/users/${studentId}/guardians`, data);
+    return response.json();
+  },
+
+  remove: async (studentId: number, guardianId: number) => {
+    const response = await apiRequest(
+      "DELETE",
+      `/api/users/${studentId}/guardians/${guardianId}`,
+    );
+    return response.json();
+  },
+
+  // For the signed-in guardian
+  getMyStudents: async () => {
+    const response = await fetch("/api/guardian/students", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch your children's activity");
+    return response.json();
+  },
+
+  decideConsent: async (
+    interestId: number,
+    decision: "approved" | "declined",
+    note?: string,
+  ) => {
+    const response = await apiRequest("POST", "/api/guardian/consents", {
+      interestId,
+      decision,
+      note,
+    });
+    return response.json();
+  },
+};
+
+// System Settings
+export const settingsApi = {
+  getAll: async () => {
+    const response = await fetch("/api/settings", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch settings");
+    return response.json();
+  },
+
+  set: async (key: string, value: string) => {
+    const response = await apiRequest("POST", "/api/settings", { key, value });
+    return response.json();
+  },
+
+  getPasswordPolicy: async () => {
+    const response = await fetch("/api/password-policy", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch password policy");
+    return response.json();
+  },
+
+  savePasswordPolicy: async (policy: unknown) => {
+    const response = await apiRequest("PUT", "/api/password-policy", policy);
+    return response.json();
+  },
+};
+
+// Roster Sync
+export const rosterSyncApi = {
+  // Accepts a OneRoster zip or the individual CSV files
+  sync: async (files: File[]) => {
+    const data = new FormData();
+    files.forEach((file) => data.append("files", file));
+
+    const response = await fetch("/api/roster-sync", {
+      method: "POST",
+      credentials: "include",
+      body: data,
+    });
+
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.message || "Failed to sync roster");
+    return result;
+  },
+
+  getRuns: async () => {
+    const response = await fetch("/api/roster-sync/runs", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch sync history");
+    return response.json();
+  },
+
+  getRun: async (id: number) => {
+    const response = await fetch(`/api/roster-sync/runs/${id}`, {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch sync run");
+    return response.json();
+  },
+};
+
+// Data Retention
+export const retentionApi = {
+  getRules: async () => {
+    const response = await fetch("/api/retention/rules", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch retention rules");
+    return response.json();
+  },
+
+  saveRules: async (rules: unknown) => {
+    const response = await apiRequest("PUT", "/api/retention/rules", rules);
+    return response.json();
+  },
+
+  // Shows what the given rules would remove, without saving or removing anything
+  preview: async (rules: unknown) => {
+    const response = await apiRequest("POST", "/api/retention/preview", rules);
+    return response.json();
+  },
+
+  run: async () => {
+    const response = await apiRequest("POST", "/api/retention/runs");
+    return response.json();
+  },
+
+  getRuns: async () => {
+    const response = await fetch("/api/retention/runs", {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch purge history");
+    return response.json();
+  },
+
+  getRun: async (id: number) => {
+    const response = await fetch(`/api/retention/runs/${id}`, {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch purge run");
+    return response.json();
+  },
+};
+
+// Audit Log
+export interface AuditLogFilters {
+  actorId?: number;
+  schoolId?: number;
+  entityType?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+const toAuditQuery = (filters: AuditLogFilters) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.append(key, String(value));
+  });
+  return params.toString();
+};
+
+export const auditLogsApi = {
+  getAll: async (filters: AuditLogFilters = {}) => {
+    const response = await fetch(`/api/audit-logs?${toAuditQuery(filters)}`, {
+      credentials: "include",
+    });
+
+    if (!response.ok) throw new Error("Failed to fetch audit log");
+    return response.json();
+  },
+
+  getExportUrl: (filters: AuditLogFilters = {}) =>
+    `/api/audit-logs/export?${toAuditQuery(filters)}`,
+};
@@ -16,6 +16,35 @@ interface RegisterData {
   role?: string; // Adding role field
 }
 
+interface AcceptInvitationData {
+  token: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  password: string;
+  confirmPassword: string;
+}
+
+// POST helper that surfaces the server's error message
+async function postJson(url: string, body: unknown, fallbackError: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    credentials: 'include',
+  });
+  
+  const data = await response.json();
+  
+  if (!response.ok) {
+    throw new Error(data.message || fallbackError);
+  }
+  
+  return data;
+}
+
 export const auth = {
   login: async (credentials: LoginCredentials) => {
     try {
@@ -50,10 +79,11 @@ export const auth = {
     return response.json();
   },
   
+  // Only students register themselves; staff accounts come from invitations
   register: async (userData: RegisterData) => {
     try {
       console.log('Sending registration data:', userData);
-      const response = await fetch('/api/auth/register/teacher', {
+      const response = await fetch('/api/auth/register/student', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -67,7 +97,14 @@ export const auth = {
       console.log('Registration response text:', responseText);
       
       if (!response.ok) {
-        throw new Error(`Registration failed: ${response.status} - ${responseText}`);
+        // Password policy and duplicate checks explain themselves in `message`
+        let message = `Registration failed: ${response.status}`;
+        try {
+          message = JSON.parse(responseText).message || message;
+        } catch {
+          // Not JSON; keep the status
+        }
+        throw new Error(message);
       }
       
       // Try to parse JSON only if there's content
@@ -78,6 +115,189 @@ export const auth = {
     }
   },
   
+  verifyEmail: async (token: string) => {
+    const response = await fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+      credentials: 'include',
+    });
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to verify email address');
+    }
+    
+    return data;
+  },
+  
+  resendVerification: async (email: string) => {
+    const response = await apiRequest('POST', '/api/auth/resend-verification', { email });
+    return response.json();
+  },
+  
+  requestPasswordReset: async (email: string) => {
+    const response = await apiRequest('POST', '/api/auth/forgot-password', { email });
+    return response.json();
+  },
+  
+  resetPassword: async (token: string, password: string, confirmPassword: string) => {
+    const response = await fetch('/api/auth/reset-password', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token, password, confirmPassword }),
+      credentials: 'include',
+    });
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to reset password');
+    }
+    
+    return data;
+  },
+  
+  getPasswordPolicy: async () => {
+    const response = await fetch('/api/auth/password-policy', {
+      credentials: 'include',
+    });
+    
+    if (!response.ok) throw new Error('Failed to fetch password policy');
+    return response.json();
+  },
+  
+  // Breached password hashes sharing the given SHA-1 prefix
+  getBreachedRange: async (prefix: string): Promise<string[]> => {
+    const response = await fetch(`/api/auth/password-policy/breached/${prefix}`, {
+      credentials: 'include',
+    });
+    
+    if (!response.ok) throw new Error('Failed to check password');
+    const data = await response.json();
+    return data.suffixes;
+  },
+  
+  changePassword: async (data: {
+    currentPassword: string;
+    password: string;
+    confirmPassword: string;
+  }) => {
+    return postJson('/api/auth/change-password', data, 'Failed to change password');
+  },
+  
+  getInvitation: async (token: string) => {
+    const response = await fetch(`/api/invitations/accept/${encodeURIComponent(token)}`, {
+      credentials: 'include',
+    });
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to load invitation');
+    }
+    
+    return data;
+  },
+  
+  acceptInvitation: async (data: AcceptInvitationData) => {
+    return postJson('/api/invitations/accept', data, 'Failed to accept invitation');
+  },
+  
+  getConsentRequest: async (token: string) => {
+    const response = await fetch(`/api/guardian/consent-links/${encodeURIComponent(token)}`, {
+      credentials: 'include',
+    });
+    
+    const data = await response.json();
+    
+    if (!response.ok) {
+      throw new Error(data.message || 'Failed to load consent request');
+    }
+    
+    return data;
+  },
+  
+  decideConsentByLink: async (data: {
+    token: string;
+    decision: 'approved' | 'declined';
+    note?: string;
+  }) => {
+    return postJson('/api/guardian/consent-links', data, 'Failed to record consent');
+  },
+  
+  verifyTwoFactor: async (payload: { code?: string; recoveryCode?: string }) => {
+    return postJson('/api/auth/login/two-factor', payload, 'Invalid authentication code');
+  },
+  
+  getTwoFactorStatus: async () => {
+    const response = await fetch('/api/auth/two-factor', {
+      credentials: 'include',
+    });
+    
+    if (!response.ok) throw new Error('Failed to fetch two-factor status');
+    return response.json();
+  },
+  
+  startTwoFactorSetup: async () => {
+    return postJson('/api/auth/two-factor/setup', {}, 'Failed to start two-factor setup');
+  },
+  
+  enableTwoFactor: async (code: string) => {
+    return postJson('/api/auth/two-factor/enable', { code }, 'Failed to enable two-factor authentication');
+  },
+  
+  disableTwoFactor: async (password: string, code: string) => {
+    return postJson('/api/auth/two-factor/disable', { password, code }, 'Failed to disable two-factor authentication');
+  },
+  
+  regenerateRecoveryCodes: async (code: string) => {
+    return postJson('/api/auth/two-factor/recovery-codes', { code }, 'Failed to generate recovery codes');
+  },
+  
+  getDevices: async () => {
+    const response = await fetch('/api/auth/devices', {
+      credentials: 'include',
+    });
+    
+    if (!response.ok) throw new Error('Failed to fetch devices');
+    return response.json();
+  },
+  
+  revokeDevice: async (id: number) => {
+    const response = await apiRequest('DELETE', `/api/auth/devices/${id}`);
+    return response.json();
+  },
+  
+  getSessions: async () => {
+    const response = await fetch('/api/auth/sessions', {
+      credentials: 'include',
+    });
+    
+    if (!response.ok) throw new Error('Failed to fetch sessions');
+    return response.json();
+  },
+  
+  revokeSession: async (id: string) => {
+    const response = await apiRequest('DELETE', `/api/auth/sessions/${id}`);
+    return response.json();
+  },
+  
+  signOutEverywhere: async () => {
+    const response = await apiRequest('POST', '/api/auth/sessions/sign-out-everywhere');
+    return response.json();
+  },
+
+  stopImpersonation: async () => {
+    const response = await apiRequest('POST', '/api/auth/impersonation/stop');
+    return response.json();
+  },
+  
   getCurrentUser: async () => {
     const response = await fetch('/api/auth/current-user', {
       credentials: 'include',
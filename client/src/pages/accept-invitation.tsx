@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { auth } from "@/lib/auth";
+import PasswordStrengthMeter from "@/components/security/PasswordStrengthMeter";
+
+const acceptInvitationSchema = z
+  .object({
+    firstName: z.string().min(1, { message: "First name is required" }),
+    lastName: z.string().min(1, { message: "Last name is required" }),
+    username: z
+      .string()
+      .min(3, { message: "Username must be at least 3 characters long" }),
+    password: z
+      .string()
+      .min(8, { message: "Password must be at least 8 characters long" }),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type AcceptInvitationFormValues = z.infer<typeof acceptInvitationSchema>;
+
+interface InvitationDetails {
+  email: string;
+  roleName: string;
+  schoolName: string;
+  expiresAt: string;
+}
+
+export default function AcceptInvitation() {
+  const [loading, setLoading] = useState(false);
+  const [accepted, setAccepted] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  // Token comes from the link in the invitation email
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: ["/api/invitations/accept", token],
+    queryFn: () => auth.getInvitation(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<AcceptInvitationFormValues>({
+    resolver: zodResolver(acceptInvitationSchema),
+    defaultValues: {
+      firstName: "",
+      lastName: "",
+      username: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async (values: AcceptInvitationFormValues) => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      await auth.acceptInvitation({ token, ...values });
+      setAccepted(true);
+    } catch (error) {
+      console.error("Accept invitation error:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to create your account. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!token || error) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">
+            {error instanceof Error
+              ? error.message
+              : "This invitation link is invalid."}{" "}
+            Ask your school administrator to send you a new invitation.
+          </p>
+          <Button className="mt-4" onClick={() => setLocation("/login")}>
+            Return to login
+          </Button>
+        </div>
+      );
+    }
+
+    if (isLoading || !invitation) {
+      return (
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      );
+    }
+
+    if (accepted) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">
+            Your account has been created. You can now sign in as {invitation.email}.
+          </p>
+          <Button className="mt-4" onClick={() => setLocation("/login")}>
+            Go to login
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormItem>
+            <FormLabel>Email</FormLabel>
+            <Input value={invitation.email} disabled />
+          </FormItem>
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="firstName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>First Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="John" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="lastName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Last Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Doe" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="username"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Username</FormLabel>
+                <FormControl>
+                  <Input placeholder="johndoe" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Password</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <PasswordStrengthMeter password={field.value} />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm Password</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Creating account..." : "Create account"}
+          </Button>
+        </form>
+      </Form>
+    );
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50 py-8">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Accept Invitation</CardTitle>
+          <CardDescription>
+            {invitation
+              ? `You've been invited to join ${invitation.schoolName} as a ${invitation.roleName}`
+              : "Create your account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
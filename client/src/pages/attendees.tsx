@@ -24,6 +24,39 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Download, FileSpreadsheet, Users } from "lucide-react";
 
+type ConsentState = "not_required" | "pending" | "approved" | "declined";
+
+type Attendee = User & {
+  registrationDate?: string;
+  status?: string;
+  consentState: ConsentState;
+  waitlistPosition?: number | null;
+};
+
+const CONSENT_BADGES: Record<ConsentState, { label: string; className: string }> = {
+  not_required: {
+    label: "Registered",
+    className: "bg-green-50 text-green-700 hover:bg-green-50 hover:text-green-700",
+  },
+  approved: {
+    label: "Consent given",
+    className: "bg-green-50 text-green-700 hover:bg-green-50 hover:text-green-700",
+  },
+  pending: {
+    label: "Awaiting consent",
+    className: "bg-amber-50 text-amber-700 hover:bg-amber-50 hover:text-amber-700",
+  },
+  declined: {
+    label: "Consent declined",
+    className: "bg-red-50 text-red-700 hover:bg-red-50 hover:text-red-700",
+  },
+};
+
+// Waitlisted students and those without a guardian's consent are never exported
+const isExportable = (attendee: Attendee) =>
+  !attendee.waitlistPosition &&
+  (attendee.consentState === "not_required" || attendee.consentState === "approved");
+
 export default function AttendeesPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -47,19 +80,29 @@ export default function AttendeesPage() {
   );
 
   // Fetch attendees for selected opportunity
-  const { data: attendees, isLoading: isLoadingAttendees } = useQuery({
+  const { data: attendees, isLoading: isLoadingAttendees } = useQuery<Attendee[]>({
     queryKey: ["/api/student-interests/opportunity", selectedOpportunity],
     queryFn: () =>
       opportunitiesApi.getInterestedStudents(parseInt(selectedOpportunity!)),
     enabled: !!selectedOpportunity,
   });
 
+  const exportableAttendees = attendees?.filter(isExportable) ?? [];
+  const waitlistedCount =
+    attendees?.filter((attendee) => attendee.waitlistPosition).length ?? 0;
+  const unconsentedCount =
+    (attendees?.length ?? 0) - exportableAttendees.length - waitlistedCount;
+
   // Function to download attendee list as CSV
   const downloadAttendeeList = () => {
-    if (!attendees || attendees.length === 0) {
+    if (exportableAttendees.length === 0) {
       toast({
         title: "No attendees to download",
-        description: "There are no registered students for this opportunity.",
+        description: unconsentedCount
+          ? "Every registered student is still waiting on guardian consent."
+          : waitlistedCount
+            ? "Every student is still on the waitlist."
+            : "There are no registered students for this opportunity.",
         variant: "destructive",
       });
       return;
@@ -79,7 +122,7 @@ export default function AttendeesPage() {
       ];
       const csvContent = [
         headers.join(","),
-        ...attendees.map((student: User & { registrationDate?: string }) =>
+        ...exportableAttendees.map((student) =>
           [
             student.id,
             student.firstName,
@@ -189,7 +232,7 @@ export default function AttendeesPage() {
                       variant="outline"
                       size="sm"
                       onClick={downloadAttendeeList}
-                      disabled={isLoadingAttendees || !attendees?.length}
+                      disabled={isLoadingAttendees || !exportableAttendees.length}
                     >
                       <Download className="h-4 w-4 mr-2" />
                       <span>Download CSV</span>
@@ -224,10 +267,7 @@ export default function AttendeesPage() {
 
                       <div className="divide-y">
                         {attendees.map(
-                          (
-                            student: User & { registrationDate?: string },
-                            index: number,
-                          ) => (
+                          (student, index) => (
                             <div
                               key={student.id}
                               className="grid grid-cols-12 p-3 hover:bg-muted/50"
@@ -249,12 +289,21 @@ export default function AttendeesPage() {
                                   : "Unknown"}
                               </div>
                               <div className="col-span-2">
-                                <Badge
-                                  variant="outline"
-                                  className="bg-green-50 text-green-700 hover:bg-green-50 hover:text-green-700"
-                                >
-                                  Registered
-                                </Badge>
+                                {student.waitlistPosition ? (
+                                  <Badge
+                                    variant="outline"
+                                    className="bg-slate-50 text-slate-700 hover:bg-slate-50 hover:text-slate-700"
+                                  >
+                                    Waitlisted #{student.waitlistPosition}
+                                  </Badge>
+                                ) : (
+                                  <Badge
+                                    variant="outline"
+                                    className={CONSENT_BADGES[student.consentState].className}
+                                  >
+                                    {CONSENT_BADGES[student.consentState].label}
+                                  </Badge>
+                                )}
                               </div>
                             </div>
                           ),
@@ -263,7 +312,23 @@ export default function AttendeesPage() {
                     </div>
                   )}
 
-                  {attendees?.length > 0 && (
+                  {unconsentedCount > 0 && (
+                    <p className="text-sm text-amber-700">
+                      {unconsentedCount} student
+                      {unconsentedCount === 1 ? " is" : "s are"} without guardian
+                      consent and will be left out of the export.
+                    </p>
+                  )}
+
+                  {waitlistedCount > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {waitlistedCount} student
+                      {waitlistedCount === 1 ? " is" : "s are"} on the waitlist
+                      and will be left out of the export.
+                    </p>
+                  )}
+
+                  {!!attendees?.length && (
                     <div className="flex justify-between items-center text-sm text-muted-foreground">
                       <div>
                         <span>Total registered: </span>
@@ -275,6 +340,7 @@ export default function AttendeesPage() {
                         variant="outline"
                         size="sm"
                         onClick={downloadAttendeeList}
+                        disabled={!exportableAttendees.length}
                       >
                         <FileSpreadsheet className="h-4 w-4 mr-2" />
                         <span>Export to CSV</span>
@@ -0,0 +1,323 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/providers/AuthProvider";
+import { can } from "@shared/policy";
+import { auditLogsApi, schoolsApi, type AuditLogFilters } from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { format } from "date-fns";
+
+interface AuditLogEntry {
+  id: number;
+  actorId: number | null;
+  actorFirstName: string | null;
+  actorLastName: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  schoolId: number | null;
+  schoolName: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+const ENTITY_TYPES = [
+  "opportunity",
+  "document",
+  "news",
+  "user",
+  "role",
+  "school",
+  "setting",
+];
+
+const PAGE_SIZE = 50;
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? "—"
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+export default function AuditLog() {
+  const { user } = useAuth();
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const canSeeAllSchools = can(user, "school:manage");
+
+  // The "to" date should include everything that happened on that day
+  const queryFilters = {
+    ...filters,
+    to: filters.to && `${filters.to}T23:59:59.999`,
+  };
+
+  const { data, isLoading } = useQuery<{ entries: AuditLogEntry[]; total: number }>({
+    queryKey: ["/api/audit-logs", filters, page],
+    queryFn: () =>
+      auditLogsApi.getAll({ ...queryFilters, page, pageSize: PAGE_SIZE }),
+  });
+
+  const { data: schools } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ["/api/schools"],
+    queryFn: schoolsApi.getAll,
+    enabled: canSeeAllSchools,
+  });
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string | number | undefined) => {
+    setFilters((current) => ({ ...current, [key]: value || undefined }));
+    setPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil((data?.total || 0) / PAGE_SIZE));
+
+  return (
+    <div>
+      <PageHeader
+        title="Audit Log"
+        description={
+          canSeeAllSchools
+            ? "Every administrative and data-changing action across all schools"
+            : "Every administrative and data-changing action in your school"
+        }
+      />
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <Select
+                value={filters.entityType || "all"}
+                onValueChange={(value) =>
+                  updateFilter("entityType", value === "all" ? undefined : value)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All entities" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {ENTITY_TYPES.map((entityType) => (
+                    <SelectItem key={entityType} value={entityType}>
+                      {entityType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-action">Action</Label>
+              <Input
+                id="audit-action"
+                placeholder="e.g. delete"
+                value={filters.action || ""}
+                onChange={(e) => updateFilter("action", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from || ""}
+                onChange={(e) => updateFilter("from", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to || ""}
+                onChange={(e) => updateFilter("to", e.target.value)}
+              />
+            </div>
+            {canSeeAllSchools && (
+              <div className="space-y-2">
+                <Label>School</Label>
+                <Select
+                  value={filters.schoolId ? String(filters.schoolId) : "all"}
+                  onValueChange={(value) =>
+                    updateFilter("schoolId", value === "all" ? undefined : parseInt(value))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All schools" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All schools</SelectItem>
+                    {schools?.map((school) => (
+                      <SelectItem key={school.id} value={String(school.id)}>
+                        {school.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>
+            {data ? `${data.total} entr${data.total === 1 ? "y" : "ies"}` : "Entries"}
+          </CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <a href={auditLogsApi.getExportUrl(queryFilters)} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : !data?.entries.length ? (
+            <p className="text-center text-muted-foreground py-8">
+              No audit entries match these filters
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  {canSeeAllSchools && <TableHead>School</TableHead>}
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.entries.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className={entry.changes ? "cursor-pointer" : undefined}
+                      onClick={() =>
+                        entry.changes &&
+                        setExpandedId(expandedId === entry.id ? null : entry.id)
+                      }
+                    >
+                      <TableCell>
+                        {entry.changes &&
+                          (expandedId === entry.id ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          ))}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        {entry.actorId ? (
+                          <>
+                            {entry.actorFirstName} {entry.actorLastName}
+                            <div className="text-xs text-muted-foreground">
+                              {entry.actorEmail}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">System</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {entry.entityType}
+                        {entry.entityId && ` #${entry.entityId}`}
+                      </TableCell>
+                      {canSeeAllSchools && <TableCell>{entry.schoolName || "-"}</TableCell>}
+                      <TableCell>{entry.ipAddress || "-"}</TableCell>
+                    </TableRow>
+                    {expandedId === entry.id && entry.changes && (
+                      <TableRow>
+                        <TableCell></TableCell>
+                        <TableCell colSpan={canSeeAllSchools ? 6 : 5}>
+                          <div className="grid grid-cols-3 gap-2 text-xs font-mono">
+                            <span className="font-semibold">Field</span>
+                            <span className="font-semibold">Before</span>
+                            <span className="font-semibold">After</span>
+                            {Object.entries(entry.changes).map(([field, change]) => (
+                              <Fragment key={field}>
+                                <span>{field}</span>
+                                <span className="break-all text-red-700">
+                                  {formatValue(change.from)}
+                                </span>
+                                <span className="break-all text-green-700">
+                                  {formatValue(change.to)}
+                                </span>
+                              </Fragment>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/providers/AuthProvider";
+import PasswordCard from "@/components/security/PasswordCard";
+
+// Shown after login when an admin has reset the password or it has expired
+export default function ChangePassword() {
+  const { user, isLoading, refreshUser, logout } = useAuth();
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      setLocation("/login");
+    }
+  }, [isLoading, user, setLocation]);
+
+  const handleChanged = async () => {
+    await refreshUser();
+    setLocation("/dashboard");
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50">
+      <div className="w-full max-w-xl space-y-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold">Choose a New Password</h1>
+          <p className="text-muted-foreground">
+            Your password was reset by an administrator or has expired. Choose a new one
+            to continue.
+          </p>
+        </div>
+
+        {user && (
+          <PasswordCard
+            description="Enter the password you signed in with, then choose your own."
+            onChanged={handleChanged}
+          />
+        )}
+
+        <div className="text-center">
+          <Button variant="link" onClick={logout}>
+            Sign out
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,477 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { retentionApi } from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ChevronDown, ChevronRight, Eye, Loader2, Save, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface RetentionRules {
+  opportunities: { enabled: boolean; days: number; action: "archive" | "delete" };
+  inactiveStudents: { enabled: boolean; days: number; action: "anonymise" | "delete" };
+  formRequests: { enabled: boolean; days: number };
+  orphanedFiles: { enabled: boolean; days: number };
+}
+
+type RetentionRule = keyof RetentionRules;
+
+interface RetentionItem {
+  rule: RetentionRule;
+  id: number | string;
+  label: string;
+  date: string | null;
+}
+
+interface RetentionPreview {
+  counts: Record<RetentionRule, number>;
+  items: Record<RetentionRule, RetentionItem[]>;
+}
+
+interface RetentionRun {
+  id: number;
+  trigger: "manual" | "schedule";
+  status: "running" | "success" | "failed";
+  summary: { counts: Record<RetentionRule, number>; warnings: string[] } | null;
+  error: string | null;
+  triggeredByFirstName?: string | null;
+  triggeredByLastName?: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+const RULES: {
+  key: RetentionRule;
+  title: string;
+  description: string;
+  actions?: { value: string; label: string }[];
+}[] = [
+  {
+    key: "opportunities",
+    title: "Past opportunities",
+    description: "Days after the opportunity's end date",
+    actions: [
+      { value: "archive", label: "Archive (hide from students)" },
+      { value: "delete", label: "Delete with registrations and documents" },
+    ],
+  },
+  {
+    key: "inactiveStudents",
+    title: "Inactive students",
+    description: "Days since the student last signed in",
+    actions: [
+      { value: "anonymise", label: "Anonymise (keeps report counts)" },
+      { value: "delete", label: "Delete the account" },
+    ],
+  },
+  {
+    key: "formRequests",
+    title: "Form requests",
+    description: "Days after the request was made",
+  },
+  {
+    key: "orphanedFiles",
+    title: "Orphaned files",
+    description: "Days since an uploaded file no document uses was written",
+  },
+];
+
+const STATUS_STYLES: Record<RetentionRun["status"], string> = {
+  running: "bg-blue-50 text-blue-700 border-blue-200",
+  success: "bg-green-50 text-green-700 border-green-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+function RunRemovals({ runId }: { runId: number }) {
+  const { data: run, isLoading } = useQuery<RetentionRun & { removed: RetentionItem[] | null }>({
+    queryKey: ["/api/retention/runs", runId],
+    queryFn: () => retentionApi.getRun(runId),
+  });
+
+  if (isLoading) return <Skeleton className="h-12 w-full" />;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {run?.summary?.warnings.length ? (
+        <ul className="list-disc pl-5 text-amber-700">
+          {run.summary.warnings.map((warning, index) => (
+            <li key={index}>{warning}</li>
+          ))}
+        </ul>
+      ) : null}
+      {run?.error && <p className="text-destructive">{run.error}</p>}
+      {!run?.removed?.length ? (
+        run?.status === "success" && (
+          <p className="text-muted-foreground">Nothing had passed its retention period.</p>
+        )
+      ) : (
+        <div className="grid grid-cols-[auto_1fr_auto] gap-x-4 gap-y-1 font-mono text-xs">
+          {run.removed.map((item, index) => (
+            <Fragment key={index}>
+              <span>{item.rule}</span>
+              <span className="break-all">{item.label}</span>
+              <span>{item.date ? format(new Date(item.date), "yyyy-MM-dd") : ""}</span>
+            </Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function DataRetention() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rules, setRules] = useState<RetentionRules | null>(null);
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: saved, isLoading: isLoadingRules } = useQuery<{ rules: RetentionRules }>({
+    queryKey: ["/api/retention/rules"],
+    queryFn: retentionApi.getRules,
+  });
+
+  const { data: runs, isLoading: isLoadingRuns } = useQuery<RetentionRun[]>({
+    queryKey: ["/api/retention/runs"],
+    queryFn: retentionApi.getRuns,
+  });
+
+  useEffect(() => {
+    if (saved) setRules(saved.rules);
+  }, [saved]);
+
+  const isDirty = !!rules && JSON.stringify(rules) !== JSON.stringify(saved?.rules);
+
+  const updateRule = (key: RetentionRule, changes: Record<string, unknown>) => {
+    setRules((current) => current && { ...current, [key]: { ...current[key], ...changes } });
+    setPreview(null);
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => retentionApi.saveRules(rules),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/rules"] });
+      toast({ title: "Retention rules saved" });
+    },
+    onError: (error) => showError(error, "Failed to save retention rules"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => retentionApi.preview(rules),
+    onSuccess: (result: RetentionPreview) => setPreview(result),
+    onError: (error) => showError(error, "Failed to preview retention"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: retentionApi.run,
+    onSuccess: (run: RetentionRun) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention/runs"] });
+      setIsConfirmOpen(false);
+      setPreview(null);
+      setExpandedId(run.id);
+
+      if (run.status === "success") {
+        toast({ title: "Purge finished", description: "See the purge history for details" });
+      } else {
+        toast({
+          title: "Purge failed",
+          description: run.error || "Some data may not have been removed",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => showError(error, "Failed to run purge"),
+  });
+
+  // e.g. "archived", for the preview counts
+  const describeOutcome = (key: RetentionRule) => {
+    const action = (rules?.[key] as { action?: string } | undefined)?.action;
+    if (action === "archive") return "archived";
+    if (action === "anonymise") return "anonymised";
+    return "deleted";
+  };
+
+  const describeCounts = (counts: Record<RetentionRule, number>) =>
+    RULES.filter((rule) => counts[rule.key] > 0)
+      .map((rule) => `${counts[rule.key]} ${rule.title.toLowerCase()}`)
+      .join(", ") || "nothing removed";
+
+  return (
+    <div>
+      <PageHeader
+        title="Data Retention"
+        description="Decide how long data is kept and purge what has passed its retention period"
+      />
+
+      <Card className="mb-6">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Retention Rules</CardTitle>
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={!rules || previewMutation.isPending}
+            >
+              {previewMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Eye className="h-4 w-4 mr-2" />
+              )}
+              Preview
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isDirty || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Enabled rules are applied once a day. Every purge is logged below with what it
+            removed; students are logged by id only.
+          </p>
+          {isLoadingRules || !rules ? (
+            <Skeleton className="h-40 w-full" />
+          ) : (
+            RULES.map((rule) => (
+              <div
+                key={rule.key}
+                className="grid grid-cols-1 md:grid-cols-[auto_1fr_8rem_18rem] gap-4 items-center border rounded p-3"
+              >
+                <Switch
+                  checked={rules[rule.key].enabled}
+                  onCheckedChange={(enabled) => updateRule(rule.key, { enabled })}
+                />
+                <div>
+                  <p className="font-medium">{rule.title}</p>
+                  <p className="text-xs text-muted-foreground">{rule.description}</p>
+                  {preview && (
+                    <p className="text-xs mt-1">
+                      {preview.counts[rule.key]} would be {describeOutcome(rule.key)}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`retention-${rule.key}`} className="text-xs">
+                    Days
+                  </Label>
+                  <Input
+                    id={`retention-${rule.key}`}
+                    type="number"
+                    min={1}
+                    value={rules[rule.key].days}
+                    onChange={(e) => updateRule(rule.key, { days: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                {rule.actions ? (
+                  <Select
+                    value={(rules[rule.key] as { action: string }).action}
+                    onValueChange={(action) => updateRule(rule.key, { action })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rule.actions.map((action) => (
+                        <SelectItem key={action.value} value={action.value}>
+                          {action.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Delete</span>
+                )}
+              </div>
+            ))
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              {RULES.filter((rule) => preview.items[rule.key].length > 0).map((rule) => (
+                <div key={rule.key}>
+                  <h3 className="font-medium text-sm mb-1">
+                    {rule.title}
+                    {preview.counts[rule.key] > preview.items[rule.key].length &&
+                      ` (first ${preview.items[rule.key].length} of ${preview.counts[rule.key]})`}
+                  </h3>
+                  <div className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-xs max-h-48 overflow-y-auto">
+                    {preview.items[rule.key].map((item) => (
+                      <Fragment key={`${rule.key}-${item.id}`}>
+                        <span className="break-all">{item.label}</span>
+                        <span className="text-muted-foreground">
+                          {item.date ? format(new Date(item.date), "MMM d, yyyy") : ""}
+                        </span>
+                      </Fragment>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {RULES.every((rule) => preview.counts[rule.key] === 0) && (
+                <p className="text-sm text-muted-foreground">
+                  Nothing has passed its retention period.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="border-t pt-4 flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {isDirty
+                ? "Save your changes before purging."
+                : "Apply the saved rules now instead of waiting for the daily purge."}
+            </p>
+            <Button
+              variant="destructive"
+              onClick={() => setIsConfirmOpen(true)}
+              disabled={isDirty || runMutation.isPending}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Purge now
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purge History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoadingRuns ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : !runs?.length ? (
+            <p className="text-center text-muted-foreground py-8">No purges have run yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Removed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === run.id ? null : run.id)}
+                    >
+                      <TableCell>
+                        {expandedId === run.id ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(run.startedAt), "MMM d, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell>
+                        {run.trigger === "schedule"
+                          ? "Scheduled"
+                          : `Run by ${run.triggeredByFirstName ?? "unknown"} ${run.triggeredByLastName ?? ""}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_STYLES[run.status]}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {run.summary ? describeCounts(run.summary.counts) : "-"}
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === run.id && (
+                      <TableRow>
+                        <TableCell></TableCell>
+                        <TableCell colSpan={4}>
+                          <RunRemovals runId={run.id} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Purge now?</DialogTitle>
+            <DialogDescription>
+              Everything the enabled rules select is archived, anonymised or deleted straight
+              away. Deleted data can't be recovered. Use Preview first to see what will go.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => runMutation.mutate()}
+              disabled={runMutation.isPending}
+            >
+              {runMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Purge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
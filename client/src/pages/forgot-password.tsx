@@ -17,6 +17,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft } from "lucide-react";
+import { auth } from "@/lib/auth";
 
 const resetPasswordSchema = z.object({
   email: z.string().email({ message: "Please enter a valid email address" }),
@@ -40,14 +41,12 @@ export default function ForgotPassword() {
   const onSubmit = async (values: ResetPasswordFormValues) => {
     setLoading(true);
     try {
-      // In a real implementation, this would call an API endpoint
-      // Simulating API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await auth.requestPasswordReset(values.email);
       
-      // Show success message
+      // The server responds the same way whether or not the account exists
       toast({
-        title: "Reset email sent",
-        description: `We've sent password reset instructions to ${values.email}`,
+        title: "Check your email",
+        description: "If an account exists for that email, we've sent reset instructions",
       });
       
       setEmailSent(true);
@@ -78,8 +77,8 @@ export default function ForgotPassword() {
           {emailSent ? (
             <div className="text-center space-y-4">
               <p className="text-muted-foreground">
-                We've sent an email to <span className="font-medium">{form.getValues().email}</span> with 
-                instructions to reset your password. Please check your inbox.
+                If an account exists for <span className="font-medium">{form.getValues().email}</span>, 
+                we've sent an email with instructions to reset your password. The link expires in one hour.
               </p>
               <Button className="mt-4" onClick={() => setLocation("/login")}>
                 Return to login
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Check, CheckCircle, Loader2, X, XCircle } from "lucide-react";
+import { auth } from "@/lib/auth";
+
+type ConsentDecision = "approved" | "declined";
+
+interface ConsentRequest {
+  studentName: string;
+  opportunity: {
+    title: string;
+    organization: string;
+    location: string;
+    isVirtual: boolean | null;
+    startDate: string;
+    endDate: string;
+  };
+  decision: ConsentDecision | null;
+}
+
+export default function GuardianConsent() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [note, setNote] = useState("");
+  const [recorded, setRecorded] = useState<ConsentDecision | null>(null);
+
+  // Token and the button the guardian clicked come from the consent email
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get("token");
+  const [decision, setDecision] = useState<ConsentDecision>(
+    params.get("decision") === "declined" ? "declined" : "approved",
+  );
+
+  const { data: request, isLoading, error } = useQuery<ConsentRequest>({
+    queryKey: ["/api/guardian/consent-links", token],
+    queryFn: () => auth.getConsentRequest(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const onSubmit = async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      await auth.decideConsentByLink({ token, decision, note: note.trim() || undefined });
+      setRecorded(decision);
+    } catch (error) {
+      console.error("Guardian consent error:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to record your decision. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!token || error) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">
+            {error instanceof Error ? error.message : "This consent link is invalid."} You
+            can still respond from the My Children page after signing in.
+          </p>
+          <Button className="mt-4" onClick={() => setLocation("/login")}>
+            Go to login
+          </Button>
+        </div>
+      );
+    }
+
+    if (isLoading || !request) {
+      return (
+        <div className="space-y-4">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      );
+    }
+
+    if (recorded) {
+      return (
+        <div className="text-center space-y-4">
+          {recorded === "approved" ? (
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+          ) : (
+            <XCircle className="h-12 w-12 text-red-600 mx-auto" />
+          )}
+          <p className="text-muted-foreground">
+            {recorded === "approved"
+              ? `Thank you. ${request.studentName}'s place is confirmed.`
+              : `Thank you. ${request.studentName} won't take part in this activity.`}{" "}
+            You can change your mind from the same link until it expires.
+          </p>
+        </div>
+      );
+    }
+
+    const { opportunity } = request;
+    return (
+      <div className="space-y-4">
+        <div className="rounded-md border p-4 text-sm space-y-1">
+          <p className="font-medium text-base">{opportunity.title}</p>
+          <p>{opportunity.organization}</p>
+          <p className="text-muted-foreground">
+            {opportunity.isVirtual ? "Virtual" : opportunity.location} ·{" "}
+            {format(new Date(opportunity.startDate), "MMM d")} –{" "}
+            {format(new Date(opportunity.endDate), "MMM d, yyyy")}
+          </p>
+        </div>
+
+        {request.decision && (
+          <p className="text-sm text-muted-foreground">
+            You have already {request.decision} this registration. Submitting again
+            replaces that decision.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            type="button"
+            variant={decision === "approved" ? "default" : "outline"}
+            onClick={() => setDecision("approved")}
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Approve
+          </Button>
+          <Button
+            type="button"
+            variant={decision === "declined" ? "destructive" : "outline"}
+            onClick={() => setDecision("declined")}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Decline
+          </Button>
+        </div>
+
+        <Textarea
+          placeholder="Note for the school (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+
+        <Button className="w-full" onClick={onSubmit} disabled={loading}>
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {decision === "approved" ? "Give consent" : "Decline consent"}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50 py-8">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Guardian Consent</CardTitle>
+          <CardDescription>
+            {request
+              ? `${request.studentName} has registered for this activity`
+              : "Respond to a registration that needs your consent"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, type FormEvent } from "react";
 import { useLocation, Link } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
@@ -13,6 +13,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
@@ -30,7 +31,10 @@ export default function Login() {
   const [loading, setLoading] = useState(false);
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -44,9 +48,11 @@ export default function Login() {
     setLoading(true);
     try {
       // Use the AuthProvider's login function
-      const success = await login(values.email, values.password);
+      const result = await login(values.email, values.password);
       
-      if (success) {
+      if (result === "two-factor") {
+        setTwoFactorStep(true);
+      } else if (result === "success") {
         // Add a small delay to ensure user state is updated before redirect
         setTimeout(() => {
           setLocation("/dashboard");
@@ -60,6 +66,21 @@ export default function Login() {
     }
   };
 
+  const onTwoFactorSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const success = await verifyTwoFactor(twoFactorCode, useRecoveryCode);
+      if (success) {
+        setTimeout(() => {
+          setLocation("/dashboard");
+        }, 100);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="flex items-center justify-center min-h-screen bg-slate-50">
       <div className="flex w-full max-w-4xl shadow-xl rounded-lg overflow-hidden">
@@ -87,41 +108,80 @@ export default function Login() {
             <CardDescription>Sign in to your account</CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email</FormLabel>
-                      <FormControl>
-                        <Input placeholder="your.email@example.com" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <Input type="password" placeholder="••••••••" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={loading}>
-                  {loading ? "Signing in..." : "Sign in"}
+            {twoFactorStep ? (
+              <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-code">
+                    {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                  </Label>
+                  <Input
+                    id="two-factor-code"
+                    placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                    autoComplete="one-time-code"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    autoFocus
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    {useRecoveryCode
+                      ? "Enter one of the recovery codes you saved when setting up two-factor authentication."
+                      : "Enter the 6-digit code from your authenticator app."}
+                  </p>
+                </div>
+
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={loading || !twoFactorCode}>
+                  {loading ? "Verifying..." : "Verify"}
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="link"
+                  className="w-full"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setTwoFactorCode("");
+                  }}
+                >
+                  {useRecoveryCode ? "Use your authenticator app instead" : "Use a recovery code instead"}
                 </Button>
               </form>
-            </Form>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input placeholder="your.email@example.com" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="••••••••" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={loading}>
+                    {loading ? "Signing in..." : "Sign in"}
+                  </Button>
+                </form>
+              </Form>
+            )}
           </CardContent>
           <CardFooter className="flex flex-col space-y-4 pt-0">
             <Separator />
@@ -130,7 +190,10 @@ export default function Login() {
                 Forgot your password?
               </Link>
               <Link href="/register" className="text-primary hover:underline">
-                Register as a new teacher
+                Create a new account
+              </Link>
+              <Link href="/verify-email" className="text-primary hover:underline">
+                Didn't receive your verification email?
               </Link>
             </div>
           </CardFooter>
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { guardiansApi } from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarClock, Check, Loader2, X } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+type ConsentDecision = "approved" | "declined";
+
+interface Registration {
+  id: number;
+  status: string;
+  registrationDate: string;
+  opportunity: {
+    id: number;
+    title: string;
+    organization: string;
+    location: string;
+    isVirtual: boolean | null;
+    startDate: string;
+    endDate: string;
+    applicationDeadline: string;
+  };
+  consent: {
+    required: boolean;
+    decision: ConsentDecision | null;
+    note: string | null;
+    decidedAt: string | null;
+  };
+}
+
+interface ChildOverview {
+  id: number;
+  firstName: string;
+  lastName: string;
+  schoolName: string | null;
+  relationship: string | null;
+  registrations: Registration[];
+  formRequests: {
+    id: number;
+    requestDate: string;
+    fulfilled: boolean | null;
+    emailSent: boolean | null;
+    opportunityTitle: string;
+  }[];
+  upcomingDeadlines: {
+    opportunityId: number;
+    title: string;
+    applicationDeadline: string;
+  }[];
+}
+
+const CONSENT_STYLES: Record<ConsentDecision | "awaiting", string> = {
+  awaiting: "bg-amber-50 text-amber-700 border-amber-200",
+  approved: "bg-green-50 text-green-700 border-green-200",
+  declined: "bg-red-50 text-red-700 border-red-200",
+};
+
+export default function MyChildren() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<{
+    registration: Registration;
+    decision: ConsentDecision;
+  } | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: children, isLoading } = useQuery<ChildOverview[]>({
+    queryKey: ["/api/guardian/students"],
+    queryFn: guardiansApi.getMyStudents,
+  });
+
+  const consentMutation = useMutation({
+    mutationFn: () =>
+      guardiansApi.decideConsent(pending!.registration.id, pending!.decision, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/guardian/students"] });
+      toast({
+        title: pending!.decision === "approved" ? "Consent given" : "Consent declined",
+        description: pending!.registration.opportunity.title,
+      });
+      setPending(null);
+      setNote("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record consent",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderConsent = (registration: Registration) => {
+    const { consent } = registration;
+    if (!consent.required) {
+      return <span className="text-sm text-muted-foreground">Not needed</span>;
+    }
+
+    return (
+      <div className="space-y-2">
+        <Badge variant="outline" className={CONSENT_STYLES[consent.decision ?? "awaiting"]}>
+          {consent.decision ?? "awaiting you"}
+        </Badge>
+        <div className="flex space-x-2">
+          {consent.decision !== "approved" && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setPending({ registration, decision: "approved" })}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+          )}
+          {consent.decision !== "declined" && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600 hover:text-red-700"
+              onClick={() => setPending({ registration, decision: "declined" })}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Decline
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="My Children"
+        description="Follow your children's registrations, forms and deadlines"
+      />
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : !children?.length ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-muted-foreground">
+            No students are linked to your account yet. Ask your child's school to
+            add you as their guardian.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {children.map((child) => (
+            <Card key={child.id}>
+              <CardHeader>
+                <CardTitle>
+                  {child.firstName} {child.lastName}
+                </CardTitle>
+                <CardDescription>
+                  {[child.schoolName, child.relationship && `You are their ${child.relationship}`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {child.upcomingDeadlines.length > 0 && (
+                  <div>
+                    <h3 className="font-medium mb-2">Upcoming deadlines</h3>
+                    <ul className="space-y-1 text-sm">
+                      {child.upcomingDeadlines.map((deadline) => (
+                        <li key={deadline.opportunityId} className="flex items-center">
+                          <CalendarClock className="h-4 w-4 mr-2 text-muted-foreground" />
+                          <span className="font-medium mr-2">{deadline.title}</span>
+                          <span className="text-muted-foreground">
+                            {format(new Date(deadline.applicationDeadline), "MMM d, yyyy")} (
+                            {formatDistanceToNow(new Date(deadline.applicationDeadline), {
+                              addSuffix: true,
+                            })}
+                            )
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div>
+                  <h3 className="font-medium mb-2">Registrations</h3>
+                  {child.registrations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No registrations yet
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Opportunity</TableHead>
+                          <TableHead>Dates</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Your consent</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {child.registrations.map((registration) => (
+                          <TableRow key={registration.id}>
+                            <TableCell>
+                              <div className="font-medium">
+                                {registration.opportunity.title}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {registration.opportunity.organization} ·{" "}
+                                {registration.opportunity.isVirtual
+                                  ? "Virtual"
+                                  : registration.opportunity.location}
+                              </div>
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap text-sm">
+                              {format(new Date(registration.opportunity.startDate), "MMM d")} –{" "}
+                              {format(new Date(registration.opportunity.endDate), "MMM d, yyyy")}
+                            </TableCell>
+                            <TableCell className="capitalize">
+                              {registration.status.replace("_", " ")}
+                            </TableCell>
+                            <TableCell>{renderConsent(registration)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+
+                {child.formRequests.length > 0 && (
+                  <div>
+                    <h3 className="font-medium mb-2">Application forms</h3>
+                    <ul className="space-y-1 text-sm">
+                      {child.formRequests.map((request) => (
+                        <li key={request.id}>
+                          <span className="font-medium">{request.opportunityTitle}</span>
+                          <span className="text-muted-foreground">
+                            {" "}
+                            requested {format(new Date(request.requestDate), "MMM d, yyyy")}
+                            {request.emailSent ? ", forms sent" : ", waiting for forms"}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog
+        open={!!pending}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPending(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {pending?.decision === "approved" ? "Give consent" : "Decline consent"}
+            </DialogTitle>
+            <DialogDescription>
+              {pending?.registration.opportunity.title} ·{" "}
+              {pending?.registration.opportunity.organization}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Note for the school (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => consentMutation.mutate()}
+              disabled={consentMutation.isPending}
+              variant={pending?.decision === "declined" ? "destructive" : "default"}
+            >
+              {consentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pending?.decision === "approved" ? "Approve" : "Decline"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
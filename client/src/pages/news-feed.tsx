@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { newsApi } from '@/lib/api';
 import { useAuth } from '@/providers/AuthProvider';
+import { can } from '@shared/policy';
 import { useToast } from '@/hooks/use-toast';
 import PageHeader from '@/components/shared/PageHeader';
 import { Button } from '@/components/ui/button';
@@ -175,13 +176,9 @@ export default function NewsFeed() {
   };
 
   // Check if user can edit/delete a post
-  const canModifyPost = (post: any) => {
-    return user?.permissions?.canEditAllOpportunities || 
-           user?.permissions?.canManageUsers || 
-           user?.id === post.authorId;
-  };
+  const canModifyPost = (post: any) => can(user, 'news:update', post);
 
-  const isTeacherOrAdmin = user?.permissions?.canCreateOpportunities || user?.permissions?.canManageUsers || user?.permissions?.canEditAllOpportunities;
+  const isTeacherOrAdmin = can(user, 'news:create');
 
   return (
     <div className="p-4 md:p-6">
@@ -364,7 +361,7 @@ export default function NewsFeed() {
                 )}
               />
 
-              {user?.permissions?.canEditAllOpportunities && (
+              {can(user, 'news:publishGlobal') && (
                 <FormField
                   control={createForm.control}
                   name="isGlobal"
@@ -465,7 +462,7 @@ export default function NewsFeed() {
                 )}
               />
 
-              {user?.permissions?.canEditAllOpportunities && (
+              {can(user, 'news:publishGlobal') && (
                 <FormField
                   control={editForm.control}
                   name="isGlobal"
@@ -1,12 +1,23 @@
 import { useState, useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { useAuth } from "@/providers/AuthProvider";
-import { opportunitiesApi, interestsApi } from "@/lib/api";
+import {
+  opportunitiesApi,
+  interestsApi,
+  type OpportunityListParams,
+  type OpportunitySort,
+} from "@/lib/api";
 import PageHeader from "@/components/shared/PageHeader";
 import OpportunityCard from "@/components/opportunities/OpportunityCard";
 import OpportunityDetailModal from "@/components/opportunities/OpportunityDetailModal";
 import FilterSidebar from "@/components/opportunities/FilterSidebar";
-import OpportunityForm from "@/components/opportunities/OpportunityForm";
+import OpportunityForm, {
+  savedStatusMessage,
+} from "@/components/opportunities/OpportunityForm";
 import { FirstTimePreferencesModal } from "@/components/preferences/FirstTimePreferencesModal";
 import { useStudentPreferences } from "@/hooks/useStudentPreferences";
 import { Button } from "@/components/ui/button";
@@ -42,9 +53,10 @@ export default function Opportunities({
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [filters, setFilters] = useState<any>({});
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortOption, setSortOption] = useState("newest");
+  const [activeQuery, setActiveQuery] = useState("");
+  const [sortOption, setSortOption] = useState<OpportunitySort>("newest");
+  const [position, setPosition] = useState<{ lat: number; lng: number }>();
   const [viewMode, setViewMode] = useState<"list" | "grid">("list");
-  const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
   const [showPreferencesModal, setShowPreferencesModal] = useState(false);
 
@@ -75,135 +87,91 @@ export default function Opportunities({
     }
   }, [isStudent, hasPreferences, preferences]);
 
-  // Fetch opportunities using main endpoint for better error visibility
+  // Search on the server once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setActiveQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Results are ranked by relevance, so that becomes the sort while searching
+  useEffect(() => {
+    setSortOption((current) => {
+      if (activeQuery) return "relevance";
+      return current === "relevance" ? "newest" : current;
+    });
+  }, [activeQuery]);
+
+  const listParams: OpportunityListParams = {
+    q: activeQuery || undefined,
+    industry: filters.industries,
+    opportunityType: filters.opportunityTypes,
+    ageGroup: filters.ageGroups,
+    location: filters.location,
+    startDate: filters.startDate
+      ? new Date(filters.startDate).toISOString()
+      : undefined,
+    endDate: filters.endDate ? new Date(filters.endDate).toISOString() : undefined,
+    ethnicityFocus: filters.ethnicityFocus,
+    genderFocus: filters.genderFocus,
+    isVirtual: filters.isVirtual,
+    createdById: filters.createdById,
+    sort: sortOption,
+    lat: sortOption === "closest" ? position?.lat : undefined,
+    lng: sortOption === "closest" ? position?.lng : undefined,
+    limit: itemsPerPage,
+  };
+
+  // Fetch opportunities a page at a time; filtering and sorting happen on the
+  // server, which also returns counts for the filter sidebar
   const {
-    data: opportunities,
+    data,
     isLoading,
     error,
     refetch,
-  } = useQuery({
-    queryKey: ["/api/opportunities"],
-    queryFn: () =>
-      fetch("/api/opportunities").then((res) => {
-        if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
-        return res.json();
-      }),
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/opportunities", listParams],
+    queryFn: ({ pageParam }) =>
+      opportunitiesApi.list({ ...listParams, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: sortOption !== "closest" || !!position,
   });
 
-  // Filter opportunities client-side with automatic student preferences
-  const filteredOpportunities =
-    opportunities?.filter((opp: any) => {
-      // Search filter
-      if (
-        searchQuery &&
-        !opp.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
-        !opp.organization.toLowerCase().includes(searchQuery.toLowerCase())
-      ) {
-        return false;
-      }
-
-      // My Posts filter
-      if (
-        filters.createdById !== undefined &&
-        opp.createdById !== filters.createdById
-      ) {
-        return false;
-      }
-
-      // Apply student preferences automatically if user is a student and has preferences
-      if (isStudent && preferences && hasPreferences) {
-        // Industry preference filter (case-insensitive)
-        if (preferences.industries && preferences.industries.length > 0) {
-          const matchesIndustry = preferences.industries.some(
-            (prefIndustry: string) =>
-              prefIndustry.toLowerCase() === opp.industry?.toLowerCase(),
-          );
-          if (!matchesIndustry) {
-            return false;
-          }
-        }
-
-        // Opportunity type preference filter (case-insensitive)
-        if (
-          preferences.opportunityTypes &&
-          preferences.opportunityTypes.length > 0
-        ) {
-          const matchesType = preferences.opportunityTypes.some(
-            (prefType: string) =>
-              prefType.toLowerCase() === opp.opportunityType?.toLowerCase(),
-          );
-          if (!matchesType) {
-            return false;
-          }
-        }
+  const opportunities = data?.pages.flatMap((page) => page.opportunities) ?? [];
+  const firstPage = data?.pages[0];
 
-        // Age group preference filter
-        if (preferences.ageGroups && preferences.ageGroups.length > 0) {
-          const opportunityAgeGroups = Array.isArray(opp.ageGroup)
-            ? opp.ageGroup
-            : [];
-          const hasMatchingAgeGroup = preferences.ageGroups.some(
-            (prefAge: string) => opportunityAgeGroups.includes(prefAge),
-          );
-          if (!hasMatchingAgeGroup) {
-            return false;
-          }
-        }
-      }
+  // Nothing matched the words, so the server returned close spellings instead
+  const showingCloseMatches = firstPage?.matchedBy === "similarity";
 
-      // Manual filter overrides (from FilterSidebar)
-      // Industry filter
-      if (
-        filters.industry &&
-        filters.industry !== "all" &&
-        opp.industry !== filters.industry
-      ) {
-        return false;
-      }
-
-      // Opportunity type filter
-      if (
-        filters.opportunityType &&
-        filters.opportunityType !== "all" &&
-        opp.opportunityType !== filters.opportunityType
-      ) {
-        return false;
-      }
-
-      // Age group filter
-      if (filters.ageGroups && filters.ageGroups.length > 0) {
-        const opportunityAgeGroups = Array.isArray(opp.ageGroup)
-          ? opp.ageGroup
-          : [];
-        const hasMatchingAgeGroup = filters.ageGroups.some(
-          (filterAge: string) => opportunityAgeGroups.includes(filterAge),
-        );
-        if (!hasMatchingAgeGroup) {
-          return false;
-        }
-      }
-
-      // Location filter
-      if (
-        filters.location &&
-        !opp.location?.toLowerCase().includes(filters.location.toLowerCase())
-      ) {
-        return false;
-      }
-
-      // Date range filter
-      if (filters.startDate && filters.endDate) {
-        const oppStartDate = new Date(opp.startDate);
-        const filterStartDate = new Date(filters.startDate);
-        const filterEndDate = new Date(filters.endDate);
-
-        if (oppStartDate < filterStartDate || oppStartDate > filterEndDate) {
-          return false;
-        }
-      }
-
-      return true;
-    }) || [];
+  const handleSortChange = (value: string) => {
+    if (value !== "closest" || position) {
+      setSortOption(value as OpportunitySort);
+      return;
+    }
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser can't share your location.",
+        variant: "destructive",
+      });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setPosition({ lat: coords.latitude, lng: coords.longitude });
+        setSortOption("closest");
+      },
+      () =>
+        toast({
+          title: "Location unavailable",
+          description: "Allow location access to sort by distance.",
+          variant: "destructive",
+        }),
+    );
+  };
 
   // Fetch interests for users who can manage preferences
   const { data: interests } = useQuery({
@@ -236,12 +204,11 @@ export default function Opportunities({
 
   const handleFilterChange = (newFilters: any) => {
     setFilters(newFilters);
-    setCurrentPage(1);
   };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    refetch();
+    setActiveQuery(searchQuery.trim());
   };
 
   // Check if a student is interested in an opportunity
@@ -252,58 +219,18 @@ export default function Opportunities({
     );
   };
 
+  const getWaitlistPosition = (opportunityId: number): number | null => {
+    const interest = interests?.find(
+      (interest: any) => interest.opportunityId === opportunityId,
+    );
+    return interest?.waitlistPosition ?? null;
+  };
+
   // Count interests per opportunity
   const getInterestCount = (opportunityId: number): number => {
     return interestCounts[opportunityId] || 0;
   };
 
-  // Sort opportunities
-  const sortOpportunities = (opportunities: any[]) => {
-    if (!opportunities) return [];
-
-    switch (sortOption) {
-      case "newest":
-        return [...opportunities].sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
-      case "oldest":
-        return [...opportunities].sort(
-          (a, b) =>
-            new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
-        );
-      case "deadline":
-        return [...opportunities].sort((a, b) => {
-          if (!a.applicationDeadline) return 1;
-          if (!b.applicationDeadline) return -1;
-          return (
-            new Date(a.applicationDeadline).getTime() -
-            new Date(b.applicationDeadline).getTime()
-          );
-        });
-      case "popularity":
-        return [...opportunities].sort(
-          (a, b) => getInterestCount(b.id) - getInterestCount(a.id),
-        );
-      default:
-        return opportunities;
-    }
-  };
-
-  // Paginate opportunities
-  const paginateOpportunities = (opportunities: any[]) => {
-    if (!opportunities) return [];
-
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return opportunities.slice(startIndex, startIndex + itemsPerPage);
-  };
-
-  const sortedOpportunities = sortOpportunities(filteredOpportunities || []);
-  const paginatedOpportunities = paginateOpportunities(sortedOpportunities);
-  const totalPages = Math.ceil(
-    (sortedOpportunities?.length || 0) / itemsPerPage,
-  );
-
   const canCreateOpportunities = user?.permissions?.canCreateOpportunities;
 
   // Fetch opportunity for editing
@@ -316,12 +243,13 @@ export default function Opportunities({
   );
 
   // Handle form submission for creating an opportunity
-  const handleCreateSubmit = async (formData: any) => {
+  const handleCreateSubmit = async (formData: any, publish: boolean) => {
     try {
-      await opportunitiesApi.create(formData);
+      const created = await opportunitiesApi.create(formData, publish);
+      queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
       toast({
-        title: "Success",
-        description: "Opportunity created successfully!",
+        title: "Opportunity created",
+        description: savedStatusMessage(created.status),
       });
       // Navigate back to opportunities list after successful creation
       setLocation("/opportunities");
@@ -355,17 +283,20 @@ export default function Opportunities({
   };
 
   // Handle form submission for editing an opportunity
-  const handleEditSubmit = async (formData: any) => {
+  const handleEditSubmit = async (formData: any, publish: boolean) => {
     try {
       if (opportunityId) {
-        await opportunitiesApi.update(opportunityId, formData);
+        let saved = await opportunitiesApi.update(opportunityId, formData);
+        if (publish && saved.status === "draft") {
+          saved = await opportunitiesApi.transition(opportunityId, "submit");
+        }
         queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
         queryClient.invalidateQueries({
           queryKey: [`/api/opportunities/${opportunityId}`],
         });
         toast({
-          title: "Success",
-          description: "Opportunity updated successfully!",
+          title: "Opportunity updated",
+          description: savedStatusMessage(saved.status),
         });
         // Navigate back to opportunities list after successful update
         setLocation("/opportunities");
@@ -525,7 +456,8 @@ export default function Opportunities({
           <FilterSidebar
             onFilterChange={handleFilterChange}
             initialFilters={filters}
-            opportunities={opportunities || []}
+            opportunities={opportunities}
+            facets={firstPage?.facets}
           />
         </div>
 
@@ -553,22 +485,25 @@ export default function Opportunities({
                 <label className="text-sm mr-2 dark:text-gray-300">
                   Sort by:
                 </label>
-                <Select value={sortOption} onValueChange={setSortOption}>
+                <Select value={sortOption} onValueChange={handleSortChange}>
                   <SelectTrigger className="w-[180px]">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
+                    {activeQuery && (
+                      <SelectItem value="relevance">Most Relevant</SelectItem>
+                    )}
                     <SelectItem value="newest">Newest First</SelectItem>
-                    <SelectItem value="oldest">Oldest First</SelectItem>
-                    <SelectItem value="deadline">Upcoming Deadline</SelectItem>
-                    <SelectItem value="popularity">Most Popular</SelectItem>
+                    <SelectItem value="deadline">Deadline Soonest</SelectItem>
+                    <SelectItem value="popular">Most Popular</SelectItem>
+                    <SelectItem value="closest">Closest to Me</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div className="flex items-center">
                 <span className="text-sm text-neutral-300 dark:text-gray-400 mr-2">
-                  {opportunities?.length || 0} opportunities
+                  {firstPage?.total ?? 0} opportunities
                 </span>
                 <div className="flex space-x-1">
                   <Button
@@ -592,6 +527,13 @@ export default function Opportunities({
             </div>
           </div>
 
+          {showingCloseMatches && (
+            <p className="text-sm text-neutral-400 dark:text-gray-300 mb-4">
+              No exact matches for "{activeQuery}". Showing close matches
+              instead.
+            </p>
+          )}
+
           {/* Opportunities Cards */}
           {isLoading ? (
             <div className="space-y-4">
@@ -608,7 +550,7 @@ export default function Opportunities({
                 Try Again
               </Button>
             </div>
-          ) : filteredOpportunities && filteredOpportunities.length > 0 ? (
+          ) : opportunities.length > 0 ? (
             <div
               className={
                 viewMode === "grid"
@@ -616,11 +558,12 @@ export default function Opportunities({
                   : "space-y-4"
               }
             >
-              {paginatedOpportunities.map((opportunity) => (
+              {opportunities.map((opportunity) => (
                 <OpportunityCard
                   key={opportunity.id}
                   opportunity={opportunity}
                   isInterested={isInterestedIn(opportunity.id)}
+                  waitlistPosition={getWaitlistPosition(opportunity.id)}
                   interestCount={getInterestCount(opportunity.id)}
                   onViewDetails={handleViewDetails}
                 />
@@ -643,32 +586,14 @@ export default function Opportunities({
           )}
 
           {/* Pagination */}
-          {totalPages > 1 && (
+          {hasNextPage && (
             <div className="flex justify-center mt-6">
               <Button
                 variant="outline"
-                onClick={() => setCurrentPage((prev) => Math.max(prev - 1, 1))}
-                disabled={currentPage === 1}
-                className="mr-2"
-              >
-                Previous
-              </Button>
-
-              <div className="flex items-center mx-2">
-                <span className="text-sm text-neutral-400 dark:text-gray-300">
-                  Page {currentPage} of {totalPages}
-                </span>
-              </div>
-
-              <Button
-                variant="outline"
-                onClick={() =>
-                  setCurrentPage((prev) => Math.min(prev + 1, totalPages))
-                }
-                disabled={currentPage === totalPages}
-                className="ml-2"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
               >
-                Next
+                {isFetchingNextPage ? "Loading..." : "Load more"}
               </Button>
             </div>
           )}
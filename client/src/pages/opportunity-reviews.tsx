@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { opportunitiesApi } from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import OpportunityDetailModal from "@/components/opportunities/OpportunityDetailModal";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Eye, MessageSquare, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface PendingOpportunity {
+  opportunity: {
+    id: number;
+    title: string;
+    organization: string;
+    startDate: string;
+    updatedAt: string;
+  };
+  schoolName: string | null;
+  creatorFirstName: string | null;
+  creatorLastName: string | null;
+  creatorEmail: string | null;
+}
+
+export default function OpportunityReviews() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [viewingId, setViewingId] = useState<number | null>(null);
+  const [changesFor, setChangesFor] = useState<PendingOpportunity | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data: queue, isLoading } = useQuery<PendingOpportunity[]>({
+    queryKey: ["/api/opportunities/review-queue"],
+    queryFn: opportunitiesApi.getReviewQueue,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({
+      id,
+      decision,
+      comment,
+    }: {
+      id: number;
+      decision: "approve" | "request_changes";
+      comment?: string;
+    }) => opportunitiesApi.review(id, decision, comment),
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["/api/opportunities/review-queue"],
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/opportunities"] });
+      setChangesFor(null);
+      setComment("");
+      toast({
+        title: decision === "approve" ? "Opportunity published" : "Changes requested",
+        description:
+          decision === "approve"
+            ? "It is now live and the author has been told"
+            : "It is back with the author as a draft",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to review opportunity: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmRequestChanges = () => {
+    if (!changesFor || !comment.trim()) return;
+    reviewMutation.mutate({
+      id: changesFor.opportunity.id,
+      decision: "request_changes",
+      comment: comment.trim(),
+    });
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Opportunity Reviews"
+        description="Approve opportunities before they are published to students"
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Waiting for Review</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : !queue?.length ? (
+            <p className="text-center text-muted-foreground py-8">
+              There are no opportunities waiting for review
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Opportunity</TableHead>
+                  <TableHead>Posted by</TableHead>
+                  <TableHead>School</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.map((item) => (
+                  <TableRow key={item.opportunity.id}>
+                    <TableCell className="font-medium">
+                      {item.opportunity.title}
+                      <div className="text-xs text-muted-foreground">
+                        {item.opportunity.organization}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {item.creatorFirstName
+                        ? `${item.creatorFirstName} ${item.creatorLastName}`
+                        : "-"}
+                      {item.creatorEmail && (
+                        <div className="text-xs text-muted-foreground">
+                          {item.creatorEmail}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{item.schoolName || "-"}</TableCell>
+                    <TableCell>
+                      {format(new Date(item.opportunity.updatedAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setViewingId(item.opportunity.id)}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          reviewMutation.mutate({
+                            id: item.opportunity.id,
+                            decision: "approve",
+                          })
+                        }
+                        disabled={reviewMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setChangesFor(item)}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        Request changes
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <OpportunityDetailModal
+        opportunityId={viewingId}
+        isOpen={viewingId !== null}
+        onClose={() => setViewingId(null)}
+      />
+
+      {/* Request changes dialog */}
+      <Dialog
+        open={!!changesFor}
+        onOpenChange={(open) => {
+          if (!open) {
+            setChangesFor(null);
+            setComment("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Changes</DialogTitle>
+            <DialogDescription>
+              {changesFor?.opportunity.title} goes back to its author as a draft.
+              They will be emailed your comment.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="What needs to change before this can be published?"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setChangesFor(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmRequestChanges}
+              disabled={!comment.trim() || reviewMutation.isPending}
+            >
+              {reviewMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Send back
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -23,6 +23,7 @@ import {
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { auth } from "@/lib/auth";
+import PasswordStrengthMeter from "@/components/security/PasswordStrengthMeter";
 import {
   Select,
   SelectContent,
@@ -39,9 +40,9 @@ const registerSchema = z
       .min(3, { message: "Username must be at least 3 characters long" }),
     password: z
       .string()
-      .min(6, { message: "Password must be at least 6 characters long" }),
-    confirmPassword: z.string().min(6, {
-      message: "Confirm password must be at least 6 characters long",
+      .min(8, { message: "Password must be at least 8 characters long" }),
+    confirmPassword: z.string().min(8, {
+      message: "Confirm password must be at least 8 characters long",
     }),
     firstName: z.string().min(1, { message: "First name is required" }),
     lastName: z.string().min(1, { message: "Last name is required" }),
@@ -77,12 +78,8 @@ export default function Register() {
   const onSubmit = async (values: RegisterFormValues) => {
     setLoading(true);
     try {
-      // Automatically set teacher role and roleId for teacher registration
-      const registrationData = {
-        ...values,
-        userRoleId: 2, // Teacher role ID
-        role: "teacher", // This is required by the server
-      };
+      // The server always assigns the student role
+      const { userRoleId, ...registrationData } = values;
 
       console.log("Submitting registration data:", registrationData);
       const response = await auth.register(registrationData);
@@ -90,7 +87,9 @@ export default function Register() {
 
       toast({
         title: "Registration successful",
-        description: "Your account has been created. You can now log in.",
+        description:
+          response?.message ||
+          "Please check your email and click the verification link before signing in.",
       });
 
       setLocation("/login");
@@ -98,7 +97,10 @@ export default function Register() {
       console.error("Registration error:", error);
       toast({
         title: "Registration failed",
-        description: "An error occurred during registration. Please try again.",
+        description:
+          error instanceof Error
+            ? error.message
+            : "An error occurred during registration. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -186,9 +188,9 @@ export default function Register() {
     <div className="flex items-center justify-center min-h-screen bg-slate-50 py-8">
       <Card className="w-full max-w-md shadow-lg">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl font-bold">Teacher Registration</CardTitle>
+          <CardTitle className="text-2xl font-bold">Student Registration</CardTitle>
           <CardDescription>
-            Create your teacher account to start posting career opportunities for students
+            Create your student account to discover career opportunities
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -298,6 +300,7 @@ export default function Register() {
                         {...field}
                       />
                     </FormControl>
+                    <PasswordStrengthMeter password={field.value} />
                     <FormMessage />
                   </FormItem>
                 )}
@@ -327,13 +330,17 @@ export default function Register() {
             </form>
           </Form>
         </CardContent>
-        <CardFooter className="flex justify-center">
+        <CardFooter className="flex flex-col items-center space-y-2">
           <p className="text-sm text-gray-500">
             Already have an account?{" "}
             <Link href="/login" className="text-blue-600 hover:underline">
               Sign in
             </Link>
           </p>
+          <p className="text-xs text-gray-500 text-center">
+            Teachers and school staff join by invitation. Ask your school
+            administrator to send you an invitation link.
+          </p>
         </CardFooter>
       </Card>
     </div>
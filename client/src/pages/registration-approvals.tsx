@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { registrationsApi } from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, X, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+
+interface PendingRegistration {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  username: string;
+  roleName: string;
+  schoolName: string | null;
+  emailVerified: boolean;
+  createdAt: string;
+}
+
+export default function RegistrationApprovals() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [rejectingIds, setRejectingIds] = useState<number[] | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const { data: registrations, isLoading } = useQuery<PendingRegistration[]>({
+    queryKey: ["/api/registrations/pending"],
+    queryFn: registrationsApi.getPending,
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: ({
+      userIds,
+      action,
+      reason,
+    }: {
+      userIds: number[];
+      action: "approve" | "reject";
+      reason?: string;
+    }) => registrationsApi.decide(userIds, action, reason),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations/pending"] });
+      setSelectedIds((ids) =>
+        ids.filter((id) => !result.updated.includes(id)),
+      );
+      setRejectingIds(null);
+      setRejectReason("");
+      toast({
+        title: "Registrations updated",
+        description: result.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update registrations: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const allSelected =
+    !!registrations?.length && selectedIds.length === registrations.length;
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked && registrations ? registrations.map((r) => r.id) : []);
+  };
+
+  const toggleOne = (id: number, checked: boolean) => {
+    setSelectedIds((ids) =>
+      checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id),
+    );
+  };
+
+  const approve = (userIds: number[]) => {
+    decisionMutation.mutate({ userIds, action: "approve" });
+  };
+
+  const confirmReject = () => {
+    if (!rejectingIds || !rejectReason.trim()) return;
+    decisionMutation.mutate({
+      userIds: rejectingIds,
+      action: "reject",
+      reason: rejectReason.trim(),
+    });
+  };
+
+  return (
+    <div>
+      <PageHeader
+        title="Registration Approvals"
+        description="Review student accounts waiting for approval"
+      />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Pending Registrations</CardTitle>
+          {selectedIds.length > 0 && (
+            <div className="flex space-x-2">
+              <Button
+                size="sm"
+                onClick={() => approve(selectedIds)}
+                disabled={decisionMutation.isPending}
+              >
+                <Check className="h-4 w-4 mr-2" />
+                Approve selected ({selectedIds.length})
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => setRejectingIds(selectedIds)}
+                disabled={decisionMutation.isPending}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject selected
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : !registrations?.length ? (
+            <p className="text-center text-muted-foreground py-8">
+              There are no registrations waiting for review
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                    />
+                  </TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>School</TableHead>
+                  <TableHead>Registered</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {registrations.map((registration) => (
+                  <TableRow key={registration.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(registration.id)}
+                        onCheckedChange={(checked) =>
+                          toggleOne(registration.id, checked === true)
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {registration.firstName} {registration.lastName}
+                      <div className="text-xs text-muted-foreground">
+                        @{registration.username}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {registration.email}
+                      {!registration.emailVerified && (
+                        <Badge variant="outline" className="ml-2">
+                          Unverified
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{registration.schoolName || "-"}</TableCell>
+                    <TableCell>
+                      {format(new Date(registration.createdAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => approve([registration.id])}
+                        disabled={decisionMutation.isPending}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRejectingIds([registration.id])}
+                        disabled={decisionMutation.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reject dialog */}
+      <Dialog
+        open={!!rejectingIds}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectingIds(null);
+            setRejectReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Registration</DialogTitle>
+            <DialogDescription>
+              The student will be emailed this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason for rejecting this registration"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingIds(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={confirmReject}
+              disabled={!rejectReason.trim() || decisionMutation.isPending}
+            >
+              {decisionMutation.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
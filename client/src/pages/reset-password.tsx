@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft } from "lucide-react";
+import { auth } from "@/lib/auth";
+import PasswordStrengthMeter from "@/components/security/PasswordStrengthMeter";
+
+const newPasswordSchema = z
+  .object({
+    password: z
+      .string()
+      .min(8, { message: "Password must be at least 8 characters long" }),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type NewPasswordFormValues = z.infer<typeof newPasswordSchema>;
+
+export default function ResetPassword() {
+  const [loading, setLoading] = useState(false);
+  const [passwordReset, setPasswordReset] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  // Token comes from the link in the reset email
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async (values: NewPasswordFormValues) => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      await auth.resetPassword(token, values.password, values.confirmPassword);
+
+      toast({
+        title: "Password updated",
+        description: "Your password has been reset. You can now log in.",
+      });
+
+      setPasswordReset(true);
+    } catch (error) {
+      console.error("Reset password error:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to reset password. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+          <CardDescription>
+            {passwordReset
+              ? "Your password has been changed"
+              : "Enter a new password for your account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">
+                This password reset link is invalid. Please request a new one.
+              </p>
+              <Button className="mt-4" onClick={() => setLocation("/forgot-password")}>
+                Request a new link
+              </Button>
+            </div>
+          ) : passwordReset ? (
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">
+                You can now sign in with your new password.
+              </p>
+              <Button className="mt-4" onClick={() => setLocation("/login")}>
+                Return to login
+              </Button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="••••••••" {...field} />
+                      </FormControl>
+                      <PasswordStrengthMeter password={field.value} />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="••••••••" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex flex-col space-y-2">
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? "Saving..." : "Reset password"}
+                  </Button>
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setLocation("/login")}
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back to login
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
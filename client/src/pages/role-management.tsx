@@ -0,0 +1,393 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/providers/AuthProvider";
+import { can } from "@shared/policy";
+import { useToast } from "@/hooks/use-toast";
+import { usersApi, rolesApi } from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Plus, MoreHorizontal, Copy, Edit, Archive, RotateCcw, Trash2 } from "lucide-react";
+
+// Permission columns on userRoles, in the order shown in the matrix
+const PERMISSIONS = [
+  { key: "canViewOpportunities", label: "View opportunities" },
+  { key: "canCreateOpportunities", label: "Create opportunities" },
+  { key: "canEditOwnOpportunities", label: "Edit own opportunities" },
+  { key: "canEditSchoolOpportunities", label: "Edit school opportunities" },
+  { key: "canEditAllOpportunities", label: "Edit all opportunities" },
+  { key: "canViewAttendees", label: "View attendees" },
+  { key: "canUploadDocuments", label: "Upload documents" },
+  { key: "canManageNews", label: "Manage news" },
+  { key: "canManagePreferences", label: "Manage preferences" },
+  { key: "canViewReports", label: "View reports" },
+  { key: "canManageUsers", label: "Manage users" },
+  { key: "canManageSchools", label: "Manage schools" },
+  { key: "canManageSettings", label: "Manage settings" },
+  { key: "requiresSchool", label: "Requires a school" },
+  { key: "requiresTwoFactor", label: "Requires two-factor" },
+] as const;
+
+type PermissionKey = (typeof PERMISSIONS)[number]["key"];
+
+// Roles the server refers to by name; they can be edited but not renamed or removed
+const BUILT_IN_ROLES = ["student", "teacher", "moderator", "admin", "superadmin", "guardian"];
+
+interface Role extends Record<PermissionKey, boolean | null> {
+  id: number;
+  name: string;
+  description: string | null;
+  isRetired: boolean;
+}
+
+interface RoleFormState {
+  id?: number;
+  name: string;
+  description: string;
+  permissions: Record<PermissionKey, boolean>;
+}
+
+const emptyPermissions = () =>
+  Object.fromEntries(PERMISSIONS.map(({ key }) => [key, key === "canViewOpportunities"])) as Record<
+    PermissionKey,
+    boolean
+  >;
+
+export default function RoleManagement() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [roleForm, setRoleForm] = useState<RoleFormState | null>(null);
+  const [deletingRole, setDeletingRole] = useState<Role | null>(null);
+
+  const isSuperadmin = can(user, "role:manage");
+
+  const { data: roles, isLoading } = useQuery<Role[]>({
+    queryKey: ["/api/user-roles"],
+    queryFn: usersApi.getRoles,
+    enabled: isSuperadmin,
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Unknown error",
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/user-roles"] });
+
+  const saveRoleMutation = useMutation({
+    mutationFn: (form: RoleFormState) => {
+      const data = { name: form.name, description: form.description, ...form.permissions };
+      return form.id ? rolesApi.update(form.id, data) : rolesApi.create(data);
+    },
+    onSuccess: (_, form) => {
+      refresh();
+      setRoleForm(null);
+      toast({
+        title: form.id ? "Role updated" : "Role created",
+        description: `${form.name} has been saved`,
+      });
+    },
+    onError,
+  });
+
+  const togglePermissionMutation = useMutation({
+    mutationFn: ({ role, key, value }: { role: Role; key: PermissionKey; value: boolean }) =>
+      rolesApi.update(role.id, { [key]: value }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: ({ role, retired }: { role: Role; retired: boolean }) =>
+      rolesApi.setRetired(role.id, retired),
+    onSuccess: (_, { role, retired }) => {
+      refresh();
+      toast({
+        title: retired ? "Role retired" : "Role restored",
+        description: retired
+          ? `${role.name} can no longer be assigned to users`
+          : `${role.name} can be assigned to users again`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (role: Role) => rolesApi.delete(role.id),
+    onSuccess: (_, role) => {
+      refresh();
+      setDeletingRole(null);
+      toast({
+        title: "Role deleted",
+        description: `${role.name} has been deleted`,
+      });
+    },
+    onError,
+  });
+
+  const openRoleForm = (role?: Role, clone = false) => {
+    const permissions = emptyPermissions();
+    if (role) {
+      PERMISSIONS.forEach(({ key }) => {
+        permissions[key] = Boolean(role[key]);
+      });
+    }
+
+    setRoleForm({
+      id: role && !clone ? role.id : undefined,
+      name: role ? (clone ? `${role.name} (copy)` : role.name) : "",
+      description: role?.description || "",
+      permissions,
+    });
+  };
+
+  if (!isSuperadmin) {
+    return (
+      <div>
+        <PageHeader title="Roles & Permissions" />
+        <p className="text-muted-foreground">Only superadmins can manage roles.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Roles & Permissions"
+        description="Create custom roles and choose what each one can do"
+        action={{
+          label: "New Role",
+          icon: <Plus className="h-4 w-4" />,
+          onClick: () => openRoleForm(),
+        }}
+      />
+
+      <Card>
+        <CardContent className="pt-6 overflow-x-auto">
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[180px]">Role</TableHead>
+                  {PERMISSIONS.map(({ key, label }) => (
+                    <TableHead key={key} className="text-center text-xs whitespace-normal">
+                      {label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles?.map((role) => (
+                  <TableRow key={role.id} className={role.isRetired ? "opacity-60" : undefined}>
+                    <TableCell>
+                      <div className="font-medium flex items-center gap-2">
+                        {role.name}
+                        {BUILT_IN_ROLES.includes(role.name) && (
+                          <Badge variant="outline">Built-in</Badge>
+                        )}
+                        {role.isRetired && <Badge variant="secondary">Retired</Badge>}
+                      </div>
+                      {role.description && (
+                        <div className="text-xs text-muted-foreground">{role.description}</div>
+                      )}
+                    </TableCell>
+                    {PERMISSIONS.map(({ key }) => (
+                      <TableCell key={key} className="text-center">
+                        <Checkbox
+                          checked={Boolean(role[key])}
+                          disabled={togglePermissionMutation.isPending}
+                          onCheckedChange={(checked) =>
+                            togglePermissionMutation.mutate({
+                              role,
+                              key,
+                              value: checked === true,
+                            })
+                          }
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openRoleForm(role)}>
+                            <Edit className="h-4 w-4 mr-2" /> Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => openRoleForm(role, true)}>
+                            <Copy className="h-4 w-4 mr-2" /> Clone
+                          </DropdownMenuItem>
+                          {!BUILT_IN_ROLES.includes(role.name) && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  retireMutation.mutate({ role, retired: !role.isRetired })
+                                }
+                              >
+                                {role.isRetired ? (
+                                  <>
+                                    <RotateCcw className="h-4 w-4 mr-2" /> Restore
+                                  </>
+                                ) : (
+                                  <>
+                                    <Archive className="h-4 w-4 mr-2" /> Retire
+                                  </>
+                                )}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => setDeletingRole(role)}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" /> Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit / clone dialog */}
+      <Dialog open={!!roleForm} onOpenChange={(open) => !open && setRoleForm(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{roleForm?.id ? "Edit Role" : "New Role"}</DialogTitle>
+            <DialogDescription>
+              Choose a name and the permissions users with this role should have
+            </DialogDescription>
+          </DialogHeader>
+          {roleForm && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    value={roleForm.name}
+                    disabled={
+                      !!roleForm.id &&
+                      BUILT_IN_ROLES.includes(
+                        roles?.find((role) => role.id === roleForm.id)?.name || "",
+                      )
+                    }
+                    onChange={(e) => setRoleForm({ ...roleForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="role-description">Description</Label>
+                  <Input
+                    id="role-description"
+                    value={roleForm.description}
+                    onChange={(e) => setRoleForm({ ...roleForm, description: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {PERMISSIONS.map(({ key, label }) => (
+                  <div key={key} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`permission-${key}`}
+                      checked={roleForm.permissions[key]}
+                      onCheckedChange={(checked) =>
+                        setRoleForm({
+                          ...roleForm,
+                          permissions: { ...roleForm.permissions, [key]: checked === true },
+                        })
+                      }
+                    />
+                    <Label htmlFor={`permission-${key}`} className="text-sm font-normal">
+                      {label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRoleForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => roleForm && saveRoleMutation.mutate(roleForm)}
+              disabled={!roleForm?.name.trim() || saveRoleMutation.isPending}
+            >
+              {saveRoleMutation.isPending ? "Saving..." : "Save Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <Dialog open={!!deletingRole} onOpenChange={(open) => !open && setDeletingRole(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Role</DialogTitle>
+            <DialogDescription>
+              Delete "{deletingRole?.name}"? Roles that are still assigned to users cannot be
+              deleted; retire them instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingRole(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingRole && deleteMutation.mutate(deletingRole)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
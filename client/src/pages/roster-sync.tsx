@@ -0,0 +1,278 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { rosterSyncApi } from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+
+interface SyncSummary {
+  schools: Record<string, number>;
+  users: Record<string, number>;
+  classes: Record<string, number>;
+  enrollments: Record<string, number>;
+  warnings: string[];
+}
+
+interface SyncRun {
+  id: number;
+  trigger: "upload" | "schedule";
+  source: string | null;
+  status: "running" | "success" | "failed";
+  summary: SyncSummary | null;
+  error: string | null;
+  triggeredByFirstName?: string | null;
+  triggeredByLastName?: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface SyncChange {
+  entity: "school" | "user" | "class" | "enrollment";
+  action: "created" | "updated" | "deactivated" | "deleted";
+  sourcedId: string;
+  name: string;
+  fields?: Record<string, { from: unknown; to: unknown }>;
+}
+
+const STATUS_STYLES: Record<SyncRun["status"], string> = {
+  running: "bg-blue-50 text-blue-700 border-blue-200",
+  success: "bg-green-50 text-green-700 border-green-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+const ENTITIES = ["schools", "users", "classes", "enrollments"] as const;
+
+// e.g. "12 created, 3 updated" (zero counts and "unchanged" left out)
+const describeCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .filter(([action, count]) => count > 0 && action !== "unchanged")
+    .map(([action, count]) => `${count} ${action}`)
+    .join(", ") || "no changes";
+
+function RunChanges({ runId }: { runId: number }) {
+  const { data: run, isLoading } = useQuery<SyncRun & { changes: SyncChange[] | null }>({
+    queryKey: ["/api/roster-sync/runs", runId],
+    queryFn: () => rosterSyncApi.getRun(runId),
+  });
+
+  if (isLoading) return <Skeleton className="h-12 w-full" />;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {run?.summary?.warnings.length ? (
+        <ul className="list-disc pl-5 text-amber-700">
+          {run.summary.warnings.map((warning, index) => (
+            <li key={index}>{warning}</li>
+          ))}
+        </ul>
+      ) : null}
+      {run?.error && <p className="text-destructive">{run.error}</p>}
+      {!run?.changes?.length ? (
+        run?.status === "success" && (
+          <p className="text-muted-foreground">
+            Nothing changed; the app already matched the SIS.
+          </p>
+        )
+      ) : (
+        <div className="grid grid-cols-[auto_auto_1fr_2fr] gap-x-4 gap-y-1 font-mono text-xs">
+          {run.changes.map((change, index) => (
+            <Fragment key={index}>
+              <span>{change.entity}</span>
+              <span>{change.action}</span>
+              <span>
+                {change.name} <span className="text-muted-foreground">({change.sourcedId})</span>
+              </span>
+              <span className="break-all">
+                {change.fields &&
+                  Object.entries(change.fields)
+                    .map(([field, { from, to }]) => `${field}: ${String(from)} → ${String(to)}`)
+                    .join("; ")}
+              </span>
+            </Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function RosterSync() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [files, setFiles] = useState<File[]>([]);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: runs, isLoading } = useQuery<SyncRun[]>({
+    queryKey: ["/api/roster-sync/runs"],
+    queryFn: rosterSyncApi.getRuns,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => rosterSyncApi.sync(files),
+    onSuccess: (run: SyncRun) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roster-sync/runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schools"] });
+      setExpandedId(run.id);
+
+      if (run.status === "success") {
+        toast({
+          title: "Roster synced",
+          description: `Users: ${describeCounts(run.summary!.users)}`,
+        });
+      } else {
+        toast({
+          title: "Roster sync failed",
+          description: run.error || "Nothing was changed",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sync roster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      <PageHeader
+        title="Roster Sync"
+        description="Keep schools, students and teachers in step with your student information system"
+      />
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Sync a OneRoster export</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Upload the OneRoster 1.1 CSV bundle from your SIS, either as a zip or as the
+            orgs.csv, users.csv, classes.csv and enrollments.csv files. Records are matched on
+            their SIS sourcedId, so syncing the same export twice changes nothing. Students
+            missing from a full export are deactivated.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="roster-files">Files</Label>
+              <Input
+                id="roster-files"
+                type="file"
+                accept=".zip,.csv"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              />
+            </div>
+            <Button
+              onClick={() => syncMutation.mutate()}
+              disabled={!files.length || syncMutation.isPending}
+            >
+              {syncMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Sync now
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sync History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : !runs?.length ? (
+            <p className="text-center text-muted-foreground py-8">
+              No roster syncs have run yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8"></TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Status</TableHead>
+                  {ENTITIES.map((entity) => (
+                    <TableHead key={entity} className="capitalize">
+                      {entity}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expandedId === run.id ? null : run.id)}
+                    >
+                      <TableCell>
+                        {expandedId === run.id ? (
+                          <ChevronDown className="h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4" />
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(run.startedAt), "MMM d, yyyy HH:mm")}
+                      </TableCell>
+                      <TableCell>
+                        {run.trigger === "schedule"
+                          ? "Scheduled"
+                          : `Upload by ${run.triggeredByFirstName ?? "unknown"} ${run.triggeredByLastName ?? ""}`}
+                        <div className="text-xs text-muted-foreground">{run.source}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_STYLES[run.status]}>
+                          {run.status}
+                        </Badge>
+                      </TableCell>
+                      {ENTITIES.map((entity) => (
+                        <TableCell key={entity} className="text-sm">
+                          {run.summary ? describeCounts(run.summary[entity]) : "-"}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    {expandedId === run.id && (
+                      <TableRow>
+                        <TableCell></TableCell>
+                        <TableCell colSpan={3 + ENTITIES.length}>
+                          <RunChanges runId={run.id} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
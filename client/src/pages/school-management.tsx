@@ -42,6 +42,7 @@ import {
   Users,
 } from "lucide-react";
 import { useAuth } from "@/providers/AuthProvider";
+import InvitationsCard from "@/components/invitations/InvitationsCard";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -458,6 +459,11 @@ export default function SchoolManagement() {
         </Table>
       </div>
 
+      {/* Staff Invitations */}
+      <div className="mt-8">
+        <InvitationsCard schools={schools} />
+      </div>
+
       {/* Edit Dialog */}
       <Dialog
         open={!!editingSchool}
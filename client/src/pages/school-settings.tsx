@@ -4,12 +4,14 @@ import { useAuth } from '@/providers/AuthProvider';
 import { useToast } from '@/hooks/use-toast';
 import { schoolsApi } from '@/lib/api';
 import PageHeader from '@/components/shared/PageHeader';
+import InvitationsCard from '@/components/invitations/InvitationsCard';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { 
   Dialog,
@@ -46,6 +48,7 @@ const schoolSchema = z.object({
   name: z.string().min(1, { message: 'School name is required' }),
   description: z.string().optional(),
   logoUrl: z.string().url({ message: 'Invalid URL' }).optional().or(z.literal('')),
+  requireOpportunityApproval: z.boolean().optional(),
 });
 
 type SchoolFormValues = z.infer<typeof schoolSchema>;
@@ -139,6 +142,28 @@ export default function SchoolSettings() {
     },
   });
 
+  // Turning approval on or off takes effect for the next opportunity submitted
+  const approvalSettingMutation = useMutation({
+    mutationFn: ({ id, requireOpportunityApproval }: { id: number; requireOpportunityApproval: boolean }) =>
+      schoolsApi.update(id, { requireOpportunityApproval }),
+    onSuccess: (_, { requireOpportunityApproval }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/schools'] });
+      toast({
+        title: 'School updated',
+        description: requireOpportunityApproval
+          ? 'New opportunities from teachers will wait for approval'
+          : 'Teachers can now publish opportunities straight away',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update school: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Handle create form submission
   const onSubmit = (values: SchoolFormValues) => {
     createSchoolMutation.mutate(values);
@@ -160,6 +185,7 @@ export default function SchoolSettings() {
       name: school.name,
       description: school.description || '',
       logoUrl: school.logoUrl || '',
+      requireOpportunityApproval: !!school.requireOpportunityApproval,
     });
   };
 
@@ -299,6 +325,24 @@ export default function SchoolSettings() {
                       {new Date(schoolDetails.createdAt).toLocaleDateString()}
                     </span>
                   </div>
+                  <div className="flex items-center justify-between py-2 border-b text-left">
+                    <div>
+                      <span className="text-sm font-medium">Approve opportunities</span>
+                      <p className="text-xs text-muted-foreground">
+                        Teachers' posts wait for an admin before students see them
+                      </p>
+                    </div>
+                    <Switch
+                      checked={!!schoolDetails.requireOpportunityApproval}
+                      disabled={approvalSettingMutation.isPending}
+                      onCheckedChange={(checked) =>
+                        approvalSettingMutation.mutate({
+                          id: schoolDetails.id,
+                          requireOpportunityApproval: checked,
+                        })
+                      }
+                    />
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -310,6 +354,11 @@ export default function SchoolSettings() {
             </CardContent>
           </Card>
         )}
+
+        {/* Teachers join the school through these invitations */}
+        <div className="mt-6">
+          <InvitationsCard />
+        </div>
       </div>
     );
   }
@@ -583,6 +632,27 @@ export default function SchoolSettings() {
                   )}
                 />
 
+                <FormField
+                  control={editForm.control}
+                  name="requireOpportunityApproval"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Approve opportunities</FormLabel>
+                        <FormDescription>
+                          Teachers' posts wait for an admin before students see them
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={!!field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
                 <DialogFooter className="mt-6">
                   <Button 
                     type="button" 
@@ -5,11 +5,14 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
-import { Settings as SettingsIcon, Save, User, Bell, Shield, Palette } from 'lucide-react';
+import { Settings as SettingsIcon, Save, User, Bell, Shield, Palette, Download, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { preferencesApi, filterOptionsApi } from '@/lib/api';
+import { preferencesApi, filterOptionsApi, usersApi } from '@/lib/api';
 import { queryClient } from '@/lib/queryClient';
 import { useAuth } from '@/providers/AuthProvider';
+import PasswordCard from '@/components/security/PasswordCard';
+import TwoFactorCard from '@/components/security/TwoFactorCard';
+import SessionsCard from '@/components/security/SessionsCard';
 
 interface PreferencesFormData {
   industries: string[];
@@ -51,6 +54,18 @@ export default function Settings() {
     queryFn: () => filterOptionsApi.getByCategory('opportunityType')
   });
 
+  // Download a copy of everything held about the signed-in user
+  const exportDataMutation = useMutation({
+    mutationFn: () => usersApi.exportData(user!.id),
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export your data",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update preferences mutation
   const updatePreferencesMutation = useMutation({
     mutationFn: preferencesApi.update,
@@ -142,6 +157,15 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Password */}
+        <PasswordCard />
+
+        {/* Two-Factor Authentication */}
+        <TwoFactorCard />
+
+        {/* Where you're signed in */}
+        <SessionsCard />
+
         {/* Opportunity Preferences */}
         <Card>
           <CardHeader>
@@ -299,6 +323,25 @@ export default function Settings() {
                 </div>
                 <Checkbox />
               </div>
+              <Separator />
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Your Data</Label>
+                  <p className="text-sm text-gray-600">Download a copy of your profile, registrations, form requests and documents</p>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => exportDataMutation.mutate()}
+                  disabled={exportDataMutation.isPending}
+                >
+                  {exportDataMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Download my data
+                </Button>
+              </div>
             </div>
           </CardContent>
         </Card>
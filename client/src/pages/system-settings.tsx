@@ -18,6 +18,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Separator } from "@/components/ui/separator";
+import { settingsApi } from "@/lib/api";
+import PasswordPolicyCard from "@/components/security/PasswordPolicyCard";
 
 const systemSettingsSchema = z.object({
   siteName: z.string().min(1, { message: "Site name is required" }),
@@ -74,6 +76,28 @@ export default function SystemSettings() {
 
   // Fetch system settings
   useEffect(() => {
+    settingsApi
+      .getAll()
+      .then((saved: Record<string, string>) => {
+        const current = systemForm.getValues();
+        const merged = { ...current } as Record<string, unknown>;
+
+        // Settings are stored as strings, so coerce them back to the form's types
+        Object.entries(current).forEach(([key, defaultValue]) => {
+          if (saved[key] === undefined) return;
+          if (typeof defaultValue === "boolean") {
+            merged[key] = saved[key] === "true";
+          } else if (typeof defaultValue === "number") {
+            merged[key] = Number(saved[key]);
+          } else {
+            merged[key] = saved[key];
+          }
+        });
+
+        systemForm.reset(merged as SystemSettingsFormValues);
+      })
+      .catch((error) => console.error("Failed to load system settings:", error));
+
     // For demonstration, we'll use mock data
     // In a real app, this would be fetched from the API
     setFilterOptions([
@@ -87,17 +111,28 @@ export default function SystemSettings() {
     ]);
   }, []);
 
-  const onSystemSubmit = (values: SystemSettingsFormValues) => {
+  const onSystemSubmit = async (values: SystemSettingsFormValues) => {
     setIsSubmitting(true);
-    // In a real app, this would be an API call
-    setTimeout(() => {
-      console.log("System settings:", values);
+    try {
+      await Promise.all(
+        Object.entries(values).map(([key, value]) =>
+          settingsApi.set(key, String(value)),
+        ),
+      );
       toast({
         title: "Settings saved",
         description: "Your system settings have been updated successfully",
       });
+    } catch (error) {
+      console.error("Failed to save system settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save system settings",
+        variant: "destructive",
+      });
+    } finally {
       setIsSubmitting(false);
-    }, 1000);
+    }
   };
 
   const onFilterSubmit = (values: FilterOptionFormValues) => {
@@ -136,8 +171,9 @@ export default function SystemSettings() {
       <h1 className="text-2xl font-bold">System Settings</h1>
       
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="general">General Settings</TabsTrigger>
+          <TabsTrigger value="passwords">Passwords</TabsTrigger>
           <TabsTrigger value="filters">Filter Options</TabsTrigger>
         </TabsList>
         
@@ -291,6 +327,11 @@ export default function SystemSettings() {
           </Card>
         </TabsContent>
         
+        {/* Password Policy Tab */}
+        <TabsContent value="passwords" className="space-y-4">
+          <PasswordPolicyCard />
+        </TabsContent>
+
         {/* Filter Options Tab */}
         <TabsContent value="filters" className="space-y-4">
           <Card>
@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/providers/AuthProvider";
+import TwoFactorCard from "@/components/security/TwoFactorCard";
+
+// Shown after login to staff whose role requires two-factor authentication
+export default function TwoFactorSetup() {
+  const { user, isLoading, refreshUser, logout } = useAuth();
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      setLocation("/login");
+    }
+  }, [isLoading, user, setLocation]);
+
+  const handleEnabled = async () => {
+    await refreshUser();
+    setLocation("/dashboard");
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50">
+      <div className="w-full max-w-xl space-y-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold">Secure Your Account</h1>
+          <p className="text-muted-foreground">
+            Your role requires two-factor authentication. Set it up to continue.
+          </p>
+        </div>
+
+        {user && <TwoFactorCard onEnabled={handleEnabled} />}
+
+        <div className="text-center">
+          <Button variant="link" onClick={logout}>
+            Sign out
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/providers/AuthProvider";
+import { useToast } from "@/hooks/use-toast";
+import { can } from "@shared/policy";
+import {
+  usersApi,
+  schoolsApi,
+  type UserImportField,
+  type UserImportOptions,
+} from "@/lib/api";
+import PageHeader from "@/components/shared/PageHeader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, FileCheck, Loader2, Upload } from "lucide-react";
+
+type ImportAction = "create" | "update" | "duplicate" | "error";
+
+interface ImportReport {
+  columns: string[];
+  mapping: Partial<Record<UserImportField, string>>;
+  summary: Record<ImportAction, number>;
+  rows: {
+    rowNumber: number;
+    action: ImportAction;
+    email: string;
+    name: string;
+    errors: string[];
+    changes: string[];
+  }[];
+  committed: boolean;
+  message?: string;
+  created?: number;
+  updated?: number;
+  invitesSent?: number;
+}
+
+const FIELD_LABELS: Record<UserImportField, string> = {
+  email: "Email",
+  username: "Username",
+  firstName: "First name",
+  lastName: "Last name",
+  password: "Password",
+  role: "Role",
+  school: "School",
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: "bg-green-50 text-green-700 border-green-200",
+  update: "bg-blue-50 text-blue-700 border-blue-200",
+  duplicate: "bg-gray-50 text-gray-700 border-gray-200",
+  error: "bg-red-50 text-red-700 border-red-200",
+};
+
+const NOT_MAPPED = "__none__";
+
+export default function UserImport() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [roleId, setRoleId] = useState<number | undefined>();
+  const [schoolId, setSchoolId] = useState<number | undefined>();
+  const [sendInvites, setSendInvites] = useState(true);
+  const [mapping, setMapping] = useState<UserImportOptions["mapping"]>();
+  const [columns, setColumns] = useState<string[]>([]);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const canPickSchool = can(user, "school:manage");
+
+  const { data: userRoles } = useQuery({
+    queryKey: ["/api/user-roles"],
+    queryFn: usersApi.getRoles,
+  });
+
+  const { data: schools } = useQuery({
+    queryKey: ["/api/schools"],
+    queryFn: schoolsApi.getAll,
+    enabled: canPickSchool,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) =>
+      usersApi.import(file!, {
+        mapping,
+        roleId,
+        schoolId: canPickSchool ? schoolId : undefined,
+        sendInvites,
+        dryRun,
+      }),
+    onSuccess: (result: ImportReport) => {
+      setReport(result);
+      setMapping(result.mapping);
+      setColumns(result.columns);
+
+      if (result.committed) {
+        queryClient.invalidateQueries({ queryKey: ["/api/users/school"] });
+        toast({
+          title: "Import complete",
+          description: `${result.created} created, ${result.updated} updated${
+            sendInvites ? `, ${result.invitesSent} invites sent` : ""
+          }`,
+        });
+      } else if (result.message) {
+        toast({
+          title: "Nothing was imported",
+          description: result.message,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Any change means the current report no longer describes the import
+  const resetReport = () => setReport(null);
+
+  const updateMapping = (field: UserImportField, column: string) => {
+    setMapping((current) => ({
+      ...current,
+      [field]: column === NOT_MAPPED ? undefined : column,
+    }));
+    resetReport();
+  };
+
+  const canCommit =
+    report &&
+    !report.committed &&
+    report.summary.error === 0 &&
+    report.summary.create + report.summary.update > 0;
+
+  return (
+    <div>
+      <PageHeader
+        title="Import Users"
+        description="Create or update many accounts at once from a CSV or Excel file"
+      />
+
+      <Button variant="ghost" className="mb-4" onClick={() => navigate("/user-management")}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to User Management
+      </Button>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>1. Choose a file</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File (.csv or .xlsx)</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setMapping(undefined);
+                  setColumns([]);
+                  resetReport();
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role for rows without one</Label>
+              <Select
+                value={roleId ? String(roleId) : undefined}
+                onValueChange={(value) => {
+                  setRoleId(parseInt(value));
+                  resetReport();
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles
+                    ?.filter((role: any) => !role.isRetired)
+                    .map((role: any) => (
+                      <SelectItem key={role.id} value={String(role.id)}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {canPickSchool ? (
+              <div className="space-y-2">
+                <Label>School for rows without one</Label>
+                <Select
+                  value={schoolId ? String(schoolId) : undefined}
+                  onValueChange={(value) => {
+                    setSchoolId(parseInt(value));
+                    resetReport();
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select school" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schools?.map((school: any) => (
+                      <SelectItem key={school.id} value={String(school.id)}>
+                        {school.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>School</Label>
+                <p className="text-sm text-muted-foreground pt-2">
+                  Users are imported into {user?.school?.name || "your school"}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="send-invites"
+              checked={sendInvites}
+              onCheckedChange={(checked) => {
+                setSendInvites(checked === true);
+                resetReport();
+              }}
+            />
+            <Label htmlFor="send-invites" className="font-normal">
+              Email new users a link to set their own password (ignores any password column)
+            </Label>
+          </div>
+
+          <Button
+            onClick={() => importMutation.mutate(true)}
+            disabled={!file || importMutation.isPending}
+          >
+            {importMutation.isPending && importMutation.variables ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileCheck className="h-4 w-4 mr-2" />
+            )}
+            Check file
+          </Button>
+        </CardContent>
+      </Card>
+
+      {mapping && columns.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>2. Match columns</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {(Object.keys(FIELD_LABELS) as UserImportField[]).map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>{FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={mapping[field] || NOT_MAPPED}
+                    onValueChange={(value) => updateMapping(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {columns.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {report && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>
+              {report.committed ? "3. Imported" : "3. Review and import"}
+            </CardTitle>
+            {!report.committed && (
+              <Button
+                onClick={() => importMutation.mutate(false)}
+                disabled={!canCommit || importMutation.isPending}
+              >
+                {importMutation.isPending && !importMutation.variables ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Import {report.summary.create + report.summary.update} users
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(report.summary) as ImportAction[]).map((action) => (
+                <Badge key={action} variant="outline" className={ACTION_STYLES[action]}>
+                  {report.summary[action]} {action}
+                </Badge>
+              ))}
+            </div>
+            {report.summary.error > 0 && (
+              <p className="text-sm text-destructive mb-4">
+                Fix the rows with errors in the file and check it again. Duplicate rows are
+                skipped.
+              </p>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map((row) => (
+                  <TableRow key={row.rowNumber}>
+                    <TableCell>{row.rowNumber}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={ACTION_STYLES[row.action]}>
+                        {row.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{row.name || "-"}</TableCell>
+                    <TableCell>{row.email || "-"}</TableCell>
+                    <TableCell className="text-sm">
+                      {row.errors.length > 0
+                        ? row.errors.join("; ")
+                        : row.action === "update"
+                          ? row.changes.length
+                            ? `Changes: ${row.changes.join(", ")}`
+                            : "No changes"
+                          : ""}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
 import { useAuth } from "@/providers/AuthProvider";
+import { can } from "@shared/policy";
 import { useToast } from "@/hooks/use-toast";
 import { usersApi, schoolsApi } from "@/lib/api";
 import PageHeader from "@/components/shared/PageHeader";
+import GuardiansDialog from "@/components/guardians/GuardiansDialog";
+import EraseUserDialog from "@/components/users/EraseUserDialog";
+import DeactivateUserDialog from "@/components/users/DeactivateUserDialog";
+import ResetPasswordDialog from "@/components/users/ResetPasswordDialog";
+import PasswordStrengthMeter from "@/components/security/PasswordStrengthMeter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import {
@@ -52,11 +59,21 @@ import {
   Check,
   X,
   Edit,
-  Trash2,
   User,
+  UserCheck,
+  UserX,
   UserCog,
   Loader2,
   Filter,
+  LogOut,
+  Lock,
+  Unlock,
+  KeyRound,
+  Eye,
+  Upload,
+  Users,
+  Download,
+  ShieldX,
 } from "lucide-react";
 
 // Define schema for user creation
@@ -68,7 +85,7 @@ const createUserSchema = z
       .min(3, { message: "Username must be at least 3 characters" }),
     password: z
       .string()
-      .min(6, { message: "Password must be at least 6 characters" }),
+      .min(8, { message: "Password must be at least 8 characters" }),
     confirmPassword: z.string(),
     firstName: z.string().min(1, { message: "First name is required" }),
     lastName: z.string().min(1, { message: "Last name is required" }),
@@ -100,7 +117,7 @@ type EditUserFormValues = z.infer<typeof editUserSchema>;
 const filterSchema = z.object({
   searchTerm: z.string().optional(),
   role: z
-    .enum(["all", "student", "teacher", "moderator", "admin", "superadmin"])
+    .enum(["all", "student", "teacher", "moderator", "admin", "superadmin", "guardian"])
     .default("all"),
   schoolId: z.number().optional(),
 });
@@ -108,9 +125,10 @@ const filterSchema = z.object({
 type FilterValues = z.infer<typeof filterSchema>;
 
 export default function UserManagement() {
-  const { user } = useAuth();
+  const { user, refreshUser } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [selectedTab, setSelectedTab] = useState<string>("all");
   const [filters, setFilters] = useState<FilterValues>({
@@ -119,6 +137,10 @@ export default function UserManagement() {
     schoolId: user?.schoolId || undefined,
   });
   const [editingUser, setEditingUser] = useState<any>(null);
+  const [guardiansStudent, setGuardiansStudent] = useState<any>(null);
+  const [erasingUser, setErasingUser] = useState<any>(null);
+  const [deactivatingUser, setDeactivatingUser] = useState<any>(null);
+  const [resettingPasswordUser, setResettingPasswordUser] = useState<any>(null);
 
   // Create form
   const form = useForm<CreateUserFormValues>({
@@ -161,7 +183,7 @@ export default function UserManagement() {
   } = useQuery({
     queryKey: ["/api/users/school", filters.schoolId],
     queryFn: () =>
-      usersApi.getBySchool(filters.schoolId || user?.schoolId || 0),
+      usersApi.getBySchool(filters.schoolId || user?.schoolId || 0, undefined, true),
     enabled: !!user?.schoolId || user?.permissions?.canEditAllOpportunities,
   });
 
@@ -179,6 +201,91 @@ export default function UserManagement() {
     enabled: user?.permissions?.canManageUsers,
   });
 
+  // Lift a temporary lockout caused by failed logins
+  const unlockUserMutation = useMutation({
+    mutationFn: (id: number) => usersApi.unlock(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/school"] });
+      toast({
+        title: "User unlocked",
+        description: result.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to unlock user: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Sign a user out of every session and device
+  const revokeSessionsMutation = useMutation({
+    mutationFn: (id: number) => usersApi.revokeSessions(id),
+    onSuccess: (result) => {
+      toast({
+        title: "Signed out everywhere",
+        description: result.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to sign user out: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Let a deactivated user sign in again
+  const reactivateUserMutation = useMutation({
+    mutationFn: (id: number) => usersApi.reactivate(id),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/school"] });
+      toast({
+        title: "User reactivated",
+        description: result.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reactivate user: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Download everything held about a user for a data subject request
+  const exportDataMutation = useMutation({
+    mutationFn: (id: number) => usersApi.exportData(id),
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to export user data: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Superadmins can look at the app as another user, read-only
+  const impersonateMutation = useMutation({
+    mutationFn: (id: number) => usersApi.impersonate(id),
+    onSuccess: async () => {
+      queryClient.clear();
+      await refreshUser();
+      navigate("/dashboard");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to view as user: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Create user mutation
   const createUserMutation = useMutation({
     mutationFn: (values: CreateUserFormValues) => usersApi.create(values),
@@ -289,6 +396,10 @@ export default function UserManagement() {
       })
     : [];
 
+  // Accounts are locked for a while after too many failed logins
+  const isLocked = (userData: any) =>
+    !!userData.lockedUntil && new Date(userData.lockedUntil) > new Date();
+
   // Get role badge color
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
@@ -367,6 +478,7 @@ export default function UserManagement() {
                             <SelectItem value="student">Students</SelectItem>
                             <SelectItem value="teacher">Teachers</SelectItem>
                             <SelectItem value="admin">Admins</SelectItem>
+                            <SelectItem value="guardian">Guardians</SelectItem>
                             {user?.permissions?.canManageUsers && (
                               <SelectItem value="superadmin">
                                 Super Admins
@@ -425,6 +537,15 @@ export default function UserManagement() {
                 <Filter className="h-4 w-4 mr-2" />
                 Filter
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                className="h-10"
+                onClick={() => navigate("/user-import")}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
             </form>
           </Form>
         </CardContent>
@@ -524,10 +645,27 @@ export default function UserManagement() {
                               <Badge
                                 variant="outline"
                                 className="bg-red-50 text-red-700 border-red-200"
+                                title={userData.deactivationReason || undefined}
                               >
                                 <X className="h-3 w-3 mr-1" /> Inactive
                               </Badge>
                             )}
+                            {userData.erasedAt && (
+                              <Badge
+                                variant="outline"
+                                className="ml-2 bg-gray-50 text-gray-700 border-gray-200"
+                              >
+                                <ShieldX className="h-3 w-3 mr-1" /> Erased
+                              </Badge>
+                            )}
+                            {isLocked(userData) && (
+                              <Badge
+                                variant="outline"
+                                className="ml-2 bg-amber-50 text-amber-700 border-amber-200"
+                              >
+                                <Lock className="h-3 w-3 mr-1" /> Locked
+                              </Badge>
+                            )}
                           </TableCell>
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-2">
@@ -541,15 +679,122 @@ export default function UserManagement() {
                                   <Edit className="h-4 w-4" />
                                 </Button>
                               )}
-                              {userData.id !== user?.id && (
+                              {isLocked(userData) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Unlock account"
+                                  onClick={() =>
+                                    unlockUserMutation.mutate(userData.id)
+                                  }
+                                  disabled={unlockUserMutation.isPending}
+                                >
+                                  <Unlock className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {userData.id !== user?.id && userData.isActive && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Reset password"
+                                  onClick={() => setResettingPasswordUser(userData)}
+                                >
+                                  <KeyRound className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {/* e.g. after a lost phone; deactivating signs out too */}
+                              {userData.id !== user?.id && userData.isActive && (
                                 <Button
                                   variant="ghost"
                                   size="icon"
+                                  title="Sign out of all sessions"
+                                  onClick={() =>
+                                    revokeSessionsMutation.mutate(userData.id)
+                                  }
+                                  disabled={revokeSessionsMutation.isPending}
+                                >
+                                  <LogOut className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {getRoleNameById(userData.roleId) === "student" && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Guardians"
+                                  onClick={() => setGuardiansStudent(userData)}
+                                >
+                                  <Users className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {can(user, "user:impersonate", {
+                                id: userData.id,
+                                role: getRoleNameById(userData.roleId),
+                              }) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="View as this user"
+                                  onClick={() =>
+                                    impersonateMutation.mutate(userData.id)
+                                  }
+                                  disabled={impersonateMutation.isPending}
+                                >
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {!userData.erasedAt && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Export user data"
+                                  onClick={() =>
+                                    exportDataMutation.mutate(userData.id)
+                                  }
+                                  disabled={exportDataMutation.isPending}
+                                >
+                                  <Download className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {!userData.erasedAt &&
+                                can(user, "user:erase", userData) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Erase personal data"
+                                    className="text-destructive"
+                                    onClick={() => setErasingUser(userData)}
+                                  >
+                                    <ShieldX className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              {/* Users are deactivated rather than deleted so
+                                  their attendance history is kept */}
+                              {userData.id !== user?.id && userData.isActive && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Deactivate"
                                   className="text-destructive"
+                                  onClick={() => setDeactivatingUser(userData)}
                                 >
-                                  <Trash2 className="h-4 w-4" />
+                                  <UserX className="h-4 w-4" />
                                 </Button>
                               )}
+                              {userData.id !== user?.id &&
+                                !userData.isActive &&
+                                !userData.erasedAt && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Reactivate"
+                                    onClick={() =>
+                                      reactivateUserMutation.mutate(userData.id)
+                                    }
+                                    disabled={reactivateUserMutation.isPending}
+                                  >
+                                    <UserCheck className="h-4 w-4" />
+                                  </Button>
+                                )}
                               {userData.id === user?.id && (
                                 <span className="text-sm text-muted-foreground px-2 py-1">
                                   Current User
@@ -666,6 +911,7 @@ export default function UserManagement() {
                           {...field}
                         />
                       </FormControl>
+                      <PasswordStrengthMeter password={field.value} />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -712,11 +958,13 @@ export default function UserManagement() {
                             Loading roles...
                           </div>
                         ) : (
-                          userRoles?.map((role: any) => (
-                            <SelectItem key={role.id} value={String(role.id)}>
-                              {role.name}
-                            </SelectItem>
-                          ))
+                          userRoles
+                            ?.filter((role: any) => !role.isRetired)
+                            .map((role: any) => (
+                              <SelectItem key={role.id} value={String(role.id)}>
+                                {role.name}
+                              </SelectItem>
+                            ))
                         )}
                       </SelectContent>
                     </Select>
@@ -902,11 +1150,17 @@ export default function UserManagement() {
                               Loading roles...
                             </div>
                           ) : (
-                            userRoles?.map((role: any) => (
-                              <SelectItem key={role.id} value={String(role.id)}>
-                                {role.name}
-                              </SelectItem>
-                            ))
+                            userRoles
+                              ?.filter(
+                                (role: any) =>
+                                  !role.isRetired ||
+                                  role.id === editingUser?.roleId,
+                              )
+                              .map((role: any) => (
+                                <SelectItem key={role.id} value={String(role.id)}>
+                                  {role.name}
+                                </SelectItem>
+                              ))
                           )}
                         </SelectContent>
                       </Select>
@@ -981,6 +1235,26 @@ export default function UserManagement() {
           )}
         </DialogContent>
       </Dialog>
+
+      <GuardiansDialog
+        student={guardiansStudent}
+        onClose={() => setGuardiansStudent(null)}
+      />
+
+      <EraseUserDialog
+        user={erasingUser}
+        onClose={() => setErasingUser(null)}
+      />
+
+      <DeactivateUserDialog
+        user={deactivatingUser}
+        onClose={() => setDeactivatingUser(null)}
+      />
+
+      <ResetPasswordDialog
+        user={resettingPasswordUser}
+        onClose={() => setResettingPasswordUser(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, CheckCircle, Loader2 } from "lucide-react";
+import { auth } from "@/lib/auth";
+
+const resendSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address" }),
+});
+
+type ResendFormValues = z.infer<typeof resendSchema>;
+
+type VerificationStatus = "verifying" | "verified" | "failed" | "idle";
+
+export default function VerifyEmail() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [resent, setResent] = useState(false);
+
+  // Token comes from the link in the verification email
+  const token = new URLSearchParams(window.location.search).get("token");
+  const [status, setStatus] = useState<VerificationStatus>(
+    token ? "verifying" : "idle",
+  );
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // The token only works once, so StrictMode's second effect run must not
+  // send it again and report the already used token as a failure
+  const verifyStarted = useRef(false);
+
+  const form = useForm<ResendFormValues>({
+    resolver: zodResolver(resendSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!token || verifyStarted.current) return;
+    verifyStarted.current = true;
+
+    auth
+      .verifyEmail(token)
+      .then(() => setStatus("verified"))
+      .catch((error) => {
+        console.error("Email verification error:", error);
+        setErrorMessage(error instanceof Error ? error.message : null);
+        setStatus("failed");
+      });
+  }, [token]);
+
+  const onResend = async (values: ResendFormValues) => {
+    setLoading(true);
+    try {
+      await auth.resendVerification(values.email);
+      toast({
+        title: "Check your email",
+        description: "If your account still needs verifying, we've sent a new link",
+      });
+      setResent(true);
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to send a new verification link. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-slate-50">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">Verify Your Email</CardTitle>
+          <CardDescription>
+            {status === "verified"
+              ? "Your email address has been confirmed"
+              : "Confirm your email address to activate your account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status === "verifying" && (
+            <div className="flex items-center justify-center py-6 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Verifying your email address...
+            </div>
+          )}
+
+          {status === "verified" && (
+            <div className="text-center space-y-4">
+              <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+              <p className="text-muted-foreground">
+                Thank you! You can now sign in to your account.
+              </p>
+              <Button className="mt-4" onClick={() => setLocation("/login")}>
+                Continue to login
+              </Button>
+            </div>
+          )}
+
+          {(status === "failed" || status === "idle") && (
+            <div className="space-y-4">
+              {status === "failed" && (
+                <p className="text-sm text-destructive text-center">
+                  {errorMessage || "This verification link is invalid or has expired"}
+                </p>
+              )}
+
+              {resent ? (
+                <p className="text-muted-foreground text-center">
+                  If an unverified account exists for{" "}
+                  <span className="font-medium">{form.getValues().email}</span>, a new
+                  verification link is on its way.
+                </p>
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onResend)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email</FormLabel>
+                          <FormControl>
+                            <Input placeholder="your.email@example.com" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading ? "Sending..." : "Send a new verification link"}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setLocation("/login")}
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to login
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,12 +11,23 @@ interface User {
   firstName: string;
   lastName: string;
   roleId: number;
+  role?: string;
   schoolId: number | null;
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean;
+  mustChangePassword?: boolean;
+  // Set while a superadmin is viewing the app as this user
+  impersonation?: {
+    impersonatorName: string;
+    expiresAt: string;
+  } | null;
   school?: {
     id: number;
     name: string;
     logoUrl: string | null;
     description: string | null;
+    requireOpportunityApproval?: boolean;
   } | null;
   profilePicture?: string;
   permissions?: {
@@ -36,10 +47,15 @@ interface User {
   };
 }
 
+// 'two-factor' means the password was accepted and a code is still needed
+export type LoginResult = 'success' | 'two-factor' | 'failed';
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (code: string, isRecoveryCode?: boolean) => Promise<boolean>;
+  refreshUser: () => Promise<void>;
   logout: () => Promise<void>;
   register: (userData: any) => Promise<boolean>;
 }
@@ -75,34 +91,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     fetchCurrentUser();
   }, []);
 
+  // Load the complete user data with permissions once the session exists
+  const completeLogin = async (userData: any) => {
+    // Small delay to ensure session is set
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const currentUserRes = await fetch('/api/auth/current-user', {
+      credentials: 'include',
+    });
+
+    if (currentUserRes.ok) {
+      const completeUserData = await currentUserRes.json();
+      setUser(completeUserData);
+      console.log('Complete user data loaded after login:', completeUserData);
+    } else {
+      // Fallback to login response data
+      setUser(userData);
+    }
+
+    toast({
+      title: 'Login successful',
+      description: `Welcome back, ${userData.firstName || 'User'}!`,
+    });
+  };
+
   // Login function
-  const login = async (email: string, password: string): Promise<boolean> => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const res = await apiRequest('POST', '/api/auth/login', { email, password });
       const userData = await res.json();
-      
-      // After login, fetch complete user data with permissions
-      await new Promise(resolve => setTimeout(resolve, 100)); // Small delay to ensure session is set
-      
-      const currentUserRes = await fetch('/api/auth/current-user', {
-        credentials: 'include',
-      });
-      
-      if (currentUserRes.ok) {
-        const completeUserData = await currentUserRes.json();
-        setUser(completeUserData);
-        console.log('Complete user data loaded after login:', completeUserData);
-      } else {
-        // Fallback to login response data
-        setUser(userData);
+
+      if (userData.twoFactorRequired) {
+        return 'two-factor';
       }
-      
-      toast({
-        title: 'Login successful',
-        description: `Welcome back, ${userData.firstName || 'User'}!`,
-      });
-      
-      return true;
+
+      await completeLogin(userData);
+      return 'success';
     } catch (error) {
       console.error('Login error:', error);
       toast({
@@ -110,10 +134,35 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         description: error instanceof Error ? error.message : 'Invalid email or password',
         variant: 'destructive',
       });
+      return 'failed';
+    }
+  };
+
+  // Second login step for accounts with two-factor authentication
+  const verifyTwoFactor = async (code: string, isRecoveryCode = false): Promise<boolean> => {
+    try {
+      const userData = await auth.verifyTwoFactor(
+        isRecoveryCode ? { recoveryCode: code } : { code }
+      );
+      await completeLogin(userData);
+      return true;
+    } catch (error) {
+      console.error('Two-factor verification error:', error);
+      toast({
+        title: 'Verification failed',
+        description: error instanceof Error ? error.message : 'Invalid authentication code',
+        variant: 'destructive',
+      });
       return false;
     }
   };
 
+  // Reload the current user, e.g. after changing security settings
+  const refreshUser = async (): Promise<void> => {
+    const userData = await auth.getCurrentUser();
+    setUser(userData);
+  };
+
   // Logout function
   const logout = async (): Promise<void> => {
     try {
@@ -158,6 +207,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     user,
     isLoading,
     login,
+    verifyTwoFactor,
+    refreshUser,
     logout,
     register,
   };
@@ -10,10 +10,10 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import { apiRequest } from '../services/api';
-import { Opportunity, SearchFilters } from '../types';
+import { Opportunity, OpportunityPage, SearchFilters } from '../types';
 
 interface OpportunitiesScreenProps {
   navigation: any;
@@ -24,12 +24,22 @@ export default function OpportunitiesScreen({ navigation }: OpportunitiesScreenP
   const [filters, setFilters] = useState<SearchFilters>({});
   const queryClient = useQueryClient();
 
-  // Fetch opportunities
-  const { data: opportunities = [], isLoading, error, refetch } = useQuery({
+  // Fetch opportunities a page at a time, loading more on scroll
+  const {
+    data,
+    isLoading,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: ['opportunities', searchQuery, filters],
-    queryFn: () => fetchOpportunities(searchQuery, filters),
+    queryFn: ({ pageParam }) => fetchOpportunities(searchQuery, filters, pageParam),
+    getNextPageParam: (lastPage: OpportunityPage) => lastPage.nextCursor ?? undefined,
     staleTime: 5 * 60 * 1000,
   });
+  const opportunities = data?.pages.flatMap((page) => page.opportunities) ?? [];
 
   // Register interest mutation
   const registerInterestMutation = useMutation({
@@ -61,9 +71,14 @@ export default function OpportunitiesScreen({ navigation }: OpportunitiesScreenP
     },
   });
 
-  const fetchOpportunities = async (query: string, filters: SearchFilters) => {
+  const fetchOpportunities = async (
+    query: string,
+    filters: SearchFilters,
+    cursor?: string,
+  ): Promise<OpportunityPage> => {
     const params = new URLSearchParams();
     if (query) params.append('q', query);
+    if (cursor) params.append('cursor', cursor);
     Object.entries(filters).forEach(([key, value]) => {
       if (value) {
         if (Array.isArray(value)) {
@@ -204,6 +219,15 @@ export default function OpportunitiesScreen({ navigation }: OpportunitiesScreenP
         refreshControl={
           <RefreshControl refreshing={isLoading} onRefresh={refetch} />
         }
+        onEndReached={() => {
+          if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+        }}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isFetchingNextPage ? (
+            <ActivityIndicator size="small" color="#2563eb" />
+          ) : null
+        }
         ListEmptyComponent={
           isLoading ? (
             <View style={styles.loadingContainer}>
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiRequest } from './api';
 
@@ -61,7 +62,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
     } catch (error) {
       console.error('Auth check failed:', error);
-      await AsyncStorage.removeItem('authToken');
+      await AsyncStorage.multiRemove(['authToken', 'refreshToken']);
     } finally {
       setIsLoading(false);
     }
@@ -69,17 +70,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
-      const response = await apiRequest('/api/auth/login', {
+      const response = await apiRequest('/api/auth/token', {
         method: 'POST',
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({
+          email,
+          password,
+          deviceName: `EduOpps for ${Platform.OS === 'ios' ? 'iOS' : 'Android'}`,
+        }),
         headers: {
           'Content-Type': 'application/json',
         },
       });
 
-      if (response.token) {
-        await AsyncStorage.setItem('authToken', response.token);
-        setUser(response.user);
+      if (response.accessToken) {
+        await AsyncStorage.multiSet([
+          ['authToken', response.accessToken],
+          ['refreshToken', response.refreshToken],
+        ]);
+
+        // Load the full profile with permissions now that the token is stored
+        const currentUser = await apiRequest('/api/auth/current-user');
+        setUser(currentUser);
         return true;
       }
       return false;
@@ -91,11 +102,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logout = async () => {
     try {
-      await apiRequest('/api/auth/logout', { method: 'POST' });
+      // Revokes this device's tokens on the server
+      const refreshToken = await AsyncStorage.getItem('refreshToken');
+      await apiRequest('/api/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      }, false);
     } catch (error) {
       console.error('Logout error:', error);
     } finally {
-      await AsyncStorage.removeItem('authToken');
+      await AsyncStorage.multiRemove(['authToken', 'refreshToken']);
       setUser(null);
     }
   };
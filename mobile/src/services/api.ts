@@ -3,7 +3,31 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 // Replace with your actual server URL
 const API_BASE_URL = 'http://localhost:5000';
 
-export async function apiRequest(url: string, options: RequestInit = {}) {
+// Exchange the stored refresh token for a new token pair
+export async function refreshTokens(): Promise<boolean> {
+  const refreshToken = await AsyncStorage.getItem('refreshToken');
+  if (!refreshToken) return false;
+
+  const response = await fetch(`${API_BASE_URL}/api/auth/token/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (!response.ok) {
+    await AsyncStorage.multiRemove(['authToken', 'refreshToken']);
+    return false;
+  }
+
+  const data = await response.json();
+  await AsyncStorage.multiSet([
+    ['authToken', data.accessToken],
+    ['refreshToken', data.refreshToken],
+  ]);
+  return true;
+}
+
+export async function apiRequest(url: string, options: RequestInit = {}, retry = true): Promise<any> {
   const token = await AsyncStorage.getItem('authToken');
   
   const config: RequestInit = {
@@ -17,9 +41,14 @@ export async function apiRequest(url: string, options: RequestInit = {}) {
 
   const response = await fetch(`${API_BASE_URL}${url}`, config);
   
+  // Access tokens are short-lived, so refresh once and retry
+  if (response.status === 401 && token && retry && (await refreshTokens())) {
+    return apiRequest(url, options, false);
+  }
+  
   if (!response.ok) {
     throw new Error(`HTTP error! status: ${response.status}`);
   }
   
   return response.json();
-}
\ No newline at end of file
+}
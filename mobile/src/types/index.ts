@@ -58,6 +58,14 @@ export interface FilterOptions {
   educationLevels: string[];
 }
 
+// One page of GET /api/opportunities/search; pass nextCursor back as
+// `cursor` for the next page
+export interface OpportunityPage {
+  opportunities: Opportunity[];
+  total: number;
+  nextCursor: string | null;
+}
+
 export interface SearchFilters {
   industry?: string;
   ageGroups?: string[];
@@ -0,0 +1,394 @@
+// SHA-1 hashes of passwords that are common in public breach corpora,
+// grouped by their first five hex characters in the same way as the Pwned
+// Passwords range API. A lookup only ever needs the list for one prefix, so
+// the browser can check a password without sending it (see
+// /api/auth/password-policy/breached/:prefix).
+export const BREACHED_PASSWORD_RANGES: Record<string, string[]> = {
+  "00619": ["DFCEDB6C415286F4923575972C1C4AB4703"],
+  "00683": ["9D264A38B7F58E5C8130447528BF4B7AEE1"],
+  "011C9": ["45F30CE2CBAFC452F39840F025693339C42"],
+  "018F4": ["D7F06CB8626E1756452581373E05AE41C56"],
+  "019DB": ["0BFD5F85951CB46E4452E9642858C004155"],
+  "01B30": ["7ACBA4F54F55AAFC33BB06BBBF6CA803E9A"],
+  "01F6C": ["861BF8C1DD06B55C19AF49328B66F754B46"],
+  "02E0A": ["999C50B1F88DF7A8F5A04E1B76B35EA6A88"],
+  "03FDF": ["1323C8D4770C90576CE2A1860D476DED8AB"],
+  "0405F": ["09E8CCD8CE4236BDB6B167E4426BFC41848"],
+  "043A5": ["58250409758B64F73D07D7F06B3DF654BC0"],
+  "05B53": ["0AD0FB56286FE051D5F8BE5B8453F1CD93F"],
+  "05FE7": ["461C607C33229772D402505601016A7D0EA"],
+  "06894": ["2C83F0E6994D046F7EC01B8F42BA8F317A7"],
+  "08808": ["065106E0F48E0D8EFBD4C492C633B4D69E8"],
+  "09639": ["92090AAC2D595B32D34E8A5FCAB9FAE3151"],
+  "0A355": ["41A0C82D39E1F8363B5E88A037A8CFA2580"],
+  "0B15C": ["29A853923C6ADFB90F1AA6A54A56B5383FA"],
+  "0CE79": ["11E6479995D6C346D6F03EB723B5135309E"],
+  "0E818": ["BFA0679DF304036382AAA7667DF92CBE30E"],
+  "0F125": ["41AFCCE175FB34BB05A79C95B76E765488B"],
+  "104E0": ["3314A82F3FBC0CE1C681CFDFA2D0542E492"],
+  "10E4F": ["3819007F514FB766FE23090FC7CFE370604"],
+  "12E92": ["93EC6B30C7FA8A0926AF42807E929C1684F"],
+  "14116": ["78A0B9E25EE2F7C8B2F7AC92B6A74B3F9C5"],
+  "15614": ["82C1292222496D39BB43EB61619184A51C9"],
+  "1645E": ["E78DE0F7C73001E1A8ED1FACC25A72B6796"],
+  "17B9E": ["1C64588C7FA6419B4D29DC1F4426279BA01"],
+  "18C28": ["604DD31094A8D69DAE60F1BCD347F1AFC5A"],
+  "19485": ["E369C691FA8ECE1FABC8A6CEABFB5666B79"],
+  "1999E": ["4893F732BA38B948DBE8D34ED48CD54F058"],
+  "19B05": ["6140116019A2AD0526359222B3202AFE9A0"],
+  "1AA25": ["EAD3880825480B6C0197552D90EB5D48D23"],
+  "1C905": ["9170910835368500990479A5CF828444D34"],
+  "1CB5B": ["D5A9E45420321F44C72DA5D90D7F0432FFB"],
+  "1E41C": ["981637834CAEC149B4D33F7F8566076DDFA"],
+  "1EE77": ["60A3190C95641442F2BE0EF7774E139FB1F"],
+  "1EF41": ["AF4175FE164BF14A260FDF226218961C106"],
+  "1F3C5": ["3AE14626035383B39C207564D32D083E8FD"],
+  "1F552": ["3A8F535289B3401B29958D01B2966ED61D2"],
+  "1F82C": ["942BEFDA29B6ED487A51DA199F78FCE7F05"],
+  "1F8AC": ["10F23C5B5BC1167BDA84B833E5C057A77D2"],
+  "1FC85": ["4110E5532480000542834F453DE31936C2F"],
+  "1FD1B": ["4516473C36C8FB30BBF7C4490FC20419A10"],
+  "1FFF8": ["C7BE7829FB657F9CDF5D55334999C9DD6A3"],
+  "20403": ["6A1EF6E7360E536300EA78C6AEB4A9333DD"],
+  "20BEE": ["D61F5D64368B9ABA66E91A1D2A090A0D4AE"],
+  "20D25": ["3779A917A99F0FC278C478A10D748945850"],
+  "20EAB": ["E5D64B0E216796E834F52D61FD0B70332FC"],
+  "21A2F": ["903885172B4503E6F5EAF6B78880F4712CC"],
+  "21BD1": ["2DC183F740EE76F27B78EB39C8AD972A757"],
+  "22942": ["B7C5CDF7813BA3C1EA82FF3A2B406486271"],
+  "2394E": ["EAC9FC3DB56189A894E221220B6089E78D3"],
+  "23F29": ["16E01209D6282F226BE9677AFFAEC44A8D6"],
+  "24851": ["0136410798C784BA702DF249756AD286BE4"],
+  "24E74": ["51DF05ED5CD4CF1041BE67C68F8D89D087A"],
+  "250E7": ["7F12A5AB6972A0895D290C4792F0A326EA8"],
+  "2539D": ["3DF1FCFA43CD1D5F5D55901F6718A10C595"],
+  "263D0": ["0820F9F5E0ACC0274DA747E0A9B6868145E"],
+  "269A0": ["3F47F0550E98664C4A542EA78A23B305A82"],
+  "26F3C": ["D230E935F8BEF3596727F75448CB446120B"],
+  "2736F": ["AB291F04E69B62D490C3C09361F5B82461A"],
+  "273A0": ["C7BD3C679BA9A6F5D99078E36E85D02B952"],
+  "2C490": ["B8E68B92E79CE344C25F3D87FC297D12346"],
+  "2C4C3": ["891E2AC6958E9810A1E49C6705784FBFA1A"],
+  "2D27B": ["62C597EC858F6E7B54E7E58525E6A95E6D8"],
+  "2DB7A": ["4BE659AE534CBE089A2BB2936EB452B6AB8"],
+  "2FB5E": ["13419FC89246865E7A324F476EC624E8740"],
+  "320BC": ["A71FC381A4A025636043CA86E734E31CF8B"],
+  "32715": ["6AB287C6AA52C8670E13163FC1BF660ADD4"],
+  "32CA9": ["FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573"],
+  "34512": ["0426285FF8B1D43653A4D078170B4761F75"],
+  "3559E": ["FC37C61A31AA9DA4F2E4ECD952192CD9DA0"],
+  "35675": ["E68F4B5AF7B995D9205AD0FC43842F16450"],
+  "360E4": ["6F15F432AF83C77017177A759ABA8A58519"],
+  "36749": ["51EC264A72168CB2D89A5F634E512F6629D"],
+  "368F9": ["76940775C710AEC525FE1E349F8A1FB9A39"],
+  "39DFA": ["55283318D31AFE5A3FF4A0E3253E2045E43"],
+  "3ACD0": ["BE86DE7DCCCDBF91B20F94A68CEA535922D"],
+  "3D0F3": ["B9DDCACEC30C4008C5E030E6C13A478CB4F"],
+  "3D4F2": ["BF07DC1BE38B20CD6E46949A1071F9D0E3D"],
+  "3DD63": ["5A808DDB6DD4B6731F7C409D53DD4B14DF2"],
+  "3FCFC": ["1F7F34E78A937E81171BA51DC39538DB993"],
+  "40123": ["E9C6273385EA69892C48C80AA6CB25B9113"],
+  "403E3": ["5A2B0243D40400AF6BB358B5C546CDDD981"],
+  "4068F": ["0880B399410602D694B3CC711C8A8F4727E"],
+  "40D19": ["D8DAB1B8412E014D182B812C78C1725AE86"],
+  "40D35": ["D55F267E36711ECB6DCA59DF4036A1DD556"],
+  "41880": ["EE3438C878762E9A1A0FEC66BCC23DAC767"],
+  "41EA4": ["2ADD0A44DC0CE777A6233981C75CDD0FA24"],
+  "420FC": ["C63481AC21FDCA8F011608A9F8731609CFA"],
+  "42331": ["37D1C510F2E55BA5CB220B864B11033F156"],
+  "425AF": ["12A0743502B322E93A015BCF868E324D56A"],
+  "42629": ["D789C788D24DEC3843783C3EFF9651BD228"],
+  "435B4": ["1068E8665513A20070C033B08B9C66E4332"],
+  "44213": ["F9F4D59B557314FADCD233232EEBCAC8012"],
+  "4451A": ["E61C3AB2352FD7C2C4E5B7DDE09FAC93FFF"],
+  "44993": ["8CD38C82BCDDC2B534548DDBE984ADB8EFC"],
+  "46147": ["6587780AA9FA5611EA6DC3912C146A91760"],
+  "473C2": ["D0D0950352C9927B3EADD71015C390478CB"],
+  "47456": ["CC868F5920BB1E358C1D5C14C320C529ACF"],
+  "474BA": ["67BDB289C6263B36DFD8A7BED6C85B04943"],
+  "47C1D": ["C4559EAE95CDDE6246BF4AA3FB058DD8373"],
+  "48058": ["E0C99BF7D689CE71C360699A14CE2F99774"],
+  "48EFC": ["4851E15940AF5D477D3C0CE99211A70A3BE"],
+  "4A82C": ["B6DB537EF6C5B53D144854E146DE79502E8"],
+  "4B4B0": ["4529D87B5C318702BC1D7689F70B15EF4FC"],
+  "4D0FB": ["475B242228032CBDF6D53924D2538DF037B"],
+  "4D8B4": ["D6E78C7A1679BCF58B4E37FF35F623C2B56"],
+  "4D901": ["2B4A77A9524D675DAD27C3276AB5705E5E8"],
+  "4DE71": ["CDBBF55A1F27B057FC1759F398A102BA053"],
+  "4EA84": ["2C8C6304F4A418835FB6665DF10524DF1A5"],
+  "4F26A": ["EAFDB2367620A393C973EDDBE8F8B846EBD"],
+  "5116E": ["40694AC48F654CB7B6816177E0E717237C6"],
+  "519BC": ["3F0FDA96312357E1409DE278BFF4D5F5B25"],
+  "54669": ["547A225FF20CBA8B75A4ADCA540EEF25858"],
+  "5479F": ["2FA49524ADACFF538D1CB23DF73200D0EC6"],
+  "55B5A": ["0F748D3A82DCE10B205ECB0A0D8916C66A1"],
+  "56259": ["DD1C4EA0117CD601FFF7AEFA0E8892A3B25"],
+  "57B2A": ["D99044D337197C0C39FD3823568FF81E48A"],
+  "58A37": ["CF13FAAED3B81B3A1FCE4872824EB4E57C4"],
+  "59033": ["478180D07080D5E4F3BAA0099996C364162"],
+  "59C82": ["6FC854197CBD4D1083BCE8FC00D0761E8B3"],
+  "5A46B": ["8253D07320A14CACE9B4DCBF80F93DCEF04"],
+  "5A4F2": ["6B21EBC770C5837D49E7C35574B29654610"],
+  "5BAA6": ["1E4C9B93F3F0682250B6CF8331B7EE68FD8"],
+  "5BC18": ["24930FFBBAFC27E7EB204260A4017859A35"],
+  "5BFD0": ["8BDAC5988B8C1D14A86BF8AB736DB159E9F"],
+  "5C17F": ["A03E6D5FC247565E1CD8FFA70E1BFE5B8D9"],
+  "5C6AC": ["A6504E010FC38BDBF9B940CAA1D463407CF"],
+  "5C6D9": ["EDC3A951CDA763F650235CFC41A3FC23FE8"],
+  "5C968": ["8A59F3FCBFDBFEEA06378A76AF06A09AA95"],
+  "5C995": ["BBB81B028B869EE4EA7C44BB1A9EA6152BC"],
+  "5CEC1": ["75B165E3D5E62C9E13CE848EF6FEAC81BFF"],
+  "5D70C": ["3D101EFD9CC0A69F4DF2DDF33B21E641F6A"],
+  "5D74A": ["E093A16A00E5AF127763F2DC7E13988F162"],
+  "5F079": ["981221CE504832142E9526B623BBFB6E686"],
+  "5F50A": ["84C1FA3BCFF146405017F36AEC1A10A9E38"],
+  "5F802": ["11CCB43CD491C4E2FFBBDA4C7F6BA0FF604"],
+  "5FEE0": ["0239940F883D4C2854E41C7F989E75278A3"],
+  "601F1": ["889667EFAEBB33B8C12572835DA3F027F78"],
+  "6092A": ["032351D76D6AACE89D4467BAC17E09B52CE"],
+  "624C2": ["2A8C8F8C93F18FE5ECD4713100C8D754507"],
+  "62A56": ["A64C1489FBE3BAD6983401EF58E0CC26B41"],
+  "62B48": ["7BC84825B3DF028A932F082526E195EEFF2"],
+  "6367C": ["48DD193D56EA7B0BAAD25B19455E529F5EE"],
+  "63CFE": ["153B3CFD77A5AE49BD83CD96796C14DC4D9"],
+  "640FB": ["06193D8F2177C0FBF84F172DC686D33DD00"],
+  "6420E": ["D4D831B436D1E92D25605D18297296374E3"],
+  "64356": ["BCFAE350C970263C1CE575185B289F7B836"],
+  "64EA0": ["DC7DADD49A337F1EF14815BD3F428141C7D"],
+  "655F8": ["3BE7512E5B5B3BA4C9976C043ECE4B3CE51"],
+  "675DC": ["611BAFB0B7348DD3BAF7E005B6916FB954D"],
+  "689CD": ["1CD19BFC2EAA606599AA8A2606A0EA3DF25"],
+  "6B283": ["BB060C269432D08AC33B47A337C0A40035D"],
+  "6C616": ["F7C2D2FDE9018A09F06EAEFCFC7582BC7BA"],
+  "6D0EB": ["BBDCE32474DB8141D23D2C01BD9628D6E5F"],
+  "6E1A4": ["38CFE5A6C9E2165665F8C2258849CCC43F0"],
+  "6E2F9": ["E6111E77EDD0C446EA7A84E25323D137A61"],
+  "6EA16": ["4759ADCCDF0B63C3E6A8A52792691F4C37B"],
+  "701B3": ["89B848A2B1CFAB867093101D8D5AC56ADDD"],
+  "7073D": ["0FAB1EA36CD0C0F1F603A2A5E44B931B31C"],
+  "70CCD": ["9007338D6D81DD3B6271621B9CF9A97EA00"],
+  "7110E": ["DA4D09E062AA5E4A390B0A572AC0D2C0220"],
+  "711C7": ["3F64AFDCE07B7E38039A96D2224209E9A6C"],
+  "7212A": ["9E01329EA93A57F574BD9BF77695D5FDCA4"],
+  "7288E": ["DD0FC3FFCBE93A0CF06E3568E28521687BC"],
+  "74A87": ["1ACBF060DDA5FC7260D05A5924A34E4C0E7"],
+  "753CA": ["603C57F5C796617680A3E2FBEF6E3E45EEF"],
+  "75973": ["0A97E4373F3A0EE12805DB065E3A4A649A5"],
+  "75A0A": ["1C981FEA69A013811B3091B66D8E1457FC6"],
+  "77282": ["40C80B6BFD450849405E8500D6D207783B6"],
+  "775BB": ["961B81DA1CA49217A48E533C832C337154A"],
+  "77BCE": ["9FB18F977EA576BBCD143B2B521073F0CD6"],
+  "782F9": ["B10621E362D5BD0DEF3A279B5E0908C9EBB"],
+  "79B33": ["3C96EC99512A3BF72653B23C7ED8A52DC42"],
+  "7AB51": ["5D12BD2CF431745511AC4EE13FED15AB578"],
+  "7AF2D": ["10B73AB7CD8F603937F7697CB5FE432C7FF"],
+  "7AFAA": ["0A74C41394C7122FE61723DDC365F322A55"],
+  "7B218": ["48AC9AF35BE0DDB2D6B9FC3851934DB8420"],
+  "7C222": ["FB2927D828AF22F592134E8932480637C0D"],
+  "7C4A8": ["D09CA3762AF61E59520943DC26494F8941B"],
+  "7C6A6": ["1C68EF8B9B6B061B28C348BC1ED7921CB53"],
+  "7CC91": ["8F959308C71F292F9308E7A748ADF4D1434"],
+  "7CE03": ["59F12857F2A90C7DE465F40A95F01CB5DA9"],
+  "7CF7E": ["DDB174125539DD241CD745391694250E526"],
+  "7EA35": ["D812706D9213868749011AF1ED4FA2F6AA0"],
+  "7EB3E": ["C264E63186678B54E645AAB6EDFEE9A0AEE"],
+  "7ECFD": ["8F97B4729C6FF0799B0B4D40F870083B461"],
+  "7F2BE": ["99D71F38FEEF79D926C8F8FFA7A41C7D7DC"],
+  "814FF": ["90C56A74B5E2BB48CD240331867A95357E1"],
+  "836BA": ["BDDC66080E01D52B8272AA9461C69EE0496"],
+  "85F94": ["0C72D551AB70C79A22134A14DC2838D31AB"],
+  "8635F": ["C4E2A0C7D9D2D9EE40EA8BF2EDD76D5757E"],
+  "863DA": ["E13577340B98C4C247F4A05B204A3543248"],
+  "875D1": ["0FA6AE9879FC6D3F7A951C712B5019CEF0A"],
+  "889C6": ["853A117ACA83EF9D6523335DC065213AE86"],
+  "88EA3": ["9439E74FA27C09A4FC0BC8EBE6D00978392"],
+  "89214": ["A945538CBBC5A45458014B1DE573DB12F2E"],
+  "895B3": ["17C76B8E504C2FB32DBB4420178F60CE321"],
+  "896BC": ["D1AB6D937BDB63472D3DEE064B7830F34D5"],
+  "89E89": ["C17F877CA2821B557F633CEC3253B0AA941"],
+  "8A162": ["1DAE39BF1D91D372C77F441E80B8F68B9B6"],
+  "8A6B3": ["C5E6BA4DA6EBFDF08B068CA74F7D99ED161"],
+  "8BC5D": ["E83CF1DAF79ED5B2F13F93D7C05D01D0388"],
+  "8BE93": ["77EB23A3A1FF6EDAA540117CFC75C183C93"],
+  "8CB22": ["37D0679CA88DB6464EAC60DA96345513964"],
+  "8D6E3": ["4F987851AA599257D3831A1AF040886842F"],
+  "8E244": ["4901CEE442ACA9531FF10BFE92D58220945"],
+  "8F217": ["4C83B060AD8A652B5070A46CF2CC46314F0"],
+  "90093": ["37CF16333F07109B593405CF7552ED8059A"],
+  "91E09": ["D0708EC4EF6ED88032ED825E9522792792F"],
+  "92119": ["E2C63E9366ACFEFE818B50537A85577E2DB"],
+  "92429": ["D82A41E930486C6DE5EBDA9602D55C39986"],
+  "929D3": ["BA22D02B494DD0971784A3700C3DBF1D89F"],
+  "93EC7": ["1B22793A81569C94CA17E4D9C293D8E201F"],
+  "947C8": ["44D900B26A575AEAF8EF37C3851E8BE474B"],
+  "94CA3": ["98432DA60F0DC3981770DD9FEABE624BA9E"],
+  "9653A": ["F05F246108D5724E5DA6F5ED0E89FC69C02"],
+  "96DE5": ["543D183D7DE52AC5FA21C46FC811F673F89"],
+  "971A8": ["AD6B5885899CA673BD3C0E5A68296D77CDC"],
+  "97627": ["2B40FB37F813D4A0104C7C8310FA8D0E85F"],
+  "99996": ["B911567C83CCE17CDF194F314975C57DDF1"],
+  "99A8C": ["12D70B425A2A7572736C317B6B616AF42FC"],
+  "9A12B": ["1D84266DA5138D9A672325EFB65F4CFB515"],
+  "9BC34": ["549D565D9505B287DE0CD20AC77BE1D3F2C"],
+  "9C881": ["BDB6BC930D18797D72D07BB9E01EEB40D8B"],
+  "9D4E1": ["E23BD5B727046A9E3B4B7DB57BD8D6EE684"],
+  "9D61B": ["A84065FC83956CDFC63E49BC7A9D21D8665"],
+  "9DC72": ["26A87062ACBF9F614CDC26FCC847A47D3DB"],
+  "9EC42": ["36A09D01395A838F2E774923B4E8548FD19"],
+  "9F2FE": ["B0F1EF425B292F2F94BC8482494DF430413"],
+  "9FD8D": ["E5FC2A7C2C0D469B2FFF1AFDE4E5DEF37BA"],
+  "A0867": ["0FF00AB376DFCA8A7542DCCE81626B2B469"],
+  "A0C84": ["9D62D67126BB39974573611F1CDF03FBCA4"],
+  "A264D": ["337DCFEECE8936F208B6F89BB1EFE99EA0F"],
+  "A2C90": ["1C8C6DEA98958C219F6F2D038C44DC5D362"],
+  "A36E1": ["F2D2C1309E9F4CD2D6D2EF75D01DD4FD21C"],
+  "A47B5": ["CC8F06168F0EC3832A99894834E1D27F744"],
+  "A4AC9": ["14C09D7C097FE1F4F96B897E625B6922069"],
+  "A642A": ["77ABD7D4F51BF9226CEAF891FCBB5B299B8"],
+  "A6F37": ["5A196CD4C89C41DBB4500553EBF3BAB0A41"],
+  "A70E6": ["FE6FC9D427B0DB7D0E2036E7C427A7BA6A9"],
+  "A7759": ["1BE2044AFCD45B50ACDFCE3A585CAAE257C"],
+  "A7D57": ["9BA76398070EAE654C30FF153A4C273272A"],
+  "A94A8": ["FE5CCB19BA61C4C0873D391E987982FBBD3"],
+  "AA1C7": ["D931CF140BB35A5A16ADEB83A551649C3B9"],
+  "AAF4C": ["61DDCC5E8A2DABEDE0F3B482CD9AEA9434D"],
+  "AB87D": ["24BDC7452E55738DEB5F868E1F16DEA5ACE"],
+  "ABCCF": ["54B832D256110CD9DB45C5391DA9AB6AB33"],
+  "AC137": ["C6AE0947718332991E7CB2F50EB20B62AAA"],
+  "AC9A2": ["CD0A01D65C21A3393E1373A6CEE8348D14A"],
+  "AD70A": ["B97AE1376E656002641CFB067C9C94906A2"],
+  "AEDE1": ["AC26F897902DE9555BF6A088DBFF423E257"],
+  "AF218": ["EA96A34C5BC5829A95248227654853E1043"],
+  "AF2C4": ["1EB4E034ED0A417D1EC637082072A4D3AAE"],
+  "AF897": ["8B1797B72ACFFF9595A5A2A373EC3D9106D"],
+  "AFAED": ["75406BD414820CEA4A5119F90C259C05755"],
+  "B0399": ["D2029F64D445BD131FFAA399A42D2F8E7DC"],
+  "B0983": ["3CEC69EFF1BB667940A45E311262E85A422"],
+  "B14AB": ["480028768CB748FD97DE56144A304EB8A1A"],
+  "B1B37": ["73A05C0ED0176787A4F1574FF0075F7521E"],
+  "B1F45": ["ED147D6803AC1A2A91BDEA1FAB603F910A5"],
+  "B2E98": ["AD6F6EB8508DD6A14CFA704BAD7F05F6FB1"],
+  "B2EE6": ["0370AD57D9BC3877E9024C507AB99303A64"],
+  "B363C": ["6EF45640A79DDC7BBC826A87E02734D88F0"],
+  "B3932": ["535E8072DA5632841244F7FE1EF9B1C604C"],
+  "B3ACA": ["92C793EE0E9B1A9B0A5F5FC044E05140DF3"],
+  "B44DD": ["A1DADD351948FCACE1856ED97366E679239"],
+  "B4E91": ["67FB0622ED89136824799C7FF4AB3A78BA1"],
+  "B6680": ["6F4D55C4A9E01DE69F4F38E621817931B81"],
+  "B7A87": ["5FC1EA228B9061041B7CEC4BD3C52AB3CE3"],
+  "B7C10": ["C4BEC83AB340D0C6ED051495CD9E23E1689"],
+  "B7C40": ["B9C66BC88D38A59E554C639D743E77F1B65"],
+  "B80A9": ["AED8AF17118E51D4D0C2D7872AE26E2109E"],
+  "BA5D8": ["027D4FBAF0E92582959DECFE1A2E20FD300"],
+  "BA9AD": ["B7296FDC28911356E3875BF4129AACBC36D"],
+  "BADCF": ["A3C62742B3BCC1DCD893E78713BD36AA430"],
+  "BCD59": ["17B85289CF889711720CE741F75C47ADD13"],
+  "BCEF7": ["A046258082993759BADE995B3AE8BEE26C7"],
+  "BD5E5": ["EB049F3907175F54F5A571BA6B9FDEA36AB"],
+  "BE45C": ["8F0F4F7D92B7EAEB969088B6209E23B81B0"],
+  "BF2F7": ["49E80C970F50552E9D5F3E8434E78B88D35"],
+  "BFE54": ["CAA6D483CC3887DCE9D1B8EB91408F1EA7A"],
+  "C05E0": ["CAFDD73DEC4CCCF30461D084811A94A7617"],
+  "C0B13": ["7FE2D792459F26FF763CCE44574A5B5AB03"],
+  "C2577": ["430D91716490DC5D33C20D901E008B696E7"],
+  "C3140": ["5B16FBB48ADB41B8F6505E788FCB13EBD91"],
+  "C3F63": ["EE769C8F251565E45CF724F6E4EFAEE0387"],
+  "C464A": ["F817287343305CBD6493C593885695DF531"],
+  "C5391": ["53BA1F947BD4B6F910263B967C4A0A62357"],
+  "C590A": ["FA9BB59191FFAB30F223791E82D3FD3E3AF"],
+  "C6026": ["6A8ADAD2F8EE67D793B4FD3FD0FFD73CC61"],
+  "C6922": ["B6BA9E0939583F973BC1682493351AD4FE8"],
+  "C824F": ["E0AFE16857DD6F587AA7C4044D2642D60FB"],
+  "C8A50": ["F632C3C4BAF27FC05FACB1883104E1D16EF"],
+  "C9525": ["9DE1FD719814DAEF8F1DC4BD64F9D885FF0"],
+  "C984A": ["ED014AEC7623A54F0591DA07A85FD4B762D"],
+  "CAE35": ["5B615B61313E7A2D42D0C650F705DC3D94E"],
+  "CB45C": ["671CBC500627EA424EEA5F91996221B5935"],
+  "CBB73": ["53E6D953EF360BAF960C122346276C6E320"],
+  "CBDB0": ["CC7F3F5B4BE81A75FA7242590E3E9882E1E"],
+  "CBE64": ["8909034C0624C205FE219D3FBD10052C715"],
+  "CBF25": ["10A5F9F7EECE23428DA7125C06115839E2B"],
+  "CBFDA": ["C6008F9CAB4083784CBD1874F76618D2A97"],
+  "CC9F8": ["16A42431CF852CDC7A3FAD42A6F65FFCE24"],
+  "CCAD6": ["3C495216861BE844C72253590E9A97DCF2C"],
+  "CDF54": ["7ED4C64E6994AF35CFCD69C4204C9227A97"],
+  "CEDF4": ["1FCCB586DC39E1CE34BB482F0AFE557B49F"],
+  "CEF7E": ["59218E3A7E18AAF7FAA4A23BCD964323A66"],
+  "CF60B": ["2B865D4A83696A206454EEF5CE1F33D829B"],
+  "D033E": ["22AE348AEB5660FC2140AEC35850C4DA997"],
+  "D04C1": ["675B232C6ECE69ED95E189E95D589F217B0"],
+  "D0A65": ["436A81128B4FAC0F27A75B9A15CFD6F07C9"],
+  "D318F": ["44739DCED66793B1A603028133A76AE680E"],
+  "D4F55": ["DEC8C7BC9675182779E564FAE1327D30F9B"],
+  "D5365": ["2DE63B26F2B99ABFC5699FAC10F3F95E1F7"],
+  "D6955": ["D9721560531274CB8F50FF595A9BD39D66F"],
+  "D6CFE": ["5E76C8347BC803168FE861F69FCC69CC79C"],
+  "D714D": ["8456935FA20E60BD9E661423CB2583C79D9"],
+  "D7966": ["074B3D619B43EE1C6296AE5332C48D6CB1C"],
+  "D81B6": ["9B3443BE6529521AE051E08515F45B39BF1"],
+  "D869D": ["B7FE62FB07C25A0403ECAEA55031744B5FB"],
+  "D8CD1": ["0B920DCBDB5163CA0185E402357BC27C265"],
+  "D986F": ["637E0EC09FD413A5107B0A202A86CB326DA"],
+  "DA0B6": ["B111ADEDF975A004710BDD60288DBE8E3BD"],
+  "DAD1E": ["5F4B84D0ADA3F2AB71A4E434EFE0EF04020"],
+  "DB25F": ["2FC14CD2D2B1E7AF307241F548FB03C312A"],
+  "DC76E": ["9F0C0006E8F919E0C515C66DBBA3982F785"],
+  "DCB94": ["B0B87D6222FD6F30214FE01ABE179A9B16E"],
+  "DD08B": ["58E1D30DAD48D37A35A8760CFFE8D756CFA"],
+  "DD5FE": ["F9C1C1DA1394D6D34B248C51BE2AD740840"],
+  "DDDD5": ["D7B474D2C78EBBB833789C4BFD721EDF4BF"],
+  "DDF45": ["997A7E18A25AD5F5CF222DA64814DD060D5"],
+  "DE4AB": ["6E26DB462B930510BA83E9F80B7DB2BEF88"],
+  "DE61F": ["824AB25050E5870F29E6E064B4B702BA1E4"],
+  "DEA74": ["2E166979027AE70B28E0A9006FB1010E760"],
+  "DECA8": ["4CA93E6BC33DFEAA0C877473001DF29E5D8"],
+  "DF70F": ["9B975B42116EE6C0231A7E6EAD0BBB283AA"],
+  "E07F8": ["C4AB682212744526982F0F08D336E1C9041"],
+  "E0C95": ["748A455C27A80FD289269120D4944D1F318"],
+  "E38AD": ["214943DAAD1D64C102FAEC29DE4AFE9DA3D"],
+  "E3CD9": ["F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD"],
+  "E5E9F": ["A1BA31ECD1AE84F75CAAA474F3A663F05F4"],
+  "E68E1": ["1BE8B70E435C65AEF8BA9798FF7775C361E"],
+  "E7387": ["5A759B2E0A3C5DD31BCD384BBB1DB99EE02"],
+  "E7D53": ["7E128158790157EA057BB883E0292A84930"],
+  "E8126": ["C64C3486E84081FFFAD6A0AB22D4267BB41"],
+  "E96E6": ["64645A6CDEA80AA809199F6A9D2987684D2"],
+  "EAB0F": ["0D675765E4F0E8773762673A9D86F53028C"],
+  "EBFC7": ["910077770C8340F63CD2DCA2AC1F120444F"],
+  "EC30A": ["DC79E734900430E4174CF0A36C2D0C42272"],
+  "EC408": ["3CA341DA86269204F1FDEBBA909F0F5699E"],
+  "EC461": ["B5480380ECF863D9802EDBE70152AEE1C46"],
+  "EC5A7": ["C3E21436A8E76716710CE551356F9AA745E"],
+  "ED9D3": ["D832AF899035363A69FD53CD3BE8F71501C"],
+  "EE8D8": ["728F435FD550F83852AABAB5234CE1DA528"],
+  "EF0EB": ["BB77298E1FBD81F756A4EFC35B977C93DAE"],
+  "EF783": ["0DB5BFBF3536820C00105AB5734EF4609FC"],
+  "EF842": ["0D70DD7676E04BEA55F405FA39B022A90C8"],
+  "EF971": ["EE38BBA25D9AC8A840D235457A038448B09"],
+  "EFCE8": ["CD161897FEEAA7979D892DC26A8A8D8EEA3"],
+  "EFEBD": ["FC78EA1935C4B926324522B452B766FBC76"],
+  "F0744": ["D60DD500C92C0D37C16174CC58D3C4BDD8E"],
+  "F0D61": ["723FDF7301391BEA5FFF1EF28FA3C7D0EEA"],
+  "F11EA": ["658082349955674A565FE658AD5BEDFB328"],
+  "F15E5": ["18A239A5DDBC4E7F942B93B7FBD60C1048D"],
+  "F2847": ["B1BD9624F927E979C1846D9FE17DD65F518"],
+  "F2A12": ["F187EBB7080BD75AAC9160214E6B1E49F7D"],
+  "F2B14": ["F68EB995FACB3A1C35287B778D5BD785511"],
+  "F3215": ["7A45887E4FE5ADC0B5198F7EC4920A526D7"],
+  "F3D11": ["F4AD2A240E00B463518A8F136AC2D607047"],
+  "F4A69": ["973E7B0BF9D160F9F60E3C3ACD2494BEB0D"],
+  "F4EE7": ["415066B23ED0C5555E3A10AA76726A995D7"],
+  "F58CF": ["5E7E10F195E21B553096D092C763ED18B0E"],
+  "F71B4": ["7E5F8BE4C6E31DAD9F5BB646B0D544B5A90"],
+  "F732D": ["FDBD0AED62727F958CCCCA9EC3A5CB13EDA"],
+  "F7A9E": ["24777EC23212C54D7A350BC5BEA5477FDBB"],
+  "F7C3B": ["C1D808E04732ADF679965CCC34CA7AE3441"],
+  "F80D0": ["CA101E967B50B730DDF8E8ACA0DE85E8DF6"],
+  "F8248": ["E12727710C946F73D8F6E02EB93530DD9DE"],
+  "F865B": ["53623B121FD34EE5426C792E5C33AF8C227"],
+  "F872C": ["AAD177D67BBE18C119D0505F2D3CAA02AF3"],
+  "FA9BE": ["B99E4029AD5A6615399E7BBAE21356086B3"],
+  "FBA9F": ["1C9AE2A8AFE7815C9CDD492512622A66302"],
+  "FDB87": ["DFD199045AF7165780B11640B83768A0D57"],
+  "FFAAA": ["FBDEE1DE041310096E1FF171618A2049F6E"],
+};
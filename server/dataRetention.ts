@@ -0,0 +1,404 @@
+import { z } from "zod";
+import { and, eq, inArray, isNull, lt, ne, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  users,
+  userRoles,
+  opportunities,
+  documents,
+  formRequests,
+  loginAttempts,
+  type RetentionRun,
+} from "@shared/schema";
+import { eraseUser } from "./dataSubject";
+import { isStorageAvailable, deleteFileFromMinio } from "./replitOSS";
+import { getIntervalSetting } from "./schedule";
+import {
+  deleteFileFromLocalStorage,
+  listLocalStorageFiles,
+} from "./localStorage";
+
+// Retention rules are kept as JSON in system_settings under this key
+export const RETENTION_SETTING_KEY = "data_retention_rules";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const retentionRulesSchema = z.object({
+  // Counted from the opportunity's end date
+  opportunities: z.object({
+    enabled: z.boolean(),
+    days: z.number().int().min(30),
+    action: z.enum(["archive", "delete"]),
+  }),
+  // Counted from the student's last sign-in, or sign-up if they never signed in
+  inactiveStudents: z.object({
+    enabled: z.boolean(),
+    days: z.number().int().min(30),
+    action: z.enum(["anonymise", "delete"]),
+  }),
+  // Counted from the request date
+  formRequests: z.object({
+    enabled: z.boolean(),
+    days: z.number().int().min(30),
+  }),
+  // Files in uploads/ that no document points to, counted from when the
+  // file was written. The grace period covers uploads still being saved.
+  orphanedFiles: z.object({
+    enabled: z.boolean(),
+    days: z.number().int().min(1),
+  }),
+});
+
+export type RetentionRules = z.infer<typeof retentionRulesSchema>;
+export type RetentionRule = keyof RetentionRules;
+
+const RETENTION_RULES: RetentionRule[] = [
+  "opportunities",
+  "inactiveStudents",
+  "formRequests",
+  "orphanedFiles",
+];
+
+// Nothing is purged until a superadmin turns a rule on
+export const DEFAULT_RETENTION_RULES: RetentionRules = {
+  opportunities: { enabled: false, days: 365, action: "archive" },
+  inactiveStudents: { enabled: false, days: 730, action: "delete" },
+  formRequests: { enabled: false, days: 365 },
+  orphanedFiles: { enabled: false, days: 7 },
+};
+
+export interface RetentionCandidate {
+  rule: RetentionRule;
+  id: number | string;
+  label: string;
+  date: Date | string | null;
+}
+
+export interface RetentionSummary {
+  counts: Record<RetentionRule, number>;
+  warnings: string[];
+}
+
+// Keeps a preview response and one run's stored list to a sensible size
+const MAX_PREVIEW_ITEMS = 100;
+const MAX_RECORDED_REMOVALS = 5000;
+
+export async function getRetentionRules(): Promise<RetentionRules> {
+  const setting = await storage.getSetting(RETENTION_SETTING_KEY);
+  if (!setting) return DEFAULT_RETENTION_RULES;
+
+  try {
+    const saved = JSON.parse(setting.value);
+    const merged = Object.fromEntries(
+      RETENTION_RULES.map((rule) => [
+        rule,
+        { ...DEFAULT_RETENTION_RULES[rule], ...saved?.[rule] },
+      ]),
+    );
+    return retentionRulesSchema.parse(merged);
+  } catch (error) {
+    console.error("Invalid data retention rules, using defaults:", error);
+    return DEFAULT_RETENTION_RULES;
+  }
+}
+
+export async function saveRetentionRules(rules: RetentionRules, updatedById: number) {
+  await storage.setSetting({
+    key: RETENTION_SETTING_KEY,
+    value: JSON.stringify(rules),
+    description: "Data retention periods and what happens when they pass",
+    updatedById,
+  });
+}
+
+const cutoffFor = (days: number, now: Date) => new Date(now.getTime() - days * DAY_MS);
+
+async function findCandidates(
+  rules: RetentionRules,
+  now: Date,
+): Promise<Record<RetentionRule, RetentionCandidate[]>> {
+  const candidates: Record<RetentionRule, RetentionCandidate[]> = {
+    opportunities: [],
+    inactiveStudents: [],
+    formRequests: [],
+    orphanedFiles: [],
+  };
+
+  if (rules.opportunities.enabled) {
+    const cutoff = cutoffFor(rules.opportunities.days, now);
+    const rows = await db
+      .select({
+        id: opportunities.id,
+        title: opportunities.title,
+        endDate: opportunities.endDate,
+      })
+      .from(opportunities)
+      .where(
+        and(
+          lt(opportunities.endDate, cutoff),
+          // Already archived opportunities only need another pass to delete them
+          rules.opportunities.action === "archive"
+            ? ne(opportunities.status, "archived")
+            : undefined,
+        ),
+      )
+      .orderBy(opportunities.endDate);
+    candidates.opportunities = rows.map((row) => ({
+      rule: "opportunities",
+      id: row.id,
+      label: row.title,
+      date: row.endDate,
+    }));
+  }
+
+  if (rules.inactiveStudents.enabled) {
+    const cutoff = cutoffFor(rules.inactiveStudents.days, now);
+    // Accounts from before last-seen was tracked fall back to their last
+    // sign-in; greatest() skips whichever of these is null
+    const lastActiveAt = sql<string>`greatest(${users.lastSeenAt}, (
+      select max(${loginAttempts.createdAt}) from ${loginAttempts}
+      where ${loginAttempts.userId} = ${users.id} and ${loginAttempts.succeeded}
+    ), ${users.createdAt})`;
+    const rows = await db
+      .select({
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        lastActiveAt,
+      })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(
+        and(
+          eq(userRoles.name, "student"),
+          sql`${lastActiveAt} < ${cutoff.toISOString()}`,
+          // Anonymising an already erased account would change nothing
+          rules.inactiveStudents.action === "anonymise"
+            ? isNull(users.erasedAt)
+            : undefined,
+        ),
+      )
+      .orderBy(lastActiveAt);
+    candidates.inactiveStudents = rows.map((row) => ({
+      rule: "inactiveStudents",
+      id: row.id,
+      label: `${row.firstName} ${row.lastName}`,
+      date: row.lastActiveAt,
+    }));
+  }
+
+  if (rules.formRequests.enabled) {
+    const cutoff = cutoffFor(rules.formRequests.days, now);
+    const rows = await db
+      .select({
+        id: formRequests.id,
+        requestDate: formRequests.requestDate,
+        opportunityTitle: opportunities.title,
+      })
+      .from(formRequests)
+      .innerJoin(opportunities, eq(formRequests.opportunityId, opportunities.id))
+      .where(lt(formRequests.requestDate, cutoff))
+      .orderBy(formRequests.requestDate);
+    candidates.formRequests = rows.map((row) => ({
+      rule: "formRequests",
+      id: row.id,
+      label: `Form request for ${row.opportunityTitle}`,
+      date: row.requestDate,
+    }));
+  }
+
+  if (rules.orphanedFiles.enabled) {
+    const cutoff = cutoffFor(rules.orphanedFiles.days, now);
+    const referenced = new Set(
+      (await db.select({ objectName: documents.objectName }).from(documents))
+        .map((row) => row.objectName)
+        .filter(Boolean),
+    );
+    candidates.orphanedFiles = (await listLocalStorageFiles())
+      .filter((file) => file.modifiedAt < cutoff && !referenced.has(file.objectPath))
+      .sort((a, b) => a.modifiedAt.getTime() - b.modifiedAt.getTime())
+      .map((file) => ({
+        rule: "orphanedFiles",
+        id: file.objectPath,
+        label: file.objectPath,
+        date: file.modifiedAt,
+      }));
+  }
+
+  return candidates;
+}
+
+// What a purge with these rules would remove right now. Nothing is changed.
+export async function previewRetention(rules: RetentionRules) {
+  const candidates = await findCandidates(rules, new Date());
+
+  return {
+    counts: Object.fromEntries(
+      RETENTION_RULES.map((rule) => [rule, candidates[rule].length]),
+    ) as Record<RetentionRule, number>,
+    items: Object.fromEntries(
+      RETENTION_RULES.map((rule) => [rule, candidates[rule].slice(0, MAX_PREVIEW_ITEMS)]),
+    ) as Record<RetentionRule, RetentionCandidate[]>,
+  };
+}
+
+const deleteStoredFile = async (objectName: string) => {
+  if (isStorageAvailable()) {
+    await deleteFileFromMinio(objectName);
+  } else {
+    await deleteFileFromLocalStorage(objectName);
+  }
+};
+
+async function applyRetention(rules: RetentionRules) {
+  const now = new Date();
+  const candidates = await findCandidates(rules, now);
+  const removed: RetentionCandidate[] = [];
+  const summary: RetentionSummary = {
+    counts: { opportunities: 0, inactiveStudents: 0, formRequests: 0, orphanedFiles: 0 },
+    warnings: [],
+  };
+
+  const opportunityIds = candidates.opportunities.map((item) => item.id as number);
+  if (opportunityIds.length) {
+    if (rules.opportunities.action === "archive") {
+      await db
+        .update(opportunities)
+        .set({ status: "archived", archivedAt: now, updatedAt: now })
+        .where(inArray(opportunities.id, opportunityIds));
+    } else {
+      // Interests, form requests and documents go with the opportunity;
+      // the documents' stored files are removed afterwards
+      const removedDocuments = await db
+        .select({ id: documents.id, objectName: documents.objectName })
+        .from(documents)
+        .where(inArray(documents.opportunityId, opportunityIds));
+      await db.delete(opportunities).where(inArray(opportunities.id, opportunityIds));
+
+      for (const document of removedDocuments) {
+        if (!document.objectName) continue;
+        try {
+          await deleteStoredFile(document.objectName);
+        } catch (error) {
+          summary.warnings.push(`Could not delete the file for document ${document.id}`);
+        }
+      }
+    }
+    summary.counts.opportunities = opportunityIds.length;
+    removed.push(...candidates.opportunities);
+  }
+
+  // Students are erased one at a time so one failure doesn't stop the rest
+  for (const candidate of candidates.inactiveStudents) {
+    try {
+      const student = await storage.getUserById(candidate.id as number);
+      if (!student) continue;
+
+      if (!student.erasedAt) await eraseUser(student);
+      if (rules.inactiveStudents.action === "delete") {
+        await db.delete(users).where(eq(users.id, student.id));
+      }
+      summary.counts.inactiveStudents++;
+      // The log must not keep the name of someone who was just erased
+      removed.push({ ...candidate, label: `Student #${candidate.id}` });
+    } catch (error) {
+      console.error(`Data retention could not remove student ${candidate.id}:`, error);
+      summary.warnings.push(`Could not remove student #${candidate.id}`);
+    }
+  }
+
+  const formRequestIds = candidates.formRequests.map((item) => item.id as number);
+  if (formRequestIds.length) {
+    await db.delete(formRequests).where(inArray(formRequests.id, formRequestIds));
+    summary.counts.formRequests = formRequestIds.length;
+    removed.push(...candidates.formRequests);
+  }
+
+  for (const candidate of candidates.orphanedFiles) {
+    await deleteFileFromLocalStorage(candidate.id as string);
+    summary.counts.orphanedFiles++;
+    removed.push(candidate);
+  }
+
+  if (removed.length > MAX_RECORDED_REMOVALS) {
+    summary.warnings.push(
+      `${removed.length} items were removed; only the first ${MAX_RECORDED_REMOVALS} are listed`,
+    );
+  }
+
+  return { summary, removed: removed.slice(0, MAX_RECORDED_REMOVALS) };
+}
+
+let isRunning = false;
+
+export const isRetentionRunning = () => isRunning;
+
+// Apply the saved retention rules and log the run. Returns undefined if a
+// purge is already in progress.
+export async function runRetention(options: {
+  trigger: "manual" | "schedule";
+  triggeredById?: number | null;
+}): Promise<RetentionRun | undefined> {
+  if (isRunning) return undefined;
+  isRunning = true;
+
+  try {
+    const rules = await getRetentionRules();
+    const run = await storage.createRetentionRun({
+      trigger: options.trigger,
+      status: "running",
+      rules,
+      triggeredById: options.triggeredById ?? null,
+    });
+
+    try {
+      const { summary, removed } = await applyRetention(rules);
+      return (await storage.updateRetentionRun(run.id, {
+        status: "success",
+        summary,
+        removed,
+        finishedAt: new Date(),
+      }))!;
+    } catch (error) {
+      console.error("Data retention purge failed:", error);
+      return (await storage.updateRetentionRun(run.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      }))!;
+    }
+  } finally {
+    isRunning = false;
+  }
+}
+
+// Purge on a schedule, once every RETENTION_INTERVAL_HOURS (a day by
+// default). The last scheduled run is read from the log, so restarts don't
+// cause extra purges.
+export function startRetentionSchedule() {
+  const intervalHours = getIntervalSetting("RETENTION_INTERVAL_HOURS", 24);
+
+  const checkSchedule = async () => {
+    try {
+      const rules = await getRetentionRules();
+      if (!RETENTION_RULES.some((rule) => rules[rule].enabled)) return;
+
+      const lastRun = await storage.getLatestRetentionRun("schedule");
+      if (
+        lastRun &&
+        Date.now() - new Date(lastRun.startedAt).getTime() < intervalHours * 60 * 60 * 1000
+      ) {
+        return;
+      }
+
+      const run = await runRetention({ trigger: "schedule" });
+      if (run) console.log(`Scheduled data retention purge #${run.id} finished: ${run.status}`);
+    } catch (error) {
+      console.error("Scheduled data retention error:", error);
+    }
+  };
+
+  checkSchedule();
+  setInterval(checkSchedule, 60 * 60 * 1000);
+}
@@ -0,0 +1,383 @@
+import crypto from "crypto";
+import JSZip from "jszip";
+import bcrypt from "bcryptjs";
+import { eq, inArray, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  users,
+  userRoles,
+  schools,
+  studentPreferences,
+  studentInterests,
+  guardianConsents,
+  guardianStudents,
+  formRequests,
+  documents,
+  opportunities,
+  loginAttempts,
+  apiTokens,
+  twoFactorRecoveryCodes,
+  passwordResetTokens,
+  emailVerificationTokens,
+  invitations,
+  rosterEnrollments,
+  type User,
+} from "@shared/schema";
+import {
+  isStorageAvailable,
+  getFileFromMinio,
+  deleteFileFromMinio,
+} from "./replitOSS";
+import {
+  getFileFromLocalStorage,
+  deleteFileFromLocalStorage,
+} from "./localStorage";
+
+export type ErasureCategory =
+  | "profile"
+  | "preferences"
+  | "interests"
+  | "formRequests"
+  | "guardianLinks"
+  | "documents"
+  | "signInData";
+
+// What erasure does with each kind of personal data. Rows that reports count
+// (the account, registrations and form requests) are kept but stripped of
+// anything that identifies the person, so aggregate counts don't change.
+// Everything else is deleted.
+export const ERASURE_POLICY: Record<
+  ErasureCategory,
+  { action: "anonymise" | "delete" | "keep"; description: string }
+> = {
+  profile: {
+    action: "anonymise",
+    description:
+      "Name, email, username, password, two-factor secret, SIS id and picture are replaced; role, school and sign-up date are kept for reports",
+  },
+  preferences: { action: "delete", description: "Opportunity preferences" },
+  interests: {
+    action: "anonymise",
+    description:
+      "Registrations are kept for report counts; notes and guardian consent notes are cleared",
+  },
+  formRequests: {
+    action: "keep",
+    description: "Form requests hold nothing beyond the link to the anonymised account",
+  },
+  guardianLinks: {
+    action: "delete",
+    description: "Links to guardians or to children",
+  },
+  documents: {
+    action: "delete",
+    description: "Uploaded documents, including the stored files",
+  },
+  signInData: {
+    action: "delete",
+    description:
+      "Sessions, mobile app tokens, sign-in history, recovery codes, reset and verification links, invitations sent to the email address and pending guardian invitations",
+  },
+};
+
+export type ErasureCounts = Record<ErasureCategory, number>;
+
+// Anonymised accounts get an address that can never receive mail
+export const ERASED_EMAIL_DOMAIN = "erased.invalid";
+
+const escapeCsv = (value: unknown) =>
+  `"${String(value instanceof Date ? value.toISOString() : (value ?? "")).replace(/"/g, '""')}"`;
+
+const toCsv = (rows: Record<string, unknown>[]) => {
+  if (!rows.length) return "";
+  const headers = Object.keys(rows[0]);
+  return [
+    headers.join(","),
+    ...rows.map((row) => headers.map((header) => escapeCsv(row[header])).join(",")),
+  ].join("\n");
+};
+
+const readStoredFile = async (objectName: string) => {
+  if (isStorageAvailable()) {
+    const response = await getFileFromMinio(objectName);
+    return Buffer.from(await response.arrayBuffer());
+  }
+  return getFileFromLocalStorage(objectName);
+};
+
+const deleteStoredFile = async (objectName: string) => {
+  if (isStorageAvailable()) {
+    await deleteFileFromMinio(objectName);
+  } else {
+    await deleteFileFromLocalStorage(objectName);
+  }
+};
+
+// Everything held about one user, as a ZIP of JSON files with CSV copies of
+// the tabular ones. Secrets (password hash, two-factor secret, token hashes)
+// are left out. Returns undefined if the user doesn't exist.
+export async function buildDataExport(userId: number): Promise<Buffer | undefined> {
+  const [account] = await db
+    .select({ user: users, roleName: userRoles.name, schoolName: schools.name })
+    .from(users)
+    .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+    .leftJoin(schools, eq(users.schoolId, schools.id))
+    .where(eq(users.id, userId));
+  if (!account) return undefined;
+
+  const { password, twoFactorSecret, ...profile } = account.user;
+
+  const [preferences, interests, requests, guardianLinks, uploads, signIns] =
+    await Promise.all([
+      db.select().from(studentPreferences).where(eq(studentPreferences.userId, userId)),
+      db
+        .select({
+          id: studentInterests.id,
+          opportunityId: studentInterests.opportunityId,
+          opportunityTitle: opportunities.title,
+          organization: opportunities.organization,
+          status: studentInterests.status,
+          registrationDate: studentInterests.registrationDate,
+          notes: studentInterests.notes,
+          guardianConsent: guardianConsents.decision,
+          guardianConsentNote: guardianConsents.note,
+        })
+        .from(studentInterests)
+        .innerJoin(opportunities, eq(studentInterests.opportunityId, opportunities.id))
+        .leftJoin(guardianConsents, eq(guardianConsents.interestId, studentInterests.id))
+        .where(eq(studentInterests.studentId, userId)),
+      db
+        .select({
+          id: formRequests.id,
+          opportunityId: formRequests.opportunityId,
+          opportunityTitle: opportunities.title,
+          requestDate: formRequests.requestDate,
+          fulfilled: formRequests.fulfilled,
+          emailSent: formRequests.emailSent,
+          emailSentDate: formRequests.emailSentDate,
+        })
+        .from(formRequests)
+        .innerJoin(opportunities, eq(formRequests.opportunityId, opportunities.id))
+        .where(eq(formRequests.studentId, userId)),
+      db
+        .select({
+          guardianId: guardianStudents.guardianId,
+          studentId: guardianStudents.studentId,
+          relationship: guardianStudents.relationship,
+          createdAt: guardianStudents.createdAt,
+        })
+        .from(guardianStudents)
+        .where(
+          or(
+            eq(guardianStudents.guardianId, userId),
+            eq(guardianStudents.studentId, userId),
+          ),
+        ),
+      db.select().from(documents).where(eq(documents.uploadedById, userId)),
+      db
+        .select({
+          email: loginAttempts.email,
+          ipAddress: loginAttempts.ipAddress,
+          succeeded: loginAttempts.succeeded,
+          createdAt: loginAttempts.createdAt,
+        })
+        .from(loginAttempts)
+        .where(eq(loginAttempts.userId, userId)),
+    ]);
+
+  const zip = new JSZip();
+  zip.file(
+    "profile.json",
+    JSON.stringify(
+      { ...profile, roleName: account.roleName, schoolName: account.schoolName },
+      null,
+      2,
+    ),
+  );
+  zip.file("preferences.json", JSON.stringify(preferences, null, 2));
+  zip.file("interests.json", JSON.stringify(interests, null, 2));
+  zip.file("interests.csv", toCsv(interests));
+  zip.file("form-requests.json", JSON.stringify(requests, null, 2));
+  zip.file("form-requests.csv", toCsv(requests));
+  zip.file("guardian-links.json", JSON.stringify(guardianLinks, null, 2));
+  zip.file("sign-in-history.csv", toCsv(signIns));
+
+  // Files that can't be read from storage are listed rather than failing the export
+  const documentIndex = [];
+  for (const document of uploads) {
+    const fileName = `documents/${document.id}-${document.name.replace(/[\\/]/g, "_")}`;
+    let included = false;
+    if (document.objectName) {
+      try {
+        zip.file(fileName, await readStoredFile(document.objectName));
+        included = true;
+      } catch (error) {
+        console.error(`Data export could not read document ${document.id}:`, error);
+      }
+    }
+    documentIndex.push({
+      id: document.id,
+      name: document.name,
+      fileType: document.fileType,
+      fileSize: document.fileSize,
+      opportunityId: document.opportunityId,
+      createdAt: document.createdAt,
+      file: included ? fileName : null,
+    });
+  }
+  zip.file("documents.json", JSON.stringify(documentIndex, null, 2));
+
+  zip.file(
+    "README.txt",
+    [
+      `Personal data export for user ${userId}, generated ${new Date().toISOString()}.`,
+      "",
+      "profile.json            Account details",
+      "preferences.json        Opportunity preferences",
+      "interests.json/.csv     Opportunity registrations",
+      "form-requests.json/.csv Application form requests",
+      "guardian-links.json     Linked guardians or children",
+      "sign-in-history.csv     Password sign-in attempts",
+      "documents.json          Uploaded documents; files are in documents/",
+    ].join("\n"),
+  );
+
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+// How many rows erasure would touch in each category, for the confirmation
+// screen and the audit entry
+export async function countErasableData(user: User): Promise<ErasureCounts> {
+  const count = sql<number>`count(*)`.mapWith(Number);
+
+  const [[preferences], [interests], [requests], [links], [uploads], [signIns]] =
+    await Promise.all([
+      db.select({ count }).from(studentPreferences).where(eq(studentPreferences.userId, user.id)),
+      db.select({ count }).from(studentInterests).where(eq(studentInterests.studentId, user.id)),
+      db.select({ count }).from(formRequests).where(eq(formRequests.studentId, user.id)),
+      db
+        .select({ count })
+        .from(guardianStudents)
+        .where(
+          or(
+            eq(guardianStudents.guardianId, user.id),
+            eq(guardianStudents.studentId, user.id),
+          ),
+        ),
+      db.select({ count }).from(documents).where(eq(documents.uploadedById, user.id)),
+      db
+        .select({ count })
+        .from(loginAttempts)
+        .where(or(eq(loginAttempts.userId, user.id), eq(loginAttempts.email, user.email))),
+    ]);
+
+  return {
+    profile: 1,
+    preferences: preferences.count,
+    interests: interests.count,
+    formRequests: requests.count,
+    guardianLinks: links.count,
+    documents: uploads.count,
+    signInData: signIns.count,
+  };
+}
+
+// Apply ERASURE_POLICY to one user. Database changes happen in a single
+// transaction; stored files and sessions are removed once it commits.
+export async function eraseUser(user: User): Promise<ErasureCounts> {
+  const counts = await countErasableData(user);
+  const placeholder = `erased-${user.id}`;
+  const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+
+  const removedDocuments = await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({
+        email: `${placeholder}@${ERASED_EMAIL_DOMAIN}`,
+        username: placeholder,
+        password: unusablePassword,
+        firstName: "Erased",
+        lastName: "User",
+        isActive: false,
+        approvalNote: null,
+        twoFactorSecret: null,
+        twoFactorEnabled: false,
+        failedLoginCount: 0,
+        lockedUntil: null,
+        profilePicture: null,
+        sisSourcedId: null,
+        erasedAt: new Date(),
+      })
+      .where(eq(users.id, user.id));
+
+    await tx.delete(studentPreferences).where(eq(studentPreferences.userId, user.id));
+
+    const interestIds = (
+      await tx
+        .update(studentInterests)
+        .set({ notes: null })
+        .where(eq(studentInterests.studentId, user.id))
+        .returning({ id: studentInterests.id })
+    ).map((interest) => interest.id);
+
+    // Consent notes can name the student (on their registrations) or the
+    // guardian (on decisions they made)
+    await tx
+      .update(guardianConsents)
+      .set({ note: null })
+      .where(
+        interestIds.length
+          ? or(
+              inArray(guardianConsents.interestId, interestIds),
+              eq(guardianConsents.guardianId, user.id),
+            )
+          : eq(guardianConsents.guardianId, user.id),
+      );
+
+    await tx
+      .delete(guardianStudents)
+      .where(
+        or(
+          eq(guardianStudents.guardianId, user.id),
+          eq(guardianStudents.studentId, user.id),
+        ),
+      );
+
+    const removed = await tx
+      .delete(documents)
+      .where(eq(documents.uploadedById, user.id))
+      .returning();
+
+    await tx
+      .delete(loginAttempts)
+      .where(or(eq(loginAttempts.userId, user.id), eq(loginAttempts.email, user.email)));
+    await tx.delete(apiTokens).where(eq(apiTokens.userId, user.id));
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, user.id));
+    await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, user.id));
+    await tx.delete(emailVerificationTokens).where(eq(emailVerificationTokens.userId, user.id));
+    await tx.delete(rosterEnrollments).where(eq(rosterEnrollments.userId, user.id));
+    await tx
+      .delete(invitations)
+      .where(
+        or(
+          sql`lower(${invitations.email}) = ${user.email.toLowerCase()}`,
+          eq(invitations.studentId, user.id),
+        ),
+      );
+
+    return removed;
+  });
+
+  await storage.deleteSessionsForUser(user.id);
+  for (const document of removedDocuments) {
+    if (!document.objectName) continue;
+    try {
+      await deleteStoredFile(document.objectName);
+    } catch (error) {
+      console.error(`Erasure could not delete stored file for document ${document.id}:`, error);
+    }
+  }
+
+  return counts;
+}
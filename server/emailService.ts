@@ -142,4 +142,595 @@ export async function sendApplicationFormNotification(
     console.error('Teacher notification email error:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+export async function sendPasswordResetEmail(
+  email: string,
+  firstName: string,
+  resetUrl: string,
+  expiresInMinutes: number
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Reset Your Password</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>We received a request to reset the password for your account. Click the button below to choose a new password:</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${resetUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Reset Password</a>
+        </div>
+        
+        <p><strong>Important:</strong> This link will expire in ${expiresInMinutes} minutes and can only be used once.</p>
+        
+        <p>If you did not request a password reset, you can safely ignore this email. Your password will not be changed.</p>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #666;">
+          This email was sent automatically. Please do not reply to this email address.
+        </p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: 'Reset your password',
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Password reset email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Password reset email error:', error);
+    return false;
+  }
+}
+
+export async function sendEmailVerificationEmail(
+  email: string,
+  firstName: string,
+  verifyUrl: string
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Confirm Your Email Address</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>Thank you for registering. Please confirm that this is your email address so we can send you application forms and updates:</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${verifyUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Verify Email Address</a>
+        </div>
+        
+        <p><strong>Important:</strong> This link will expire in 24 hours. You will not be able to sign in until your email address is verified.</p>
+        
+        <p>If you did not create an account, you can safely ignore this email.</p>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #666;">
+          This email was sent automatically. Please do not reply to this email address.
+        </p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: 'Verify your email address',
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Verification email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Verification email error:', error);
+    return false;
+  }
+}
+
+export async function sendRegistrationDecisionEmail(
+  email: string,
+  firstName: string,
+  approved: boolean,
+  loginUrl: string,
+  reason?: string | null
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = approved
+      ? `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Registration Has Been Approved</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>Good news! A school administrator has approved your student account. You can now sign in and start exploring opportunities.</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${loginUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Sign In</a>
+        </div>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+      </div>
+    `
+      : `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Registration Was Not Approved</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>Unfortunately, a school administrator was unable to approve your student account.</p>
+        
+        ${reason ? `
+        <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="margin: 0;"><strong>Reason:</strong> ${reason}</p>
+        </div>
+        ` : ''}
+        
+        <p>If you believe this is a mistake, please contact your teacher or school administration.</p>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: approved ? 'Your registration has been approved' : 'Your registration was not approved',
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Registration decision email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Registration decision email error:', error);
+    return false;
+  }
+}
+
+export async function sendAccountLockedEmail(
+  email: string,
+  firstName: string,
+  lockedMinutes: number,
+  resetUrl: string
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Account Has Been Temporarily Locked</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>We locked your account for ${lockedMinutes} minutes after several unsuccessful sign-in attempts.</p>
+        
+        <p>If this was you, you can try again once the lock expires or reset your password now. If it wasn't you, we recommend resetting your password.</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${resetUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Reset Password</a>
+        </div>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: 'Your account has been temporarily locked',
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Account locked email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Account locked email error:', error);
+    return false;
+  }
+}
+
+export async function sendAccountInviteEmail(
+  email: string,
+  firstName: string,
+  schoolName: string | null,
+  inviteUrl: string,
+  expiresInDays: number
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Account Is Ready</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>An account has been created for you${schoolName ? ` at ${schoolName}` : ''}. Click the button below to choose your password and sign in:</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${inviteUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Set Your Password</a>
+        </div>
+        
+        <p><strong>Important:</strong> This link will expire in ${expiresInDays} days and can only be used once. After that, use "Forgot password" on the sign-in page to get a new one.</p>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #666;">
+          This email was sent automatically. Please do not reply to this email address.
+        </p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: 'Your account has been created',
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Account invite email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Account invite email error:', error);
+    return false;
+  }
+}
+
+export async function sendInvitationEmail(
+  email: string,
+  roleName: string,
+  schoolName: string,
+  inviterName: string,
+  acceptUrl: string,
+  expiresInDays: number
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">You're Invited to Join ${schoolName}</h2>
+        
+        <p>Hello,</p>
+        
+        <p>${inviterName} has invited you to join <strong>${schoolName}</strong> as a <strong>${roleName}</strong>. Click the button below to create your account:</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${acceptUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Accept Invitation</a>
+        </div>
+        
+        <p><strong>Important:</strong> This invitation will expire in ${expiresInDays} days and can only be used once. If it expires, ask ${inviterName} to send a new one.</p>
+        
+        <p>If you weren't expecting this invitation, you can safely ignore this email.</p>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #666;">
+          This email was sent automatically. Please do not reply to this email address.
+        </p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: `Invitation to join ${schoolName}`,
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Invitation email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Invitation email error:', error);
+    return false;
+  }
+}
+
+export async function sendGuardianRegistrationEmail(
+  email: string,
+  guardianFirstName: string,
+  studentName: string,
+  opportunityTitle: string,
+  startDate: Date,
+  overviewUrl: string
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">${studentName} Registered for an Opportunity</h2>
+        
+        <p>Dear ${guardianFirstName},</p>
+        
+        <p>${studentName} has registered interest in <strong>${opportunityTitle}</strong>, starting ${startDate.toLocaleDateString()}.</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${overviewUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">View Details</a>
+        </div>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #666;">
+          You are receiving this because you are linked to ${studentName} as their guardian. Please do not reply to this email address.
+        </p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: `${studentName} registered for ${opportunityTitle}`,
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Guardian registration email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Guardian registration email error:', error);
+    return false;
+  }
+}
+
+export async function sendGuardianConsentRequestEmail(
+  email: string,
+  guardianFirstName: string,
+  studentName: string,
+  opportunityTitle: string,
+  organization: string,
+  location: string,
+  startDate: Date,
+  approveUrl: string,
+  declineUrl: string,
+  expiresInDays: number
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Consent Is Needed</h2>
+        
+        <p>Dear ${guardianFirstName},</p>
+        
+        <p>${studentName} has registered for <strong>${opportunityTitle}</strong> with ${organization} (${location}), starting ${startDate.toLocaleDateString()}.</p>
+        
+        <p>This activity needs a guardian's consent. ${studentName}'s place is on hold until you approve it.</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${approveUrl}" style="background-color: #28a745; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold; margin-right: 12px;">Approve</a>
+          <a href="${declineUrl}" style="background-color: #dc3545; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">Decline</a>
+        </div>
+        
+        <p>These links work for ${expiresInDays} days. You can also respond from the My Children page after signing in.</p>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+        
+        <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+        <p style="font-size: 12px; color: #666;">
+          You are receiving this because you are linked to ${studentName} as their guardian. Please do not reply to this email address.
+        </p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: `Consent needed: ${studentName} registered for ${opportunityTitle}`,
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Guardian consent request email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Guardian consent request email error:', error);
+    return false;
+  }
+}
+
+export async function sendOpportunityReviewEmail(
+  email: string,
+  firstName: string,
+  opportunityTitle: string,
+  approved: boolean,
+  opportunityUrl: string,
+  comment?: string | null,
+  scheduledFor?: Date | null
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const goesLive = scheduledFor
+      ? `It will go live on ${scheduledFor.toLocaleString()}.`
+      : 'It is now live and students can register for it.';
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">${approved ? 'Your Opportunity Has Been Approved' : 'Changes Requested on Your Opportunity'}</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>${approved
+          ? `A reviewer has approved <strong>${opportunityTitle}</strong>. ${goesLive}`
+          : `A reviewer has asked for changes to <strong>${opportunityTitle}</strong> before it can be published. It has been moved back to your drafts.`}</p>
+        
+        ${comment ? `
+        <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p style="margin: 0;"><strong>Reviewer's comment:</strong> ${comment}</p>
+        </div>
+        ` : ''}
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${opportunityUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">View Opportunity</a>
+        </div>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: approved
+        ? `Approved: ${opportunityTitle}`
+        : `Changes requested: ${opportunityTitle}`,
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Opportunity review email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Opportunity review email error:', error);
+    return false;
+  }
+}
+
+export async function sendOpportunityStatusEmail(
+  email: string,
+  firstName: string,
+  opportunityTitle: string,
+  status: 'published' | 'closed' | 'archived',
+  opportunityUrl: string
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const messages = {
+      published: {
+        heading: 'Your Opportunity Is Now Live',
+        body: `<strong>${opportunityTitle}</strong> has been published on its scheduled date. Students can now see it and register.`,
+        subject: `Now live: ${opportunityTitle}`,
+      },
+      closed: {
+        heading: 'Applications Have Closed',
+        body: `The application deadline for <strong>${opportunityTitle}</strong> has passed, so it has been closed to new registrations. Students who already registered keep their places.`,
+        subject: `Applications closed: ${opportunityTitle}`,
+      },
+      archived: {
+        heading: 'Your Opportunity Has Been Archived',
+        body: `<strong>${opportunityTitle}</strong> has ended and has been archived. It is no longer shown in the opportunities list.`,
+        subject: `Archived: ${opportunityTitle}`,
+      },
+    };
+    const message = messages[status];
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">${message.heading}</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>${message.body}</p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${opportunityUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">View Opportunity</a>
+        </div>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: message.subject,
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Opportunity status email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Opportunity status email error:', error);
+    return false;
+  }
+}
+
+export async function sendWaitlistPromotionEmail(
+  email: string,
+  firstName: string,
+  opportunityTitle: string,
+  opportunityUrl: string,
+  needsConsent: boolean
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter();
+
+    const consentNote = needsConsent
+      ? '<p>This opportunity needs a guardian\'s consent, so we have asked your guardian to approve it. Your place is held until they do.</p>'
+      : '';
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">A Place Has Opened Up</h2>
+        
+        <p>Dear ${firstName},</p>
+        
+        <p>A place has become free on <strong>${opportunityTitle}</strong>, and as you were next on the waitlist it is now yours.</p>
+        
+        ${consentNote}
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${opportunityUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; border-radius: 4px; text-decoration: none; font-weight: bold;">View Opportunity</a>
+        </div>
+        
+        <p>If you can no longer take part, please unregister so the place can go to the next student waiting.</p>
+        
+        <p>Best regards,<br>
+        Career Opportunities Team</p>
+      </div>
+    `;
+
+    const mailOptions = {
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: email,
+      subject: `You have a place: ${opportunityTitle}`,
+      html: emailHtml
+    };
+
+    await transporter.sendMail(mailOptions);
+    console.log(`Waitlist promotion email sent to ${email}`);
+    return true;
+  } catch (error) {
+    console.error('Waitlist promotion email error:', error);
+    return false;
+  }
+}
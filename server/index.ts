@@ -3,6 +3,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { seedDatabase } from "./seed";
 import { initializeReplitStorage } from "./replitOSS";
+import { startRosterSyncSchedule } from "./rosterSync";
+import { startRetentionSchedule } from "./dataRetention";
+import { startOpportunitySchedule } from "./opportunityWorkflow";
+import { pool } from "./db";
 
 const app = express();
 app.use(express.json());
@@ -46,6 +50,13 @@ app.use((req, res, next) => {
     console.error("Object Storage initialization failed:", error);
   }
 
+  // Opportunity search falls back to trigram similarity for misspellings
+  try {
+    await pool.query("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+  } catch (error) {
+    console.error("Enabling pg_trgm failed, search won't match misspellings:", error);
+  }
+
   // Seed the database with initial data
   try {
     await seedDatabase();
@@ -83,4 +94,25 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Pick up OneRoster bundles dropped into ROSTER_SYNC_DIR, if configured
+  try {
+    startRosterSyncSchedule();
+  } catch (error) {
+    console.error("Roster sync schedule failed to start:", error);
+  }
+
+  // Purge data past its retention period, for the rules a superadmin enabled
+  try {
+    startRetentionSchedule();
+  } catch (error) {
+    console.error("Data retention schedule failed to start:", error);
+  }
+
+  // Publish, close and archive opportunities as their dates come round
+  try {
+    startOpportunitySchedule();
+  } catch (error) {
+    console.error("Opportunity schedule failed to start:", error);
+  }
 })();
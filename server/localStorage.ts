@@ -81,4 +81,31 @@ export async function deleteFileFromLocalStorage(objectPath: string): Promise<vo
   } catch {
     // File already deleted or doesn't exist
   }
-}
\ No newline at end of file
+}
+
+// List every stored file with its object path and last modified time
+export async function listLocalStorageFiles(): Promise<
+  { objectPath: string; size: number; modifiedAt: Date }[]
+> {
+  await ensureStorageDir();
+
+  const files: { objectPath: string; size: number; modifiedAt: Date }[] = [];
+  const walk = async (directory: string) => {
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(fullPath);
+        files.push({
+          objectPath: path.relative(STORAGE_DIR, fullPath).split(path.sep).join("/"),
+          size: stats.size,
+          modifiedAt: stats.mtime,
+        });
+      }
+    }
+  };
+
+  await walk(STORAGE_DIR);
+  return files;
+}
@@ -0,0 +1,420 @@
+import {
+  and,
+  arrayOverlaps,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  ilike,
+  inArray,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  opportunities,
+  opportunitySearchDocument,
+  studentInterests,
+  type Opportunity,
+  type OpportunityStatus,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+
+export const OPPORTUNITY_SORTS = [
+  "relevance",
+  "newest",
+  "deadline",
+  "popular",
+  "closest",
+] as const;
+
+export type OpportunitySort = (typeof OPPORTUNITY_SORTS)[number];
+
+export interface OpportunityFilters {
+  statuses?: OpportunityStatus[];
+  industries?: string[];
+  opportunityTypes?: string[];
+  ageGroups?: string[];
+  location?: string;
+  startDate?: Date;
+  endDate?: Date;
+  ethnicityFocus?: string;
+  genderFocus?: string;
+  isVirtual?: boolean;
+  createdById?: number;
+}
+
+// Where the last page ended, in the order it was sorted by. `key` is the
+// sort value as Postgres printed it, so it compares exactly.
+export interface OpportunityCursor {
+  sort: OpportunitySort;
+  key: string;
+  id: number;
+}
+
+export interface OpportunityListOptions {
+  filters: OpportunityFilters;
+  query?: string;
+  // Defaults to relevance when there is a query and newest otherwise
+  sort?: OpportunitySort;
+  // Required for the closest sort
+  near?: { latitude: number; longitude: number };
+  cursor?: OpportunityCursor;
+  limit: number;
+}
+
+// `snippet` is an excerpt of the description with matches wrapped in <mark>.
+// `distanceKm` is only set when sorting by closest.
+export type OpportunityListItem = Opportunity & {
+  rank: number | null;
+  snippet: string | null;
+  distanceKm: number | null;
+};
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Each facet counts matches with every filter applied except its own, so
+// the sidebar can show what picking another option would add
+export interface OpportunityFacets {
+  industry: FacetCount[];
+  opportunityType: FacetCount[];
+  ageGroup: FacetCount[];
+  format: { virtual: number; inPerson: number };
+}
+
+export interface OpportunityPage {
+  opportunities: OpportunityListItem[];
+  total: number;
+  nextCursor: string | null;
+  // "similarity" when nothing matched the query's words and the results are
+  // close spellings instead; null when there was no query
+  matchedBy: "text" | "similarity" | null;
+  facets: OpportunityFacets;
+}
+
+type FacetName = "industry" | "opportunityType" | "ageGroup" | "format";
+
+// How close a misspelt query has to be to count as a match, from 0 to 1
+const SIMILARITY_THRESHOLD = 0.4;
+
+const EARTH_RADIUS_KM = 6371;
+
+// Turns free text into a prefix query, so "data sci" finds "data science".
+// Only (Latin) letters and digits are kept, which keeps tsquery syntax out of
+// it.
+function toPrefixQuery(query: string) {
+  return (query.match(/[A-Za-z0-9\u00C0-\u024F]+/g) ?? [])
+    .map((term) => `${term}:*`)
+    .join(" & ");
+}
+
+// The opportunities a user can see given their role: everything for global
+// editors, otherwise their school's, global ones and those shared with their
+// school. Only school-wide editors see other people's unpublished posts, and
+// students only ever see published ones. Undefined means no limit.
+function visibilityFor(user: User, role: UserRole | undefined): SQL | undefined {
+  if (role?.canEditAllOpportunities) return undefined;
+
+  const conditions = [
+    eq(opportunities.schoolId, user.schoolId!),
+    eq(opportunities.isGlobal, true),
+  ];
+  if (user.schoolId) {
+    conditions.push(sql`${user.schoolId} = ANY(${opportunities.visibleToSchools})`);
+  }
+  const published = eq(opportunities.status, "published");
+
+  if (role?.canEditSchoolOpportunities) {
+    return or(
+      eq(opportunities.schoolId, user.schoolId!),
+      and(or(...conditions), published),
+    );
+  }
+  if (role?.canCreateOpportunities) {
+    return or(
+      eq(opportunities.createdById, user.id),
+      and(or(...conditions), published),
+    );
+  }
+  return and(or(...conditions), published);
+}
+
+// Filter conditions keyed by the facet they belong to, so a facet's counts
+// can leave out its own filter
+function filterConditions(filters: OpportunityFilters) {
+  const byFacet: Partial<Record<FacetName, SQL>> = {};
+  const other: SQL[] = [];
+
+  if (filters.statuses?.length) {
+    other.push(inArray(opportunities.status, filters.statuses));
+  }
+  if (filters.industries?.length) {
+    byFacet.industry = inArray(opportunities.industry, filters.industries);
+  }
+  if (filters.opportunityTypes?.length) {
+    byFacet.opportunityType = inArray(
+      opportunities.opportunityType,
+      filters.opportunityTypes,
+    );
+  }
+  if (filters.ageGroups?.length) {
+    byFacet.ageGroup = arrayOverlaps(opportunities.ageGroup, filters.ageGroups);
+  }
+  if (filters.isVirtual !== undefined) {
+    byFacet.format = sql`coalesce(${opportunities.isVirtual}, false) = ${filters.isVirtual}`;
+  }
+
+  if (filters.location) {
+    other.push(ilike(opportunities.location, `%${filters.location}%`));
+  }
+  if (filters.startDate) {
+    other.push(sql`${opportunities.startDate} >= ${filters.startDate}`);
+  }
+  if (filters.endDate) {
+    other.push(sql`${opportunities.endDate} <= ${filters.endDate}`);
+  }
+  if (filters.ethnicityFocus) {
+    other.push(eq(opportunities.ethnicityFocus, filters.ethnicityFocus));
+  }
+  if (filters.genderFocus) {
+    other.push(eq(opportunities.genderFocus, filters.genderFocus));
+  }
+  // Filter by creator ID for "My Posts" view
+  if (filters.createdById) {
+    other.push(eq(opportunities.createdById, filters.createdById));
+  }
+
+  return { byFacet, other };
+}
+
+function distanceFrom(near: { latitude: number; longitude: number }) {
+  return sql<number | null>`${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+    power(sin(radians(${opportunities.latitude} - ${near.latitude}) / 2), 2) +
+    cos(radians(${near.latitude})) * cos(radians(${opportunities.latitude})) *
+    power(sin(radians(${opportunities.longitude} - ${near.longitude}) / 2), 2)
+  ))`;
+}
+
+export function encodeOpportunityCursor(cursor: OpportunityCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeOpportunityCursor(value: string): OpportunityCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      OPPORTUNITY_SORTS.includes(cursor?.sort) &&
+      typeof cursor.key === "string" &&
+      Number.isInteger(cursor.id)
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to null for anything that isn't one of our cursors
+  }
+  return null;
+}
+
+async function countFacets(
+  where: (omit: FacetName) => SQL | undefined,
+): Promise<OpportunityFacets> {
+  const [industry, opportunityType, ageGroup, format] = await Promise.all([
+    db
+      .select({ value: opportunities.industry, count: count() })
+      .from(opportunities)
+      .where(where("industry"))
+      .groupBy(opportunities.industry),
+    db
+      .select({ value: opportunities.opportunityType, count: count() })
+      .from(opportunities)
+      .where(where("opportunityType"))
+      .groupBy(opportunities.opportunityType),
+    db.execute<{ value: string; count: number }>(sql`
+      select age_group.value, count(*)::int as count
+      from ${opportunities}
+      cross join lateral unnest(${opportunities.ageGroup}) as age_group(value)
+      where ${where("ageGroup") ?? sql`true`}
+      group by age_group.value
+    `),
+    db
+      .select({
+        isVirtual: sql<boolean>`coalesce(${opportunities.isVirtual}, false)`,
+        count: count(),
+      })
+      .from(opportunities)
+      .where(where("format"))
+      .groupBy(sql`1`),
+  ]);
+
+  const byCount = (a: FacetCount, b: FacetCount) =>
+    b.count - a.count || a.value.localeCompare(b.value);
+
+  return {
+    industry: industry.sort(byCount),
+    opportunityType: opportunityType.sort(byCount),
+    ageGroup: ageGroup.rows.map((row) => ({ ...row, count: Number(row.count) })).sort(byCount),
+    format: {
+      virtual: format.find((row) => row.isVirtual)?.count ?? 0,
+      inPerson: format.find((row) => !row.isVirtual)?.count ?? 0,
+    },
+  };
+}
+
+const EMPTY_FACETS: OpportunityFacets = {
+  industry: [],
+  opportunityType: [],
+  ageGroup: [],
+  format: { virtual: 0, inPerson: 0 },
+};
+
+// One page of the opportunities a user can see, filtered, optionally matched
+// against a search query, and sorted, along with the total and facet counts
+// for the whole result.
+export async function listOpportunities(
+  userId: number,
+  options: OpportunityListOptions,
+): Promise<OpportunityPage> {
+  const prefixQuery = toPrefixQuery(options.query ?? "");
+  const sort = options.sort ?? (prefixQuery ? "relevance" : "newest");
+  const emptyPage: OpportunityPage = {
+    opportunities: [],
+    total: 0,
+    nextCursor: null,
+    matchedBy: prefixQuery ? "text" : null,
+    facets: EMPTY_FACETS,
+  };
+
+  const user = await storage.getUserById(userId);
+  if (!user) return emptyPage;
+  const role = await storage.getUserRoleById(user.roleId);
+
+  const visibility = visibilityFor(user, role);
+  const { byFacet, other } = filterConditions(options.filters);
+
+  // Full-text matches first; if there are none, close spellings of the
+  // title, organization or industry via pg_trgm, which is enabled at startup
+  const tsQuery = sql`to_tsquery('english', ${prefixQuery})`;
+  let matchedBy: OpportunityPage["matchedBy"] = null;
+  let match: SQL | undefined;
+  let rank: SQL<number> | undefined;
+
+  if (prefixQuery) {
+    matchedBy = "text";
+    match = sql`${opportunitySearchDocument} @@ ${tsQuery}`;
+    rank = sql<number>`ts_rank_cd(${opportunitySearchDocument}, ${tsQuery})`;
+
+    const [{ textMatches }] = await db
+      .select({ textMatches: count() })
+      .from(opportunities)
+      .where(and(visibility, match, ...Object.values(byFacet), ...other));
+
+    if (textMatches === 0) {
+      matchedBy = "similarity";
+      rank = sql<number>`greatest(
+        word_similarity(${options.query}, ${opportunities.title}),
+        word_similarity(${options.query}, ${opportunities.organization}),
+        word_similarity(${options.query}, ${opportunities.industry})
+      )`;
+      match = sql`${rank} >= ${SIMILARITY_THRESHOLD}`;
+    }
+  }
+
+  const where = (omit?: FacetName) =>
+    and(
+      visibility,
+      match,
+      ...Object.entries(byFacet)
+        .filter(([facet]) => facet !== omit)
+        .map(([, condition]) => condition),
+      ...other,
+    );
+
+  const distance = options.near ? distanceFrom(options.near) : undefined;
+
+  // Every sort ends with the id so rows with equal keys keep a stable order
+  let sortKey: SQL;
+  let descending: boolean;
+  switch (sort) {
+    case "relevance":
+      sortKey = rank ?? sql`0`;
+      descending = true;
+      break;
+    case "deadline":
+      sortKey = sql`${opportunities.applicationDeadline}`;
+      descending = false;
+      break;
+    case "popular":
+      sortKey = sql`(select count(*)::int from ${studentInterests} where ${studentInterests.opportunityId} = ${opportunities.id})`;
+      descending = true;
+      break;
+    case "closest":
+      // Opportunities without coordinates come last
+      sortKey = distance
+        ? sql`coalesce(${distance}, 'Infinity'::float8)`
+        : sql`'Infinity'::float8`;
+      descending = false;
+      break;
+    default:
+      sortKey = sql`${opportunities.createdAt}`;
+      descending = true;
+  }
+
+  let after: SQL | undefined;
+  if (options.cursor) {
+    after = descending
+      ? sql`(${sortKey}, ${opportunities.id}) < (${options.cursor.key}, ${options.cursor.id})`
+      : sql`(${sortKey}, ${opportunities.id}) > (${options.cursor.key}, ${options.cursor.id})`;
+  }
+
+  const order = descending
+    ? [desc(sortKey), desc(opportunities.id)]
+    : [asc(sortKey), asc(opportunities.id)];
+
+  try {
+    const [rows, [{ total }], facets] = await Promise.all([
+      db
+        .select({
+          ...getTableColumns(opportunities),
+          rank: rank ? sql<number>`${rank}` : sql<null>`null`,
+          snippet:
+            matchedBy === "text"
+              ? sql<string>`ts_headline('english', ${opportunities.description}, ${tsQuery}, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2')`
+              : sql<null>`null`,
+          distanceKm: distance ? sql<number | null>`${distance}` : sql<null>`null`,
+          sortKey: sql<string>`(${sortKey})::text`,
+        })
+        .from(opportunities)
+        .where(and(where(), after))
+        .orderBy(...order)
+        .limit(options.limit + 1),
+      db.select({ total: count() }).from(opportunities).where(where()),
+      countFacets(where),
+    ]);
+
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > options.limit && last
+        ? encodeOpportunityCursor({ sort, key: last.sortKey, id: last.id })
+        : null;
+
+    return {
+      opportunities: page.map(({ sortKey: _sortKey, ...row }) => row),
+      total,
+      nextCursor,
+      matchedBy,
+      facets,
+    };
+  } catch (error) {
+    if (matchedBy !== "similarity") throw error;
+    console.error("Similarity search failed, is pg_trgm installed?", error);
+    return { ...emptyPage, matchedBy };
+  }
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PolicyUser } from "@shared/policy";
+
+vi.mock("./db", () => ({ db: {} }));
+vi.mock("./emailService", () => ({ sendOpportunityStatusEmail: vi.fn() }));
+vi.mock("./storage", () => ({ storage: { getSchoolById: vi.fn() } }));
+
+const { storage } = await import("./storage");
+const {
+  OPPORTUNITY_TRANSITIONS,
+  isPastDay,
+  liveStatusFor,
+  nextOpportunityStatus,
+  submittedStatusFor,
+} = await import("./opportunityWorkflow");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const author: PolicyUser = {
+  id: 3,
+  schoolId: 10,
+  role: "teacher",
+  permissions: { canCreateOpportunities: true, canEditOwnOpportunities: true },
+};
+
+const reviewer: PolicyUser = {
+  id: 2,
+  schoolId: 10,
+  role: "admin",
+  permissions: { canEditSchoolOpportunities: true },
+};
+
+const draft = { schoolId: 10, createdById: 3, publishAt: null };
+
+const schoolRequiringApproval = (requireOpportunityApproval: boolean) =>
+  vi.mocked(storage.getSchoolById).mockResolvedValue({
+    id: 10,
+    requireOpportunityApproval,
+  } as any);
+
+beforeEach(() => {
+  vi.mocked(storage.getSchoolById).mockReset();
+});
+
+describe("isPastDay", () => {
+  it("lasts until the end of the chosen day", () => {
+    const day = new Date("2026-03-10T00:00:00Z");
+    expect(isPastDay(day, new Date("2026-03-10T23:59:00Z"))).toBe(false);
+    expect(isPastDay(day, new Date("2026-03-11T00:00:00Z"))).toBe(true);
+  });
+});
+
+describe("liveStatusFor", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  it("publishes straight away without a future publish date", () => {
+    expect(liveStatusFor({ publishAt: null }, now)).toBe("published");
+    expect(liveStatusFor({ publishAt: new Date(now.getTime() - DAY_MS) }, now)).toBe(
+      "published",
+    );
+  });
+
+  it("schedules opportunities with a future publish date", () => {
+    expect(liveStatusFor({ publishAt: new Date(now.getTime() + DAY_MS) }, now)).toBe(
+      "scheduled",
+    );
+  });
+});
+
+describe("submittedStatusFor", () => {
+  it("sends posts to review when the school requires approval", async () => {
+    schoolRequiringApproval(true);
+    expect(await submittedStatusFor(author, draft)).toBe("pending_review");
+  });
+
+  it("publishes posts when the school doesn't require approval", async () => {
+    schoolRequiringApproval(false);
+    expect(await submittedStatusFor(author, draft)).toBe("published");
+  });
+
+  it("lets reviewers skip the queue for their own school", async () => {
+    schoolRequiringApproval(true);
+    expect(await submittedStatusFor(reviewer, draft)).toBe("published");
+    expect(storage.getSchoolById).not.toHaveBeenCalled();
+  });
+
+  it("publishes opportunities with no school", async () => {
+    expect(await submittedStatusFor(author, { ...draft, schoolId: null })).toBe(
+      "published",
+    );
+  });
+
+  it("schedules approved posts with a future publish date", async () => {
+    schoolRequiringApproval(false);
+    const publishAt = new Date(Date.now() + DAY_MS);
+    expect(await submittedStatusFor(author, { ...draft, publishAt })).toBe("scheduled");
+  });
+});
+
+describe("nextOpportunityStatus", () => {
+  it("moves each manual transition to its target status", async () => {
+    expect(await nextOpportunityStatus("withdraw", author, draft)).toBe("draft");
+    expect(await nextOpportunityStatus("close", author, draft)).toBe("closed");
+    expect(await nextOpportunityStatus("reopen", author, draft)).toBe("published");
+    expect(await nextOpportunityStatus("archive", author, draft)).toBe("archived");
+  });
+
+  it("never lets a transition start from its own target status", () => {
+    expect(OPPORTUNITY_TRANSITIONS.close).not.toContain("closed");
+    expect(OPPORTUNITY_TRANSITIONS.reopen).not.toContain("published");
+    expect(OPPORTUNITY_TRANSITIONS.archive).not.toContain("archived");
+  });
+});
@@ -0,0 +1,195 @@
+import { and, eq, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { can, type PolicyUser } from "@shared/policy";
+import {
+  opportunities,
+  type Opportunity,
+  type OpportunityStatus,
+} from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { sendOpportunityStatusEmail } from "./emailService";
+import { getIntervalSetting } from "./schedule";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OpportunityTransition =
+  | "submit"
+  | "withdraw"
+  | "close"
+  | "reopen"
+  | "archive";
+
+// Status changes an editor can make by hand, and the statuses each one
+// starts from. Approving and requesting changes go through the review
+// endpoint instead.
+export const OPPORTUNITY_TRANSITIONS: Record<OpportunityTransition, OpportunityStatus[]> = {
+  submit: ["draft"],
+  withdraw: ["pending_review", "scheduled"],
+  close: ["published"],
+  reopen: ["closed"],
+  archive: ["draft", "scheduled", "published", "closed"],
+};
+
+// Deadlines and end dates are picked as days, so they last until the end
+// of that day
+export function isPastDay(date: Date, now = new Date()) {
+  return date.getTime() + DAY_MS <= now.getTime();
+}
+
+// An approved opportunity goes live now, or waits for its publish date
+export function liveStatusFor(
+  opportunity: Pick<Opportunity, "publishAt">,
+  now = new Date(),
+): OpportunityStatus {
+  return opportunity.publishAt && opportunity.publishAt > now ? "scheduled" : "published";
+}
+
+// Where a submitted draft goes: live unless its school requires approval
+// and the author can't approve it themselves
+export async function submittedStatusFor(
+  user: PolicyUser,
+  opportunity: Pick<Opportunity, "schoolId" | "createdById" | "publishAt">,
+): Promise<OpportunityStatus> {
+  if (!opportunity.schoolId || can(user, "opportunity:review", opportunity)) {
+    return liveStatusFor(opportunity);
+  }
+  const school = await storage.getSchoolById(opportunity.schoolId);
+  return school?.requireOpportunityApproval
+    ? "pending_review"
+    : liveStatusFor(opportunity);
+}
+
+// The status an opportunity ends up in after a transition
+export async function nextOpportunityStatus(
+  transition: OpportunityTransition,
+  user: PolicyUser,
+  opportunity: Pick<Opportunity, "schoolId" | "createdById" | "publishAt">,
+): Promise<OpportunityStatus> {
+  switch (transition) {
+    case "submit":
+      return submittedStatusFor(user, opportunity);
+    case "withdraw":
+      return "draft";
+    case "close":
+      return "closed";
+    case "reopen":
+      return "published";
+    case "archive":
+      return "archived";
+  }
+}
+
+interface ScheduledMove {
+  action: string;
+  from: OpportunityStatus;
+  to: "published" | "closed" | "archived";
+  isDue: (now: Date) => SQL | undefined;
+}
+
+// Applied in order, so one run can publish, close and archive an
+// opportunity whose dates have all passed
+const SCHEDULED_MOVES: ScheduledMove[] = [
+  {
+    action: "publish",
+    from: "scheduled",
+    to: "published",
+    isDue: (now) =>
+      or(isNull(opportunities.publishAt), lte(opportunities.publishAt, now)),
+  },
+  {
+    action: "close",
+    from: "published",
+    to: "closed",
+    isDue: (now) =>
+      lt(opportunities.applicationDeadline, new Date(now.getTime() - DAY_MS)),
+  },
+  {
+    action: "archive",
+    from: "closed",
+    to: "archived",
+    isDue: (now) => lt(opportunities.endDate, new Date(now.getTime() - DAY_MS)),
+  },
+];
+
+// Publishes scheduled opportunities whose date has come, closes those past
+// their application deadline and archives those that have ended, letting
+// each creator know. Returns how many opportunities each move changed.
+export async function runOpportunitySchedule(now = new Date()) {
+  const counts: Record<string, number> = {};
+  const baseUrl = process.env.APP_URL || "http://localhost:5000";
+
+  for (const move of SCHEDULED_MOVES) {
+    // Conditional on the current status, so an opportunity someone changed
+    // by hand in the meantime is left alone
+    const moved = await db
+      .update(opportunities)
+      .set({
+        status: move.to,
+        updatedAt: now,
+        ...(move.to === "published"
+          ? { publishedAt: sql`coalesce(${opportunities.publishedAt}, ${now})` }
+          : {}),
+        ...(move.to === "archived" ? { archivedAt: now } : {}),
+      })
+      .where(and(eq(opportunities.status, move.from), move.isDue(now)))
+      .returning();
+    counts[move.action] = moved.length;
+
+    for (const opportunity of moved) {
+      await storage.createAuditLog({
+        actorId: null,
+        action: `opportunity:${move.action}`,
+        entityType: "opportunity",
+        entityId: String(opportunity.id),
+        schoolId: opportunity.schoolId,
+        changes: { status: { from: move.from, to: move.to } },
+        ipAddress: null,
+        userAgent: null,
+      });
+
+      const creator = opportunity.createdById
+        ? await storage.getUserById(opportunity.createdById)
+        : undefined;
+      if (creator?.isActive) {
+        await sendOpportunityStatusEmail(
+          creator.email,
+          creator.firstName,
+          opportunity.title,
+          move.to,
+          `${baseUrl}/opportunities/${opportunity.id}`,
+        );
+      }
+    }
+  }
+
+  return counts;
+}
+
+export function startOpportunitySchedule() {
+  const intervalMinutes = getIntervalSetting(
+    "OPPORTUNITY_SCHEDULE_INTERVAL_MINUTES",
+    5,
+  );
+  let isRunning = false;
+
+  const checkSchedule = async () => {
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      const counts = await runOpportunitySchedule();
+      if (Object.values(counts).some((count) => count > 0)) {
+        console.log(
+          `Opportunity schedule: published ${counts.publish}, closed ${counts.close}, archived ${counts.archive}`,
+        );
+      }
+    } catch (error) {
+      console.error("Opportunity schedule error:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  checkSchedule();
+  setInterval(checkSchedule, intervalMinutes * 60 * 1000);
+}
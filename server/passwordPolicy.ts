@@ -0,0 +1,145 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { storage } from "./storage";
+import { BREACHED_PASSWORD_RANGES } from "./breachedPasswords";
+
+// The policy is kept as JSON in system_settings under this key
+export const PASSWORD_POLICY_SETTING_KEY = "password_policy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const passwordPolicySchema = z.object({
+  minLength: z.number().int().min(8).max(64),
+  requireLowercase: z.boolean(),
+  requireUppercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  // How many of the user's most recent passwords, including the current one,
+  // can't be chosen again. 0 allows reuse.
+  historyCount: z.number().int().min(0).max(24),
+  // Staff must choose a new password once theirs is this old; 0 turns it off
+  staffExpiryDays: z.number().int().min(0).max(730),
+  rejectBreached: z.boolean(),
+});
+
+export type PasswordPolicy = z.infer<typeof passwordPolicySchema>;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 10,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  historyCount: 5,
+  staffExpiryDays: 0,
+  rejectBreached: true,
+};
+
+// Roles that never count as staff for password expiry
+const NON_STAFF_ROLES = ["student", "guardian"];
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const setting = await storage.getSetting(PASSWORD_POLICY_SETTING_KEY);
+  if (!setting) return DEFAULT_PASSWORD_POLICY;
+
+  try {
+    return passwordPolicySchema.parse({
+      ...DEFAULT_PASSWORD_POLICY,
+      ...JSON.parse(setting.value),
+    });
+  } catch (error) {
+    console.error("Invalid password policy, using defaults:", error);
+    return DEFAULT_PASSWORD_POLICY;
+  }
+}
+
+export async function savePasswordPolicy(policy: PasswordPolicy, updatedById: number) {
+  await storage.setSetting({
+    key: PASSWORD_POLICY_SETTING_KEY,
+    value: JSON.stringify(policy),
+    description: "Password rules, reuse history and staff password expiry",
+    updatedById,
+  });
+}
+
+// The known-breached hashes that share a five-character SHA-1 prefix
+export function getBreachedRange(prefix: string): string[] {
+  return BREACHED_PASSWORD_RANGES[prefix.toUpperCase()] ?? [];
+}
+
+export function isBreachedPassword(password: string) {
+  const hash = crypto.createHash("sha1").update(password).digest("hex").toUpperCase();
+  return getBreachedRange(hash.slice(0, 5)).includes(hash.slice(5));
+}
+
+// Everything wrong with a password under the policy, without the reuse
+// check. An empty list means it is acceptable.
+export function checkPassword(password: string, policy: PasswordPolicy): string[] {
+  const problems: string[] = [];
+
+  if (password.length < policy.minLength) {
+    problems.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    problems.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    problems.push("Password must contain a number");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push("Password must contain a symbol");
+  }
+  if (policy.rejectBreached && isBreachedPassword(password)) {
+    problems.push(
+      "This password has appeared in a data breach. Please choose a different one",
+    );
+  }
+
+  return problems;
+}
+
+// Checks a new password for a user, including their recent passwords. Pass
+// no user for accounts that don't exist yet.
+export async function validateNewPassword(
+  password: string,
+  user?: { id: number; password: string } | null,
+): Promise<string[]> {
+  const policy = await getPasswordPolicy();
+  const problems = checkPassword(password, policy);
+
+  if (user && policy.historyCount > 0) {
+    const previous = await storage.getPasswordHistory(
+      user.id,
+      policy.historyCount - 1,
+    );
+    const recentHashes = [user.password, ...previous.map((entry) => entry.passwordHash)];
+    for (const hash of recentHashes) {
+      if (await bcrypt.compare(password, hash)) {
+        problems.push(
+          policy.historyCount === 1
+            ? "Choose a password different from your current one"
+            : `Choose a password you haven't used for your last ${policy.historyCount} passwords`,
+        );
+        break;
+      }
+    }
+  }
+
+  return problems;
+}
+
+export function isPasswordExpired(
+  user: { passwordChangedAt: Date | null; createdAt: Date },
+  roleName: string | undefined,
+  policy: PasswordPolicy,
+) {
+  if (!policy.staffExpiryDays || NON_STAFF_ROLES.includes(roleName ?? "student")) {
+    return false;
+  }
+  const changedAt = user.passwordChangedAt ?? user.createdAt;
+  return changedAt.getTime() + policy.staffExpiryDays * DAY_MS < Date.now();
+}
@@ -0,0 +1,731 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import JSZip from "jszip";
+import bcrypt from "bcryptjs";
+import { and, eq, inArray, isNotNull, or, sql } from "drizzle-orm";
+import { db } from "./db";
+import { storage } from "./storage";
+import {
+  schools,
+  users,
+  userRoles,
+  rosterClasses,
+  rosterEnrollments,
+  type RosterSyncRun,
+} from "@shared/schema";
+import { readSpreadsheet } from "./spreadsheet";
+import { getIntervalSetting } from "./schedule";
+
+// OneRoster 1.1 CSV files the sync reads. orgs.csv and users.csv are required.
+const ROSTER_FILES = [
+  "manifest.csv",
+  "orgs.csv",
+  "users.csv",
+  "classes.csv",
+  "enrollments.csv",
+];
+
+// OneRoster roles and the built-in role each one becomes. Other roles
+// (parent, guardian, aide, ...) are skipped.
+const ROSTER_ROLE_NAMES: Record<string, string> = {
+  student: "student",
+  teacher: "teacher",
+  administrator: "admin",
+};
+
+// Keeps one run's stored diff to a sensible size
+const MAX_RECORDED_CHANGES = 5000;
+
+export type RosterFiles = Map<string, Buffer>;
+
+export interface RosterChange {
+  entity: "school" | "user" | "class" | "enrollment";
+  action: "created" | "updated" | "deactivated" | "deleted";
+  sourcedId: string;
+  name: string;
+  fields?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface RosterSyncSummary {
+  schools: { created: number; updated: number; unchanged: number };
+  users: {
+    created: number;
+    updated: number;
+    deactivated: number;
+    unchanged: number;
+    skipped: number;
+  };
+  classes: { created: number; updated: number; deleted: number; unchanged: number };
+  enrollments: { created: number; updated: number; deleted: number; unchanged: number };
+  warnings: string[];
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type CsvRow = Record<string, string>;
+
+// Accepts the CSV files themselves or a zipped OneRoster bundle
+export async function collectRosterFiles(
+  files: { name: string; buffer: Buffer }[],
+): Promise<RosterFiles> {
+  const collected: RosterFiles = new Map();
+
+  for (const file of files) {
+    const name = path.basename(file.name).toLowerCase();
+
+    if (name.endsWith(".zip")) {
+      const zip = await JSZip.loadAsync(file.buffer);
+      for (const entry of Object.values(zip.files)) {
+        const entryName = path.basename(entry.name).toLowerCase();
+        if (!entry.dir && ROSTER_FILES.includes(entryName)) {
+          collected.set(entryName, await entry.async("nodebuffer"));
+        }
+      }
+    } else if (ROSTER_FILES.includes(name)) {
+      collected.set(name, file.buffer);
+    }
+  }
+
+  return collected;
+}
+
+// Identifies a bundle by content, so the same export is only synced once
+export function hashRosterFiles(files: RosterFiles) {
+  const hash = crypto.createHash("sha256");
+  Array.from(files.keys())
+    .sort()
+    .forEach((name) => {
+      hash.update(name);
+      hash.update(files.get(name)!);
+    });
+  return hash.digest("hex");
+}
+
+// Changed fields between what is stored and what the SIS says
+const diffFields = (current: Record<string, any>, next: Record<string, any>) => {
+  const fields: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of Object.keys(next)) {
+    if (current[key] !== next[key]) {
+      fields[key] = { from: current[key], to: next[key] };
+    }
+  }
+  return fields;
+};
+
+const isDeleted = (row: CsvRow) => row.status?.toLowerCase() === "tobedeleted";
+
+// Run a sync and record it in the history. Failed runs are recorded too;
+// nothing they did is kept because the changes are applied in one transaction.
+export async function syncRoster(
+  files: RosterFiles,
+  options: {
+    trigger: "upload" | "schedule";
+    source: string;
+    triggeredById?: number | null;
+  },
+): Promise<RosterSyncRun> {
+  const run = await storage.createRosterSyncRun({
+    trigger: options.trigger,
+    source: options.source,
+    fileHash: hashRosterFiles(files),
+    status: "running",
+    triggeredById: options.triggeredById ?? null,
+  });
+
+  try {
+    const { summary, changes } = await applyRoster(files);
+    if (changes.length > MAX_RECORDED_CHANGES) {
+      summary.warnings.push(
+        `${changes.length} changes were made; only the first ${MAX_RECORDED_CHANGES} are listed`,
+      );
+    }
+
+    return (await storage.updateRosterSyncRun(run.id, {
+      status: "success",
+      summary,
+      changes: changes.slice(0, MAX_RECORDED_CHANGES),
+      finishedAt: new Date(),
+    }))!;
+  } catch (error) {
+    console.error("Roster sync failed:", error);
+    return (await storage.updateRosterSyncRun(run.id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      finishedAt: new Date(),
+    }))!;
+  }
+}
+
+async function applyRoster(files: RosterFiles) {
+  const read = async (name: string): Promise<CsvRow[]> =>
+    files.has(name)
+      ? (await readSpreadsheet(files.get(name)!, name)).rows.map((row) => row.values)
+      : [];
+
+  if (!files.has("orgs.csv") || !files.has("users.csv")) {
+    throw new Error("The bundle must include orgs.csv and users.csv");
+  }
+
+  // manifest.csv says whether each file is a full export ("bulk") or only
+  // changes ("delta"). Records missing from a delta file are left alone.
+  const manifest = await read("manifest.csv");
+  const isBulk = (file: string) =>
+    manifest
+      .find((row) => row.propertyName === `file.${file}`)
+      ?.value?.toLowerCase() !== "delta";
+
+  const [orgRows, userRows, classRows, enrollmentRows] = await Promise.all([
+    read("orgs.csv"),
+    read("users.csv"),
+    read("classes.csv"),
+    read("enrollments.csv"),
+  ]);
+
+  const summary: RosterSyncSummary = {
+    schools: { created: 0, updated: 0, unchanged: 0 },
+    users: { created: 0, updated: 0, deactivated: 0, unchanged: 0, skipped: 0 },
+    classes: { created: 0, updated: 0, deleted: 0, unchanged: 0 },
+    enrollments: { created: 0, updated: 0, deleted: 0, unchanged: 0 },
+    warnings: [],
+  };
+  const changes: RosterChange[] = [];
+
+  await db.transaction(async (tx) => {
+    const schoolIds = await syncSchools(tx, orgRows, summary, changes);
+    const userIds = await syncUsers(
+      tx,
+      userRows,
+      schoolIds,
+      isBulk("users"),
+      summary,
+      changes,
+    );
+    const classIds = await syncClasses(
+      tx,
+      classRows,
+      schoolIds,
+      files.has("classes.csv") && isBulk("classes"),
+      summary,
+      changes,
+    );
+    await syncEnrollments(
+      tx,
+      enrollmentRows,
+      classIds,
+      userIds,
+      files.has("enrollments.csv") && isBulk("enrollments"),
+      summary,
+      changes,
+    );
+  });
+
+  return { summary, changes };
+}
+
+// Returns org sourcedId -> school id for every school in the bundle
+async function syncSchools(
+  tx: Transaction,
+  orgRows: CsvRow[],
+  summary: RosterSyncSummary,
+  changes: RosterChange[],
+) {
+  const existingSchools = await tx.select().from(schools);
+  const schoolIds = new Map<string, number>();
+
+  for (const org of orgRows) {
+    if (org.type?.toLowerCase() !== "school" || !org.sourcedId) continue;
+
+    // Deleting a school would delete its users, so that stays a manual step
+    if (isDeleted(org)) {
+      summary.warnings.push(
+        `School "${org.name}" was removed in the SIS and has been left in place`,
+      );
+      continue;
+    }
+
+    // Schools created before the first sync are matched by name
+    const existing =
+      existingSchools.find((school) => school.sisSourcedId === org.sourcedId) ||
+      existingSchools.find(
+        (school) =>
+          !school.sisSourcedId &&
+          school.name.toLowerCase() === org.name?.toLowerCase(),
+      );
+    const next = { name: org.name, sisSourcedId: org.sourcedId };
+
+    if (!existing) {
+      const [created] = await tx.insert(schools).values(next).returning();
+      schoolIds.set(org.sourcedId, created.id);
+      summary.schools.created++;
+      changes.push({ entity: "school", action: "created", sourcedId: org.sourcedId, name: org.name });
+      continue;
+    }
+
+    schoolIds.set(org.sourcedId, existing.id);
+    const fields = diffFields(existing, next);
+    if (Object.keys(fields).length) {
+      await tx.update(schools).set(next).where(eq(schools.id, existing.id));
+      summary.schools.updated++;
+      changes.push({ entity: "school", action: "updated", sourcedId: org.sourcedId, name: org.name, fields });
+    } else {
+      summary.schools.unchanged++;
+    }
+  }
+
+  return schoolIds;
+}
+
+// Returns user sourcedId -> user id for every synced user in the bundle
+async function syncUsers(
+  tx: Transaction,
+  userRows: CsvRow[],
+  schoolIds: Map<string, number>,
+  isBulk: boolean,
+  summary: RosterSyncSummary,
+  changes: RosterChange[],
+) {
+  const roles = await tx.select().from(userRoles);
+  const roleIdsByName = new Map(roles.map((role) => [role.name, role.id]));
+  const syncedRoleIds = new Set(
+    Object.values(ROSTER_ROLE_NAMES).map((name) => roleIdsByName.get(name)),
+  );
+  const studentRoleId = roleIdsByName.get("student");
+
+  const sourcedIds = userRows.map((row) => row.sourcedId).filter(Boolean);
+  const emails = userRows.map((row) => row.email?.toLowerCase()).filter(Boolean);
+  const bundleSchoolIds = Array.from(schoolIds.values());
+
+  // Everyone the file mentions, plus every synced user at the bundle's
+  // schools so leavers can be found
+  const existingUsers = await tx
+    .select()
+    .from(users)
+    .where(
+      or(
+        sourcedIds.length ? inArray(users.sisSourcedId, sourcedIds) : undefined,
+        emails.length ? inArray(sql`lower(${users.email})`, emails) : undefined,
+        bundleSchoolIds.length
+          ? and(isNotNull(users.sisSourcedId), inArray(users.schoolId, bundleSchoolIds))
+          : undefined,
+      ),
+    );
+  const bySourcedId = new Map(
+    existingUsers.filter((u) => u.sisSourcedId).map((u) => [u.sisSourcedId!, u]),
+  );
+  const byEmail = new Map(existingUsers.map((u) => [u.email.toLowerCase(), u]));
+
+  const userIds = new Map<string, number>();
+  const seen = new Set<string>();
+  const leavers: typeof existingUsers = [];
+
+  // Synced accounts get a password nobody knows; people sign in for the
+  // first time through "Forgot password"
+  const placeholderPassword = await bcrypt.hash(
+    crypto.randomBytes(32).toString("hex"),
+    10,
+  );
+
+  for (const row of userRows) {
+    const roleName = ROSTER_ROLE_NAMES[row.role?.toLowerCase()];
+    if (!row.sourcedId || !roleName) {
+      summary.users.skipped++;
+      continue;
+    }
+    if (!roleIdsByName.has(roleName)) {
+      summary.users.skipped++;
+      summary.warnings.push(`User ${row.sourcedId} was skipped: there is no "${roleName}" role`);
+      continue;
+    }
+
+    const existing = bySourcedId.get(row.sourcedId);
+    const name = `${row.givenName} ${row.familyName}`.trim();
+
+    if (isDeleted(row) || row.enabledUser?.toLowerCase() === "false") {
+      if (existing) leavers.push(existing);
+      continue;
+    }
+
+    const schoolId = (row.orgSourcedIds || "")
+      .split(",")
+      .map((id) => schoolIds.get(id.trim()))
+      .find((id) => id !== undefined);
+    const email = row.email?.trim().toLowerCase();
+    if (!schoolId || !email) {
+      summary.users.skipped++;
+      summary.warnings.push(
+        `User ${row.sourcedId} (${name}) was skipped: ${!email ? "no email address" : "no known school"}`,
+      );
+      continue;
+    }
+
+    seen.add(row.sourcedId);
+
+    // Accounts created before the first sync are matched by email
+    const match =
+      existing ||
+      (byEmail.get(email)?.sisSourcedId ? undefined : byEmail.get(email));
+
+    const next: Record<string, any> = {
+      email,
+      firstName: row.givenName,
+      lastName: row.familyName,
+      schoolId,
+      isActive: true,
+      deactivatedAt: null,
+      deactivationReason: null,
+      sisSourcedId: row.sourcedId,
+    };
+
+    // Roles given in the app (e.g. a teacher made moderator) are kept
+    if (!match || syncedRoleIds.has(match.roleId)) {
+      next.roleId = roleIdsByName.get(roleName);
+    }
+
+    if (!match) {
+      const username = await findFreeUsername(
+        tx,
+        row.username || email.split("@")[0],
+        row.sourcedId,
+      );
+      const [created] = await tx
+        .insert(users)
+        .values({
+          ...next,
+          username,
+          roleId: next.roleId,
+          password: placeholderPassword,
+        } as typeof users.$inferInsert)
+        .returning();
+      userIds.set(row.sourcedId, created.id);
+      summary.users.created++;
+      changes.push({ entity: "user", action: "created", sourcedId: row.sourcedId, name });
+      continue;
+    }
+
+    userIds.set(row.sourcedId, match.id);
+    const fields = diffFields(match, next);
+    if (Object.keys(fields).length) {
+      await tx.update(users).set(next).where(eq(users.id, match.id));
+      summary.users.updated++;
+      changes.push({ entity: "user", action: "updated", sourcedId: row.sourcedId, name, fields });
+    } else {
+      summary.users.unchanged++;
+    }
+  }
+
+  // In a full export, synced students who are no longer listed have left
+  if (isBulk) {
+    for (const user of existingUsers) {
+      if (
+        user.sisSourcedId &&
+        !seen.has(user.sisSourcedId) &&
+        user.schoolId !== null &&
+        bundleSchoolIds.includes(user.schoolId) &&
+        !leavers.includes(user)
+      ) {
+        leavers.push(user);
+      }
+    }
+  }
+
+  for (const user of leavers) {
+    const name = `${user.firstName} ${user.lastName}`;
+
+    // Staff accounts may own opportunities and news, so only students are
+    // switched off automatically
+    if (user.roleId !== studentRoleId) {
+      summary.warnings.push(
+        `${name} is no longer in the SIS but is not a student, so the account was left active`,
+      );
+      continue;
+    }
+    if (!user.isActive) continue;
+
+    await tx
+      .update(users)
+      .set({
+        isActive: false,
+        deactivatedAt: new Date(),
+        deactivationReason: "No longer in the SIS roster",
+      })
+      .where(eq(users.id, user.id));
+    summary.users.deactivated++;
+    changes.push({
+      entity: "user",
+      action: "deactivated",
+      sourcedId: user.sisSourcedId!,
+      name,
+    });
+  }
+
+  return userIds;
+}
+
+async function findFreeUsername(tx: Transaction, base: string, sourcedId: string) {
+  for (const candidate of [base, `${base}.${sourcedId}`]) {
+    const [taken] = await tx
+      .select({ id: users.id })
+      .from(users)
+      .where(sql`lower(${users.username}) = ${candidate.toLowerCase()}`);
+    if (!taken) return candidate;
+  }
+  return `${base}.${crypto.randomBytes(3).toString("hex")}`;
+}
+
+// Returns class sourcedId -> roster class id
+async function syncClasses(
+  tx: Transaction,
+  classRows: CsvRow[],
+  schoolIds: Map<string, number>,
+  isBulk: boolean,
+  summary: RosterSyncSummary,
+  changes: RosterChange[],
+) {
+  const bundleSchoolIds = Array.from(schoolIds.values());
+  const sourcedIds = classRows.map((row) => row.sourcedId).filter(Boolean);
+  const existingClasses =
+    bundleSchoolIds.length || sourcedIds.length
+      ? await tx
+          .select()
+          .from(rosterClasses)
+          .where(
+            or(
+              bundleSchoolIds.length
+                ? inArray(rosterClasses.schoolId, bundleSchoolIds)
+                : undefined,
+              sourcedIds.length
+                ? inArray(rosterClasses.sisSourcedId, sourcedIds)
+                : undefined,
+            ),
+          )
+      : [];
+  const bySourcedId = new Map(existingClasses.map((c) => [c.sisSourcedId, c]));
+  const classIds = new Map<string, number>();
+  const seen = new Set<string>();
+
+  for (const row of classRows) {
+    if (!row.sourcedId || isDeleted(row)) continue;
+
+    const schoolId = schoolIds.get(row.schoolSourcedId);
+    if (!schoolId) {
+      summary.warnings.push(`Class "${row.title}" was skipped: no known school`);
+      continue;
+    }
+
+    seen.add(row.sourcedId);
+    const existing = bySourcedId.get(row.sourcedId);
+    const next = {
+      schoolId,
+      title: row.title,
+      classCode: row.classCode || null,
+    };
+
+    if (!existing) {
+      const [created] = await tx
+        .insert(rosterClasses)
+        .values({ ...next, sisSourcedId: row.sourcedId })
+        .returning();
+      classIds.set(row.sourcedId, created.id);
+      summary.classes.created++;
+      changes.push({ entity: "class", action: "created", sourcedId: row.sourcedId, name: row.title });
+      continue;
+    }
+
+    classIds.set(row.sourcedId, existing.id);
+    const fields = diffFields(existing, next);
+    if (Object.keys(fields).length) {
+      await tx
+        .update(rosterClasses)
+        .set({ ...next, updatedAt: new Date() })
+        .where(eq(rosterClasses.id, existing.id));
+      summary.classes.updated++;
+      changes.push({ entity: "class", action: "updated", sourcedId: row.sourcedId, name: row.title, fields });
+    } else {
+      summary.classes.unchanged++;
+    }
+  }
+
+  // Classes marked for deletion, or missing from a full export, are removed
+  // along with their enrollments
+  const removed = existingClasses.filter(
+    (c) =>
+      !seen.has(c.sisSourcedId) &&
+      (isBulk || classRows.some((row) => row.sourcedId === c.sisSourcedId)),
+  );
+  for (const rosterClass of removed) {
+    await tx.delete(rosterClasses).where(eq(rosterClasses.id, rosterClass.id));
+    summary.classes.deleted++;
+    changes.push({
+      entity: "class",
+      action: "deleted",
+      sourcedId: rosterClass.sisSourcedId,
+      name: rosterClass.title,
+    });
+  }
+
+  // Enrollments may point at classes from an earlier sync
+  existingClasses
+    .filter((c) => !removed.includes(c) && !classIds.has(c.sisSourcedId))
+    .forEach((c) => classIds.set(c.sisSourcedId, c.id));
+
+  return classIds;
+}
+
+async function syncEnrollments(
+  tx: Transaction,
+  enrollmentRows: CsvRow[],
+  classIds: Map<string, number>,
+  userIds: Map<string, number>,
+  isBulk: boolean,
+  summary: RosterSyncSummary,
+  changes: RosterChange[],
+) {
+  const bundleClassIds = Array.from(classIds.values());
+  const sourcedIds = enrollmentRows.map((row) => row.sourcedId).filter(Boolean);
+  const existingEnrollments =
+    bundleClassIds.length || sourcedIds.length
+      ? await tx
+          .select()
+          .from(rosterEnrollments)
+          .where(
+            or(
+              bundleClassIds.length
+                ? inArray(rosterEnrollments.classId, bundleClassIds)
+                : undefined,
+              sourcedIds.length
+                ? inArray(rosterEnrollments.sisSourcedId, sourcedIds)
+                : undefined,
+            ),
+          )
+      : [];
+  const bySourcedId = new Map(existingEnrollments.map((e) => [e.sisSourcedId, e]));
+  const seen = new Set<string>();
+  let unresolved = 0;
+
+  // A delta export can enroll users synced in an earlier run
+  const missingUserIds = Array.from(
+    new Set(enrollmentRows.map((row) => row.userSourcedId)),
+  ).filter((id) => id && !userIds.has(id));
+  if (missingUserIds.length) {
+    const earlierUsers = await tx
+      .select({ id: users.id, sisSourcedId: users.sisSourcedId })
+      .from(users)
+      .where(inArray(users.sisSourcedId, missingUserIds));
+    earlierUsers.forEach((user) => userIds.set(user.sisSourcedId!, user.id));
+  }
+
+  for (const row of enrollmentRows) {
+    if (!row.sourcedId || isDeleted(row)) continue;
+
+    const classId = classIds.get(row.classSourcedId);
+    const userId = userIds.get(row.userSourcedId);
+    if (!classId || !userId) {
+      unresolved++;
+      continue;
+    }
+
+    seen.add(row.sourcedId);
+    const existing = bySourcedId.get(row.sourcedId);
+    const next = { classId, userId, role: row.role?.toLowerCase() || "student" };
+
+    if (!existing) {
+      await tx.insert(rosterEnrollments).values({ ...next, sisSourcedId: row.sourcedId });
+      summary.enrollments.created++;
+      changes.push({ entity: "enrollment", action: "created", sourcedId: row.sourcedId, name: `${row.userSourcedId} in ${row.classSourcedId}` });
+      continue;
+    }
+
+    const fields = diffFields(existing, next);
+    if (Object.keys(fields).length) {
+      await tx
+        .update(rosterEnrollments)
+        .set({ ...next, updatedAt: new Date() })
+        .where(eq(rosterEnrollments.id, existing.id));
+      summary.enrollments.updated++;
+      changes.push({ entity: "enrollment", action: "updated", sourcedId: row.sourcedId, name: `${row.userSourcedId} in ${row.classSourcedId}`, fields });
+    } else {
+      summary.enrollments.unchanged++;
+    }
+  }
+
+  if (unresolved) {
+    summary.warnings.push(
+      `${unresolved} enrollments were skipped because their class or user was not synced`,
+    );
+  }
+
+  const removed = existingEnrollments.filter(
+    (e) =>
+      !seen.has(e.sisSourcedId) &&
+      (isBulk || enrollmentRows.some((row) => row.sourcedId === e.sisSourcedId)),
+  );
+  if (removed.length) {
+    await tx
+      .delete(rosterEnrollments)
+      .where(inArray(rosterEnrollments.id, removed.map((e) => e.id)));
+    summary.enrollments.deleted += removed.length;
+    removed.forEach((e) =>
+      changes.push({ entity: "enrollment", action: "deleted", sourcedId: e.sisSourcedId, name: e.sisSourcedId }),
+    );
+  }
+}
+
+// Optionally pick up bundles an SIS drops into ROSTER_SYNC_DIR. The newest
+// zip is used if there is one, otherwise the CSV files in the directory.
+// A bundle that was already synced is not synced again.
+export function startRosterSyncSchedule() {
+  const directory = process.env.ROSTER_SYNC_DIR;
+  if (!directory) return;
+
+  const intervalMinutes = getIntervalSetting("ROSTER_SYNC_INTERVAL_MINUTES", 60);
+  let isRunning = false;
+
+  const checkDirectory = async () => {
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      const entries = await Promise.all(
+        (await fs.readdir(directory)).map(async (name) => ({
+          name,
+          stats: await fs.stat(path.join(directory, name)),
+        })),
+      );
+      const zips = entries
+        .filter((entry) => entry.name.toLowerCase().endsWith(".zip"))
+        .sort((a, b) => b.stats.mtimeMs - a.stats.mtimeMs);
+      const selected = zips.length
+        ? [zips[0]]
+        : entries.filter((entry) => ROSTER_FILES.includes(entry.name.toLowerCase()));
+
+      const files = await collectRosterFiles(
+        await Promise.all(
+          selected.map(async (entry) => ({
+            name: entry.name,
+            buffer: await fs.readFile(path.join(directory, entry.name)),
+          })),
+        ),
+      );
+      if (!files.size) return;
+
+      const lastRun = await storage.getLatestRosterSyncRun("schedule");
+      if (lastRun?.fileHash === hashRosterFiles(files)) return;
+
+      const run = await syncRoster(files, {
+        trigger: "schedule",
+        source: path.join(directory, zips.length ? zips[0].name : ""),
+      });
+      console.log(`Scheduled roster sync #${run.id} finished: ${run.status}`);
+    } catch (error) {
+      console.error("Scheduled roster sync error:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  console.log(
+    `Watching ${directory} for OneRoster bundles every ${intervalMinutes} minutes`,
+  );
+  checkDirectory();
+  setInterval(checkDirectory, intervalMinutes * 60 * 1000);
+}
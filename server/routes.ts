@@ -6,6 +6,9 @@ import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
 import { z } from "zod";
 import {
   users,
@@ -23,17 +26,23 @@ import {
   insertSchoolSchema,
   insertOpportunitySchema,
   insertStudentInterestSchema,
+  OPPORTUNITY_STATUSES,
   insertNewsPostSchema,
   insertFormRequestSchema,
   insertStudentPreferencesSchema,
   insertSystemSettingSchema,
   insertFilterOptionSchema,
   insertDocumentSchema,
+  insertUserRoleSchema,
   type User,
+  type UserRole,
   type School,
   type Opportunity,
+  type Invitation,
+  type StudentInterest,
 } from "@shared/schema";
-import MemoryStore from "memorystore";
+import { can, type PolicyAction, type PolicyUser } from "@shared/policy";
+import connectPg from "connect-pg-simple";
 import { db } from "./db";
 import { eq, and, or, like, sql, inArray, ne } from "drizzle-orm";
 import multer from "multer";
@@ -52,7 +61,62 @@ import {
 import {
   sendApplicationFormsEmail,
   sendApplicationFormNotification,
+  sendPasswordResetEmail,
+  sendEmailVerificationEmail,
+  sendRegistrationDecisionEmail,
+  sendAccountLockedEmail,
+  sendAccountInviteEmail,
+  sendInvitationEmail,
+  sendGuardianRegistrationEmail,
+  sendGuardianConsentRequestEmail,
+  sendOpportunityReviewEmail,
+  sendWaitlistPromotionEmail,
 } from "./emailService";
+import { readSpreadsheet } from "./spreadsheet";
+import {
+  ERASURE_POLICY,
+  buildDataExport,
+  countErasableData,
+  eraseUser,
+} from "./dataSubject";
+import {
+  USER_IMPORT_FIELDS,
+  guessColumnMapping,
+  planUserImport,
+  type UserImportPlan,
+} from "./userImport";
+import { collectRosterFiles, syncRoster } from "./rosterSync";
+import {
+  DEFAULT_RETENTION_RULES,
+  RETENTION_SETTING_KEY,
+  getRetentionRules,
+  previewRetention,
+  retentionRulesSchema,
+  runRetention,
+  saveRetentionRules,
+} from "./dataRetention";
+import {
+  PASSWORD_POLICY_SETTING_KEY,
+  getBreachedRange,
+  getPasswordPolicy,
+  isPasswordExpired,
+  passwordPolicySchema,
+  savePasswordPolicy,
+  validateNewPassword,
+} from "./passwordPolicy";
+import {
+  OPPORTUNITY_SORTS,
+  decodeOpportunityCursor,
+  listOpportunities,
+} from "./opportunityListing";
+import {
+  OPPORTUNITY_TRANSITIONS,
+  isPastDay,
+  liveStatusFor,
+  nextOpportunityStatus,
+  submittedStatusFor,
+  type OpportunityTransition,
+} from "./opportunityWorkflow";
 
 // Extend Express types for authenticated user
 declare module "express-serve-static-core" {
@@ -67,8 +131,25 @@ declare module "express-serve-static-core" {
   }
 }
 
-// Configure session store
-const SessionStore = MemoryStore(session);
+// Extend session data for the two-step login
+declare module "express-session" {
+  interface SessionData {
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    twoFactorSetupRequired?: boolean;
+    device?: {
+      userAgent?: string;
+      ipAddress?: string;
+      signedInAt: number;
+      lastSeenAt: number;
+    };
+    impersonation?: { adminId: number; userId: number; expiresAt: number };
+  }
+}
+
+// Configure session store. Sessions live in Postgres so restarts and
+// deploys don't sign everyone out.
+const SESSION_TTL = 86400000; // 1 day
+const PgSessionStore = connectPg(session);
 
 // Configure multer for file uploads
 const upload = multer({
@@ -98,6 +179,38 @@ const upload = multer({
   },
 });
 
+// Bulk user imports take a single CSV or XLSX file
+const USER_IMPORT_MAX_ROWS = 5000;
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    // Browsers report CSV files under several mime types, so go by extension
+    if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only .csv and .xlsx files can be imported"));
+    }
+  },
+});
+
+// OneRoster bundles arrive as a zip or as the individual CSV files
+const rosterUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (/\.(csv|zip)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only .csv and .zip files can be synced"));
+    }
+  },
+});
+
 // Helper to validate requests
 const validateRequest = (schema: z.ZodType<any, any>) => {
   return (req: Request, res: Response, next: Function) => {
@@ -110,106 +223,508 @@ const validateRequest = (schema: z.ZodType<any, any>) => {
   };
 };
 
-// Helper to check authentication
-const isAuthenticated = (req: Request, res: Response, next: Function) => {
-  console.log(`🔐 Authentication check for ${req.method} ${req.path}`);
-  console.log("Session ID:", req.sessionID);
-  console.log("Is authenticated:", req.isAuthenticated());
-  console.log("User in session:", req.user ? "YES" : "NO");
+// Password reset links are valid for one hour
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Imported users get longer to act on their invite than a reset link
+const IMPORT_INVITE_TTL_DAYS = 7;
+
+// Email verification links are valid for one day
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
+// Staff invitation links are valid for a week; resending starts a new week
+const INVITATION_TTL_DAYS = 7;
+
+// Helper to hash one-time tokens before they are stored or looked up
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Emailed links are built from APP_URL, never from the request's Host
+// header, which the caller controls. Production refuses to start without it.
+if (process.env.NODE_ENV === "production" && !process.env.APP_URL) {
+  throw new Error("APP_URL must be set so emailed links point at this app.");
+}
+
+// Helper to build absolute links for emails
+const getAppBaseUrl = () => process.env.APP_URL || "http://localhost:5000";
+
+// Two-factor login: codes from one step either side are accepted for clock drift
+authenticator.options = { window: 1 };
+const TWO_FACTOR_ISSUER = "EduOpps";
+const TWO_FACTOR_LOGIN_TTL_MINUTES = 5;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are shown once as xxxxx-xxxxx and stored hashed
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const hashRecoveryCode = (code: string) =>
+  hashToken(code.trim().toLowerCase().replace(/[^a-z0-9]/g, ""));
+
+// The role flag only makes 2FA mandatory for staff who can manage users or schools
+const roleRequiresTwoFactor = (role?: UserRole) =>
+  Boolean(
+    role?.requiresTwoFactor && (role.canManageUsers || role.canManageSchools),
+  );
+
+// Basic user data returned on login - full data is loaded by the current-user endpoint
+const toLoginResponse = (user: any) => ({
+  id: user.id,
+  email: user.email,
+  username: user.username,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  schoolId: user.schoolId,
+  isActive: user.isActive,
+  profilePicture: user.profilePicture,
+  createdAt: user.createdAt,
+});
+
+// Helper to establish the session once every login step has passed
+const completeLogin = (
+  req: Request,
+  res: Response,
+  next: Function,
+  user: any,
+  twoFactorSetupRequired: boolean,
+) => {
+  req.login(user, (loginErr) => {
+    if (loginErr) {
+      console.error("Session error:", loginErr);
+      return next(loginErr);
+    }
+
+    // Set after login because passport regenerates the session
+    if (twoFactorSetupRequired) {
+      req.session.twoFactorSetupRequired = true;
+    }
+
+    console.log("User successfully logged in:", user.email);
+
+    res.json({ ...toLoginResponse(user), twoFactorSetupRequired });
+  });
+};
+
+// Mobile app bearer tokens: short-lived access tokens renewed with a refresh token
+const ACCESS_TOKEN_TTL_MINUTES = 60;
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Helper to create a new access/refresh token pair; only the hashes are stored
+const generateTokenPair = () => {
+  const accessToken = crypto.randomBytes(32).toString("hex");
+  const refreshToken = crypto.randomBytes(32).toString("hex");
+
+  return {
+    accessToken,
+    refreshToken,
+    stored: {
+      accessTokenHash: hashToken(accessToken),
+      refreshTokenHash: hashToken(refreshToken),
+      accessExpiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_MINUTES * 60 * 1000),
+      refreshExpiresAt: new Date(
+        Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+      ),
+    },
+  };
+};
+
+const toTokenResponse = (pair: ReturnType<typeof generateTokenPair>) => ({
+  tokenType: "Bearer",
+  accessToken: pair.accessToken,
+  refreshToken: pair.refreshToken,
+  expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
+});
+
+// Authenticate requests that carry `Authorization: Bearer <token>` instead of
+// the session cookie. An invalid token leaves the request unauthenticated so
+// isAuthenticated/requirePermission respond with 401 as usual.
+const authenticateBearerToken = async (
+  req: Request,
+  res: Response,
+  next: Function,
+) => {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ") || req.isAuthenticated()) {
+    return next();
+  }
+
+  try {
+    const apiToken = await storage.getApiTokenByAccessHash(
+      hashToken(header.slice("Bearer ".length).trim()),
+    );
+    if (!apiToken || apiToken.revokedAt || apiToken.accessExpiresAt < new Date()) {
+      return next();
+    }
 
-  if (req.user) {
-    console.log("User object exists:", req.user);
+    const user = await storage.getUserById(apiToken.userId);
+    if (!user || !user.isActive) {
+      return next();
+    }
+
+    req.user = user as any;
+    (req as any).apiToken = apiToken;
+
+    // Only record activity once a minute to avoid a write on every request
+    if (Date.now() - apiToken.lastUsedAt.getTime() > 60 * 1000) {
+      await storage.touchApiToken(apiToken.id);
+    }
+
+    next();
+  } catch (error) {
+    console.error("Bearer token authentication error:", error);
+    next();
+  }
+};
+
+// Data retention treats students as inactive from when they were last seen.
+// Only written once an hour since retention works in days.
+const LAST_SEEN_INTERVAL_MS = 60 * 60 * 1000;
+
+const touchLastSeen = async (user: User) => {
+  if (!user.lastSeenAt || Date.now() - user.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await storage.updateUser(user.id, { lastSeenAt: new Date() });
+  }
+};
+
+// Sessions are listed by a hash of their id so the raw session id never
+// leaves the server
+const toPublicSessionId = (sid: string) => hashToken(sid).slice(0, 32);
+
+// Brute-force protection for password logins
+const LOGIN_ATTEMPT_WINDOW_MINUTES = 15;
+const MAX_FAILED_LOGINS_PER_IP = 20;
+const MAX_FAILED_LOGINS_PER_ACCOUNT = 5;
+const ACCOUNT_LOCKOUT_MINUTES = 15;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// No delay for the first couple of failures, then doubling up to 8 seconds
+const getLoginDelayMs = (failures: number) =>
+  failures < 2 ? 0 : Math.min(500 * 2 ** (failures - 2), 8000);
+
+// Counts a wrong password or second factor against the account, locking it
+// after too many in a row
+const recordFailedLogin = async (req: Request, user: User) => {
+  await storage.recordLoginAttempt({
+    email: user.email,
+    ipAddress: req.ip || null,
+    userId: user.id,
+    succeeded: false,
+  });
+
+  const updatedUser = await storage.incrementFailedLogins(user.id);
+  if (
+    updatedUser &&
+    updatedUser.failedLoginCount >= MAX_FAILED_LOGINS_PER_ACCOUNT
+  ) {
+    await storage.lockUser(
+      user.id,
+      new Date(Date.now() + ACCOUNT_LOCKOUT_MINUTES * 60 * 1000),
+    );
+    await sendAccountLockedEmail(
+      user.email,
+      user.firstName,
+      ACCOUNT_LOCKOUT_MINUTES,
+      `${getAppBaseUrl()}/forgot-password`,
+    );
+  }
+};
+
+const getLoginFailureStatus = (code?: string) => {
+  if (code === "TOO_MANY_ATTEMPTS" || code === "ACCOUNT_LOCKED") return 429;
+  return code ? 403 : 401;
+};
+
+// Superadmin "view as user" sessions are read-only and end on their own
+const IMPERSONATION_TTL_MINUTES = 30;
+
+// Roles the code refers to by name
+const BUILT_IN_ROLE_NAMES = [
+  "student",
+  "teacher",
+  "moderator",
+  "admin",
+  "superadmin",
+  "guardian",
+];
+
+// A registration needs a guardian's consent when its opportunity is flagged,
+// or when it was already waiting on (or refused) consent before the flag was
+// turned off. Waitlisted students aren't asked until they get a place.
+const requiresGuardianConsent = (
+  opportunity: Pick<Opportunity, "requiresGuardianConsent">,
+  interest: Pick<StudentInterest, "status">,
+) =>
+  interest.status !== "waitlisted" &&
+  (Boolean(opportunity.requiresGuardianConsent) ||
+    interest.status === "pending_consent" ||
+    interest.status === "consent_declined");
+
+// Where an attendee stands on guardian consent: not_required, pending,
+// approved or declined. Only not_required and approved attendees can be exported.
+const getConsentState = (
+  opportunity: Pick<Opportunity, "requiresGuardianConsent">,
+  attendee: { status: string; consentDecision: string | null },
+) =>
+  requiresGuardianConsent(opportunity, attendee)
+    ? (attendee.consentDecision ?? "pending")
+    : "not_required";
+
+// Consent links in guardian emails are signed rather than stored: the token
+// carries the registration, guardian and expiry, plus an HMAC over them
+const CONSENT_LINK_TTL_DAYS = 14;
+const CONSENT_LINK_SECRET = process.env.SESSION_SECRET || "eduopps-secret";
+
+const signConsent = (payload: string) =>
+  crypto.createHmac("sha256", CONSENT_LINK_SECRET).update(payload).digest();
+
+const createConsentToken = (interestId: number, guardianId: number) => {
+  const payload = Buffer.from(
+    JSON.stringify({
+      interestId,
+      guardianId,
+      expiresAt: Date.now() + CONSENT_LINK_TTL_DAYS * 24 * 60 * 60 * 1000,
+    }),
+  ).toString("base64url");
+  return `${payload}.${signConsent(payload).toString("base64url")}`;
+};
+
+// Returns undefined for tampered, malformed or expired tokens
+const readConsentToken = (token: string) => {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return undefined;
+
+  const expected = signConsent(payload);
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return undefined;
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (
+      typeof data.interestId !== "number" ||
+      typeof data.guardianId !== "number" ||
+      typeof data.expiresAt !== "number" ||
+      data.expiresAt < Date.now()
+    ) {
+      return undefined;
+    }
+    return { interestId: data.interestId as number, guardianId: data.guardianId as number };
+  } catch {
+    return undefined;
+  }
+};
+
+// Helper to read a boolean system setting, falling back when it was never saved
+const getBooleanSetting = async (key: string, defaultValue: boolean) => {
+  const setting = await storage.getSetting(key);
+  return setting ? setting.value === "true" : defaultValue;
+};
+
+// Helper to issue a verification token and email the link to a new user
+const sendVerificationLink = async (req: Request, user: User) => {
+  const token = crypto.randomBytes(32).toString("hex");
+
+  await storage.invalidateEmailVerificationTokens(user.id);
+  await storage.createEmailVerificationToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(
+      Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000,
+    ),
+  });
+
+  const verifyUrl = `${getAppBaseUrl()}/verify-email?token=${token}`;
+  return sendEmailVerificationEmail(user.email, user.firstName, verifyUrl);
+};
+
+// Helper to give an invitation a fresh link and email it. Any link sent
+// earlier for the same invitation stops working.
+const sendInvitationLink = async (req: Request, invitation: Invitation) => {
+  const token = crypto.randomBytes(32).toString("hex");
+
+  await storage.updateInvitation(invitation.id, {
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    lastSentAt: new Date(),
+  });
+
+  const [role, school] = await Promise.all([
+    storage.getUserRoleById(invitation.roleId),
+    storage.getSchoolById(invitation.schoolId),
+  ]);
+  const inviter = req.user as any;
+  const acceptUrl = `${getAppBaseUrl()}/accept-invitation?token=${token}`;
+  return sendInvitationEmail(
+    invitation.email,
+    role?.name ?? "staff member",
+    school?.name ?? "your school",
+    `${inviter.firstName} ${inviter.lastName}`,
+    acceptUrl,
+    INVITATION_TTL_DAYS,
+  );
+};
+
+// Helper to email each of a student's active guardians their own signed
+// approve/decline links for a registration waiting on consent
+const sendConsentRequests = async (
+  req: Request,
+  student: User,
+  opportunity: Opportunity,
+  interest: StudentInterest,
+) => {
+  const guardians = await storage.getGuardiansForStudent(student.id);
+  for (const guardian of guardians.filter((g) => g.isActive)) {
+    const token = createConsentToken(interest.id, guardian.id);
+    const consentUrl = `${getAppBaseUrl()}/guardian-consent?token=${token}`;
+    await sendGuardianConsentRequestEmail(
+      guardian.email,
+      guardian.firstName,
+      `${student.firstName} ${student.lastName}`,
+      opportunity.title,
+      opportunity.organization,
+      opportunity.isVirtual ? "online" : opportunity.location,
+      opportunity.startDate,
+      `${consentUrl}&decision=approved`,
+      `${consentUrl}&decision=declined`,
+      CONSENT_LINK_TTL_DAYS,
+    );
+  }
+};
+
+const sendGuardianRegistrationNotices = async (
+  req: Request,
+  student: User,
+  opportunity: Opportunity,
+) => {
+  const guardians = await storage.getGuardiansForStudent(student.id);
+  for (const guardian of guardians.filter((g) => g.isActive)) {
+    await sendGuardianRegistrationEmail(
+      guardian.email,
+      guardian.firstName,
+      `${student.firstName} ${student.lastName}`,
+      opportunity.title,
+      opportunity.startDate,
+      `${getAppBaseUrl()}/my-children`,
+    );
+  }
+};
+
+// Tells students who came off the waitlist that they have a place, and lets
+// their guardians know, asking for consent where it's needed
+const notifyPromotedStudents = async (
+  req: Request,
+  opportunity: Opportunity,
+  promoted: StudentInterest[],
+) => {
+  for (const interest of promoted) {
+    const student = await storage.getUserById(interest.studentId);
+    if (!student?.isActive) continue;
+
+    const needsConsent = interest.status === "pending_consent";
+    await sendWaitlistPromotionEmail(
+      student.email,
+      student.firstName,
+      opportunity.title,
+      `${getAppBaseUrl()}/opportunities/${opportunity.id}`,
+      needsConsent,
+    );
+
+    if (needsConsent) {
+      await sendConsentRequests(req, student, opportunity, interest);
+    } else {
+      await sendGuardianRegistrationNotices(req, student, opportunity);
+    }
   }
+};
+
+// What other users get to see of an account: never the password hash or
+// the 2FA secret, and lockout and offboarding details only in user management
+const toPublicUser = (user: User) => {
+  const {
+    password,
+    twoFactorSecret,
+    failedLoginCount,
+    lockedUntil,
+    erasedAt,
+    deactivatedAt,
+    deactivationReason,
+    lastSeenAt,
+    ...publicUser
+  } = user;
+  return publicUser;
+};
 
+const toManagedUser = (user: User) => ({
+  ...toPublicUser(user),
+  lockedUntil: user.lockedUntil,
+  erasedAt: user.erasedAt,
+  deactivatedAt: user.deactivatedAt,
+  deactivationReason: user.deactivationReason,
+  lastSeenAt: user.lastSeenAt,
+});
+
+// Helper to check authentication (session cookie or mobile bearer token)
+const isAuthenticated = (req: Request, res: Response, next: Function) => {
   if (req.isAuthenticated() && req.user) {
-    console.log("✅ Authentication successful");
     return next();
   }
 
-  console.log("❌ Authentication failed - returning 401");
   res.status(401).json({ message: "Not authenticated" });
 };
 
-// Permission-based authorization middleware
-const requirePermission = (permission: string) => {
+// Load the signed-in user with their role for policy checks. The result is
+// cached on the request so handlers and middleware share one lookup.
+const loadUserWithRole = async (req: Request) => {
+  if ((req as any).userWithRole) return (req as any).userWithRole;
+
+  const user = await storage.getUserById(parseInt((req.user as any).id));
+  if (!user) return null;
+
+  const [roleData] = await db
+    .select()
+    .from(userRoles)
+    .where(eq(userRoles.id, user.roleId));
+  if (!roleData) return null;
+
+  (req as any).userWithRole = {
+    ...user,
+    roleName: roleData.name,
+    permissions: roleData,
+  };
+  return (req as any).userWithRole;
+};
+
+const toPolicyUser = (userWithRole: any): PolicyUser => ({
+  id: userWithRole.id,
+  schoolId: userWithRole.schoolId,
+  role: userWithRole.roleName,
+  permissions: userWithRole.permissions,
+});
+
+// Permission-based authorization middleware. Checks the action without a
+// resource; handlers check record-level access with `can()` once loaded.
+const requirePermission = (action: PolicyAction) => {
   return async (req: Request, res: Response, next: Function) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
 
     try {
-      // Get user with role information
-      const user = await storage.getUserById(parseInt((req.user as any).id));
-      if (!user) {
+      const userWithRole = await loadUserWithRole(req);
+      if (!userWithRole) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Get role permissions
-      const [roleData] = await db
-        .select()
-        .from(userRoles)
-        .where(eq(userRoles.id, user.roleId));
-      if (!roleData) {
-        return res.status(403).json({ message: "No role assigned" });
-      }
-
-      // Check specific permission
-      let hasPermission = false;
-      switch (permission) {
-        case "createOpportunities":
-          hasPermission = Boolean(roleData.canCreateOpportunities);
-          break;
-        case "editOwnOpportunities":
-          hasPermission = Boolean(roleData.canEditOwnOpportunities);
-          break;
-        case "editSchoolOpportunities":
-          hasPermission = Boolean(roleData.canEditSchoolOpportunities);
-          break;
-        case "editAllOpportunities":
-          hasPermission = Boolean(roleData.canEditAllOpportunities);
-          break;
-        case "viewOpportunities":
-          hasPermission = Boolean(roleData.canViewOpportunities);
-          break;
-        case "manageUsers":
-          hasPermission = Boolean(roleData.canManageUsers);
-          break;
-        case "viewReports":
-          hasPermission = Boolean(roleData.canViewReports);
-          break;
-        case "manageSettings":
-          hasPermission = Boolean(roleData.canManageSettings);
-          break;
-        case "managePreferences":
-          hasPermission = Boolean(roleData.canManagePreferences);
-          break;
-        case "uploadDocuments":
-          hasPermission = Boolean(roleData.canUploadDocuments);
-          break;
-        case "viewAttendees":
-          hasPermission = Boolean(roleData.canViewAttendees);
-          break;
-        case "manageNews":
-          hasPermission = Boolean(roleData.canManageNews);
-          break;
-        case "manageSchools":
-          hasPermission = Boolean(roleData.canManageSchools);
-          break;
-        default:
-          hasPermission = false;
-      }
-
-      if (!hasPermission) {
+      if (!can(toPolicyUser(userWithRole), action)) {
         return res.status(403).json({ message: "Insufficient permissions" });
       }
 
-      // Add user data with role info to request for use in route handlers
-      (req as any).userWithRole = {
-        ...user,
-        roleName: roleData.name,
-        permissions: roleData,
-      };
-
       next();
     } catch (error) {
       console.error("Permission check error:", error);
@@ -218,6 +733,114 @@ const requirePermission = (permission: string) => {
   };
 };
 
+// Secrets that must never be copied into the audit log
+const AUDIT_REDACTED_FIELDS = new Set([
+  "password",
+  "confirmPassword",
+  "twoFactorSecret",
+  "accessTokenHash",
+  "refreshTokenHash",
+  "tokenHash",
+  "codeHash",
+]);
+
+// Per-field before/after diff stored with each audit entry. Creates have no
+// "before" and deletes have no "after"; unchanged fields are left out.
+const diffForAudit = (
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null,
+) => {
+  if (!before && !after) return null;
+
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+
+  keys.forEach((key) => {
+    if (key === "updatedAt") return;
+    const from = before?.[key] ?? null;
+    const to = after?.[key] ?? null;
+    if (JSON.stringify(from) === JSON.stringify(to)) return;
+
+    changes[key] = AUDIT_REDACTED_FIELDS.has(key)
+      ? { from: "[redacted]", to: "[redacted]" }
+      : { from, to };
+  });
+
+  return Object.keys(changes).length ? changes : null;
+};
+
+interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string | number | null;
+  schoolId?: number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+// Append an entry to the audit log. Failures are logged rather than thrown
+// so a logging problem never undoes the change being audited.
+const writeAuditLog = async (req: Request, entry: AuditEntry) => {
+  // While impersonating, the superadmin is the one acting
+  const actor = (req as any).impersonator || (req.user as any);
+
+  try {
+    await storage.createAuditLog({
+      actorId: actor ? parseInt(actor.id) : null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId != null ? String(entry.entityId) : null,
+      schoolId:
+        entry.schoolId !== undefined
+          ? entry.schoolId
+          : (actor?.schoolId ?? null),
+      changes: diffForAudit(entry.before, entry.after),
+      ipAddress: req.ip || null,
+      userAgent: req.get("user-agent") || null,
+    });
+  } catch (error) {
+    console.error("Failed to write audit log:", error);
+  }
+};
+
+// Audit the route's own action, so auditMutations doesn't add a generic
+// entry for it. Entries about something else use writeAuditLog directly.
+const recordAudit = async (req: Request, entry: AuditEntry) => {
+  (req as any).auditRecorded = true;
+  await writeAuditLog(req, entry);
+};
+
+// Catch-all for mutating API routes that don't record their own entry, so
+// every successful change leaves a trace even without a diff. Sign-in and
+// token routes are left out; those are covered by login_attempts.
+const auditMutations = (req: Request, res: Response, next: Function) => {
+  if (["GET", "HEAD", "OPTIONS"].includes(req.method)) return next();
+
+  res.on("finish", () => {
+    const path = req.originalUrl.split("?")[0];
+    if (
+      (req as any).auditRecorded ||
+      res.statusCode >= 400 ||
+      !req.user ||
+      path.startsWith("/api/auth/")
+    ) {
+      return;
+    }
+
+    const [, , resource = "unknown"] = path.split("/");
+    recordAudit(req, {
+      action: `${req.method} ${req.route?.path ?? path}`,
+      entityType: resource.replace(/s$/, ""),
+      entityId: req.params?.id ?? null,
+    });
+  });
+
+  next();
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up session management
   // Trust the first proxy (important for secure cookies)
@@ -227,13 +850,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(
     session({
       cookie: {
-        maxAge: 86400000, // 1 day
+        maxAge: SESSION_TTL,
         httpOnly: true,
         sameSite: "lax",
         secure: false, // We're setting this to false for development to ensure cookies work
       },
-      store: new SessionStore({
-        checkPeriod: 86400000, // 1 day
+      store: new PgSessionStore({
+        conString: process.env.DATABASE_URL,
+        createTableIfMissing: false,
+        ttl: SESSION_TTL / 1000,
+        tableName: "sessions",
       }),
       resave: false,
       saveUninitialized: false,
@@ -244,33 +870,244 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize passport
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use("/api", authenticateBearerToken);
+
+  // Record device, IP and last-seen for the "Where you're signed in" list.
+  // Only refreshed once a minute so the session isn't rewritten per request.
+  app.use("/api", (req, res, next) => {
+    if (!req.isAuthenticated() || (req as any).apiToken) {
+      return next();
+    }
+
+    const now = Date.now();
+    const device = req.session.device;
+    if (!device || now - device.lastSeenAt > 60 * 1000) {
+      req.session.device = {
+        userAgent: req.get("user-agent") || device?.userAgent,
+        ipAddress: req.ip || device?.ipAddress,
+        signedInAt: device?.signedInAt || now,
+        lastSeenAt: now,
+      };
+    }
+    next();
+  });
+
+  // Covers session and bearer requests alike, before any impersonation swap
+  // so only the signed-in user's own activity counts
+  app.use("/api", async (req, res, next) => {
+    if (!req.user) return next();
+    try {
+      await touchLastSeen(req.user as any);
+    } catch (error) {
+      console.error("Last seen update error:", error);
+    }
+    next();
+  });
+
+  // While a superadmin is viewing as another user, swap that user in for
+  // the request and refuse anything that would change data
+  app.use("/api", async (req, res, next) => {
+    const impersonation = req.session.impersonation;
+    if (!impersonation || !req.user || (req as any).apiToken) {
+      return next();
+    }
+
+    // Left over from a different sign-in on the same session
+    if (impersonation.adminId !== parseInt((req.user as any).id)) {
+      delete req.session.impersonation;
+      return next();
+    }
+
+    try {
+      const target =
+        Date.now() < impersonation.expiresAt &&
+        (await storage.getUserById(impersonation.userId));
+
+      if (!target) {
+        delete req.session.impersonation;
+        // Not this request's own action, which still gets audited
+        await writeAuditLog(req, {
+          action: "impersonation:stop",
+          entityType: "user",
+          entityId: impersonation.userId,
+          after: { reason: "expired" },
+        });
+        return next();
+      }
+
+      (req as any).impersonator = req.user;
+      req.user = target as any;
+
+      if (
+        !["GET", "HEAD", "OPTIONS"].includes(req.method) &&
+        req.path !== "/auth/impersonation/stop" &&
+        req.path !== "/auth/logout"
+      ) {
+        return res.status(403).json({
+          message: "You are viewing as another user. Changes are disabled.",
+          code: "IMPERSONATION_READ_ONLY",
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Staff whose role requires 2FA can only use the auth endpoints until enrolled
+  app.use("/api", (req, res, next) => {
+    if (req.session.twoFactorSetupRequired && !req.path.startsWith("/auth/")) {
+      return res.status(403).json({
+        message: "Set up two-factor authentication to continue",
+        code: "TWO_FACTOR_SETUP_REQUIRED",
+      });
+    }
+    next();
+  });
+
+  // Users whose password was set by an admin, or has expired, must choose a
+  // new one before anything else. Impersonation is read-only, so it's exempt.
+  app.use("/api", (req, res, next) => {
+    if (
+      (req.user as any)?.mustChangePassword &&
+      !(req as any).impersonator &&
+      !req.path.startsWith("/auth/")
+    ) {
+      return res.status(403).json({
+        message: "Choose a new password to continue",
+        code: "PASSWORD_CHANGE_REQUIRED",
+      });
+    }
+    next();
+  });
+
+  // Every successful change through the API ends up in the audit log
+  app.use("/api", auditMutations);
 
-  // Configure passport local strategy for email/password login
+  // Configure passport local strategy for email/password login. Failed
+  // attempts are throttled per IP and per account before the password is
+  // even checked.
   passport.use(
     new LocalStrategy(
-      { usernameField: "email" },
-      async (email, password, done) => {
+      { usernameField: "email", passReqToCallback: true },
+      async (req, email, password, done) => {
         try {
-          console.log("Login attempt for email:", email);
-          const user = await storage.getUserByEmail(email);
+          const ipAddress = req.ip || null;
+          const ipFailures = ipAddress
+            ? await storage.countRecentFailedLogins(
+                ipAddress,
+                new Date(Date.now() - LOGIN_ATTEMPT_WINDOW_MINUTES * 60 * 1000),
+              )
+            : 0;
+
+          if (ipFailures >= MAX_FAILED_LOGINS_PER_IP) {
+            return done(null, false, {
+              message: "Too many login attempts. Please try again later.",
+              code: "TOO_MANY_ATTEMPTS",
+            } as any);
+          }
+
+          let user = await storage.getUserByEmail(email);
+
+          // Failures before an expired lock don't count towards the next one
+          if (user?.lockedUntil && user.lockedUntil <= new Date()) {
+            user = (await storage.clearLoginLock(user.id)) ?? user;
+          }
+
+          // Slow down repeated guessing before comparing the password
+          await sleep(
+            getLoginDelayMs(Math.max(ipFailures, user?.failedLoginCount || 0)),
+          );
+
+          const recordFailure = () =>
+            storage.recordLoginAttempt({
+              email,
+              ipAddress,
+              userId: user?.id || null,
+              succeeded: false,
+            });
 
           if (!user) {
-            console.log("No user found with email:", email);
+            await recordFailure();
             return done(null, false, { message: "Invalid email or password" });
           }
 
-          console.log("User found, validating password");
-          // For debugging only, do not log passwords in production
-          console.log("Comparing password with stored hash");
+          if (user.lockedUntil && user.lockedUntil > new Date()) {
+            await recordFailure();
+            return done(null, false, {
+              message:
+                "Your account is temporarily locked after too many failed attempts. Please try again later or reset your password.",
+              code: "ACCOUNT_LOCKED",
+            } as any);
+          }
 
           const isValidPassword = await bcrypt.compare(password, user.password);
 
           if (!isValidPassword) {
-            console.log("Password validation failed");
+            await recordFailedLogin(req, user);
             return done(null, false, { message: "Invalid email or password" });
           }
 
-          console.log("Password validation successful");
+          await storage.recordLoginAttempt({
+            email,
+            ipAddress,
+            userId: user.id,
+            succeeded: true,
+          });
+          // With 2FA the failures only reset once the second factor passes,
+          // so wrong codes keep counting towards the lockout
+          if (
+            !user.twoFactorEnabled &&
+            (user.failedLoginCount > 0 || user.lockedUntil)
+          ) {
+            await storage.clearLoginLock(user.id);
+          }
+
+          if (!user.emailVerified) {
+            return done(null, false, {
+              message: "Please verify your email address before logging in",
+              code: "EMAIL_NOT_VERIFIED",
+            } as any);
+          }
+
+          if (user.approvalStatus === "pending") {
+            return done(null, false, {
+              message: "Your registration is awaiting approval by a school administrator",
+              code: "ACCOUNT_PENDING_APPROVAL",
+            } as any);
+          }
+
+          if (user.approvalStatus === "rejected") {
+            return done(null, false, {
+              message: "Your registration was not approved",
+              code: "ACCOUNT_REJECTED",
+            } as any);
+          }
+
+          if (!user.isActive) {
+            return done(null, false, {
+              message:
+                "This account has been deactivated. Please contact your school administrator.",
+              code: "ACCOUNT_DEACTIVATED",
+            } as any);
+          }
+
+          // Expired staff passwords have to be changed straight after login
+          if (!user.mustChangePassword) {
+            const [role, policy] = await Promise.all([
+              storage.getUserRoleById(user.roleId),
+              getPasswordPolicy(),
+            ]);
+            if (isPasswordExpired(user, role?.name, policy)) {
+              return done(
+                null,
+                (await storage.updateUser(user.id, { mustChangePassword: true })) ||
+                  user,
+              );
+            }
+          }
+
           return done(null, user);
         } catch (error) {
           return done(error);
@@ -288,7 +1125,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUserById(id);
-      done(null, user);
+      // A deactivated user's remaining sessions stop working straight away
+      done(null, user?.isActive ? user : false);
     } catch (error) {
       done(error);
     }
@@ -298,361 +1136,2856 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Auth routes
   app.post("/api/auth/login", (req, res, next) => {
-    console.log("Login request received for user:", req.body.email);
-
-    passport.authenticate("local", (err, user, info) => {
+    passport.authenticate("local", (err: any, user: any, info: any) => {
       if (err) {
         console.error("Login error:", err);
         return next(err);
       }
 
       if (!user) {
-        console.log(
-          "Authentication failed:",
-          info?.message || "Unknown reason",
-        );
         return res
-          .status(401)
-          .json({ message: info?.message || "Authentication failed" });
+          .status(getLoginFailureStatus(info?.code))
+          .json({
+            message: info?.message || "Authentication failed",
+            code: info?.code,
+          });
       }
 
-      req.login(user, (loginErr) => {
-        if (loginErr) {
-          console.error("Session error:", loginErr);
-          return next(loginErr);
-        }
-
-        console.log("User successfully logged in:", user.email);
+      // Users with 2FA must confirm a code before the session is established
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MINUTES * 60 * 1000,
+          attempts: 0,
+        };
+        return res.json({ twoFactorRequired: true });
+      }
 
-        // Return basic user data - full data will be loaded by current-user endpoint
-        res.json({
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          schoolId: user.schoolId,
-          isActive: user.isActive,
-          profilePicture: user.profilePicture,
-          createdAt: user.createdAt,
-        });
-      });
+      storage
+        .getUserRoleById(user.roleId)
+        .then((role) =>
+          completeLogin(req, res, next, user, roleRequiresTwoFactor(role)),
+        )
+        .catch(next);
     })(req, res, next);
   });
 
-  app.post("/api/auth/logout", (req, res, next) => {
-    req.logout((err) => {
-      if (err) {
-        return next(err);
-      }
-      res.json({ message: "Logged out successfully" });
-    });
-  });
+  // Second login step: exchange a pending login for a session using an
+  // authenticator code or one of the user's recovery codes
+  app.post(
+    "/api/auth/login/two-factor",
+    validateRequest(
+      z
+        .object({
+          code: z.string().optional(),
+          recoveryCode: z.string().optional(),
+        })
+        .refine((data) => !!data.code || !!data.recoveryCode, {
+          message: "An authentication code or recovery code is required",
+        }),
+    ),
+    async (req, res, next) => {
+      try {
+        const pending = req.session.pendingTwoFactor;
+        if (
+          !pending ||
+          pending.expiresAt < Date.now() ||
+          pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS
+        ) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({
+            message: "Your sign-in attempt has expired. Please log in again.",
+            code: "TWO_FACTOR_EXPIRED",
+          });
+        }
 
-  app.get("/api/auth/current-user", async (req, res) => {
-    console.log(
-      "Current user session check:",
-      req.isAuthenticated(),
-      req.user ? req.user.id : "no user",
+        const user = await storage.getUserById(pending.userId);
+        if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Authentication failed" });
+        }
+
+        // Wrong codes from the app's token endpoint count towards this too
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+          delete req.session.pendingTwoFactor;
+          return res.status(getLoginFailureStatus("ACCOUNT_LOCKED")).json({
+            message:
+              "Your account is temporarily locked after too many failed attempts. Please try again later or reset your password.",
+            code: "ACCOUNT_LOCKED",
+          });
+        }
+
+        const { code, recoveryCode } = req.body;
+        const isValid = code
+          ? authenticator.check(code.replace(/\s/g, ""), user.twoFactorSecret)
+          : await storage.consumeRecoveryCode(
+              user.id,
+              hashRecoveryCode(recoveryCode),
+            );
+
+        if (!isValid) {
+          pending.attempts += 1;
+          await recordFailedLogin(req, user);
+          return res
+            .status(401)
+            .json({ message: "Invalid authentication code" });
+        }
+
+        if (user.failedLoginCount > 0 || user.lockedUntil) {
+          await storage.clearLoginLock(user.id);
+        }
+        completeLogin(req, res, next, user, false);
+      } catch (error) {
+        console.error("Two-factor login error:", error);
+        res.status(500).json({ message: "Failed to verify authentication code" });
+      }
+    },
+  );
+
+  // Two-factor enrolment and management for the signed-in user
+  app.get("/api/auth/two-factor", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUserById(parseInt((req.user as any).id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const role = await storage.getUserRoleById(user.roleId);
+      const remainingRecoveryCodes = user.twoFactorEnabled
+        ? await storage.countRemainingRecoveryCodes(user.id)
+        : 0;
+
+      res.json({
+        enabled: user.twoFactorEnabled,
+        required: roleRequiresTwoFactor(role),
+        remainingRecoveryCodes,
+      });
+    } catch (error) {
+      res
+        .status(500)
+        .json({ message: "Failed to fetch two-factor status", error });
+    }
+  });
+
+  app.post("/api/auth/two-factor/setup", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUserById(parseInt((req.user as any).id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.twoFactorEnabled) {
+        return res
+          .status(400)
+          .json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      // Not active until confirmed with a code from the authenticator app
+      const secret = authenticator.generateSecret();
+      await storage.setTwoFactorSecret(user.id, secret);
+
+      const otpauthUrl = authenticator.keyuri(
+        user.email,
+        TWO_FACTOR_ISSUER,
+        secret,
+      );
+      const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+      res.json({ secret, otpauthUrl, qrCode });
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res
+        .status(500)
+        .json({ message: "Failed to start two-factor setup", error });
+    }
+  });
+
+  app.post(
+    "/api/auth/two-factor/enable",
+    isAuthenticated,
+    validateRequest(z.object({ code: z.string().min(6) })),
+    async (req, res) => {
+      try {
+        const user = await storage.getUserById(
+          parseInt((req.user as any).id),
+        );
+        if (!user || !user.twoFactorSecret) {
+          return res
+            .status(400)
+            .json({ message: "Start two-factor setup first" });
+        }
+
+        if (
+          !authenticator.check(
+            req.body.code.replace(/\s/g, ""),
+            user.twoFactorSecret,
+          )
+        ) {
+          return res
+            .status(400)
+            .json({ message: "Invalid authentication code" });
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await storage.enableTwoFactor(
+          user.id,
+          recoveryCodes.map(hashRecoveryCode),
+        );
+        delete req.session.twoFactorSetupRequired;
+
+        res.json({
+          message: "Two-factor authentication enabled",
+          recoveryCodes,
+        });
+      } catch (error) {
+        console.error("Two-factor enable error:", error);
+        res
+          .status(500)
+          .json({ message: "Failed to enable two-factor authentication" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/auth/two-factor/disable",
+    isAuthenticated,
+    validateRequest(z.object({ password: z.string(), code: z.string() })),
+    async (req, res) => {
+      try {
+        const user = await storage.getUserById(
+          parseInt((req.user as any).id),
+        );
+        if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+          return res
+            .status(400)
+            .json({ message: "Two-factor authentication is not enabled" });
+        }
+
+        const role = await storage.getUserRoleById(user.roleId);
+        if (roleRequiresTwoFactor(role)) {
+          return res.status(403).json({
+            message: "Two-factor authentication is required for your role",
+          });
+        }
+
+        // Guessing codes here counts towards the same lockout as signing in
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+          return res.status(getLoginFailureStatus("ACCOUNT_LOCKED")).json({
+            message:
+              "Your account is temporarily locked after too many failed attempts. Please try again later or reset your password.",
+            code: "ACCOUNT_LOCKED",
+          });
+        }
+
+        const isValidPassword = await bcrypt.compare(
+          req.body.password,
+          user.password,
+        );
+        if (
+          !isValidPassword ||
+          !authenticator.check(
+            req.body.code.replace(/\s/g, ""),
+            user.twoFactorSecret,
+          )
+        ) {
+          await recordFailedLogin(req, user);
+          return res
+            .status(400)
+            .json({ message: "Invalid password or authentication code" });
+        }
+
+        if (user.failedLoginCount > 0) {
+          await storage.clearLoginLock(user.id);
+        }
+        await storage.disableTwoFactor(user.id);
+        res.json({ message: "Two-factor authentication disabled" });
+      } catch (error) {
+        console.error("Two-factor disable error:", error);
+        res
+          .status(500)
+          .json({ message: "Failed to disable two-factor authentication" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/auth/two-factor/recovery-codes",
+    isAuthenticated,
+    validateRequest(z.object({ code: z.string() })),
+    async (req, res) => {
+      try {
+        const user = await storage.getUserById(
+          parseInt((req.user as any).id),
+        );
+        if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+          return res
+            .status(400)
+            .json({ message: "Two-factor authentication is not enabled" });
+        }
+
+        // Guessing codes here counts towards the same lockout as signing in
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+          return res.status(getLoginFailureStatus("ACCOUNT_LOCKED")).json({
+            message:
+              "Your account is temporarily locked after too many failed attempts. Please try again later or reset your password.",
+            code: "ACCOUNT_LOCKED",
+          });
+        }
+
+        if (
+          !authenticator.check(
+            req.body.code.replace(/\s/g, ""),
+            user.twoFactorSecret,
+          )
+        ) {
+          await recordFailedLogin(req, user);
+          return res
+            .status(400)
+            .json({ message: "Invalid authentication code" });
+        }
+
+        if (user.failedLoginCount > 0) {
+          await storage.clearLoginLock(user.id);
+        }
+
+        // Generating a new set invalidates every previous code
+        const recoveryCodes = generateRecoveryCodes();
+        await storage.replaceRecoveryCodes(
+          user.id,
+          recoveryCodes.map(hashRecoveryCode),
+        );
+
+        res.json({ recoveryCodes });
+      } catch (error) {
+        console.error("Recovery code regeneration error:", error);
+        res
+          .status(500)
+          .json({ message: "Failed to generate recovery codes" });
+      }
+    },
+  );
+
+  app.post("/api/auth/logout", async (req, res, next) => {
+    try {
+      // Mobile clients revoke their token; the refresh token also works once
+      // the access token has expired
+      const apiToken =
+        (req as any).apiToken ||
+        (req.body?.refreshToken &&
+          (await storage.getApiTokenByRefreshHash(
+            hashToken(req.body.refreshToken),
+          )));
+      if (apiToken) {
+        await storage.revokeApiToken(apiToken.id, apiToken.userId);
+        return res.json({ message: "Logged out successfully" });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    if (req.session.impersonation) {
+      await recordAudit(req, {
+        action: "impersonation:stop",
+        entityType: "user",
+        entityId: req.session.impersonation.userId,
+        after: { reason: "logout" },
+      });
+    }
+
+    req.logout((err) => {
+      if (err) {
+        return next(err);
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  // Superadmin "view as user". The session keeps the superadmin signed in;
+  // requests are answered as the target user until it is stopped or expires.
+  app.post(
+    "/api/users/:id/impersonate",
+    isAuthenticated,
+    requirePermission("user:impersonate"),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const target = await storage.getUserById(parseInt(req.params.id));
+        if (!target) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        const targetRole = await storage.getUserRoleById(target.roleId);
+        if (
+          !can(toPolicyUser(userWithRole), "user:impersonate", {
+            id: target.id,
+            role: targetRole?.name,
+          })
+        ) {
+          return res
+            .status(403)
+            .json({ message: "You cannot view the app as this user" });
+        }
+
+        if ((req as any).apiToken) {
+          return res.status(400).json({
+            message: "Viewing as another user is only available in the browser",
+          });
+        }
+
+        const expiresAt = Date.now() + IMPERSONATION_TTL_MINUTES * 60 * 1000;
+        req.session.impersonation = {
+          adminId: userWithRole.id,
+          userId: target.id,
+          expiresAt,
+        };
+
+        await recordAudit(req, {
+          action: "impersonation:start",
+          entityType: "user",
+          entityId: target.id,
+          schoolId: target.schoolId,
+          after: { expiresAt: new Date(expiresAt) },
+        });
+
+        res.json({
+          message: `Now viewing as ${target.firstName} ${target.lastName}`,
+          expiresAt: new Date(expiresAt),
+        });
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to start viewing as user", error });
+      }
+    },
+  );
+
+  app.post("/api/auth/impersonation/stop", isAuthenticated, async (req, res) => {
+    const impersonation = req.session.impersonation;
+    if (!impersonation) {
+      return res.status(400).json({ message: "You are not viewing as another user" });
+    }
+
+    try {
+      delete req.session.impersonation;
+      await recordAudit(req, {
+        action: "impersonation:stop",
+        entityType: "user",
+        entityId: impersonation.userId,
+        schoolId: (req.user as any).schoolId,
+        after: { reason: "stopped" },
+      });
+      res.json({ message: "Stopped viewing as user" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to stop viewing as user", error });
+    }
+  });
+
+  // Issue an access/refresh token pair for the mobile app. Accounts with 2FA
+  // send their authenticator or recovery code in the same request.
+  app.post(
+    "/api/auth/token",
+    validateRequest(
+      z.object({
+        email: z.string().email(),
+        password: z.string(),
+        deviceName: z.string().max(100).optional(),
+        code: z.string().optional(),
+        recoveryCode: z.string().optional(),
+      }),
+    ),
+    (req, res, next) => {
+      passport.authenticate("local", async (err: any, user: any, info: any) => {
+        if (err) {
+          return next(err);
+        }
+
+        if (!user) {
+          return res.status(getLoginFailureStatus(info?.code)).json({
+            message: info?.message || "Authentication failed",
+            code: info?.code,
+          });
+        }
+
+        try {
+          if (user.twoFactorEnabled) {
+            const { code, recoveryCode } = req.body;
+            if (!code && !recoveryCode) {
+              return res.status(401).json({
+                message: "Enter the code from your authenticator app",
+                code: "TWO_FACTOR_REQUIRED",
+              });
+            }
+
+            const isValid = code
+              ? authenticator.check(code.replace(/\s/g, ""), user.twoFactorSecret)
+              : await storage.consumeRecoveryCode(
+                  user.id,
+                  hashRecoveryCode(recoveryCode),
+                );
+            if (!isValid) {
+              await recordFailedLogin(req, user);
+              return res
+                .status(401)
+                .json({ message: "Invalid authentication code" });
+            }
+            if (user.failedLoginCount > 0 || user.lockedUntil) {
+              await storage.clearLoginLock(user.id);
+            }
+          } else {
+            const role = await storage.getUserRoleById(user.roleId);
+            if (roleRequiresTwoFactor(role)) {
+              return res.status(403).json({
+                message:
+                  "Set up two-factor authentication on the website before signing in to the app",
+                code: "TWO_FACTOR_SETUP_REQUIRED",
+              });
+            }
+          }
+
+          const pair = generateTokenPair();
+          await storage.createApiToken({
+            userId: user.id,
+            ...pair.stored,
+            deviceName: req.body.deviceName || null,
+            userAgent: req.get("user-agent") || null,
+            ipAddress: req.ip || null,
+          });
+
+          res.json({ ...toTokenResponse(pair), user: toLoginResponse(user) });
+        } catch (error) {
+          console.error("Token issue error:", error);
+          res.status(500).json({ message: "Failed to issue access token" });
+        }
+      })(req, res, next);
+    },
+  );
+
+  // Exchange a refresh token for a new pair. Each refresh token works once.
+  app.post(
+    "/api/auth/token/refresh",
+    validateRequest(z.object({ refreshToken: z.string() })),
+    async (req, res) => {
+      try {
+        const refreshTokenHash = hashToken(req.body.refreshToken);
+        const apiToken = await storage.getApiTokenByRefreshHash(refreshTokenHash);
+
+        if (
+          !apiToken ||
+          apiToken.revokedAt ||
+          apiToken.refreshExpiresAt < new Date()
+        ) {
+          return res.status(401).json({
+            message: "Your session has expired. Please log in again.",
+            code: "TOKEN_INVALID",
+          });
+        }
+
+        const user = await storage.getUserById(apiToken.userId);
+        if (!user || !user.isActive) {
+          await storage.revokeApiToken(apiToken.id, apiToken.userId);
+          return res.status(401).json({
+            message: "Your session has expired. Please log in again.",
+            code: "TOKEN_INVALID",
+          });
+        }
+
+        const pair = generateTokenPair();
+        const rotated = await storage.rotateApiToken(
+          apiToken.id,
+          refreshTokenHash,
+          pair.stored,
+        );
+        if (!rotated) {
+          return res.status(401).json({
+            message: "Your session has expired. Please log in again.",
+            code: "TOKEN_INVALID",
+          });
+        }
+        await touchLastSeen(user);
+
+        res.json(toTokenResponse(pair));
+      } catch (error) {
+        console.error("Token refresh error:", error);
+        res.status(500).json({ message: "Failed to refresh access token" });
+      }
+    },
+  );
+
+  // Devices signed in to the mobile app for the current user
+  app.get("/api/auth/devices", isAuthenticated, async (req, res) => {
+    try {
+      const currentToken = (req as any).apiToken;
+      const tokens = await storage.getActiveApiTokensByUserId(
+        parseInt((req.user as any).id),
+      );
+
+      res.json(
+        tokens.map((token) => ({
+          id: token.id,
+          deviceName: token.deviceName,
+          userAgent: token.userAgent,
+          ipAddress: token.ipAddress,
+          lastUsedAt: token.lastUsedAt,
+          createdAt: token.createdAt,
+          current: currentToken?.id === token.id,
+        })),
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch devices", error });
+    }
+  });
+
+  app.delete("/api/auth/devices/:id", isAuthenticated, async (req, res) => {
+    try {
+      const revoked = await storage.revokeApiToken(
+        parseInt(req.params.id),
+        parseInt((req.user as any).id),
+      );
+      if (!revoked) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+
+      res.json({ message: "Device signed out" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out device", error });
+    }
+  });
+
+  // Browser sessions for the current user ("Where you're signed in")
+  app.get("/api/auth/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const userSessions = await storage.getSessionsByUserId(
+        parseInt((req.user as any).id),
+      );
+
+      res.json(
+        userSessions.map((userSession) => {
+          const device = (userSession.sess as any).device || {};
+          return {
+            id: toPublicSessionId(userSession.sid),
+            userAgent: device.userAgent || null,
+            ipAddress: device.ipAddress || null,
+            signedInAt: device.signedInAt ? new Date(device.signedInAt) : null,
+            lastSeenAt: device.lastSeenAt ? new Date(device.lastSeenAt) : null,
+            expiresAt: userSession.expire,
+            current: userSession.sid === req.sessionID,
+          };
+        }),
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions", error });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userSessions = await storage.getSessionsByUserId(
+        parseInt((req.user as any).id),
+      );
+      const target = userSessions.find(
+        (userSession) => toPublicSessionId(userSession.sid) === req.params.id,
+      );
+
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.deleteSession(target.sid);
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out session", error });
+    }
+  });
+
+  // Sign out every other browser session and every mobile device
+  app.post(
+    "/api/auth/sessions/sign-out-everywhere",
+    isAuthenticated,
+    async (req, res) => {
+      try {
+        const userId = parseInt((req.user as any).id);
+        const currentToken = (req as any).apiToken;
+
+        const signedOut = await storage.deleteSessionsForUser(
+          userId,
+          currentToken ? undefined : req.sessionID,
+        );
+        await storage.revokeApiTokensForUser(userId);
+
+        res.json({
+          message: "Signed out of all other sessions",
+          sessionsSignedOut: signedOut,
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to sign out sessions", error });
+      }
+    },
+  );
+
+  // The password rules, so forms can check a password before submitting it
+  app.get("/api/auth/password-policy", async (req, res) => {
+    try {
+      res.json(await getPasswordPolicy());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch password policy" });
+    }
+  });
+
+  // Known-breached password hashes sharing a five-character SHA-1 prefix.
+  // The browser hashes the password itself, so it never leaves the device.
+  app.get("/api/auth/password-policy/breached/:prefix", (req, res) => {
+    if (!/^[0-9a-fA-F]{5}$/.test(req.params.prefix)) {
+      return res.status(400).json({ message: "Invalid hash prefix" });
+    }
+    res.json({ suffixes: getBreachedRange(req.params.prefix) });
+  });
+
+  // Change the signed-in user's password. Also used to clear a forced change
+  // after an admin reset or an expired staff password.
+  app.post(
+    "/api/auth/change-password",
+    isAuthenticated,
+    validateRequest(
+      z
+        .object({
+          currentPassword: z.string().min(1),
+          password: z.string(),
+          confirmPassword: z.string(),
+        })
+        .refine((data) => data.password === data.confirmPassword, {
+          message: "Passwords do not match",
+          path: ["confirmPassword"],
+        }),
+    ),
+    async (req, res) => {
+      try {
+        const user = await storage.getUserById(parseInt((req.user as any).id));
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (!(await bcrypt.compare(req.body.currentPassword, user.password))) {
+          return res
+            .status(400)
+            .json({ message: "Your current password is incorrect" });
+        }
+
+        const problems = await validateNewPassword(req.body.password, user);
+        if (problems.length) {
+          return res.status(400).json({ message: problems[0], problems });
+        }
+
+        await storage.setUserPassword(
+          user.id,
+          await bcrypt.hash(req.body.password, 10),
+          { mustChangePassword: false },
+        );
+
+        // Other sessions and devices signed in with the old password
+        const currentToken = (req as any).apiToken;
+        await storage.deleteSessionsForUser(
+          user.id,
+          currentToken ? undefined : req.sessionID,
+        );
+        await storage.revokeApiTokensForUser(user.id);
+
+        res.json({ message: "Your password has been changed" });
+      } catch (error) {
+        console.error("Change password error:", error);
+        res.status(500).json({ message: "Failed to change password" });
+      }
+    },
+  );
+
+  // Request a password reset link. Always responds the same way so the
+  // endpoint cannot be used to discover which emails are registered.
+  app.post(
+    "/api/auth/forgot-password",
+    validateRequest(z.object({ email: z.string().email() })),
+    async (req, res) => {
+      const genericResponse = {
+        message:
+          "If an account exists for that email, a password reset link has been sent",
+      };
+
+      try {
+        const user = await storage.getUserByEmail(req.body.email);
+
+        if (user && user.isActive) {
+          const token = crypto.randomBytes(32).toString("hex");
+
+          // Only the most recent link should work
+          await storage.invalidatePasswordResetTokens(user.id);
+          await storage.createPasswordResetToken({
+            userId: user.id,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(
+              Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000,
+            ),
+          });
+
+          const resetUrl = `${getAppBaseUrl()}/reset-password?token=${token}`;
+          await sendPasswordResetEmail(
+            user.email,
+            user.firstName,
+            resetUrl,
+            PASSWORD_RESET_TTL_MINUTES,
+          );
+        }
+
+        res.json(genericResponse);
+      } catch (error) {
+        console.error("Forgot password error:", error);
+        res.json(genericResponse);
+      }
+    },
+  );
+
+  // Redeem a password reset token and set a new password
+  app.post(
+    "/api/auth/reset-password",
+    validateRequest(
+      z
+        .object({
+          token: z.string().min(1),
+          password: z.string(),
+          confirmPassword: z.string(),
+        })
+        .refine((data) => data.password === data.confirmPassword, {
+          message: "Passwords do not match",
+          path: ["confirmPassword"],
+        }),
+    ),
+    async (req, res) => {
+      try {
+        const resetToken = await storage.getPasswordResetTokenByHash(
+          hashToken(req.body.token),
+        );
+
+        if (
+          !resetToken ||
+          resetToken.usedAt ||
+          resetToken.expiresAt.getTime() < Date.now()
+        ) {
+          return res
+            .status(400)
+            .json({ message: "This password reset link is invalid or has expired" });
+        }
+
+        const user = await storage.getUserById(resetToken.userId);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        // Checked before the link is used up so the user can try again
+        const problems = await validateNewPassword(req.body.password, user);
+        if (problems.length) {
+          return res.status(400).json({ message: problems[0], problems });
+        }
+
+        const consumed = await storage.consumePasswordResetToken(resetToken.id);
+        if (!consumed) {
+          return res
+            .status(400)
+            .json({ message: "This password reset link is invalid or has expired" });
+        }
+
+        const hashedPassword = await bcrypt.hash(req.body.password, 10);
+        await storage.setUserPassword(user.id, hashedPassword, {
+          mustChangePassword: false,
+        });
+
+        await storage.invalidatePasswordResetTokens(resetToken.userId);
+        // Sign out browsers and mobile devices that may have been using the
+        // old password
+        await storage.deleteSessionsForUser(resetToken.userId);
+        await storage.revokeApiTokensForUser(resetToken.userId);
+
+        res.json({ message: "Your password has been reset. You can now log in." });
+      } catch (error) {
+        console.error("Reset password error:", error);
+        res.status(500).json({ message: "Failed to reset password" });
+      }
+    },
+  );
+
+  app.get("/api/auth/current-user", async (req, res) => {
+    console.log(
+      "Current user session check:",
+      req.isAuthenticated(),
+      req.user ? req.user.id : "no user",
     );
 
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      // Get user from database with role information
+      const user = await storage.getUserById(parseInt((req.user as any).id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Get role and permissions from roleId
+      const [roleData] = await db
+        .select()
+        .from(userRoles)
+        .where(eq(userRoles.id, user.roleId));
+      const roleName = roleData?.name || "student";
+
+      // Get school information if user belongs to a school
+      let schoolData = null;
+      if (user.schoolId) {
+        const [school] = await db
+          .select()
+          .from(schools)
+          .where(eq(schools.id, user.schoolId));
+        schoolData = school
+          ? {
+              id: school.id,
+              name: school.name,
+              logoUrl: school.logoUrl,
+              description: school.description,
+              requireOpportunityApproval: school.requireOpportunityApproval,
+            }
+          : null;
+      }
+
+      console.log("Returning authenticated user:", user.email);
+
+      // Return user data with permissions and school info
+      res.json({
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: roleName,
+        schoolId: user.schoolId,
+        school: schoolData,
+        isActive: user.isActive,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        twoFactorSetupRequired: Boolean(req.session.twoFactorSetupRequired),
+        mustChangePassword: user.mustChangePassword && !(req as any).impersonator,
+        impersonation: (req as any).impersonator
+          ? {
+              impersonatorName: `${(req as any).impersonator.firstName} ${(req as any).impersonator.lastName}`,
+              expiresAt: new Date(req.session.impersonation!.expiresAt),
+            }
+          : null,
+        profilePicture: user.profilePicture,
+        createdAt: user.createdAt,
+        permissions: {
+          canCreateOpportunities: roleData?.canCreateOpportunities || false,
+          canEditOwnOpportunities: roleData?.canEditOwnOpportunities || false,
+          canEditSchoolOpportunities:
+            roleData?.canEditSchoolOpportunities || false,
+          canEditAllOpportunities: roleData?.canEditAllOpportunities || false,
+          canViewOpportunities: roleData?.canViewOpportunities || true,
+          canManageUsers: roleData?.canManageUsers || false,
+          canManageSchools: roleData?.canManageSchools || false,
+          canViewReports: roleData?.canViewReports || false,
+          canManageSettings: roleData?.canManageSettings || false,
+          canManagePreferences: roleData?.canManagePreferences || false,
+          canUploadDocuments: roleData?.canUploadDocuments || false,
+          canViewAttendees: roleData?.canViewAttendees || false,
+          canManageNews: roleData?.canManageNews || false,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ message: "Failed to fetch user data" });
+    }
+  });
+
+  // Student self-registration. Accounts start unverified and cannot sign in
+  // until the emailed verification link is redeemed. Staff accounts are only
+  // created from invitations (see /api/invitations).
+  const selfRegistrationSchema = insertUserSchema
+    .omit({
+      roleId: true,
+      emailVerified: true,
+      approvalStatus: true,
+      mustChangePassword: true,
+    })
+    .extend({
+      confirmPassword: z.string(),
+      schoolId: z.number(),
+    })
+    .refine((data) => data.password === data.confirmPassword, {
+      message: "Passwords do not match",
+      path: ["confirmPassword"],
+    });
+
+  app.post(
+    "/api/auth/register/student",
+    validateRequest(selfRegistrationSchema),
+    async (req, res) => {
+      try {
+        const { confirmPassword, ...userData } = req.body;
+
+        if (!(await getBooleanSetting("enableRegistration", true))) {
+          return res
+            .status(403)
+            .json({ message: "Self-registration is currently disabled" });
+        }
+
+        // Check if email is already registered
+        const existingEmail = await storage.getUserByEmail(userData.email);
+        if (existingEmail) {
+          return res.status(400).json({ message: "Email already in use" });
+        }
+
+        // Check if username is already taken
+        const existingUsername = await storage.getUserByUsername(
+          userData.username,
+        );
+        if (existingUsername) {
+          return res.status(400).json({ message: "Username already taken" });
+        }
+
+        // Check if school exists
+        const school = await storage.getSchoolById(userData.schoolId);
+        if (!school) {
+          return res.status(400).json({ message: "School not found" });
+        }
+
+        const problems = await validateNewPassword(userData.password);
+        if (problems.length) {
+          return res.status(400).json({ message: problems[0], problems });
+        }
+
+        const role = await storage.getUserRoleByName("student");
+        if (!role) {
+          return res
+            .status(500)
+            .json({ message: "The student role is not configured" });
+        }
+
+        // Students wait in the approval queue when the school requires it
+        const requiresApproval = await getBooleanSetting(
+          "studentRegistrationRequiresApproval",
+          true,
+        );
+
+        // Hash password
+        const hashedPassword = await bcrypt.hash(userData.password, 10);
+
+        const user = await storage.createUser({
+          ...userData,
+          password: hashedPassword,
+          roleId: role.id,
+          emailVerified: false,
+          approvalStatus: requiresApproval ? "pending" : "approved",
+        });
+
+        await sendVerificationLink(req, user);
+
+        res.status(201).json({
+          ...toPublicUser(user),
+          message: requiresApproval
+            ? "Registration successful. Please verify your email; a school administrator will review your account before you can sign in."
+            : "Registration successful. Please check your email to verify your account.",
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to register", error });
+      }
+    },
+  );
+
+  // Confirm an email address from the link sent at registration
+  app.post(
+    "/api/auth/verify-email",
+    validateRequest(z.object({ token: z.string().min(1) })),
+    async (req, res) => {
+      try {
+        const verificationToken = await storage.getEmailVerificationTokenByHash(
+          hashToken(req.body.token),
+        );
+
+        if (
+          !verificationToken ||
+          verificationToken.usedAt ||
+          verificationToken.expiresAt.getTime() < Date.now()
+        ) {
+          return res.status(400).json({
+            message: "This verification link is invalid or has expired",
+          });
+        }
+
+        const consumed = await storage.consumeEmailVerificationToken(
+          verificationToken.id,
+        );
+        if (!consumed) {
+          return res.status(400).json({
+            message: "This verification link is invalid or has expired",
+          });
+        }
+
+        await storage.markEmailVerified(verificationToken.userId);
+        await storage.invalidateEmailVerificationTokens(
+          verificationToken.userId,
+        );
+
+        res.json({ message: "Your email address has been verified" });
+      } catch (error) {
+        console.error("Email verification error:", error);
+        res.status(500).json({ message: "Failed to verify email address" });
+      }
+    },
+  );
+
+  // Send a fresh verification link. Like forgot-password, the response does
+  // not reveal whether the email is registered or already verified.
+  app.post(
+    "/api/auth/resend-verification",
+    validateRequest(z.object({ email: z.string().email() })),
+    async (req, res) => {
+      const genericResponse = {
+        message:
+          "If an unverified account exists for that email, a new verification link has been sent",
+      };
+
+      try {
+        const user = await storage.getUserByEmail(req.body.email);
+
+        if (user && !user.emailVerified) {
+          await sendVerificationLink(req, user);
+        }
+
+        res.json(genericResponse);
+      } catch (error) {
+        console.error("Resend verification error:", error);
+        res.json(genericResponse);
+      }
+    },
+  );
+
+  // Admin routes for user management
+  app.post(
+    "/api/users",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    validateRequest(
+      insertUserSchema
+        .extend({
+          confirmPassword: z.string(),
+        })
+        .refine((data) => data.password === data.confirmPassword, {
+          message: "Passwords do not match",
+          path: ["confirmPassword"],
+        }),
+    ),
+    async (req, res) => {
+      try {
+        const policyUser = toPolicyUser((req as any).userWithRole);
+        const { confirmPassword, ...userData } = req.body;
+
+        if (
+          !can(policyUser, "user:manage", { schoolId: userData.schoolId ?? null })
+        ) {
+          return res
+            .status(403)
+            .json({ message: "You can only manage users in your own school" });
+        }
+
+        // Check if email is already registered
+        const existingEmail = await storage.getUserByEmail(userData.email);
+        if (existingEmail) {
+          return res.status(400).json({ message: "Email already in use" });
+        }
+
+        // Check if username is already taken
+        const existingUsername = await storage.getUserByUsername(
+          userData.username,
+        );
+        if (existingUsername) {
+          return res.status(400).json({ message: "Username already taken" });
+        }
+
+        // Only users with global scope can hand out roles that have it
+        const role = await storage.getUserRoleById(userData.roleId);
+        if (!role || role.isRetired) {
+          return res
+            .status(400)
+            .json({ message: "This role can no longer be assigned" });
+        }
+        if (role.canManageSchools && !can(policyUser, "school:manage")) {
+          return res
+            .status(403)
+            .json({ message: `You cannot assign the ${role.name} role` });
+        }
+
+        const problems = await validateNewPassword(userData.password);
+        if (problems.length) {
+          return res.status(400).json({ message: problems[0], problems });
+        }
+
+        // Hash password
+        const hashedPassword = await bcrypt.hash(userData.password, 10);
+
+        // Create user
+        const user = await storage.createUser({
+          ...userData,
+          password: hashedPassword,
+        });
+
+        await recordAudit(req, {
+          action: "user:create",
+          entityType: "user",
+          entityId: user.id,
+          schoolId: user.schoolId,
+          after: user,
+        });
+
+        res.status(201).json(toPublicUser(user));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to create user", error });
+      }
+    },
+  );
+
+  // Bulk import users from a CSV or XLSX file. With dryRun (the default)
+  // nothing is written and the response reports what each row would do;
+  // otherwise every create and update is applied in one transaction.
+  const userImportOptionsSchema = z.object({
+    mapping: z
+      .record(z.enum(USER_IMPORT_FIELDS), z.string())
+      .optional(),
+    roleId: z.coerce.number().optional(),
+    schoolId: z.coerce.number().optional(),
+    dryRun: z.enum(["true", "false"]).default("true"),
+    sendInvites: z.enum(["true", "false"]).default("false"),
+  });
+
+  app.post(
+    "/api/users/import",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    importUpload.single("file"),
+    async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "No file uploaded" });
+        }
+
+        let options: z.infer<typeof userImportOptionsSchema>;
+        try {
+          options = userImportOptionsSchema.parse({
+            ...req.body,
+            mapping: req.body.mapping ? JSON.parse(req.body.mapping) : undefined,
+          });
+        } catch (error) {
+          return res.status(400).json({
+            message: "Invalid import options",
+            details: error instanceof z.ZodError ? error.errors : undefined,
+          });
+        }
+
+        const userWithRole = (req as any).userWithRole;
+        const policyUser = toPolicyUser(userWithRole);
+        const hasGlobalScope = can(policyUser, "school:manage");
+
+        const spreadsheet = await readSpreadsheet(
+          req.file.buffer,
+          req.file.originalname,
+        );
+        if (!spreadsheet.rows.length) {
+          return res
+            .status(400)
+            .json({ message: "The file does not contain any rows" });
+        }
+        if (spreadsheet.rows.length > USER_IMPORT_MAX_ROWS) {
+          return res.status(400).json({
+            message: `Files can contain at most ${USER_IMPORT_MAX_ROWS} users`,
+          });
+        }
+
+        const mapping = options.mapping || guessColumnMapping(spreadsheet.headers);
+
+        // Look up everyone the file could clash with in one query
+        const emails = spreadsheet.rows.map((row) =>
+          mapping.email ? (row.values[mapping.email] || "").trim() : "",
+        );
+        const usernames = spreadsheet.rows.map(
+          (row, index) =>
+            (mapping.username && row.values[mapping.username]?.trim()) ||
+            emails[index].split("@")[0],
+        );
+        const existingUsers = await storage.getUsersByEmailsOrUsernames(
+          emails.filter(Boolean),
+          usernames.filter(Boolean),
+        );
+
+        const plan: UserImportPlan = planUserImport(spreadsheet.rows, mapping, {
+          roles: await storage.getUserRoles(),
+          schools: await storage.getAllSchools(),
+          existingUsers,
+          defaultRoleId: options.roleId,
+          defaultSchoolId: hasGlobalScope
+            ? (options.schoolId ?? null)
+            : userWithRole.schoolId,
+          allowedSchoolIds: hasGlobalScope ? null : [userWithRole.schoolId],
+          canAssignGlobalRoles: hasGlobalScope,
+          sendInvites: options.sendInvites === "true",
+          passwordPolicy: await getPasswordPolicy(),
+        });
+
+        // Never send the generated passwords back to the browser
+        const report = {
+          columns: spreadsheet.headers,
+          mapping,
+          summary: plan.summary,
+          rows: plan.rows.map(({ data, ...row }) => row),
+        };
+
+        if (options.dryRun === "true") {
+          return res.json({ ...report, committed: false });
+        }
+
+        if (plan.summary.error > 0) {
+          return res.status(400).json({
+            ...report,
+            committed: false,
+            message: "Fix the rows with errors before importing",
+          });
+        }
+
+        const creates = await Promise.all(
+          plan.rows
+            .filter((row) => row.action === "create")
+            .map(async (row) => ({
+              ...row.data!,
+              password: await bcrypt.hash(row.data!.password, 10),
+            })),
+        );
+        const updates = plan.rows
+          .filter((row) => row.action === "update" && row.changes.length)
+          .map((row) => {
+            const { password, email, ...changes } = row.data!;
+            return { id: row.userId!, updates: changes };
+          });
+
+        const { created, updated } = await storage.importUsers(creates, updates);
+
+        let invitesSent = 0;
+        if (options.sendInvites === "true") {
+          const schools = await storage.getAllSchools();
+          for (const user of created) {
+            const token = crypto.randomBytes(32).toString("hex");
+            await storage.createPasswordResetToken({
+              userId: user.id,
+              tokenHash: hashToken(token),
+              expiresAt: new Date(
+                Date.now() + IMPORT_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000,
+              ),
+            });
+
+            const sent = await sendAccountInviteEmail(
+              user.email,
+              user.firstName,
+              schools.find((school) => school.id === user.schoolId)?.name ||
+                null,
+              `${getAppBaseUrl()}/reset-password?token=${token}`,
+              IMPORT_INVITE_TTL_DAYS,
+            );
+            if (sent) invitesSent++;
+          }
+        }
+
+        await recordAudit(req, {
+          action: "user:import",
+          entityType: "user",
+          schoolId: hasGlobalScope
+            ? (options.schoolId ?? null)
+            : userWithRole.schoolId,
+          after: {
+            fileName: req.file.originalname,
+            created: created.length,
+            updated: updated.length,
+            skippedDuplicates: plan.summary.duplicate,
+            invitesSent,
+          },
+        });
+
+        res.json({
+          ...report,
+          committed: true,
+          created: created.length,
+          updated: updated.length,
+          invitesSent,
+        });
+      } catch (error) {
+        console.error("User import error:", error);
+        res.status(500).json({ message: "Failed to import users" });
+      }
+    },
+  );
+
+  // Update user endpoint
+  app.put(
+    "/api/users/:id",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    validateRequest(
+      insertUserSchema
+        .omit({ password: true })
+        .extend({
+          roleId: z.number(),
+        })
+        .partial(),
+    ),
+    async (req, res) => {
+      try {
+        const { id } = req.params;
+        const userId = parseInt(id);
+        const currentUser = req.user as any;
+
+        // Prevent users from editing their own record
+        if (currentUser.id === userId) {
+          return res.status(403).json({
+            message: "You cannot edit your own user record",
+          });
+        }
+
+        // Check if user exists
+        const existingUser = await storage.getUserById(userId);
+        if (!existingUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        // Both the user and, when moving them, their new school must be
+        // within the editor's reach
+        const policyUser = toPolicyUser((req as any).userWithRole);
+        if (
+          !can(policyUser, "user:manage", existingUser) ||
+          (req.body.schoolId !== undefined &&
+            !can(policyUser, "user:manage", {
+              id: userId,
+              schoolId: req.body.schoolId ?? null,
+            }))
+        ) {
+          return res
+            .status(403)
+            .json({ message: "You can only manage users in your own school" });
+        }
+
+        // If email is being updated, check if it's already in use by another user
+        if (req.body.email && req.body.email !== existingUser.email) {
+          const existingEmail = await storage.getUserByEmail(req.body.email);
+          if (existingEmail && existingEmail.id !== userId) {
+            return res.status(400).json({ message: "Email already in use" });
+          }
+        }
+
+        // If username is being updated, check if it's already taken by another user
+        if (req.body.username && req.body.username !== existingUser.username) {
+          const existingUsername = await storage.getUserByUsername(
+            req.body.username,
+          );
+          if (existingUsername && existingUsername.id !== userId) {
+            return res.status(400).json({ message: "Username already taken" });
+          }
+        }
+
+        // Retired roles can stay on existing users but not be newly
+        // assigned, and only users with global scope can hand out roles
+        // that have it
+        if (req.body.roleId && req.body.roleId !== existingUser.roleId) {
+          const role = await storage.getUserRoleById(req.body.roleId);
+          if (!role || role.isRetired) {
+            return res
+              .status(400)
+              .json({ message: "This role can no longer be assigned" });
+          }
+          if (role.canManageSchools && !can(policyUser, "school:manage")) {
+            return res
+              .status(403)
+              .json({ message: `You cannot assign the ${role.name} role` });
+          }
+        }
+
+        // Update user
+        const updatedUser = await storage.updateUser(userId, req.body);
+
+        if (!updatedUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        await recordAudit(req, {
+          action: "user:update",
+          entityType: "user",
+          entityId: userId,
+          schoolId: updatedUser.schoolId,
+          before: existingUser,
+          after: updatedUser,
+        });
+
+        res.json(toPublicUser(updatedUser));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to update user", error });
+      }
+    },
+  );
+
+  // Lift a brute-force lockout before it expires
+  app.post(
+    "/api/users/:id/unlock",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const userId = parseInt(req.params.id);
+
+        const targetUser = await storage.getUserById(userId);
+        if (!targetUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (!can(toPolicyUser(userWithRole), "user:manage", targetUser)) {
+          return res
+            .status(403)
+            .json({ message: "You can only manage users in your own school" });
+        }
+
+        await storage.clearLoginLock(userId);
+        await recordAudit(req, {
+          action: "user:unlock",
+          entityType: "user",
+          entityId: userId,
+          schoolId: targetUser.schoolId,
+          before: { lockedUntil: targetUser.lockedUntil },
+          after: { lockedUntil: null },
+        });
+        res.json({
+          message: `${targetUser.firstName} ${targetUser.lastName} can sign in again`,
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to unlock user", error });
+      }
+    },
+  );
+
+  // Set a temporary password for a user. They are signed out everywhere and
+  // have to choose their own password the next time they sign in.
+  app.post(
+    "/api/users/:id/reset-password",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    validateRequest(
+      z
+        .object({ password: z.string(), confirmPassword: z.string() })
+        .refine((data) => data.password === data.confirmPassword, {
+          message: "Passwords do not match",
+          path: ["confirmPassword"],
+        }),
+    ),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const userId = parseInt(req.params.id);
+
+        const targetUser = await storage.getUserById(userId);
+        if (!targetUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (!can(toPolicyUser(userWithRole), "user:manage", targetUser)) {
+          return res
+            .status(403)
+            .json({ message: "You can only manage users in your own school" });
+        }
+        if (targetUser.id === userWithRole.id) {
+          return res.status(403).json({
+            message: "Change your own password from your account settings",
+          });
+        }
+        if (targetUser.erasedAt) {
+          return res
+            .status(400)
+            .json({ message: "This user's data has been erased" });
+        }
+
+        const problems = await validateNewPassword(req.body.password);
+        if (problems.length) {
+          return res.status(400).json({ message: problems[0], problems });
+        }
+
+        await storage.setUserPassword(
+          userId,
+          await bcrypt.hash(req.body.password, 10),
+          { mustChangePassword: true },
+        );
+        await storage.invalidatePasswordResetTokens(userId);
+        await storage.deleteSessionsForUser(userId);
+        await storage.revokeApiTokensForUser(userId);
+        // The audit entry never includes the password or its hash
+        await recordAudit(req, {
+          action: "user:resetPassword",
+          entityType: "user",
+          entityId: userId,
+          schoolId: targetUser.schoolId,
+          after: { mustChangePassword: true },
+        });
+
+        res.json({
+          message: `${targetUser.firstName} ${targetUser.lastName} will choose a new password when they next sign in`,
+        });
+      } catch (error) {
+        console.error("Admin password reset error:", error);
+        res.status(500).json({ message: "Failed to reset password" });
+      }
+    },
+  );
+
+  // Kill every session and mobile token for a user, e.g. after deactivating them
+  app.post(
+    "/api/users/:id/sessions/revoke",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const userId = parseInt(req.params.id);
+
+        const targetUser = await storage.getUserById(userId);
+        if (!targetUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (!can(toPolicyUser(userWithRole), "user:manage", targetUser)) {
+          return res
+            .status(403)
+            .json({ message: "You can only manage users in your own school" });
+        }
+
+        const signedOut = await storage.deleteSessionsForUser(userId);
+        await storage.revokeApiTokensForUser(userId);
+        await recordAudit(req, {
+          action: "user:revokeSessions",
+          entityType: "user",
+          entityId: userId,
+          schoolId: targetUser.schoolId,
+        });
+
+        res.json({
+          message: `Signed ${targetUser.firstName} ${targetUser.lastName} out everywhere`,
+          sessionsSignedOut: signedOut,
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to revoke sessions", error });
+      }
+    },
+  );
+
+  // Offboarding. Deactivated users keep their account and registrations, so
+  // attendance history is unchanged, but can't sign in and drop out of
+  // pickers. Anything they authored is handed to another staff member.
+  const loadOffboardingUser = async (req: Request, res: Response) => {
+    const userWithRole = (req as any).userWithRole;
+    const targetUser = await storage.getUserById(parseInt(req.params.id));
+
+    if (!targetUser) {
+      res.status(404).json({ message: "User not found" });
+      return undefined;
+    }
+    if (!can(toPolicyUser(userWithRole), "user:manage", targetUser)) {
+      res
+        .status(403)
+        .json({ message: "You can only manage users in your own school" });
+      return undefined;
+    }
+    if (targetUser.id === userWithRole.id) {
+      res.status(403).json({ message: "You cannot deactivate your own account" });
+      return undefined;
+    }
+    return targetUser;
+  };
+
+  app.get(
+    "/api/users/:id/offboarding",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const targetUser = await loadOffboardingUser(req, res);
+        if (!targetUser) return;
+
+        const [authored, staff] = await Promise.all([
+          storage.getAuthoredContentCounts(targetUser.id),
+          storage.getReassignmentCandidates(targetUser.schoolId, targetUser.id),
+        ]);
+        res.json({ authored, reassignTo: staff });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to load offboarding details", error });
+      }
+    },
+  );
+
+  app.post(
+    "/api/users/:id/deactivate",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    validateRequest(
+      z.object({
+        reassignToId: z.number().nullable().optional(),
+        reason: z.string().max(500).optional(),
+      }),
+    ),
+    async (req, res) => {
+      try {
+        const targetUser = await loadOffboardingUser(req, res);
+        if (!targetUser) return;
+
+        if (!targetUser.isActive) {
+          return res
+            .status(400)
+            .json({ message: "This user is already deactivated" });
+        }
+
+        const authored = await storage.getAuthoredContentCounts(targetUser.id);
+        const reassignToId = req.body.reassignToId ?? null;
+        if ((authored.opportunities || authored.newsPosts) && !reassignToId) {
+          return res.status(400).json({
+            message: `Choose who takes over their ${authored.opportunities} opportunities and ${authored.newsPosts} news posts`,
+          });
+        }
+        if (reassignToId) {
+          const candidates = await storage.getReassignmentCandidates(
+            targetUser.schoolId,
+            targetUser.id,
+          );
+          if (!candidates.some((candidate) => candidate.id === reassignToId)) {
+            return res.status(400).json({
+              message: "Content can only be handed to an active staff member of the same school",
+            });
+          }
+        }
+
+        const { reassigned } = await storage.deactivateUser(targetUser.id, {
+          reassignToId,
+          reason: req.body.reason?.trim() || null,
+        });
+        const signedOut = await storage.deleteSessionsForUser(targetUser.id);
+        await storage.revokeApiTokensForUser(targetUser.id);
+
+        await recordAudit(req, {
+          action: "user:deactivate",
+          entityType: "user",
+          entityId: targetUser.id,
+          schoolId: targetUser.schoolId,
+          before: { isActive: true },
+          after: {
+            isActive: false,
+            reason: req.body.reason?.trim() || null,
+            reassignedToId: reassignToId,
+            reassigned,
+          },
+        });
+
+        res.json({
+          message: `${targetUser.firstName} ${targetUser.lastName} was deactivated and signed out everywhere`,
+          reassigned,
+          sessionsSignedOut: signedOut,
+        });
+      } catch (error) {
+        console.error("Deactivation error:", error);
+        res.status(500).json({ message: "Failed to deactivate user" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/users/:id/reactivate",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const targetUser = await loadOffboardingUser(req, res);
+        if (!targetUser) return;
+
+        if (targetUser.isActive) {
+          return res.status(400).json({ message: "This user is already active" });
+        }
+        // Erasure is permanent; the account holds nothing to come back to
+        if (targetUser.erasedAt) {
+          return res
+            .status(400)
+            .json({ message: "Erased accounts cannot be reactivated" });
+        }
+
+        await storage.updateUser(targetUser.id, {
+          isActive: true,
+          deactivatedAt: null,
+          deactivationReason: null,
+          failedLoginCount: 0,
+          lockedUntil: null,
+        });
+        await recordAudit(req, {
+          action: "user:reactivate",
+          entityType: "user",
+          entityId: targetUser.id,
+          schoolId: targetUser.schoolId,
+          before: {
+            isActive: false,
+            deactivatedAt: targetUser.deactivatedAt,
+            reason: targetUser.deactivationReason,
+          },
+          after: { isActive: true },
+        });
+
+        res.json({
+          message: `${targetUser.firstName} ${targetUser.lastName} can sign in again`,
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to reactivate user", error });
+      }
+    },
+  );
+
+  // Data subject requests: a ZIP of everything held about a user, and
+  // erasure that anonymises or deletes it according to ERASURE_POLICY
+  app.get("/api/users/:id/data-export", isAuthenticated, async (req, res) => {
+    try {
+      const currentUser = await loadUserWithRole(req);
+      const targetUser = await storage.getUserById(parseInt(req.params.id));
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!can(toPolicyUser(currentUser), "user:exportData", targetUser)) {
+        return res
+          .status(403)
+          .json({ message: "You cannot export this user's data" });
+      }
+
+      const archive = await buildDataExport(targetUser.id);
+      if (!archive) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        action: "user:exportData",
+        entityType: "user",
+        entityId: targetUser.id,
+        schoolId: targetUser.schoolId,
+      });
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="user-${targetUser.id}-data-${new Date().toISOString().slice(0, 10)}.zip"`,
+      );
+      res.send(archive);
+    } catch (error) {
+      console.error("Data export error:", error);
+      res.status(500).json({ message: "Failed to export user data" });
+    }
+  });
+
+  // Loads the user an erasure request is for, answering the request itself
+  // when it can't go ahead
+  const loadErasableUser = async (req: Request, res: Response) => {
+    const userWithRole = (req as any).userWithRole;
+    const targetUser = await storage.getUserById(parseInt(req.params.id));
+
+    if (!targetUser) {
+      res.status(404).json({ message: "User not found" });
+      return undefined;
+    }
+    if (!can(toPolicyUser(userWithRole), "user:erase", targetUser)) {
+      res.status(403).json({
+        message:
+          targetUser.id === userWithRole.id
+            ? "You cannot erase your own account"
+            : "You can only erase users in your own school",
+      });
+      return undefined;
+    }
+    if (targetUser.erasedAt) {
+      res.status(400).json({ message: "This user has already been erased" });
+      return undefined;
+    }
+    return targetUser;
+  };
+
+  // What erasure would do, for the confirmation dialog
+  app.get(
+    "/api/users/:id/erasure",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const targetUser = await loadErasableUser(req, res);
+        if (!targetUser) return;
+
+        res.json({
+          policy: ERASURE_POLICY,
+          counts: await countErasableData(targetUser),
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to preview erasure", error });
+      }
+    },
+  );
+
+  app.post(
+    "/api/users/:id/erase",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    validateRequest(z.object({ confirmEmail: z.string() })),
+    async (req, res) => {
+      try {
+        const targetUser = await loadErasableUser(req, res);
+        if (!targetUser) return;
+
+        // Typing the address guards against erasing the wrong person
+        if (
+          req.body.confirmEmail.trim().toLowerCase() !==
+          targetUser.email.toLowerCase()
+        ) {
+          return res
+            .status(400)
+            .json({ message: "The email doesn't match this user" });
+        }
+
+        const counts = await eraseUser(targetUser);
+
+        // Only counts go in the audit log; it must not keep what was erased
+        await recordAudit(req, {
+          action: "user:erase",
+          entityType: "user",
+          entityId: targetUser.id,
+          schoolId: targetUser.schoolId,
+          after: counts,
+        });
+
+        res.json({ message: "User data erased", counts });
+      } catch (error) {
+        console.error("Erasure error:", error);
+        res.status(500).json({ message: "Failed to erase user data" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/users/school/:schoolId",
+    isAuthenticated,
+    requirePermission("user:view"),
+    async (req, res) => {
+      try {
+        const policyUser = toPolicyUser((req as any).userWithRole);
+        const schoolId = parseInt(req.params.schoolId);
+        const { role, includeInactive } = req.query;
+
+        if (!can(policyUser, "user:view", { schoolId })) {
+          return res
+            .status(403)
+            .json({ message: "You can only view users in your own school" });
+        }
+
+        // Inactive users are only listed on request, for user management
+        const canManage = can(policyUser, "user:manage", { schoolId });
+        const users = await storage.getUsersBySchoolId(
+          schoolId,
+          role ? String(role) : undefined,
+          canManage && includeInactive === "true",
+        );
+
+        res.json(users.map(canManage ? toManagedUser : toPublicUser));
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch users", error });
+      }
+    },
+  );
+
+  app.get(
+    "/api/users/role/:role",
+    isAuthenticated,
+    requirePermission("user:view"),
+    async (req, res) => {
+      try {
+        const policyUser = toPolicyUser((req as any).userWithRole);
+        const { role } = req.params;
+
+        const users = await storage.getUsersByRole(
+          role,
+          can(policyUser, "user:manage") && req.query.includeInactive === "true",
+        );
+
+        // Users outside the caller's school are left out unless they have
+        // global scope
+        res.json(
+          users
+            .filter((user) => can(policyUser, "user:view", user))
+            .map((user) =>
+              can(policyUser, "user:manage", user)
+                ? toManagedUser(user)
+                : toPublicUser(user),
+            ),
+        );
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch users", error });
+      }
+    },
+  );
+
+  // Registration approval queue
+  app.get(
+    "/api/registrations/pending",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+
+        // School admins only see their own school's queue
+        const schoolId = can(toPolicyUser(userWithRole), "school:manage")
+          ? undefined
+          : userWithRole.schoolId;
+
+        const pending = await storage.getPendingRegistrations(schoolId);
+        res.json(pending);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to fetch pending registrations", error });
+      }
+    },
+  );
+
+  app.post(
+    "/api/registrations/decision",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    validateRequest(
+      z
+        .object({
+          userIds: z.array(z.number()).min(1),
+          action: z.enum(["approve", "reject"]),
+          reason: z.string().optional(),
+        })
+        .refine((data) => data.action === "approve" || !!data.reason?.trim(), {
+          message: "A reason is required when rejecting a registration",
+          path: ["reason"],
+        }),
+    ),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const { userIds, action, reason } = req.body;
+
+        // Make sure a school admin is only deciding on their own students
+        for (const userId of userIds) {
+          const applicant = await storage.getUserById(userId);
+          if (
+            !applicant ||
+            !can(toPolicyUser(userWithRole), "user:manage", applicant)
+          ) {
+            return res.status(403).json({
+              message: "You can only review registrations for your own school",
+            });
+          }
+        }
+
+        const approved = action === "approve";
+        const decided = await storage.setRegistrationDecision(
+          userIds,
+          approved ? "approved" : "rejected",
+          userWithRole.id,
+          reason,
+        );
+
+        const loginUrl = `${getAppBaseUrl()}/login`;
+        for (const applicant of decided) {
+          await recordAudit(req, {
+            action: approved ? "registration:approve" : "registration:reject",
+            entityType: "user",
+            entityId: applicant.id,
+            schoolId: applicant.schoolId,
+            before: { approvalStatus: "pending" },
+            after: {
+              approvalStatus: applicant.approvalStatus,
+              approvalNote: applicant.approvalNote,
+            },
+          });
+          await sendRegistrationDecisionEmail(
+            applicant.email,
+            applicant.firstName,
+            approved,
+            loginUrl,
+            applicant.approvalNote ?? undefined,
+          );
+        }
+
+        res.json({
+          message: `${decided.length} registration(s) ${approved ? "approved" : "rejected"}`,
+          updated: decided.map((applicant) => applicant.id),
+        });
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to update registrations", error });
+      }
+    },
+  );
+
+  // Guardians linked to a student, managed by the student's school admins.
+  // A guardian without an account is sent an invitation that links them
+  // when accepted.
+  const loadManagedStudent = async (req: Request, res: Response) => {
+    const userWithRole = (req as any).userWithRole;
+    const student = await storage.getUserById(parseInt(req.params.id));
+    const role = student && (await storage.getUserRoleById(student.roleId));
+
+    if (!student || role?.name !== "student") {
+      res.status(404).json({ message: "Student not found" });
+      return undefined;
+    }
+    if (!can(toPolicyUser(userWithRole), "user:manage", student)) {
+      res
+        .status(403)
+        .json({ message: "You can only manage students in your own school" });
+      return undefined;
     }
+    return student;
+  };
 
-    try {
-      // Get user from database with role information
-      const user = await storage.getUserById(parseInt((req.user as any).id));
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+  app.get(
+    "/api/users/:id/guardians",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const student = await loadManagedStudent(req, res);
+        if (!student) return;
+
+        const [guardians, invitations] = await Promise.all([
+          storage.getGuardiansForStudent(student.id),
+          storage.getPendingGuardianInvitations(student.id),
+        ]);
+        res.json({
+          guardians,
+          invitations: invitations.map((invitation) => ({
+            id: invitation.id,
+            email: invitation.email,
+            relationship: invitation.relationship,
+            expiresAt: invitation.expiresAt,
+            lastSentAt: invitation.lastSentAt,
+          })),
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch guardians", error });
       }
+    },
+  );
 
-      // Get role and permissions from roleId
-      const [roleData] = await db
-        .select()
-        .from(userRoles)
-        .where(eq(userRoles.id, user.roleId));
-      const roleName = roleData?.name || "student";
+  app.post(
+    "/api/users/:id/guardians",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    validateRequest(
+      z.object({
+        email: z.string().email(),
+        relationship: z.string().max(50).optional(),
+      }),
+    ),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const student = await loadManagedStudent(req, res);
+        if (!student) return;
 
-      // Get school information if user belongs to a school
-      let schoolData = null;
-      if (user.schoolId) {
-        const [school] = await db
-          .select()
-          .from(schools)
-          .where(eq(schools.id, user.schoolId));
-        schoolData = school
-          ? {
-              id: school.id,
-              name: school.name,
-              logoUrl: school.logoUrl,
-              description: school.description,
-            }
-          : null;
+        const email = req.body.email.trim().toLowerCase();
+        const relationship = req.body.relationship?.trim() || null;
+
+        const guardianRole = await storage.getUserRoleByName("guardian");
+        if (!guardianRole) {
+          return res
+            .status(500)
+            .json({ message: "The guardian role is not configured" });
+        }
+
+        // Existing guardian accounts are linked straight away
+        const existing = await storage.getUserByEmail(email);
+        if (existing) {
+          if (existing.roleId !== guardianRole.id) {
+            return res.status(400).json({
+              message: "This email belongs to an account that isn't a guardian",
+            });
+          }
+          if (await storage.getGuardianLink(existing.id, student.id)) {
+            return res
+              .status(400)
+              .json({ message: "This guardian is already linked" });
+          }
+
+          await storage.createGuardianLink({
+            guardianId: existing.id,
+            studentId: student.id,
+            relationship,
+            createdById: userWithRole.id,
+          });
+          await recordAudit(req, {
+            action: "guardian:link",
+            entityType: "user",
+            entityId: student.id,
+            schoolId: student.schoolId,
+            after: { guardianId: existing.id, relationship },
+          });
+          return res.status(201).json({
+            message: `${existing.firstName} ${existing.lastName} is now linked`,
+          });
+        }
+
+        if (!student.schoolId) {
+          return res
+            .status(400)
+            .json({ message: "The student must belong to a school" });
+        }
+        if (await storage.getPendingInvitationByEmail(email)) {
+          return res.status(400).json({
+            message:
+              "This email already has an open invitation. Resend or revoke it instead.",
+          });
+        }
+
+        // The real link is generated when the email goes out
+        const invitation = await storage.createInvitation({
+          email,
+          roleId: guardianRole.id,
+          schoolId: student.schoolId,
+          studentId: student.id,
+          relationship,
+          tokenHash: hashToken(crypto.randomBytes(32).toString("hex")),
+          invitedById: userWithRole.id,
+          expiresAt: new Date(),
+        });
+        const sent = await sendInvitationLink(req, invitation);
+
+        await recordAudit(req, {
+          action: "invitation:create",
+          entityType: "invitation",
+          entityId: invitation.id,
+          schoolId: student.schoolId,
+          after: { email, role: guardianRole.name, studentId: student.id },
+        });
+
+        res.status(201).json({
+          message: sent
+            ? `Invitation sent to ${email}`
+            : `Invitation created, but the email to ${email} could not be sent. Try resending it.`,
+        });
+      } catch (error) {
+        console.error("Add guardian error:", error);
+        res.status(500).json({ message: "Failed to add guardian" });
       }
+    },
+  );
 
-      console.log("Returning authenticated user:", user.email);
+  app.delete(
+    "/api/users/:id/guardians/:guardianId",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const student = await loadManagedStudent(req, res);
+        if (!student) return;
+
+        const guardianId = parseInt(req.params.guardianId);
+        const removed = await storage.deleteGuardianLink(guardianId, student.id);
+        if (!removed) {
+          return res.status(404).json({ message: "Guardian link not found" });
+        }
+
+        await recordAudit(req, {
+          action: "guardian:unlink",
+          entityType: "user",
+          entityId: student.id,
+          schoolId: student.schoolId,
+          before: { guardianId },
+        });
+        res.json({ message: "Guardian unlinked" });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to unlink guardian", error });
+      }
+    },
+  );
+
+  // Everything a guardian can see about each of their children
+  app.get(
+    "/api/guardian/students",
+    isAuthenticated,
+    requirePermission("guardian:view"),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const students = await storage.getStudentsForGuardian(userWithRole.id);
+        const now = Date.now();
+
+        const overview = await Promise.all(
+          students.map(async (student) => {
+            const [interests, formRequests] = await Promise.all([
+              storage.getStudentInterestsWithOpportunities(student.id),
+              storage.getStudentFormRequestsWithOpportunities(student.id),
+            ]);
+            const consents = await storage.getGuardianConsentsByInterestIds(
+              interests.map((interest) => interest.id),
+            );
+
+            const registrations = interests.map((interest) => {
+              const consent = consents.find((c) => c.interestId === interest.id);
+              return {
+                ...interest,
+                consent: {
+                  required: requiresGuardianConsent(interest.opportunity, interest),
+                  decision: consent?.decision ?? null,
+                  note: consent?.note ?? null,
+                  decidedAt: consent?.decidedAt ?? null,
+                },
+              };
+            });
+
+            const upcomingDeadlines = interests
+              .filter(
+                (interest) =>
+                  interest.opportunity.applicationDeadline.getTime() >= now,
+              )
+              .map((interest) => ({
+                opportunityId: interest.opportunity.id,
+                title: interest.opportunity.title,
+                applicationDeadline: interest.opportunity.applicationDeadline,
+              }))
+              .sort(
+                (a, b) =>
+                  a.applicationDeadline.getTime() - b.applicationDeadline.getTime(),
+              );
+
+            return { ...student, registrations, formRequests, upcomingDeadlines };
+          }),
+        );
+
+        res.json(overview);
+      } catch (error) {
+        console.error("Guardian overview error:", error);
+        res.status(500).json({ message: "Failed to fetch your children's activity" });
+      }
+    },
+  );
+
+  // Shared by the in-app and emailed consent routes. Returns undefined when
+  // the registration doesn't need consent.
+  const decideConsent = async (
+    req: Request,
+    interest: StudentInterest,
+    guardianId: number,
+    decision: "approved" | "declined",
+    note?: string,
+  ) => {
+    const opportunity = await storage.getOpportunityById(interest.opportunityId);
+    if (!opportunity || !requiresGuardianConsent(opportunity, interest)) {
+      return undefined;
+    }
+
+    const consent = await storage.setGuardianConsent({
+      interestId: interest.id,
+      guardianId,
+      decision,
+      note: note?.trim() || null,
+    });
+    const updated = await storage.getInterestById(interest.id);
+
+    await recordAudit(req, {
+      action: decision === "approved" ? "consent:approve" : "consent:decline",
+      entityType: "studentInterest",
+      entityId: interest.id,
+      schoolId: opportunity.schoolId,
+      before: { status: interest.status },
+      after: {
+        status: updated?.status,
+        decision,
+        note: consent.note,
+        guardianId,
+      },
+    });
+
+    // A declined registration frees its place for the next student waiting
+    if (decision === "declined" && interest.status !== "consent_declined") {
+      const promoted = await storage.promoteWaitlisted(opportunity.id);
+      await notifyPromotedStudents(req, opportunity, promoted);
+    }
+    return consent;
+  };
+
+  app.post(
+    "/api/guardian/consents",
+    isAuthenticated,
+    requirePermission("consent:decide"),
+    validateRequest(
+      z.object({
+        interestId: z.number(),
+        decision: z.enum(["approved", "declined"]),
+        note: z.string().max(500).optional(),
+      }),
+    ),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const { interestId, decision, note } = req.body;
+
+        const interest = await storage.getInterestById(interestId);
+        const link =
+          interest &&
+          (await storage.getGuardianLink(userWithRole.id, interest.studentId));
+        if (
+          !interest ||
+          !link ||
+          !can(toPolicyUser(userWithRole), "consent:decide", link)
+        ) {
+          return res.status(404).json({ message: "Registration not found" });
+        }
+
+        const consent = await decideConsent(
+          req,
+          interest,
+          userWithRole.id,
+          decision,
+          note,
+        );
+        if (!consent) {
+          return res
+            .status(400)
+            .json({ message: "This registration doesn't need consent" });
+        }
+
+        res.json(consent);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to record consent", error });
+      }
+    },
+  );
+
+  // Look up the registration behind an emailed consent link. The guardian
+  // must still be active and linked to the student.
+  const findConsentRequest = async (token: string) => {
+    const claims = readConsentToken(token);
+    if (!claims) return undefined;
+
+    const [interest, guardian] = await Promise.all([
+      storage.getInterestById(claims.interestId),
+      storage.getUserById(claims.guardianId),
+    ]);
+    if (!interest || !guardian?.isActive) return undefined;
+
+    const link = await storage.getGuardianLink(guardian.id, interest.studentId);
+    return link ? { interest, guardian } : undefined;
+  };
+
+  app.get("/api/guardian/consent-links/:token", async (req, res) => {
+    try {
+      const request = await findConsentRequest(req.params.token);
+      if (!request) {
+        return res.status(400).json({
+          message: "This consent link is invalid or has expired.",
+        });
+      }
+
+      const { interest } = request;
+      const [student, opportunity, consents] = await Promise.all([
+        storage.getUserById(interest.studentId),
+        storage.getOpportunityById(interest.opportunityId),
+        storage.getGuardianConsentsByInterestIds([interest.id]),
+      ]);
+      if (!student || !opportunity) {
+        return res.status(404).json({ message: "Registration not found" });
+      }
 
-      // Return user data with permissions and school info
       res.json({
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: roleName,
-        schoolId: user.schoolId,
-        school: schoolData,
-        isActive: user.isActive,
-        profilePicture: user.profilePicture,
-        createdAt: user.createdAt,
-        permissions: {
-          canCreateOpportunities: roleData?.canCreateOpportunities || false,
-          canEditOwnOpportunities: roleData?.canEditOwnOpportunities || false,
-          canEditSchoolOpportunities:
-            roleData?.canEditSchoolOpportunities || false,
-          canEditAllOpportunities: roleData?.canEditAllOpportunities || false,
-          canViewOpportunities: roleData?.canViewOpportunities || true,
-          canManageUsers: roleData?.canManageUsers || false,
-          canManageSchools: roleData?.canManageSchools || false,
-          canViewReports: roleData?.canViewReports || false,
-          canManageSettings: roleData?.canManageSettings || false,
-          canManagePreferences: roleData?.canManagePreferences || false,
-          canUploadDocuments: roleData?.canUploadDocuments || false,
-          canViewAttendees: roleData?.canViewAttendees || false,
-          canManageNews: roleData?.canManageNews || false,
+        studentName: `${student.firstName} ${student.lastName}`,
+        opportunity: {
+          title: opportunity.title,
+          organization: opportunity.organization,
+          location: opportunity.location,
+          isVirtual: opportunity.isVirtual,
+          startDate: opportunity.startDate,
+          endDate: opportunity.endDate,
         },
+        decision: consents[0]?.decision ?? null,
       });
     } catch (error) {
-      console.error("Error fetching current user:", error);
-      res.status(500).json({ message: "Failed to fetch user data" });
+      res.status(500).json({ message: "Failed to load consent request", error });
     }
   });
 
-  // Teacher self-registration
   app.post(
-    "/api/auth/register/teacher",
+    "/api/guardian/consent-links",
     validateRequest(
-      insertUserSchema
-        .extend({
-          confirmPassword: z.string(),
-          schoolId: z.number(),
-        })
-        .partial({ role: true }) // Make role optional as we'll set it in the handler
-        .refine((data) => data.password === data.confirmPassword, {
-          message: "Passwords do not match",
-          path: ["confirmPassword"],
-        }),
+      z.object({
+        token: z.string().min(1),
+        decision: z.enum(["approved", "declined"]),
+        note: z.string().max(500).optional(),
+      }),
     ),
     async (req, res) => {
       try {
-        const { confirmPassword, ...userData } = req.body;
+        const { token, decision, note } = req.body;
 
-        // Check if email is already registered
-        const existingEmail = await storage.getUserByEmail(userData.email);
-        if (existingEmail) {
-          return res.status(400).json({ message: "Email already in use" });
+        const request = await findConsentRequest(token);
+        if (!request) {
+          return res.status(400).json({
+            message: "This consent link is invalid or has expired.",
+          });
         }
 
-        // Check if username is already taken
-        const existingUsername = await storage.getUserByUsername(
-          userData.username,
+        const consent = await decideConsent(
+          req,
+          request.interest,
+          request.guardian.id,
+          decision,
+          note,
         );
-        if (existingUsername) {
-          return res.status(400).json({ message: "Username already taken" });
+        if (!consent) {
+          return res
+            .status(400)
+            .json({ message: "This registration doesn't need consent" });
         }
 
-        // Check if school exists
-        const school = await storage.getSchoolById(userData.schoolId);
-        if (!school) {
-          return res.status(400).json({ message: "School not found" });
-        }
+        res.json({ decision: consent.decision });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to record consent", error });
+      }
+    },
+  );
 
-        // Hash password
-        const hashedPassword = await bcrypt.hash(userData.password, 10);
+  // Staff invitations. Teachers and school admins can't self-register; an
+  // admin invites them by email and the link fixes their school and role.
+  const invitationStatus = (invitation: {
+    acceptedAt: Date | null;
+    revokedAt: Date | null;
+    expiresAt: Date;
+  }) => {
+    if (invitation.acceptedAt) return "accepted";
+    if (invitation.revokedAt) return "revoked";
+    if (invitation.expiresAt.getTime() < Date.now()) return "expired";
+    return "pending";
+  };
 
-        // Create user with teacher role
-        const user = await storage.createUser({
-          ...userData,
-          password: hashedPassword,
-          role: "teacher",
-        });
+  // Look up a pending invitation from the token in its link
+  const findInvitationByToken = async (token: string) => {
+    const invitation = await storage.getInvitationByTokenHash(hashToken(token));
+    return invitation && invitationStatus(invitation) === "pending"
+      ? invitation
+      : undefined;
+  };
 
-        // Remove password before sending response
-        const { password, ...userWithoutPassword } = user;
+  app.get(
+    "/api/invitations",
+    isAuthenticated,
+    requirePermission("invitation:manage"),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
 
-        res.status(201).json(userWithoutPassword);
+        // School admins only see their own school's invitations
+        const schoolId = can(toPolicyUser(userWithRole), "school:manage")
+          ? req.query.schoolId
+            ? parseInt(req.query.schoolId as string)
+            : undefined
+          : userWithRole.schoolId;
+
+        const invitations = await storage.getInvitations(schoolId);
+        res.json(
+          invitations.map((invitation) => ({
+            ...invitation,
+            status: invitationStatus(invitation),
+          })),
+        );
       } catch (error) {
-        res.status(500).json({ message: "Failed to register", error });
+        res.status(500).json({ message: "Failed to fetch invitations", error });
       }
     },
   );
 
-  // Admin routes for user management
   app.post(
-    "/api/users",
+    "/api/invitations",
     isAuthenticated,
-    requirePermission("manageUsers"),
+    requirePermission("invitation:manage"),
     validateRequest(
-      insertUserSchema
-        .extend({
-          confirmPassword: z.string(),
-        })
-        .refine((data) => data.password === data.confirmPassword, {
-          message: "Passwords do not match",
-          path: ["confirmPassword"],
-        }),
+      z.object({
+        email: z.string().email(),
+        roleId: z.number(),
+        schoolId: z.number().optional(),
+      }),
     ),
     async (req, res) => {
       try {
-        const { confirmPassword, ...userData } = req.body;
+        const userWithRole = (req as any).userWithRole;
+        const policyUser = toPolicyUser(userWithRole);
+        const email = req.body.email.trim().toLowerCase();
+        const schoolId = req.body.schoolId ?? userWithRole.schoolId;
 
-        // Check if email is already registered
-        const existingEmail = await storage.getUserByEmail(userData.email);
-        if (existingEmail) {
-          return res.status(400).json({ message: "Email already in use" });
+        if (!schoolId) {
+          return res.status(400).json({ message: "A school is required" });
+        }
+        if (!can(policyUser, "invitation:manage", { schoolId })) {
+          return res
+            .status(403)
+            .json({ message: "You can only invite staff to your own school" });
         }
 
-        // Check if username is already taken
-        const existingUsername = await storage.getUserByUsername(
-          userData.username,
-        );
-        if (existingUsername) {
-          return res.status(400).json({ message: "Username already taken" });
+        const school = await storage.getSchoolById(schoolId);
+        if (!school) {
+          return res.status(400).json({ message: "School not found" });
         }
 
-        // Hash password
-        const hashedPassword = await bcrypt.hash(userData.password, 10);
+        // Students register themselves and guardians are linked to a student;
+        // only users with global scope can hand out roles that have it
+        const role = await storage.getUserRoleById(req.body.roleId);
+        if (!role || role.isRetired || role.name === "student") {
+          return res
+            .status(400)
+            .json({ message: "Invitations can't be sent for this role" });
+        }
+        if (role.name === "guardian") {
+          return res.status(400).json({
+            message: "Guardians are invited from their student's record",
+          });
+        }
+        if (role.canManageSchools && !can(policyUser, "school:manage")) {
+          return res
+            .status(403)
+            .json({ message: `You cannot invite users as ${role.name}` });
+        }
 
-        // Create user
-        const user = await storage.createUser({
-          ...userData,
-          password: hashedPassword,
-        });
+        if (await storage.getUserByEmail(email)) {
+          return res
+            .status(400)
+            .json({ message: "An account with this email already exists" });
+        }
+        if (await storage.getPendingInvitationByEmail(email)) {
+          return res.status(400).json({
+            message:
+              "This email already has an open invitation. Resend or revoke it instead.",
+          });
+        }
 
-        // Remove password before sending response
-        const { password, ...userWithoutPassword } = user;
+        // The real link is generated when the email goes out
+        const invitation = await storage.createInvitation({
+          email,
+          roleId: role.id,
+          schoolId,
+          tokenHash: hashToken(crypto.randomBytes(32).toString("hex")),
+          invitedById: userWithRole.id,
+          expiresAt: new Date(),
+        });
+        const sent = await sendInvitationLink(req, invitation);
+
+        await recordAudit(req, {
+          action: "invitation:create",
+          entityType: "invitation",
+          entityId: invitation.id,
+          schoolId,
+          after: { email, role: role.name },
+        });
 
-        res.status(201).json(userWithoutPassword);
+        res.status(201).json({
+          id: invitation.id,
+          message: sent
+            ? `Invitation sent to ${email}`
+            : `Invitation created, but the email to ${email} could not be sent. Try resending it.`,
+        });
       } catch (error) {
-        res.status(500).json({ message: "Failed to create user", error });
+        console.error("Create invitation error:", error);
+        res.status(500).json({ message: "Failed to create invitation" });
       }
     },
   );
 
-  // Update user endpoint
-  app.put(
-    "/api/users/:id",
+  app.post(
+    "/api/invitations/:id/resend",
     isAuthenticated,
-    requirePermission("manageUsers"),
-    validateRequest(
-      insertUserSchema
-        .omit({ password: true })
-        .extend({
-          roleId: z.number(),
-        })
-        .partial(),
-    ),
+    requirePermission("invitation:manage"),
     async (req, res) => {
       try {
-        const { id } = req.params;
-        const userId = parseInt(id);
-        const currentUser = req.user as any;
-
-        // Prevent users from editing their own record
-        if (currentUser.id === userId) {
+        const userWithRole = (req as any).userWithRole;
+        const invitation = await storage.getInvitationById(parseInt(req.params.id));
+        if (!invitation) {
+          return res.status(404).json({ message: "Invitation not found" });
+        }
+        if (!can(toPolicyUser(userWithRole), "invitation:manage", invitation)) {
           return res.status(403).json({
-            message: "You cannot edit your own user record",
+            message: "You can only manage invitations for your own school",
           });
         }
 
-        // Check if user exists
-        const existingUser = await storage.getUserById(userId);
-        if (!existingUser) {
-          return res.status(404).json({ message: "User not found" });
-        }
-
-        // If email is being updated, check if it's already in use by another user
-        if (req.body.email && req.body.email !== existingUser.email) {
-          const existingEmail = await storage.getUserByEmail(req.body.email);
-          if (existingEmail && existingEmail.id !== userId) {
-            return res.status(400).json({ message: "Email already in use" });
-          }
-        }
-
-        // If username is being updated, check if it's already taken by another user
-        if (req.body.username && req.body.username !== existingUser.username) {
-          const existingUsername = await storage.getUserByUsername(
-            req.body.username,
-          );
-          if (existingUsername && existingUsername.id !== userId) {
-            return res.status(400).json({ message: "Username already taken" });
-          }
+        // Expired invitations can be resent; used or revoked ones cannot
+        const status = invitationStatus(invitation);
+        if (status === "accepted" || status === "revoked") {
+          return res
+            .status(400)
+            .json({ message: `This invitation has been ${status}` });
         }
 
-        // Update user
-        const updatedUser = await storage.updateUser(userId, req.body);
-
-        if (!updatedUser) {
-          return res.status(404).json({ message: "User not found" });
+        const sent = await sendInvitationLink(req, invitation);
+        if (!sent) {
+          return res
+            .status(502)
+            .json({ message: "The invitation email could not be sent" });
         }
 
-        // Remove password before sending response
-        const { password, ...userWithoutPassword } = updatedUser;
+        await recordAudit(req, {
+          action: "invitation:resend",
+          entityType: "invitation",
+          entityId: invitation.id,
+          schoolId: invitation.schoolId,
+        });
 
-        res.json(userWithoutPassword);
+        res.json({ message: `Invitation resent to ${invitation.email}` });
       } catch (error) {
-        res.status(500).json({ message: "Failed to update user", error });
+        res.status(500).json({ message: "Failed to resend invitation", error });
       }
     },
   );
 
-  app.get(
-    "/api/users/school/:schoolId",
+  app.post(
+    "/api/invitations/:id/revoke",
     isAuthenticated,
-
+    requirePermission("invitation:manage"),
     async (req, res) => {
       try {
-        const { schoolId } = req.params;
-        const { role } = req.query;
-
-        const users = await storage.getUsersBySchoolId(
-          parseInt(schoolId),
-          role ? String(role) : undefined,
-        );
+        const userWithRole = (req as any).userWithRole;
+        const invitation = await storage.getInvitationById(parseInt(req.params.id));
+        if (!invitation) {
+          return res.status(404).json({ message: "Invitation not found" });
+        }
+        if (!can(toPolicyUser(userWithRole), "invitation:manage", invitation)) {
+          return res.status(403).json({
+            message: "You can only manage invitations for your own school",
+          });
+        }
+        if (invitation.acceptedAt) {
+          return res
+            .status(400)
+            .json({ message: "This invitation has already been accepted" });
+        }
 
-        // Remove passwords before sending response
-        const usersWithoutPasswords = users.map((user) => {
-          const { password, ...userWithoutPassword } = user;
-          return userWithoutPassword;
-        });
+        if (!invitation.revokedAt) {
+          await storage.updateInvitation(invitation.id, { revokedAt: new Date() });
+          await recordAudit(req, {
+            action: "invitation:revoke",
+            entityType: "invitation",
+            entityId: invitation.id,
+            schoolId: invitation.schoolId,
+            before: { revokedAt: null },
+            after: { revokedAt: new Date() },
+          });
+        }
 
-        res.json(usersWithoutPasswords);
+        res.json({ message: "Invitation revoked" });
       } catch (error) {
-        res.status(500).json({ message: "Failed to fetch users", error });
+        res.status(500).json({ message: "Failed to revoke invitation", error });
       }
     },
   );
 
-  app.get(
-    "/api/users/role/:role",
-    isAuthenticated,
+  // Public: what the invitation link is for, shown before the account is created
+  app.get("/api/invitations/accept/:token", async (req, res) => {
+    try {
+      const invitation = await findInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res
+          .status(400)
+          .json({ message: "This invitation link is invalid or has expired" });
+      }
+
+      const [role, school] = await Promise.all([
+        storage.getUserRoleById(invitation.roleId),
+        storage.getSchoolById(invitation.schoolId),
+      ]);
+      res.json({
+        email: invitation.email,
+        roleName: role?.name,
+        schoolName: school?.name,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load invitation", error });
+    }
+  });
 
+  // Public: create the invited account with the invitation's school and role.
+  // The email address came from the invitation, so it counts as verified.
+  app.post(
+    "/api/invitations/accept",
+    validateRequest(
+      insertUserSchema
+        .pick({ username: true, firstName: true, lastName: true, password: true })
+        .extend({
+          token: z.string().min(1),
+          password: z.string(),
+          confirmPassword: z.string(),
+        })
+        .refine((data) => data.password === data.confirmPassword, {
+          message: "Passwords do not match",
+          path: ["confirmPassword"],
+        }),
+    ),
     async (req, res) => {
       try {
-        const { role } = req.params;
+        const { token, confirmPassword, ...userData } = req.body;
+
+        const invitation = await findInvitationByToken(token);
+        if (!invitation) {
+          return res
+            .status(400)
+            .json({ message: "This invitation link is invalid or has expired" });
+        }
+
+        if (await storage.getUserByEmail(invitation.email)) {
+          return res
+            .status(400)
+            .json({ message: "An account with this email already exists" });
+        }
+        if (await storage.getUserByUsername(userData.username)) {
+          return res.status(400).json({ message: "Username already taken" });
+        }
+
+        const problems = await validateNewPassword(userData.password);
+        if (problems.length) {
+          return res.status(400).json({ message: problems[0], problems });
+        }
 
-        const users = await storage.getUsersByRole(role);
+        const user = await storage.acceptInvitation(invitation.id, {
+          ...userData,
+          email: invitation.email,
+          password: await bcrypt.hash(userData.password, 10),
+          roleId: invitation.roleId,
+          schoolId: invitation.schoolId,
+          emailVerified: true,
+          approvalStatus: "approved",
+        });
+        if (!user) {
+          return res
+            .status(400)
+            .json({ message: "This invitation link is invalid or has expired" });
+        }
 
-        // Remove passwords before sending response
-        const usersWithoutPasswords = users.map((user) => {
-          const { password, ...userWithoutPassword } = user;
-          return userWithoutPassword;
+        await recordAudit(req, {
+          action: "invitation:accept",
+          entityType: "invitation",
+          entityId: invitation.id,
+          schoolId: invitation.schoolId,
+          after: { userId: user.id, email: user.email },
         });
 
-        res.json(usersWithoutPasswords);
+        res.status(201).json({
+          message: "Your account has been created. You can now log in.",
+        });
       } catch (error) {
-        res.status(500).json({ message: "Failed to fetch users", error });
+        console.error("Accept invitation error:", error);
+        res.status(500).json({ message: "Failed to accept invitation" });
       }
     },
   );
@@ -661,11 +3994,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     "/api/schools",
     isAuthenticated,
-    requirePermission("manageSchools"),
+    requirePermission("school:manage"),
     validateRequest(insertSchoolSchema),
     async (req, res) => {
       try {
         const school = await storage.createSchool(req.body);
+        await recordAudit(req, {
+          action: "school:create",
+          entityType: "school",
+          entityId: school.id,
+          schoolId: school.id,
+          after: school,
+        });
         res.status(201).json(school);
       } catch (error) {
         res.status(500).json({ message: "Failed to create school", error });
@@ -682,53 +4022,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.delete(
+    "/api/schools/:id",
+    isAuthenticated,
+    requirePermission("school:manage"),
+    async (req, res) => {
+      try {
+        const { id } = req.params;
+        const before = await storage.getSchoolById(parseInt(id));
+        const success = await storage.deleteSchool(parseInt(id));
+        if (!success) {
+          return res.status(404).json({ message: "School not found" });
+        }
+        // The school row is gone, so the entry is not linked to it
+        await recordAudit(req, {
+          action: "school:delete",
+          entityType: "school",
+          entityId: parseInt(id),
+          schoolId: null,
+          before,
+        });
+        res.json({ message: "School deleted successfully" });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to delete school", error });
+      }
+    },
+  );
+
+  // User roles endpoint (for admin management)
+  app.get(
+    "/api/user-roles",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    async (req, res) => {
+      try {
+        const roles = await storage.getUserRoles();
+        res.json(roles);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch user roles", error });
+      }
+    },
+  );
+
+  // Role editor (superadmins only). Built-in roles are looked up by name in
+  // the code, so they can be edited but not renamed, retired or deleted.
+  const requireSuperadmin = (req: Request, res: Response, next: Function) => {
+    if (!can(toPolicyUser((req as any).userWithRole), "role:manage")) {
+      return res
+        .status(403)
+        .json({ message: "Only superadmins can manage roles" });
+    }
+    next();
+  };
+
+  const roleSchema = insertUserRoleSchema.extend({
+    name: z.string().trim().min(2).max(50),
+  });
+
+  app.post(
+    "/api/user-roles",
+    isAuthenticated,
+    requirePermission("user:manage"),
+    requireSuperadmin,
+    validateRequest(roleSchema),
+    async (req, res) => {
+      try {
+        const existing = await storage.getUserRoleByName(req.body.name);
+        if (existing) {
+          return res
+            .status(400)
+            .json({ message: "A role with this name already exists" });
+        }
+
+        const role = await storage.createUserRole(req.body);
+        await recordAudit(req, {
+          action: "role:create",
+          entityType: "role",
+          entityId: role.id,
+          schoolId: null,
+          after: role,
+        });
+        res.status(201).json(role);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to create role", error });
+      }
+    },
+  );
+
   app.put(
-    "/api/schools/:id",
+    "/api/user-roles/:id",
     isAuthenticated,
-    requirePermission("manageSchools"),
+    requirePermission("user:manage"),
+    requireSuperadmin,
+    validateRequest(roleSchema.partial()),
     async (req, res) => {
       try {
-        const { id } = req.params;
-        const school = await storage.updateSchool(parseInt(id), req.body);
-        if (!school) {
-          return res.status(404).json({ message: "School not found" });
+        const roleId = parseInt(req.params.id);
+        const role = await storage.getUserRoleById(roleId);
+        if (!role) {
+          return res.status(404).json({ message: "Role not found" });
+        }
+
+        if (req.body.name && req.body.name !== role.name) {
+          if (BUILT_IN_ROLE_NAMES.includes(role.name)) {
+            return res
+              .status(400)
+              .json({ message: "Built-in roles cannot be renamed" });
+          }
+
+          const existing = await storage.getUserRoleByName(req.body.name);
+          if (existing) {
+            return res
+              .status(400)
+              .json({ message: "A role with this name already exists" });
+          }
+        }
+
+        if (
+          role.canManageUsers &&
+          req.body.canManageUsers === false &&
+          (await storage.countUserManagerRoles(roleId)) === 0
+        ) {
+          return res.status(400).json({
+            message: "At least one active role must be able to manage users",
+          });
         }
-        res.json(school);
+
+        const updatedRole = await storage.updateUserRole(roleId, req.body);
+        await recordAudit(req, {
+          action: "role:update",
+          entityType: "role",
+          entityId: roleId,
+          schoolId: null,
+          before: role,
+          after: updatedRole,
+        });
+        res.json(updatedRole);
       } catch (error) {
-        res.status(500).json({ message: "Failed to update school", error });
+        res.status(500).json({ message: "Failed to update role", error });
       }
     },
   );
 
-  app.delete(
-    "/api/schools/:id",
+  // Retiring keeps the role on existing users but hides it from new assignments
+  app.post(
+    "/api/user-roles/:id/retire",
     isAuthenticated,
-    requirePermission("manageSchools"),
+    requirePermission("user:manage"),
+    requireSuperadmin,
+    validateRequest(z.object({ retired: z.boolean() })),
     async (req, res) => {
       try {
-        const { id } = req.params;
-        const success = await storage.deleteSchool(parseInt(id));
-        if (!success) {
-          return res.status(404).json({ message: "School not found" });
+        const roleId = parseInt(req.params.id);
+        const role = await storage.getUserRoleById(roleId);
+        if (!role) {
+          return res.status(404).json({ message: "Role not found" });
         }
-        res.json({ message: "School deleted successfully" });
+
+        if (req.body.retired) {
+          if (BUILT_IN_ROLE_NAMES.includes(role.name)) {
+            return res
+              .status(400)
+              .json({ message: "Built-in roles cannot be retired" });
+          }
+
+          if (
+            role.canManageUsers &&
+            (await storage.countUserManagerRoles(roleId)) === 0
+          ) {
+            return res.status(400).json({
+              message: "At least one active role must be able to manage users",
+            });
+          }
+        }
+
+        const updatedRole = await storage.updateUserRole(roleId, {
+          isRetired: req.body.retired,
+        });
+        await recordAudit(req, {
+          action: req.body.retired ? "role:retire" : "role:restore",
+          entityType: "role",
+          entityId: roleId,
+          schoolId: null,
+          before: role,
+          after: updatedRole,
+        });
+        res.json(updatedRole);
       } catch (error) {
-        res.status(500).json({ message: "Failed to delete school", error });
+        res.status(500).json({ message: "Failed to retire role", error });
       }
     },
   );
 
-  // User roles endpoint (for admin management)
-  app.get(
-    "/api/user-roles",
+  app.delete(
+    "/api/user-roles/:id",
     isAuthenticated,
-    requirePermission("manageUsers"),
+    requirePermission("user:manage"),
+    requireSuperadmin,
     async (req, res) => {
       try {
-        const roles = await storage.getUserRoles();
-        res.json(roles);
+        const roleId = parseInt(req.params.id);
+        const role = await storage.getUserRoleById(roleId);
+        if (!role) {
+          return res.status(404).json({ message: "Role not found" });
+        }
+
+        if (BUILT_IN_ROLE_NAMES.includes(role.name)) {
+          return res
+            .status(400)
+            .json({ message: "Built-in roles cannot be deleted" });
+        }
+
+        const assignedUsers = await storage.countUsersWithRole(roleId);
+        if (assignedUsers > 0) {
+          return res.status(409).json({
+            message: `This role is still assigned to ${assignedUsers} user(s). Reassign them or retire the role instead.`,
+          });
+        }
+
+        if (
+          role.canManageUsers &&
+          !role.isRetired &&
+          (await storage.countUserManagerRoles(roleId)) === 0
+        ) {
+          return res.status(400).json({
+            message: "At least one active role must be able to manage users",
+          });
+        }
+
+        await storage.deleteUserRole(roleId);
+        await recordAudit(req, {
+          action: "role:delete",
+          entityType: "role",
+          entityId: roleId,
+          schoolId: null,
+          before: role,
+        });
+        res.json({ message: "Role deleted successfully" });
       } catch (error) {
-        res.status(500).json({ message: "Failed to fetch user roles", error });
+        res.status(500).json({ message: "Failed to delete role", error });
       }
     },
   );
@@ -762,6 +4294,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Superadmins can update any school; school admins only their own, e.g.
+  // to require approval before opportunities are published
   app.put(
     "/api/schools/:id",
     isAuthenticated,
@@ -769,14 +4303,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
       try {
         const { id } = req.params;
+        const userWithRole = await loadUserWithRole(req);
 
-        // Only allow superadmins to update any school, admins can only update their own school
-        if (req.user.role === "admin" && req.user.schoolId !== parseInt(id)) {
+        if (
+          !userWithRole ||
+          !can(toPolicyUser(userWithRole), "school:update", { id: parseInt(id) })
+        ) {
           return res
             .status(403)
             .json({ message: "You can only update your own school" });
         }
 
+        const before = await storage.getSchoolById(parseInt(id));
         const updatedSchool = await storage.updateSchool(
           parseInt(id),
           req.body,
@@ -786,6 +4324,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "School not found" });
         }
 
+        await recordAudit(req, {
+          action: "school:update",
+          entityType: "school",
+          entityId: updatedSchool.id,
+          schoolId: updatedSchool.id,
+          before,
+          after: updatedSchool,
+        });
         res.json(updatedSchool);
       } catch (error) {
         res.status(500).json({ message: "Failed to update school", error });
@@ -794,35 +4340,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
   );
 
   // Opportunity routes
+  // Published opportunities close once their deadline passes, so going live
+  // needs a deadline still to come
+  const DEADLINE_PASSED_MESSAGE =
+    "The application deadline has passed. Move it to a later date first.";
+
+  const sameSchools = (a?: number[] | null, b?: number[] | null) =>
+    [...(a ?? [])].sort().join(",") === [...(b ?? [])].sort().join(",");
+
+  // Which school owns an opportunity, who created it and which other
+  // schools see it can only be changed by users with global scope
+  const changesOwnership = (
+    current: Pick<Opportunity, "schoolId" | "createdById" | "visibleToSchools">,
+    updates: Partial<Pick<Opportunity, "schoolId" | "createdById" | "visibleToSchools">>,
+  ) =>
+    (updates.schoolId !== undefined && updates.schoolId !== current.schoolId) ||
+    (updates.createdById !== undefined &&
+      updates.createdById !== current.createdById) ||
+    (updates.visibleToSchools !== undefined &&
+      !sameSchools(updates.visibleToSchools, current.visibleToSchools));
+
+  const OWNERSHIP_CHANGE_MESSAGE =
+    "You cannot change which school or author an opportunity belongs to";
+
   app.post(
     "/api/opportunities",
     isAuthenticated,
-    requirePermission("createOpportunities"),
-    validateRequest(insertOpportunitySchema),
+    requirePermission("opportunity:create"),
+    validateRequest(
+      insertOpportunitySchema.extend({ submit: z.boolean().optional() }),
+    ),
     async (req, res) => {
       try {
         const userWithRole = (req as any).userWithRole;
+        const { submit, ...body } = req.body;
+
+        const canPublishGlobal = can(
+          toPolicyUser(userWithRole),
+          "opportunity:publishGlobal",
+        );
+
+        // Without global scope, opportunities belong to the user's school
+        if (
+          !canPublishGlobal &&
+          changesOwnership(
+            {
+              schoolId: userWithRole.schoolId,
+              createdById: userWithRole.id,
+              visibleToSchools: null,
+            },
+            body,
+          )
+        ) {
+          return res.status(403).json({ message: OWNERSHIP_CHANGE_MESSAGE });
+        }
 
         // Set the created by ID to the current user
         const opportunityData = {
-          ...req.body,
+          ...body,
           createdById: userWithRole.id,
         };
 
-        // If not superadmin, ensure schoolId is set to user's school
-        if (
-          userWithRole.roleName !== "superadmin" &&
-          !opportunityData.schoolId
-        ) {
+        if (!canPublishGlobal) {
           opportunityData.schoolId = userWithRole.schoolId;
         }
 
-        // Only superadmins can create global opportunities
-        if (userWithRole.roleName !== "superadmin") {
+        // Only users with global scope can create global opportunities
+        if (!canPublishGlobal) {
           opportunityData.isGlobal = false;
         }
 
-        const opportunity = await storage.createOpportunity(opportunityData);
+        if (submit && isPastDay(opportunityData.applicationDeadline)) {
+          return res.status(400).json({ message: DEADLINE_PASSED_MESSAGE });
+        }
+
+        // New opportunities start as drafts; submitting publishes them or
+        // sends them for review if the school requires approval
+        const status = submit
+          ? await submittedStatusFor(toPolicyUser(userWithRole), opportunityData)
+          : "draft";
+        const opportunity = await storage.createOpportunity(
+          opportunityData,
+          status,
+        );
+        await recordAudit(req, {
+          action: "opportunity:create",
+          entityType: "opportunity",
+          entityId: opportunity.id,
+          schoolId: opportunity.schoolId,
+          after: opportunity,
+        });
         res.status(201).json(opportunity);
       } catch (error) {
         res
@@ -832,16 +4439,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
-  app.get("/api/opportunities", isAuthenticated, async (req, res) => {
-    try {
-      // Get opportunities based on user role and school
-      const userId = (req.user as any).id;
-      console.log("Fetching opportunities for user ID:", userId);
+  // A filter given once arrives as a string and repeated as an array
+  const repeatedParam = z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : [value]));
+
+  const opportunityListQuerySchema = z
+    .object({
+      q: z.string().optional(),
+      industry: repeatedParam.optional(),
+      opportunityType: repeatedParam.optional(),
+      ageGroup: repeatedParam.optional(),
+      location: z.string().optional(),
+      startDate: z.coerce.date().optional(),
+      endDate: z.coerce.date().optional(),
+      ethnicityFocus: z.string().optional(),
+      genderFocus: z.string().optional(),
+      isVirtual: z
+        .enum(["true", "false"])
+        .transform((value) => value === "true")
+        .optional(),
+      createdById: z.coerce.number().int().optional(),
+      status: z
+        .union([z.enum(OPPORTUNITY_STATUSES), z.array(z.enum(OPPORTUNITY_STATUSES))])
+        .transform((value) => (Array.isArray(value) ? value : [value]))
+        .optional(),
+      sort: z.enum(OPPORTUNITY_SORTS).optional(),
+      lat: z.coerce.number().min(-90).max(90).optional(),
+      lng: z.coerce.number().min(-180).max(180).optional(),
+      cursor: z.string().optional(),
+      limit: z.coerce.number().int().min(1).max(100).default(20),
+    })
+    .refine(
+      (query) =>
+        query.sort !== "closest" ||
+        (query.lat !== undefined && query.lng !== undefined),
+      { message: "Sorting by closest needs lat and lng", path: ["sort"] },
+    );
 
-      const opportunities = await storage.getOpportunitiesForUser(userId);
-      console.log("Found opportunities:", opportunities.length);
+  // Both listing endpoints return one page of what the user can see, with
+  // the total and facet counts for the whole result
+  const sendOpportunityPage = async (req: Request, res: Response) => {
+    const parsed = opportunityListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res
+        .status(400)
+        .json({ message: "Invalid filters", details: parsed.error.errors });
+    }
+    const query = parsed.data;
+    const sort = query.sort ?? (query.q?.trim() ? "relevance" : "newest");
+
+    const cursor = query.cursor ? decodeOpportunityCursor(query.cursor) : undefined;
+    if (cursor === null || (cursor && cursor.sort !== sort)) {
+      return res
+        .status(400)
+        .json({ message: "Invalid cursor. Start again from the first page." });
+    }
+
+    const page = await listOpportunities(parseInt((req.user as any).id), {
+      query: query.q,
+      sort,
+      near:
+        query.lat !== undefined && query.lng !== undefined
+          ? { latitude: query.lat, longitude: query.lng }
+          : undefined,
+      cursor,
+      limit: query.limit,
+      filters: {
+        statuses: query.status,
+        industries: query.industry,
+        opportunityTypes: query.opportunityType,
+        ageGroups: query.ageGroup,
+        location: query.location,
+        startDate: query.startDate,
+        endDate: query.endDate,
+        ethnicityFocus: query.ethnicityFocus,
+        genderFocus: query.genderFocus,
+        isVirtual: query.isVirtual,
+        createdById: query.createdById,
+      },
+    });
+    res.json(page);
+  };
 
-      res.json(opportunities);
+  app.get("/api/opportunities", isAuthenticated, async (req, res) => {
+    try {
+      await sendOpportunityPage(req, res);
     } catch (error) {
       console.error("Error fetching opportunities:", error);
       res.status(500).json({
@@ -851,42 +4534,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/opportunities/search", async (req, res) => {
+  // Same as the list, kept for search clients; sorts by relevance by default
+  app.get("/api/opportunities/search", isAuthenticated, async (req, res) => {
     try {
-      const { query, ...filters } = req.query;
-
-      // Parse filter values
-      const parsedFilters: any = {};
-
-      if (filters.industry) parsedFilters.industry = filters.industry;
-      if (filters.ageGroup) {
-        parsedFilters.ageGroup = Array.isArray(filters.ageGroup)
-          ? filters.ageGroup
-          : [filters.ageGroup];
-      }
-      if (filters.location) parsedFilters.location = filters.location;
-      if (filters.startDate)
-        parsedFilters.startDate = new Date(filters.startDate as string);
-      if (filters.endDate)
-        parsedFilters.endDate = new Date(filters.endDate as string);
-      if (filters.ethnicityFocus)
-        parsedFilters.ethnicityFocus = filters.ethnicityFocus;
-      if (filters.genderFocus) parsedFilters.genderFocus = filters.genderFocus;
-      if (filters.isVirtual !== undefined)
-        parsedFilters.isVirtual = filters.isVirtual === "true";
-      if (filters.createdById)
-        parsedFilters.createdById = parseInt(filters.createdById as string);
-
-      // For demo purposes, we're removing authentication requirements
-      // In a production app, we would use req.user.schoolId and role here
-
-      const opportunities = await storage.searchOpportunities(
-        query ? String(query) : "",
-        parsedFilters,
-      );
-
-      res.json(opportunities);
+      await sendOpportunityPage(req, res);
     } catch (error) {
+      console.error("Error searching opportunities:", error);
       res
         .status(500)
         .json({ message: "Failed to search opportunities", error });
@@ -911,6 +4564,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Opportunities waiting for approval in the reviewer's school, or in
+  // every school for global editors
+  app.get(
+    "/api/opportunities/review-queue",
+    isAuthenticated,
+    requirePermission("opportunity:review"),
+    async (req, res) => {
+      try {
+        const userWithRole = (req as any).userWithRole;
+        const queue = await storage.getOpportunitiesPendingReview(
+          userWithRole.permissions.canEditAllOpportunities
+            ? undefined
+            : userWithRole.schoolId,
+        );
+        res.json(queue);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to fetch review queue", error });
+      }
+    },
+  );
+
   app.get("/api/opportunities/:id", async (req, res) => {
     try {
       const { id } = req.params;
@@ -933,13 +4609,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // In production, you would want to uncomment this code for proper access control
       /*
       if (req.isAuthenticated()) {
-        const userSchoolId = req.user.schoolId;
-        const canAccess = 
-          req.user.role === 'superadmin' || 
-          opportunity.schoolId === userSchoolId || 
-          opportunity.isGlobal || 
-          (opportunity.visibleToSchools && opportunity.visibleToSchools.includes(userSchoolId));
-        
+        const userWithRole = await loadUserWithRole(req);
+        const canAccess =
+          userWithRole &&
+          can(toPolicyUser(userWithRole), "opportunity:view", opportunity);
+
         if (!canAccess) {
           return res.status(403).json({ message: "You do not have access to this opportunity" });
         }
@@ -948,6 +4622,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       */
 
+      // Unpublished opportunities are only shown to people who can edit or
+      // review them; everyone else gets the same answer as a missing one
+      if (opportunity.status !== "published") {
+        const userWithRole = req.isAuthenticated()
+          ? await loadUserWithRole(req)
+          : null;
+        if (
+          !userWithRole ||
+          !can(toPolicyUser(userWithRole), "opportunity:view", opportunity)
+        ) {
+          return res.status(404).json({ message: "Opportunity not found" });
+        }
+      }
+
       res.json(opportunity);
     } catch (error) {
       console.error("Error fetching opportunity:", error);
@@ -958,7 +4646,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put(
     "/api/opportunities/:id",
     isAuthenticated,
-
+    // Status only changes through the workflow endpoints, so the schema
+    // leaves it out and unknown fields are refused
+    validateRequest(insertOpportunitySchema.partial().strict()),
     async (req, res) => {
       try {
         const { id } = req.params;
@@ -971,41 +4661,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has permission to update this opportunity
-        // Role IDs: 1=student, 2=teacher, 3=moderator, 4=admin, 5=superadmin
-        console.log("Permission check debug:");
-        console.log("User:", {
-          id: req.user.id,
-          roleId: req.user.roleId,
-          schoolId: req.user.schoolId,
-        });
-        console.log("Opportunity:", {
-          id: opportunity.id,
-          createdById: opportunity.createdById,
-          schoolId: opportunity.schoolId,
-        });
-
-        const hasPermission =
-          req.user.roleId === 5 || // superadmin
-          req.user.roleId === 4 || // admin
-          (req.user.roleId === 3 &&
-            req.user.schoolId === opportunity.schoolId) || // moderator from same school
-          (req.user.roleId === 2 &&
-            req.user.schoolId === opportunity.schoolId) || // teacher from same school
-          req.user.id === opportunity.createdById; // creator
-
-        console.log("Permission result:", hasPermission);
+        const userWithRole = await loadUserWithRole(req);
+        const policyUser = userWithRole ? toPolicyUser(userWithRole) : null;
 
-        if (!hasPermission) {
+        if (!can(policyUser, "opportunity:update", opportunity)) {
           return res.status(403).json({
             message: "You do not have permission to update this opportunity",
           });
         }
 
-        // Clean up the update data
-        const updateData = { ...req.body };
+        const updateData = req.body;
 
-        // Only superadmins can update global status
-        if (req.user.roleId !== 5 && updateData.isGlobal !== undefined) {
+        // Only users with global scope can update global status or move the
+        // opportunity to another school or author
+        if (!can(policyUser, "opportunity:publishGlobal")) {
+          if (changesOwnership(opportunity, updateData)) {
+            return res.status(403).json({ message: OWNERSHIP_CHANGE_MESSAGE });
+          }
           delete updateData.isGlobal;
         }
 
@@ -1021,6 +4693,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             updateData.applicationDeadline,
           );
         }
+        if (updateData.publishAt !== undefined) {
+          updateData.publishAt = updateData.publishAt
+            ? new Date(updateData.publishAt)
+            : null;
+        }
 
         // Handle empty strings for optional fields
         if (updateData.ethnicityFocus === "") updateData.ethnicityFocus = null;
@@ -1037,7 +4714,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         console.log(`Cleaned update data:`, updateData);
 
-        const updatedOpportunity = await storage.updateOpportunity(
+        let updatedOpportunity = await storage.updateOpportunity(
           parseInt(id),
           updateData,
         );
@@ -1049,6 +4726,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
 
+        // Changing an approved opportunity in a school that requires approval
+        // sends it back for review, unless the editor could approve it. The
+        // stored school decides, not anything in the update.
+        if (
+          (opportunity.status === "published" ||
+            opportunity.status === "scheduled") &&
+          (await submittedStatusFor(policyUser!, opportunity)) ===
+            "pending_review"
+        ) {
+          updatedOpportunity =
+            (await storage.setOpportunityStatus(
+              updatedOpportunity.id,
+              "pending_review",
+            )) ?? updatedOpportunity;
+        }
+
+        await recordAudit(req, {
+          action: "opportunity:update",
+          entityType: "opportunity",
+          entityId: updatedOpportunity.id,
+          schoolId: updatedOpportunity.schoolId,
+          before: opportunity,
+          after: updatedOpportunity,
+        });
+
+        // Extra places go to the waitlist. Cutting places doesn't take them
+        // from students who already have one.
+        if (updatedOpportunity.numberOfSpaces !== opportunity.numberOfSpaces) {
+          const promoted = await storage.promoteWaitlisted(updatedOpportunity.id);
+          await notifyPromotedStudents(req, updatedOpportunity, promoted);
+        }
+
         console.log(`Successfully updated opportunity ${id}`);
         res.json(updatedOpportunity);
       } catch (error: any) {
@@ -1075,20 +4784,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has permission to delete this opportunity
-        const hasPermission =
-          req.user.role === "superadmin" ||
-          req.user.role === "admin" ||
-          (req.user.role === "moderator" &&
-            req.user.schoolId === opportunity.schoolId) ||
-          req.user.id === opportunity.createdById;
-
-        if (!hasPermission) {
+        const userWithRole = await loadUserWithRole(req);
+        if (
+          !userWithRole ||
+          !can(toPolicyUser(userWithRole), "opportunity:delete", opportunity)
+        ) {
           return res.status(403).json({
             message: "You do not have permission to delete this opportunity",
           });
         }
 
         await storage.deleteOpportunity(parseInt(id));
+        await recordAudit(req, {
+          action: "opportunity:delete",
+          entityType: "opportunity",
+          entityId: opportunity.id,
+          schoolId: opportunity.schoolId,
+          before: opportunity,
+        });
         res.json({ message: "Opportunity deleted successfully" });
       } catch (error) {
         res
@@ -1098,6 +4811,205 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Moves an opportunity through its lifecycle for anyone who can edit it
+  const transitionOpportunity =
+    (transition: OpportunityTransition) => async (req: Request, res: Response) => {
+      try {
+        const opportunity = await storage.getOpportunityById(
+          parseInt(req.params.id),
+        );
+        if (!opportunity) {
+          return res.status(404).json({ message: "Opportunity not found" });
+        }
+
+        const userWithRole = await loadUserWithRole(req);
+        const policyUser = userWithRole ? toPolicyUser(userWithRole) : null;
+        if (!can(policyUser, "opportunity:update", opportunity)) {
+          return res.status(403).json({
+            message: "You do not have permission to update this opportunity",
+          });
+        }
+
+        const allowedFrom: string[] = OPPORTUNITY_TRANSITIONS[transition];
+        if (!allowedFrom.includes(opportunity.status)) {
+          return res.status(400).json({
+            message: `Can't ${transition} an opportunity that is ${opportunity.status.replace("_", " ")}`,
+          });
+        }
+
+        if (
+          (transition === "submit" || transition === "reopen") &&
+          isPastDay(opportunity.applicationDeadline)
+        ) {
+          return res.status(400).json({ message: DEADLINE_PASSED_MESSAGE });
+        }
+
+        const status = await nextOpportunityStatus(
+          transition,
+          policyUser!,
+          opportunity,
+        );
+        const updatedOpportunity = await storage.setOpportunityStatus(
+          opportunity.id,
+          status,
+        );
+
+        await recordAudit(req, {
+          action: `opportunity:${transition}`,
+          entityType: "opportunity",
+          entityId: opportunity.id,
+          schoolId: opportunity.schoolId,
+          before: { status: opportunity.status },
+          after: { status },
+        });
+        res.json(updatedOpportunity);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to update opportunity status", error });
+      }
+    };
+
+  app.post(
+    "/api/opportunities/:id/submit",
+    isAuthenticated,
+    transitionOpportunity("submit"),
+  );
+  app.post(
+    "/api/opportunities/:id/withdraw",
+    isAuthenticated,
+    transitionOpportunity("withdraw"),
+  );
+  app.post(
+    "/api/opportunities/:id/close",
+    isAuthenticated,
+    transitionOpportunity("close"),
+  );
+  app.post(
+    "/api/opportunities/:id/reopen",
+    isAuthenticated,
+    transitionOpportunity("reopen"),
+  );
+  app.post(
+    "/api/opportunities/:id/archive",
+    isAuthenticated,
+    transitionOpportunity("archive"),
+  );
+
+  // Approve an opportunity waiting for review, or send it back to its
+  // author as a draft with a comment
+  app.post(
+    "/api/opportunities/:id/review",
+    isAuthenticated,
+    validateRequest(
+      z
+        .object({
+          decision: z.enum(["approve", "request_changes"]),
+          comment: z.string().trim().max(2000).optional(),
+        })
+        .refine(
+          (body) => body.decision === "approve" || !!body.comment,
+          { message: "Say what needs to change", path: ["comment"] },
+        ),
+    ),
+    async (req, res) => {
+      try {
+        const opportunity = await storage.getOpportunityById(
+          parseInt(req.params.id),
+        );
+        if (!opportunity) {
+          return res.status(404).json({ message: "Opportunity not found" });
+        }
+
+        const userWithRole = await loadUserWithRole(req);
+        if (
+          !userWithRole ||
+          !can(toPolicyUser(userWithRole), "opportunity:review", opportunity)
+        ) {
+          return res.status(403).json({
+            message: "You do not have permission to review this opportunity",
+          });
+        }
+        if (opportunity.status !== "pending_review") {
+          return res
+            .status(400)
+            .json({ message: "This opportunity isn't waiting for review" });
+        }
+
+        const approved = req.body.decision === "approve";
+        const comment = req.body.comment || null;
+        const updatedOpportunity = await storage.setOpportunityStatus(
+          opportunity.id,
+          approved ? liveStatusFor(opportunity) : "draft",
+          {
+            reviewerId: userWithRole.id,
+            decision: approved ? "approved" : "changes_requested",
+            comment,
+          },
+        );
+
+        await recordAudit(req, {
+          action: approved ? "opportunity:approve" : "opportunity:requestChanges",
+          entityType: "opportunity",
+          entityId: opportunity.id,
+          schoolId: opportunity.schoolId,
+          before: { status: opportunity.status },
+          after: { status: updatedOpportunity?.status, comment },
+        });
+
+        const author = opportunity.createdById
+          ? await storage.getUserById(opportunity.createdById)
+          : undefined;
+        if (author?.isActive) {
+          await sendOpportunityReviewEmail(
+            author.email,
+            author.firstName,
+            opportunity.title,
+            approved,
+            `${getAppBaseUrl()}/opportunities/${opportunity.id}`,
+            comment,
+            updatedOpportunity?.status === "scheduled"
+              ? updatedOpportunity.publishAt
+              : null,
+          );
+        }
+
+        res.json(updatedOpportunity);
+      } catch (error) {
+        res
+          .status(500)
+          .json({ message: "Failed to review opportunity", error });
+      }
+    },
+  );
+
+  // Review history, for the author and reviewers
+  app.get("/api/opportunities/:id/reviews", isAuthenticated, async (req, res) => {
+    try {
+      const opportunity = await storage.getOpportunityById(
+        parseInt(req.params.id),
+      );
+      if (!opportunity) {
+        return res.status(404).json({ message: "Opportunity not found" });
+      }
+
+      const userWithRole = await loadUserWithRole(req);
+      const policyUser = userWithRole ? toPolicyUser(userWithRole) : null;
+      if (
+        !can(policyUser, "opportunity:update", opportunity) &&
+        !can(policyUser, "opportunity:review", opportunity)
+      ) {
+        return res.status(403).json({
+          message: "You do not have permission to see this opportunity's reviews",
+        });
+      }
+
+      res.json(await storage.getOpportunityReviews(opportunity.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviews", error });
+    }
+  });
+
   // Student interest routes
   app.post(
     "/api/student-interests",
@@ -1126,32 +5038,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!opportunity) {
           return res.status(404).json({ message: "Opportunity not found" });
         }
+        if (opportunity.status !== "published") {
+          return res
+            .status(400)
+            .json({ message: "This opportunity isn't taking registrations" });
+        }
 
         // Get full user data to check access
-        const currentUser = await storage.getUserById(
-          parseInt((req.user as any).id),
-        );
+        const currentUser = await loadUserWithRole(req);
         if (!currentUser) {
           return res.status(401).json({ message: "User not found" });
         }
 
         // Check if student has access to this opportunity
-        const userSchoolId = currentUser.schoolId;
-        const canAccess =
-          opportunity.schoolId === userSchoolId ||
-          opportunity.isGlobal ||
-          (opportunity.visibleToSchools &&
-            userSchoolId &&
-            opportunity.visibleToSchools.includes(userSchoolId));
-
-        if (!canAccess) {
+        if (!can(toPolicyUser(currentUser), "interest:create", opportunity)) {
           return res
             .status(403)
             .json({ message: "You do not have access to this opportunity" });
         }
 
-        const interest = await storage.registerInterest(interestData);
-        res.status(201).json(interest);
+        // Registering twice returns the existing row; only notify the first time
+        const alreadyRegistered = (
+          await storage.getInterestsByStudentId(interestData.studentId)
+        ).some((existing) => existing.opportunityId === opportunity.id);
+
+        // Flagged activities hold the place until a guardian approves it.
+        // Once the opportunity is full the student is waitlisted instead.
+        const interest = await storage.registerInterest({
+          ...interestData,
+          status: opportunity.requiresGuardianConsent
+            ? "pending_consent"
+            : "registered",
+        });
+
+        // Let the student's guardians know, asking for consent where needed.
+        // Waitlisted students' guardians hear once a place comes up.
+        if (!alreadyRegistered && interest.status === "pending_consent") {
+          await sendConsentRequests(req, currentUser, opportunity, interest);
+        } else if (!alreadyRegistered && interest.status === "registered") {
+          await sendGuardianRegistrationNotices(req, currentUser, opportunity);
+        }
+
+        res.status(201).json({
+          ...interest,
+          waitlistPosition: await storage.getWaitlistPosition(interest),
+        });
       } catch (error) {
         res.status(500).json({ message: "Failed to register interest", error });
       }
@@ -1167,7 +5098,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { opportunityId } = req.params;
         const studentId = parseInt((req.user as any).id);
 
-        await storage.unregisterInterest(studentId, parseInt(opportunityId));
+        const promoted = await storage.unregisterInterest(
+          studentId,
+          parseInt(opportunityId),
+        );
+        if (promoted.length > 0) {
+          const opportunity = await storage.getOpportunityById(
+            parseInt(opportunityId),
+          );
+          if (opportunity) {
+            await notifyPromotedStudents(req, opportunity, promoted);
+          }
+        }
         res.json({ message: "Interest unregistered successfully" });
       } catch (error) {
         res
@@ -1194,7 +5136,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const studentId = parseInt((req.user as any).id);
 
         const interests = await storage.getInterestsByStudentId(studentId);
-        res.json(interests);
+        res.json(
+          await Promise.all(
+            interests.map(async (interest) => ({
+              ...interest,
+              waitlistPosition: await storage.getWaitlistPosition(interest),
+            })),
+          ),
+        );
       } catch (error) {
         console.error("Error in student interests endpoint:", error);
         res.status(500).json({
@@ -1223,26 +5172,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has permission to view interests for this opportunity
-        const user = await storage.getUserById(parseInt((req.user as any).id));
+        const user = await loadUserWithRole(req);
         if (!user) {
           return res.status(404).json({ message: "User not found" });
         }
 
-        // Get user role to check permissions
-        const userRoles = await storage.getUserRoles();
-        const roleData = userRoles.find((role) => role.id === user.roleId);
-
-        if (!roleData) {
-          return res.status(403).json({ message: "Role not found" });
-        }
-
-        const hasPermission =
-          roleData.canEditAllOpportunities ||
-          (roleData.canViewAttendees &&
-            user.schoolId === opportunity.schoolId) ||
-          user.id === opportunity.createdById;
-
-        if (!hasPermission) {
+        if (!can(toPolicyUser(user), "opportunity:viewAttendees", opportunity)) {
           return res.status(403).json({
             message:
               "You do not have permission to view interests for this opportunity",
@@ -1254,13 +5189,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
             parseInt(opportunityId),
           );
 
-        // Remove passwords before sending response
-        const studentsWithoutPasswords = interestedStudents.map((student) => {
-          const { password, ...studentWithoutPassword } = student;
-          return studentWithoutPassword;
-        });
+        // Waitlisted students in the order places are handed out
+        const waitlist = interestedStudents
+          .filter((student) => student.status === "waitlisted")
+          .sort(
+            (a, b) =>
+              a.registrationDate.getTime() - b.registrationDate.getTime() ||
+              a.interestId - b.interestId,
+          );
 
-        res.json(studentsWithoutPasswords);
+        const students = interestedStudents.map((student) => ({
+          ...toPublicUser(student),
+          consentState: getConsentState(opportunity, student),
+          waitlistPosition:
+            student.status === "waitlisted"
+              ? waitlist.indexOf(student) + 1
+              : null,
+        }));
+
+        res.json(students);
       } catch (error) {
         res
           .status(500)
@@ -1299,27 +5246,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Get user with permissions
-        const user = await storage.getUserById(parseInt((req.user as any).id));
+        const user = await loadUserWithRole(req);
         if (!user) {
           return res.status(401).json({ message: "User not found" });
         }
 
-        // Get user role to check permissions
-        const userRoles = await storage.getUserRoles();
-        const roleData = userRoles.find((role) => role.id === user.roleId);
-
-        if (!roleData) {
-          return res.status(403).json({ message: "Role not found" });
-        }
-
         // Check if user has permission to download CSV for this opportunity
-        const hasPermission =
-          roleData.canEditAllOpportunities ||
-          (roleData.canViewAttendees &&
-            user.schoolId === opportunity.schoolId) ||
-          user.id === opportunity.createdById;
-
-        if (!hasPermission) {
+        if (!can(toPolicyUser(user), "opportunity:viewAttendees", opportunity)) {
           return res.status(403).json({
             message:
               "You do not have permission to download attendees for this opportunity",
@@ -1338,16 +5271,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           "Username",
           "School",
           "Registration Date",
+          "Guardian Consent",
         ];
         const csvRows = [headers.join(",")];
 
+        // Waitlisted students, and those still waiting on (or refused)
+        // guardian consent, are left out
         for (const student of interestedStudents) {
+          const consentState = getConsentState(opportunity, student);
+          if (
+            student.status === "waitlisted" ||
+            (consentState !== "not_required" && consentState !== "approved")
+          ) {
+            continue;
+          }
+
           const row = [
             `"${student.firstName} ${student.lastName}"`,
             `"${student.email}"`,
             `"${student.username}"`,
             `"${student.school?.name || "N/A"}"`,
             `"${new Date(student.registrationDate || new Date()).toLocaleDateString()}"`,
+            `"${consentState === "approved" ? "Approved" : "Not required"}"`,
           ];
           csvRows.push(row.join(","));
         }
@@ -1397,30 +5342,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Get current user with permissions
-        const currentUser = await storage.getUserById(parseInt(req.user!.id));
+        const currentUser = await loadUserWithRole(req);
         if (!currentUser) {
           return res.status(401).json({ message: "User not found" });
         }
 
-        // Get user role to check permissions
-        const userRoles = await storage.getUserRoles();
-        const roleData = userRoles.find(
-          (role) => role.id === currentUser.roleId,
-        );
-
-        if (!roleData) {
-          return res.status(403).json({ message: "Role not found" });
-        }
-
         // Check if user has permission to add documents to this opportunity
-        const hasPermission =
-          roleData.canEditAllOpportunities ||
-          (roleData.canUploadDocuments &&
-            currentUser.schoolId === opportunity.schoolId) ||
-          (roleData.canUploadDocuments &&
-            currentUser.id === opportunity.createdById);
-
-        if (!hasPermission) {
+        if (!can(toPolicyUser(currentUser), "document:upload", opportunity)) {
           return res.status(403).json({
             message:
               "You do not have permission to add documents to this opportunity",
@@ -1460,6 +5388,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
 
         const document = await storage.addDocument(documentData);
+        await recordAudit(req, {
+          action: "document:upload",
+          entityType: "document",
+          entityId: document.id,
+          schoolId: opportunity.schoolId,
+          after: document,
+        });
 
         res.status(201).json({
           ...document,
@@ -1499,28 +5434,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get current user
-      const currentUser = await storage.getUserById(parseInt(req.user!.id));
+      const currentUser = await loadUserWithRole(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Get user role to check permissions
-      const userRoles = await storage.getUserRoles();
-      const roleData = userRoles.find((role) => role.id === currentUser.roleId);
-
-      if (!roleData) {
-        return res.status(403).json({ message: "Role not found" });
-      }
-
       // Check if user has access to this opportunity
-      const canAccess =
-        roleData.canViewOpportunities &&
-        (opportunity.isGlobal ||
-          currentUser.schoolId === opportunity.schoolId ||
-          (opportunity.visibleToSchools &&
-            opportunity.visibleToSchools.includes(currentUser.schoolId!)));
-
-      if (!canAccess) {
+      if (
+        !can(toPolicyUser(currentUser), "document:view", {
+          uploadedById: document.uploadedById,
+          opportunity,
+        })
+      ) {
         return res
           .status(403)
           .json({ message: "You do not have access to this document" });
@@ -1601,21 +5526,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { opportunityId } = req.params;
 
         // Get current user from database
-        const currentUser = await storage.getUserById(parseInt(req.user!.id));
+        const currentUser = await loadUserWithRole(req);
         if (!currentUser) {
           return res.status(401).json({ message: "User not found" });
         }
 
-        // Get user role to check permissions
-        const userRoles = await storage.getUserRoles();
-        const roleData = userRoles.find(
-          (role) => role.id === currentUser.roleId,
-        );
-
-        if (!roleData) {
-          return res.status(403).json({ message: "Role not found" });
-        }
-
         // Check if opportunity exists and user has access
         const opportunity = await storage.getOpportunityById(
           parseInt(opportunityId),
@@ -1626,15 +5541,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has access to this opportunity based on role permissions
-        const canAccess =
-          roleData.name === "superadmin" ||
-          opportunity.schoolId === currentUser.schoolId ||
-          opportunity.isGlobal ||
-          (opportunity.visibleToSchools &&
-            currentUser.schoolId &&
-            opportunity.visibleToSchools.includes(currentUser.schoolId));
-
-        if (!canAccess) {
+        if (!can(toPolicyUser(currentUser), "opportunity:view", opportunity)) {
           return res
             .status(403)
             .json({ message: "You do not have access to this opportunity" });
@@ -1664,19 +5571,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get current user with permissions
-      const currentUser = await storage.getUserById(parseInt(req.user!.id));
+      const currentUser = await loadUserWithRole(req);
       if (!currentUser) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      // Get user role to check permissions
-      const userRoles = await storage.getUserRoles();
-      const roleData = userRoles.find((role) => role.id === currentUser.roleId);
-
-      if (!roleData) {
-        return res.status(403).json({ message: "Role not found" });
-      }
-
       // Check if user has permission to delete this document
       const opportunity = await storage.getOpportunityById(
         document.opportunityId,
@@ -1685,15 +5584,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Opportunity not found" });
       }
 
-      const hasPermission =
-        roleData.canEditAllOpportunities ||
-        (roleData.canEditSchoolOpportunities &&
-          currentUser.schoolId === opportunity.schoolId) ||
-        (roleData.canEditOwnOpportunities &&
-          currentUser.id === opportunity.createdById) ||
-        currentUser.id === document.uploadedById; // Document uploader can delete their own documents
-
-      if (!hasPermission) {
+      // Document uploaders can always delete their own documents
+      if (
+        !can(toPolicyUser(currentUser), "document:delete", {
+          uploadedById: document.uploadedById,
+          opportunity,
+        })
+      ) {
         return res.status(403).json({
           message: "You do not have permission to delete this document",
         });
@@ -1715,6 +5612,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       await storage.deleteDocument(parseInt(id));
+      await recordAudit(req, {
+        action: "document:delete",
+        entityType: "document",
+        entityId: document.id,
+        schoolId: opportunity.schoolId,
+        before: document,
+      });
       res.json({ message: "Document deleted successfully" });
     } catch (error) {
       console.error("Document deletion error:", error);
@@ -1735,13 +5639,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { opportunityId, message } = req.body;
 
         // Get current user
-        const currentUser = await storage.getUserById(parseInt(req.user!.id));
+        const currentUser = await loadUserWithRole(req);
         if (!currentUser) {
           return res.status(401).json({ message: "User not found" });
         }
 
+        // Application forms are emailed, so the address must be confirmed first
+        if (!currentUser.emailVerified) {
+          return res.status(403).json({
+            message:
+              "Please verify your email address before requesting application forms",
+            code: "EMAIL_NOT_VERIFIED",
+          });
+        }
+
         // Only students can request forms
-        if (!currentUser.permissions?.canViewOpportunities) {
+        if (!can(toPolicyUser(currentUser), "opportunity:view")) {
           return res
             .status(403)
             .json({ message: "Only students can request application forms" });
@@ -1754,13 +5667,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has access to this opportunity
-        const canAccess =
-          opportunity.isGlobal ||
-          currentUser.schoolId === opportunity.schoolId ||
-          (opportunity.visibleToSchools &&
-            opportunity.visibleToSchools.includes(currentUser.schoolId!));
-
-        if (!canAccess) {
+        if (!can(toPolicyUser(currentUser), "opportunity:view", opportunity)) {
           return res
             .status(403)
             .json({ message: "You do not have access to this opportunity" });
@@ -1888,7 +5795,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req, res) => {
       try {
         const { opportunityId } = req.params;
-        const currentUser = await storage.getUserById(parseInt(req.user!.id));
+        const currentUser = await loadUserWithRole(req);
         if (!currentUser) {
           return res.status(401).json({ message: "User not found" });
         }
@@ -1902,14 +5809,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has permission to view form requests for this opportunity
-        const hasPermission =
-          currentUser.permissions?.canEditAllOpportunities ||
-          (currentUser.permissions?.canEditSchoolOpportunities &&
-            currentUser.schoolId === opportunity.schoolId) ||
-          (currentUser.permissions?.canEditOwnOpportunities &&
-            currentUser.id === opportunity.createdById);
-
-        if (!hasPermission) {
+        if (!can(toPolicyUser(currentUser), "opportunity:update", opportunity)) {
           return res.status(403).json({
             message:
               "You do not have permission to view form requests for this opportunity",
@@ -1934,27 +5834,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     "/api/news",
     isAuthenticated,
-
+    requirePermission("news:create"),
     validateRequest(insertNewsPostSchema),
     async (req, res) => {
       try {
+        const userWithRole = (req as any).userWithRole;
+        const canPublishGlobal = can(
+          toPolicyUser(userWithRole),
+          "news:publishGlobal",
+        );
+
         // Set the author ID to the current user
         const postData = {
           ...req.body,
-          authorId: req.user.id,
+          authorId: userWithRole.id,
         };
 
-        // If not superadmin, ensure schoolId is set to user's school
-        if (req.user.role !== "superadmin" && !postData.schoolId) {
-          postData.schoolId = req.user.schoolId;
+        // Without global scope, ensure schoolId is set to user's school
+        if (!canPublishGlobal && !postData.schoolId) {
+          postData.schoolId = userWithRole.schoolId;
         }
 
-        // Only superadmins can create global news posts
-        if (req.user.role !== "superadmin") {
+        // Only users with global scope can create global news posts
+        if (!canPublishGlobal) {
           postData.isGlobal = false;
         }
 
         const post = await storage.createNewsPost(postData);
+        await recordAudit(req, {
+          action: "news:create",
+          entityType: "news",
+          entityId: post.id,
+          schoolId: post.schoolId,
+          after: post,
+        });
         res.status(201).json(post);
       } catch (error) {
         res.status(500).json({ message: "Failed to create news post", error });
@@ -1983,13 +5896,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Check if user has access to this post
-      const userSchoolId = req.user.schoolId;
-      const canAccess =
-        req.user.role === "superadmin" ||
-        post.schoolId === userSchoolId ||
-        post.isGlobal;
-
-      if (!canAccess) {
+      const userWithRole = await loadUserWithRole(req);
+      if (!userWithRole || !can(toPolicyUser(userWithRole), "news:view", post)) {
         return res
           .status(403)
           .json({ message: "You do not have access to this news post" });
@@ -2015,19 +5923,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has permission to update this post
-        const hasPermission =
-          req.user.role === "superadmin" ||
-          (req.user.role === "admin" && req.user.schoolId === post.schoolId) ||
-          req.user.id === post.authorId;
+        const userWithRole = await loadUserWithRole(req);
+        const policyUser = userWithRole ? toPolicyUser(userWithRole) : null;
 
-        if (!hasPermission) {
+        if (!can(policyUser, "news:update", post)) {
           return res.status(403).json({
             message: "You do not have permission to update this news post",
           });
         }
 
-        // Only superadmins can update global status
-        if (req.user.role !== "superadmin" && req.body.isGlobal !== undefined) {
+        // Only users with global scope can update global status
+        if (
+          !can(policyUser, "news:publishGlobal") &&
+          req.body.isGlobal !== undefined
+        ) {
           delete req.body.isGlobal;
         }
 
@@ -2035,6 +5944,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           parseInt(id),
           req.body,
         );
+        await recordAudit(req, {
+          action: "news:update",
+          entityType: "news",
+          entityId: post.id,
+          schoolId: post.schoolId,
+          before: post,
+          after: updatedPost,
+        });
         res.json(updatedPost);
       } catch (error) {
         res.status(500).json({ message: "Failed to update news post", error });
@@ -2056,18 +5973,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has permission to delete this post
-        const hasPermission =
-          req.user.role === "superadmin" ||
-          (req.user.role === "admin" && req.user.schoolId === post.schoolId) ||
-          req.user.id === post.authorId;
-
-        if (!hasPermission) {
+        const userWithRole = await loadUserWithRole(req);
+        if (
+          !userWithRole ||
+          !can(toPolicyUser(userWithRole), "news:delete", post)
+        ) {
           return res.status(403).json({
             message: "You do not have permission to delete this news post",
           });
         }
 
         await storage.deleteNewsPost(parseInt(id));
+        await recordAudit(req, {
+          action: "news:delete",
+          entityType: "news",
+          entityId: post.id,
+          schoolId: post.schoolId,
+          before: post,
+        });
         res.json({ message: "News post deleted successfully" });
       } catch (error) {
         res.status(500).json({ message: "Failed to delete news post", error });
@@ -2099,14 +6022,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if student has access to this opportunity
-        const userSchoolId = req.user.schoolId;
-        const canAccess =
-          opportunity.schoolId === userSchoolId ||
-          opportunity.isGlobal ||
-          (opportunity.visibleToSchools &&
-            opportunity.visibleToSchools.includes(userSchoolId));
-
-        if (!canAccess) {
+        const userWithRole = await loadUserWithRole(req);
+        if (
+          !userWithRole ||
+          !can(toPolicyUser(userWithRole), "opportunity:view", opportunity)
+        ) {
           return res
             .status(403)
             .json({ message: "You do not have access to this opportunity" });
@@ -2122,17 +6042,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/form-requests/student", isAuthenticated, async (req, res) => {
     try {
-      // Students can only see their own form requests
-      const studentId =
-        req.user.role === "student"
-          ? req.user.id
-          : parseInt(req.query.studentId as string);
+      // Students see their own form requests unless another student is asked for
+      const currentUserId = parseInt((req.user as any).id);
+      const studentId = req.query.studentId
+        ? parseInt(req.query.studentId as string)
+        : currentUserId;
 
       // Admins and teachers can view form requests for students in their school
-      if (req.user.role !== "student" && req.user.role !== "superadmin") {
+      if (studentId !== currentUserId) {
+        const userWithRole = await loadUserWithRole(req);
         const student = await storage.getUserById(studentId);
 
-        if (!student || student.schoolId !== req.user.schoolId) {
+        if (
+          !userWithRole ||
+          !student ||
+          !can(toPolicyUser(userWithRole), "user:view", student)
+        ) {
           return res
             .status(403)
             .json({ message: "You can only view students from your school" });
@@ -2164,13 +6089,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check if user has permission to view form requests for this opportunity
-        const hasPermission =
-          req.user.role === "superadmin" ||
-          (req.user.role === "admin" &&
-            req.user.schoolId === opportunity.schoolId) ||
-          req.user.id === opportunity.createdById;
-
-        if (!hasPermission) {
+        const userWithRole = await loadUserWithRole(req);
+        if (
+          !userWithRole ||
+          !can(toPolicyUser(userWithRole), "opportunity:update", opportunity)
+        ) {
           return res.status(403).json({
             message:
               "You do not have permission to view form requests for this opportunity",
@@ -2283,7 +6206,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     "/api/settings",
     isAuthenticated,
-
+    requirePermission("settings:manage"),
     validateRequest(insertSystemSettingSchema),
     async (req, res) => {
       try {
@@ -2293,7 +6216,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           updatedById: req.user.id,
         };
 
+        const before = await storage.getSetting(settingData.key);
         const setting = await storage.setSetting(settingData);
+        // System settings apply to every school
+        await recordAudit(req, {
+          action: "setting:update",
+          entityType: "setting",
+          entityId: setting.key,
+          schoolId: null,
+          before: before ? { value: before.value } : null,
+          after: { value: setting.value },
+        });
         res.status(201).json(setting);
       } catch (error) {
         res.status(500).json({ message: "Failed to set setting", error });
@@ -2301,6 +6234,364 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   );
 
+  // Roster sync from a school information system (OneRoster 1.1 CSV).
+  // Bundles can also be picked up on a schedule, see startRosterSyncSchedule.
+  app.post(
+    "/api/roster-sync",
+    isAuthenticated,
+    requirePermission("school:manage"),
+    rosterUpload.array("files", 10),
+    async (req, res) => {
+      try {
+        const uploaded = (req.files as Express.Multer.File[]) || [];
+        const files = await collectRosterFiles(
+          uploaded.map((file) => ({
+            name: file.originalname,
+            buffer: file.buffer,
+          })),
+        );
+        if (!files.size) {
+          return res.status(400).json({
+            message:
+              "Upload a OneRoster zip or its CSV files (orgs.csv, users.csv, classes.csv, enrollments.csv)",
+          });
+        }
+
+        const run = await syncRoster(files, {
+          trigger: "upload",
+          source: uploaded.map((file) => file.originalname).join(", "),
+          triggeredById: parseInt((req.user as any).id),
+        });
+
+        await recordAudit(req, {
+          action: "roster:sync",
+          entityType: "roster",
+          entityId: run.id,
+          schoolId: null,
+          after: { status: run.status, summary: run.summary, error: run.error },
+        });
+
+        // The run is returned either way; a failed one carries its error
+        const { changes, ...runWithoutChanges } = run;
+        res.json(runWithoutChanges);
+      } catch (error) {
+        console.error("Roster sync error:", error);
+        res.status(500).json({ message: "Failed to sync roster" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/roster-sync/runs",
+    isAuthenticated,
+    requirePermission("school:manage"),
+    async (req, res) => {
+      try {
+        const runs = await storage.getRosterSyncRuns();
+        res.json(runs);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch sync history", error });
+      }
+    },
+  );
+
+  app.get(
+    "/api/roster-sync/runs/:id",
+    isAuthenticated,
+    requirePermission("school:manage"),
+    async (req, res) => {
+      try {
+        const run = await storage.getRosterSyncRunById(parseInt(req.params.id));
+        if (!run) {
+          return res.status(404).json({ message: "Sync run not found" });
+        }
+        res.json(run);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch sync run", error });
+      }
+    },
+  );
+
+  // Password policy, stored as one JSON system setting
+  app.get(
+    "/api/password-policy",
+    isAuthenticated,
+    requirePermission("settings:manage"),
+    async (req, res) => {
+      try {
+        res.json(await getPasswordPolicy());
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch password policy", error });
+      }
+    },
+  );
+
+  app.put(
+    "/api/password-policy",
+    isAuthenticated,
+    requirePermission("settings:manage"),
+    validateRequest(passwordPolicySchema),
+    async (req, res) => {
+      try {
+        const before = await getPasswordPolicy();
+        await savePasswordPolicy(req.body, parseInt((req.user as any).id));
+
+        await recordAudit(req, {
+          action: "setting:update",
+          entityType: "setting",
+          entityId: PASSWORD_POLICY_SETTING_KEY,
+          schoolId: null,
+          before,
+          after: req.body,
+        });
+
+        res.json(req.body);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to save password policy", error });
+      }
+    },
+  );
+
+  // Data retention: how long each kind of data is kept, a preview of what a
+  // purge would remove, and the log of purges. Purges also run on a
+  // schedule, see startRetentionSchedule.
+  app.get(
+    "/api/retention/rules",
+    isAuthenticated,
+    requirePermission("retention:manage"),
+    async (req, res) => {
+      try {
+        res.json({
+          rules: await getRetentionRules(),
+          defaults: DEFAULT_RETENTION_RULES,
+        });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch retention rules", error });
+      }
+    },
+  );
+
+  app.put(
+    "/api/retention/rules",
+    isAuthenticated,
+    requirePermission("retention:manage"),
+    validateRequest(retentionRulesSchema),
+    async (req, res) => {
+      try {
+        const before = await getRetentionRules();
+        await saveRetentionRules(req.body, parseInt((req.user as any).id));
+
+        await recordAudit(req, {
+          action: "retention:update",
+          entityType: "setting",
+          entityId: RETENTION_SETTING_KEY,
+          schoolId: null,
+          before,
+          after: req.body,
+        });
+
+        res.json({ rules: req.body });
+      } catch (error) {
+        res.status(500).json({ message: "Failed to save retention rules", error });
+      }
+    },
+  );
+
+  // Previews the rules in the body, so changes can be checked before saving
+  app.post(
+    "/api/retention/preview",
+    isAuthenticated,
+    requirePermission("retention:manage"),
+    validateRequest(retentionRulesSchema),
+    async (req, res) => {
+      try {
+        res.json(await previewRetention(req.body));
+      } catch (error) {
+        console.error("Retention preview error:", error);
+        res.status(500).json({ message: "Failed to preview retention" });
+      }
+    },
+  );
+
+  app.post(
+    "/api/retention/runs",
+    isAuthenticated,
+    requirePermission("retention:manage"),
+    async (req, res) => {
+      try {
+        const run = await runRetention({
+          trigger: "manual",
+          triggeredById: parseInt((req.user as any).id),
+        });
+        if (!run) {
+          return res
+            .status(409)
+            .json({ message: "A purge is already running. Try again shortly." });
+        }
+
+        await recordAudit(req, {
+          action: "retention:run",
+          entityType: "retention",
+          entityId: run.id,
+          schoolId: null,
+          after: { status: run.status, summary: run.summary, error: run.error },
+        });
+
+        // The run is returned either way; a failed one carries its error
+        const { removed, ...runWithoutRemoved } = run;
+        res.json(runWithoutRemoved);
+      } catch (error) {
+        console.error("Retention purge error:", error);
+        res.status(500).json({ message: "Failed to run retention purge" });
+      }
+    },
+  );
+
+  app.get(
+    "/api/retention/runs",
+    isAuthenticated,
+    requirePermission("retention:manage"),
+    async (req, res) => {
+      try {
+        res.json(await storage.getRetentionRuns());
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch purge history", error });
+      }
+    },
+  );
+
+  app.get(
+    "/api/retention/runs/:id",
+    isAuthenticated,
+    requirePermission("retention:manage"),
+    async (req, res) => {
+      try {
+        const run = await storage.getRetentionRunById(parseInt(req.params.id));
+        if (!run) {
+          return res.status(404).json({ message: "Purge run not found" });
+        }
+        res.json(run);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch purge run", error });
+      }
+    },
+  );
+
+  // Audit log viewer. Users without global scope only see their own school.
+  const auditQuerySchema = z.object({
+    actorId: z.coerce.number().optional(),
+    schoolId: z.coerce.number().optional(),
+    entityType: z.string().optional(),
+    action: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().min(1).default(1),
+    pageSize: z.coerce.number().min(1).max(200).default(50),
+  });
+
+  const getAuditFilters = (req: Request) => {
+    const userWithRole = (req as any).userWithRole;
+    const query = auditQuerySchema.parse(req.query);
+
+    return {
+      actorId: query.actorId,
+      schoolId: can(toPolicyUser(userWithRole), "school:manage")
+        ? query.schoolId
+        : userWithRole.schoolId,
+      entityType: query.entityType,
+      action: query.action,
+      from: query.from,
+      to: query.to,
+      limit: query.pageSize,
+      offset: (query.page - 1) * query.pageSize,
+    };
+  };
+
+  app.get(
+    "/api/audit-logs",
+    isAuthenticated,
+    requirePermission("audit:view"),
+    async (req, res) => {
+      try {
+        const filters = getAuditFilters(req);
+        const { entries, total } = await storage.getAuditLogs(filters);
+        res.json({ entries, total });
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid filters", details: error.errors });
+        }
+        res.status(500).json({ message: "Failed to fetch audit log", error });
+      }
+    },
+  );
+
+  app.get(
+    "/api/audit-logs/export",
+    isAuthenticated,
+    requirePermission("audit:view"),
+    async (req, res) => {
+      try {
+        const { entries } = await storage.getAuditLogs({
+          ...getAuditFilters(req),
+          limit: 10000,
+          offset: 0,
+        });
+
+        const escape = (value: unknown) =>
+          `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+        const headers = [
+          "Time",
+          "Actor",
+          "Actor Email",
+          "Action",
+          "Entity Type",
+          "Entity ID",
+          "School",
+          "IP Address",
+          "Changes",
+        ];
+        const csvRows = [headers.join(",")];
+
+        for (const entry of entries) {
+          const row = [
+            escape(new Date(entry.createdAt).toISOString()),
+            escape(
+              entry.actorId
+                ? `${entry.actorFirstName} ${entry.actorLastName}`
+                : "System",
+            ),
+            escape(entry.actorEmail),
+            escape(entry.action),
+            escape(entry.entityType),
+            escape(entry.entityId),
+            escape(entry.schoolName),
+            escape(entry.ipAddress),
+            escape(entry.changes ? JSON.stringify(entry.changes) : ""),
+          ];
+          csvRows.push(row.join(","));
+        }
+
+        res.setHeader("Content-Type", "text/csv");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`,
+        );
+
+        res.send(csvRows.join("\n"));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid filters", details: error.errors });
+        }
+        res.status(500).json({ message: "Failed to export audit log", error });
+      }
+    },
+  );
+
   app.get("/api/settings", async (req, res) => {
     try {
       const settings = await storage.getAllSettings();
@@ -2324,7 +6615,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     "/api/filter-options",
     isAuthenticated,
-
+    requirePermission("preferences:manage"),
     validateRequest(insertFilterOptionSchema),
     async (req, res) => {
       try {
@@ -2362,7 +6653,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put(
     "/api/filter-options/:id",
     isAuthenticated,
-
+    requirePermission("preferences:manage"),
     async (req, res) => {
       try {
         const { id } = req.params;
@@ -2388,7 +6679,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete(
     "/api/filter-options/:id",
     isAuthenticated,
-
+    requirePermission("preferences:manage"),
     async (req, res) => {
       try {
         const { id } = req.params;
@@ -2407,7 +6698,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get(
     "/api/reports/opportunities",
     isAuthenticated,
-
+    requirePermission("reports:view"),
     async (req, res) => {
       try {
         const stats = await storage.getOpportunityStats();
@@ -2423,7 +6714,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get(
     "/api/reports/interests",
     isAuthenticated,
-
+    requirePermission("reports:view"),
     async (req, res) => {
       try {
         const stats = await storage.getStudentInterestStats();
@@ -2439,7 +6730,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get(
     "/api/reports/teacher-activity",
     isAuthenticated,
-
+    requirePermission("reports:view"),
     async (req, res) => {
       try {
         const { period } = req.query;
@@ -0,0 +1,7 @@
+// Reads a schedule interval from the environment. A missing, zero, negative
+// or non-numeric setting falls back to the default, since any of those
+// would otherwise run the job non-stop.
+export function getIntervalSetting(name: string, defaultValue: number) {
+  const configured = parseInt(process.env[name] || "");
+  return configured > 0 ? configured : defaultValue;
+}
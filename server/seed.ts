@@ -5,6 +5,7 @@ import {
   filterOptions,
   newsPosts,
   users,
+  userRoles,
 } from "@shared/schema";
 import { and, eq, or } from "drizzle-orm";
 import { number } from "zod";
@@ -43,6 +44,24 @@ async function seedDatabase() {
       );
     }
 
+    // Guardians were added after the original roles, so existing databases
+    // may not have the role yet
+    const [guardianRole] = await db
+      .select()
+      .from(userRoles)
+      .where(eq(userRoles.name, "guardian"));
+
+    if (!guardianRole) {
+      console.log("Seeding guardian role...");
+      await db.insert(userRoles).values({
+        name: "guardian",
+        description: "Parent or guardian linked to one or more students",
+        canViewOpportunities: false,
+        requiresSchool: false,
+      });
+      console.log("Guardian role seeded successfully");
+    }
+
     // Get admin or teacher user to use as creator ID for seed data
     const adminUsers = await db
       .select()
@@ -0,0 +1,61 @@
+import { Readable } from "stream";
+import ExcelJS from "exceljs";
+
+export interface SpreadsheetRow {
+  // Row number as shown in the spreadsheet, so errors can point at it
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+// Read the first sheet of a CSV or XLSX file into rows keyed by header.
+// Every value comes back as a trimmed string; blank rows are dropped.
+export async function readSpreadsheet(
+  buffer: Buffer,
+  fileName: string,
+): Promise<SpreadsheetData> {
+  const workbook = new ExcelJS.Workbook();
+  let worksheet: ExcelJS.Worksheet | undefined;
+
+  if (fileName.toLowerCase().endsWith(".csv")) {
+    // Keep values as written rather than letting the parser guess numbers and dates
+    worksheet = await workbook.csv.read(Readable.from(buffer), {
+      map: (value: any) => value,
+    });
+  } else {
+    await workbook.xlsx.load(buffer as any);
+    worksheet = workbook.worksheets[0];
+  }
+
+  if (!worksheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const headerRow = worksheet.getRow(1);
+  const headers: string[] = [];
+  headerRow.eachCell({ includeEmpty: true }, (cell, column) => {
+    headers[column - 1] = cell.text.trim();
+  });
+
+  const rows: SpreadsheetRow[] = [];
+  for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const record: Record<string, string> = {};
+    let hasValue = false;
+
+    headers.forEach((header, index) => {
+      if (!header) return;
+      const value = row.getCell(index + 1).text.trim();
+      record[header] = value;
+      if (value) hasValue = true;
+    });
+
+    if (hasValue) rows.push({ rowNumber, values: record });
+  }
+
+  return { headers: headers.filter(Boolean), rows };
+}
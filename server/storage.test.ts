@@ -0,0 +1,249 @@
+import { createRequire } from "module";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+
+// drizzle-kit's ESM build can't load under vitest, so use the CommonJS one
+const { generateDrizzleJson, generateMigration } = createRequire(
+  import.meta.url,
+)("drizzle-kit/api");
+
+// Storage runs its real queries against an in-memory Postgres
+vi.mock("./db", async () => {
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const schema = await import("@shared/schema");
+  const client = new PGlite();
+  return { pool: client, db: drizzle(client, { schema }) };
+});
+
+const { db } = await import("./db");
+const { storage } = await import("./storage");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let schoolId: number;
+let roleId: number;
+let userCount = 0;
+
+const createUser = async () => {
+  userCount += 1;
+  const [user] = await db
+    .insert(schema.users)
+    .values({
+      email: `student${userCount}@example.com`,
+      username: `student${userCount}`,
+      password: "hash",
+      firstName: "Student",
+      lastName: String(userCount),
+      roleId,
+      schoolId,
+    })
+    .returning();
+  return user;
+};
+
+const createOpportunity = async (
+  overrides: Partial<typeof schema.opportunities.$inferInsert> = {},
+) => {
+  const [opportunity] = await db
+    .insert(schema.opportunities)
+    .values({
+      title: "Robotics Workshop",
+      organization: "Science Centre",
+      description: "Build a robot",
+      startDate: new Date(Date.now() + 10 * DAY_MS),
+      endDate: new Date(Date.now() + 11 * DAY_MS),
+      applicationDeadline: new Date(Date.now() + 5 * DAY_MS),
+      location: "Main Hall",
+      opportunityType: "Workshop",
+      industry: "Engineering",
+      ageGroup: ["14-16"],
+      schoolId,
+      ...overrides,
+    })
+    .returning();
+  return opportunity;
+};
+
+beforeAll(async () => {
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema),
+  );
+  for (const statement of statements) {
+    await db.execute(sql.raw(statement));
+  }
+
+  [{ id: schoolId }] = await db
+    .insert(schema.schools)
+    .values({ name: "Test School" })
+    .returning();
+  [{ id: roleId }] = await db
+    .insert(schema.userRoles)
+    .values({ name: "student" })
+    .returning();
+});
+
+describe("api token rotation", () => {
+  const createToken = async (userId: number, suffix: string) =>
+    storage.createApiToken({
+      userId,
+      accessTokenHash: `access-${suffix}`,
+      refreshTokenHash: `refresh-${suffix}`,
+      accessExpiresAt: new Date(Date.now() + 60 * 1000),
+      refreshExpiresAt: new Date(Date.now() + DAY_MS),
+    });
+
+  const nextPair = (suffix: string) => ({
+    accessTokenHash: `access-${suffix}`,
+    refreshTokenHash: `refresh-${suffix}`,
+    accessExpiresAt: new Date(Date.now() + 60 * 1000),
+    refreshExpiresAt: new Date(Date.now() + DAY_MS),
+  });
+
+  it("replaces both hashes so the old refresh token no longer matches", async () => {
+    const user = await createUser();
+    const token = await createToken(user.id, "a1");
+
+    const rotated = await storage.rotateApiToken(token.id, "refresh-a1", nextPair("a2"));
+
+    expect(rotated?.refreshTokenHash).toBe("refresh-a2");
+    expect(await storage.getApiTokenByRefreshHash("refresh-a1")).toBeUndefined();
+    expect((await storage.getApiTokenByRefreshHash("refresh-a2"))?.id).toBe(token.id);
+  });
+
+  it("only lets a refresh token be used once", async () => {
+    const user = await createUser();
+    const token = await createToken(user.id, "b1");
+
+    await storage.rotateApiToken(token.id, "refresh-b1", nextPair("b2"));
+    const replayed = await storage.rotateApiToken(token.id, "refresh-b1", nextPair("b3"));
+
+    expect(replayed).toBeUndefined();
+    expect(await storage.getApiTokenByRefreshHash("refresh-b3")).toBeUndefined();
+  });
+
+  it("refuses to rotate a revoked token", async () => {
+    const user = await createUser();
+    const token = await createToken(user.id, "c1");
+    await storage.revokeApiToken(token.id, user.id);
+
+    const rotated = await storage.rotateApiToken(token.id, "refresh-c1", nextPair("c2"));
+
+    expect(rotated).toBeUndefined();
+  });
+});
+
+describe("waitlist", () => {
+  it("waitlists registrations once every place is taken", async () => {
+    const opportunity = await createOpportunity({ numberOfSpaces: 1 });
+    const first = await createUser();
+    const second = await createUser();
+
+    const registered = await storage.registerInterest({
+      studentId: first.id,
+      opportunityId: opportunity.id,
+    });
+    const waitlisted = await storage.registerInterest({
+      studentId: second.id,
+      opportunityId: opportunity.id,
+    });
+
+    expect(registered.status).toBe("registered");
+    expect(waitlisted.status).toBe("waitlisted");
+  });
+
+  it("never waitlists when places are unlimited", async () => {
+    const opportunity = await createOpportunity({ numberOfSpaces: null });
+
+    for (let i = 0; i < 3; i++) {
+      const student = await createUser();
+      const interest = await storage.registerInterest({
+        studentId: student.id,
+        opportunityId: opportunity.id,
+      });
+      expect(interest.status).toBe("registered");
+    }
+  });
+
+  it("gives a freed place to the longest-waiting student", async () => {
+    const opportunity = await createOpportunity({ numberOfSpaces: 1 });
+    const [holder, firstWaiting, secondWaiting] = [
+      await createUser(),
+      await createUser(),
+      await createUser(),
+    ];
+    for (const student of [holder, firstWaiting, secondWaiting]) {
+      await storage.registerInterest({
+        studentId: student.id,
+        opportunityId: opportunity.id,
+      });
+    }
+
+    const promoted = await storage.unregisterInterest(holder.id, opportunity.id);
+
+    expect(promoted).toHaveLength(1);
+    expect(promoted[0].studentId).toBe(firstWaiting.id);
+    expect(promoted[0].status).toBe("registered");
+    const [stillWaiting] = await storage.getInterestsByStudentId(secondWaiting.id);
+    expect(stillWaiting.status).toBe("waitlisted");
+  });
+
+  it("promotes nobody when a waitlisted student leaves", async () => {
+    const opportunity = await createOpportunity({ numberOfSpaces: 1 });
+    const holder = await createUser();
+    const waiting = await createUser();
+    for (const student of [holder, waiting]) {
+      await storage.registerInterest({
+        studentId: student.id,
+        opportunityId: opportunity.id,
+      });
+    }
+
+    const promoted = await storage.unregisterInterest(waiting.id, opportunity.id);
+
+    expect(promoted).toEqual([]);
+  });
+
+  it("holds a promoted place for guardian consent when the opportunity needs it", async () => {
+    const opportunity = await createOpportunity({
+      numberOfSpaces: 1,
+      requiresGuardianConsent: true,
+    });
+    const holder = await createUser();
+    const waiting = await createUser();
+    for (const student of [holder, waiting]) {
+      await storage.registerInterest({
+        studentId: student.id,
+        opportunityId: opportunity.id,
+      });
+    }
+
+    const promoted = await storage.unregisterInterest(holder.id, opportunity.id);
+
+    expect(promoted[0].status).toBe("pending_consent");
+  });
+
+  it("fills new places when an opportunity gains them", async () => {
+    const opportunity = await createOpportunity({ numberOfSpaces: 1 });
+    const students = [await createUser(), await createUser(), await createUser()];
+    for (const student of students) {
+      await storage.registerInterest({
+        studentId: student.id,
+        opportunityId: opportunity.id,
+      });
+    }
+
+    await db
+      .update(schema.opportunities)
+      .set({ numberOfSpaces: 3 })
+      .where(eq(schema.opportunities.id, opportunity.id));
+    const promoted = await storage.promoteWaitlisted(opportunity.id);
+
+    expect(promoted.map((interest) => interest.studentId)).toEqual([
+      students[1].id,
+      students[2].id,
+    ]);
+  });
+});
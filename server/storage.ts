@@ -1,19 +1,114 @@
-import { eq, and, inArray, or, desc, asc, like, not, sql, isNull } from "drizzle-orm";
+import { eq, and, inArray, notInArray, or, desc, asc, like, lt, not, sql, isNull } from "drizzle-orm";
 import { db } from "./db";
 import { 
   users, type User, type InsertUser, 
-  userRoles, type UserRole,
+  userRoles, type UserRole, type InsertUserRole,
   schools, type School, type InsertSchool,
-  opportunities, type Opportunity, type InsertOpportunity,
-  studentInterests, type StudentInterest, type InsertStudentInterest,
+  opportunities, type Opportunity, type InsertOpportunity, type OpportunityStatus,
+  opportunityReviews, type OpportunityReview, type InsertOpportunityReview,
+  studentInterests, type StudentInterest, type InsertStudentInterest, NON_PLACE_INTEREST_STATUSES,
   documents, type Document, type InsertDocument,
   newsPosts, type NewsPost, type InsertNewsPost,
   formRequests, type FormRequest, type InsertFormRequest,
   studentPreferences, type StudentPreferences, type InsertStudentPreferences,
   systemSettings, type SystemSetting, type InsertSystemSetting,
-  filterOptions, type FilterOption, type InsertFilterOption
+  filterOptions, type FilterOption, type InsertFilterOption,
+  passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
+  passwordHistory, type PasswordHistoryEntry,
+  emailVerificationTokens, type EmailVerificationToken, type InsertEmailVerificationToken,
+  twoFactorRecoveryCodes,
+  apiTokens, type ApiToken, type InsertApiToken,
+  sessions, type Session,
+  loginAttempts, type InsertLoginAttempt,
+  auditLogs, type AuditLog, type InsertAuditLog,
+  rosterSyncRuns, type RosterSyncRun, type InsertRosterSyncRun,
+  retentionRuns, type RetentionRun, type InsertRetentionRun,
+  invitations, type Invitation, type InsertInvitation,
+  guardianStudents, type GuardianStudent, type InsertGuardianStudent,
+  guardianConsents, type GuardianConsent, type InsertGuardianConsent
 } from "@shared/schema";
 
+export interface AuditLogFilters {
+  schoolId?: number;
+  actorId?: number;
+  entityType?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// The password policy can't ask for a longer reuse history than this
+const MAX_PASSWORD_HISTORY = 24;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Locks an opportunity's row for the rest of the transaction, so concurrent
+// registrations can't both take its last place, and counts its places.
+// A new registration only gets a place when nobody is already waiting.
+async function lockPlaces(tx: Transaction, opportunityId: number) {
+  const [opportunity] = await tx
+    .select()
+    .from(opportunities)
+    .where(eq(opportunities.id, opportunityId))
+    .for("update");
+
+  const [counts] = await tx
+    .select({
+      placesTaken: sql`count(*) filter (where ${notInArray(studentInterests.status, NON_PLACE_INTEREST_STATUSES)})`.mapWith(Number),
+      waiting: sql`count(*) filter (where ${eq(studentInterests.status, 'waitlisted')})`.mapWith(Number),
+    })
+    .from(studentInterests)
+    .where(eq(studentInterests.opportunityId, opportunityId));
+
+  const hasFreePlace =
+    !opportunity?.numberOfSpaces ||
+    (counts.placesTaken < opportunity.numberOfSpaces && counts.waiting === 0);
+
+  return { opportunity, ...counts, hasFreePlace };
+}
+
+// Moves the longest-waiting students into whatever places are free. Promoted
+// students still need a guardian's consent where the opportunity asks for
+// it, unless a guardian already gave it.
+async function promoteFromWaitlist(tx: Transaction, opportunityId: number) {
+  const { opportunity, placesTaken } = await lockPlaces(tx, opportunityId);
+  if (!opportunity) return [];
+
+  const waiting = await tx
+    .select({ id: studentInterests.id, consentDecision: guardianConsents.decision })
+    .from(studentInterests)
+    .leftJoin(guardianConsents, eq(guardianConsents.interestId, studentInterests.id))
+    .where(
+      and(
+        eq(studentInterests.opportunityId, opportunityId),
+        eq(studentInterests.status, 'waitlisted')
+      )
+    )
+    .orderBy(asc(studentInterests.registrationDate), asc(studentInterests.id));
+
+  const toPromote = opportunity.numberOfSpaces
+    ? waiting.slice(0, Math.max(0, opportunity.numberOfSpaces - placesTaken))
+    : waiting;
+
+  const promoted: StudentInterest[] = [];
+  for (const interest of toPromote) {
+    const [updated] = await tx
+      .update(studentInterests)
+      .set({
+        status:
+          opportunity.requiresGuardianConsent && interest.consentDecision !== 'approved'
+            ? 'pending_consent'
+            : 'registered',
+      })
+      .where(eq(studentInterests.id, interest.id))
+      .returning();
+    promoted.push(updated);
+  }
+  return promoted;
+}
+
 export interface IStorage {
   // Auth
   createUser(user: InsertUser): Promise<User>;
@@ -22,6 +117,75 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
   
+  // Password Reset
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  consumePasswordResetToken(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: number): Promise<boolean>;
+
+  // Password changes
+  setUserPassword(
+    userId: number,
+    passwordHash: string,
+    options: { mustChangePassword: boolean }
+  ): Promise<User | undefined>;
+  getPasswordHistory(userId: number, limit: number): Promise<PasswordHistoryEntry[]>;
+  
+  // Email Verification
+  createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken>;
+  getEmailVerificationTokenByHash(tokenHash: string): Promise<EmailVerificationToken | undefined>;
+  consumeEmailVerificationToken(id: number): Promise<boolean>;
+  invalidateEmailVerificationTokens(userId: number): Promise<boolean>;
+  markEmailVerified(userId: number): Promise<User | undefined>;
+  
+  // Two-Factor Authentication
+  setTwoFactorSecret(userId: number, secret: string): Promise<User | undefined>;
+  enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<User | undefined>;
+  disableTwoFactor(userId: number): Promise<User | undefined>;
+  replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<boolean>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRemainingRecoveryCodes(userId: number): Promise<number>;
+  
+  // API Tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiTokenByAccessHash(accessTokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokenByRefreshHash(refreshTokenHash: string): Promise<ApiToken | undefined>;
+  rotateApiToken(id: number, previousRefreshHash: string, updates: Pick<ApiToken, "accessTokenHash" | "refreshTokenHash" | "accessExpiresAt" | "refreshExpiresAt">): Promise<ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
+  getActiveApiTokensByUserId(userId: number): Promise<ApiToken[]>;
+  revokeApiToken(id: number, userId: number): Promise<boolean>;
+  revokeApiTokensForUser(userId: number): Promise<boolean>;
+  
+  // Login Attempts
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void>;
+  countRecentFailedLogins(ipAddress: string, since: Date): Promise<number>;
+  incrementFailedLogins(userId: number): Promise<User | undefined>;
+  lockUser(userId: number, lockedUntil: Date): Promise<User | undefined>;
+  clearLoginLock(userId: number): Promise<User | undefined>;
+  
+  // Sessions
+  getSessionsByUserId(userId: number): Promise<Session[]>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteSessionsForUser(userId: number, exceptSid?: string): Promise<number>;
+  
+  // Audit Log (append-only: there is deliberately no update or delete)
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters: AuditLogFilters): Promise<{ entries: any[]; total: number }>;
+  
+  // Roster Sync History
+  createRosterSyncRun(run: InsertRosterSyncRun): Promise<RosterSyncRun>;
+  updateRosterSyncRun(id: number, updates: Partial<RosterSyncRun>): Promise<RosterSyncRun | undefined>;
+  getRosterSyncRuns(limit?: number): Promise<any[]>;
+  getRosterSyncRunById(id: number): Promise<RosterSyncRun | undefined>;
+  getLatestRosterSyncRun(trigger: string): Promise<RosterSyncRun | undefined>;
+  
+  // Data Retention History
+  createRetentionRun(run: InsertRetentionRun): Promise<RetentionRun>;
+  updateRetentionRun(id: number, updates: Partial<RetentionRun>): Promise<RetentionRun | undefined>;
+  getRetentionRuns(limit?: number): Promise<any[]>;
+  getRetentionRunById(id: number): Promise<RetentionRun | undefined>;
+  getLatestRetentionRun(trigger: string): Promise<RetentionRun | undefined>;
+  
   // Schools
   createSchool(school: InsertSchool): Promise<School>;
   getSchoolById(id: number): Promise<School | undefined>;
@@ -30,25 +194,70 @@ export interface IStorage {
   deleteSchool(id: number): Promise<boolean>;
   
   // Users
-  getUsersBySchoolId(schoolId: number, role?: string): Promise<User[]>;
-  getUsersByRole(role: string): Promise<User[]>;
+  getUsersBySchoolId(schoolId: number, role?: string, includeInactive?: boolean): Promise<User[]>;
+  getUsersByRole(role: string, includeInactive?: boolean): Promise<User[]>;
+  getAuthoredContentCounts(userId: number): Promise<{ opportunities: number; newsPosts: number }>;
+  getReassignmentCandidates(schoolId: number | null, excludeUserId: number): Promise<any[]>;
+  deactivateUser(id: number, options: { reassignToId: number | null; reason: string | null }): Promise<{ user: User; reassigned: { opportunities: number; newsPosts: number } }>;
   getUserRoles(): Promise<UserRole[]>;
+  getUserRoleByName(name: string): Promise<UserRole | undefined>;
+  getUserRoleById(id: number): Promise<UserRole | undefined>;
+  createUserRole(role: InsertUserRole): Promise<UserRole>;
+  updateUserRole(id: number, updates: Partial<UserRole>): Promise<UserRole | undefined>;
+  deleteUserRole(id: number): Promise<boolean>;
+  countUsersWithRole(roleId: number): Promise<number>;
+  countUserManagerRoles(excludeRoleId?: number): Promise<number>;
+  getUsersByEmailsOrUsernames(emails: string[], usernames: string[]): Promise<User[]>;
+  importUsers(creates: InsertUser[], updates: { id: number; updates: Partial<User> }[]): Promise<{ created: User[]; updated: User[] }>;
+  
+  // Registration Approvals
+  getPendingRegistrations(schoolId?: number): Promise<any[]>;
+  setRegistrationDecision(userIds: number[], status: "approved" | "rejected", reviewedById: number, note?: string): Promise<User[]>;
+  
+  // Invitations
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  getInvitationById(id: number): Promise<Invitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  getPendingInvitationByEmail(email: string): Promise<Invitation | undefined>;
+  getInvitations(schoolId?: number): Promise<any[]>;
+  getPendingGuardianInvitations(studentId: number): Promise<Invitation[]>;
+  updateInvitation(id: number, updates: Partial<Invitation>): Promise<Invitation | undefined>;
+  acceptInvitation(id: number, user: InsertUser): Promise<User | undefined>;
+  
+  // Guardians
+  createGuardianLink(link: InsertGuardianStudent): Promise<GuardianStudent>;
+  getGuardianLink(guardianId: number, studentId: number): Promise<GuardianStudent | undefined>;
+  deleteGuardianLink(guardianId: number, studentId: number): Promise<boolean>;
+  getGuardiansForStudent(studentId: number): Promise<any[]>;
+  getStudentsForGuardian(guardianId: number): Promise<any[]>;
+  getStudentInterestsWithOpportunities(studentId: number): Promise<any[]>;
+  getStudentFormRequestsWithOpportunities(studentId: number): Promise<any[]>;
+  getGuardianConsentsByInterestIds(interestIds: number[]): Promise<GuardianConsent[]>;
+  setGuardianConsent(consent: InsertGuardianConsent): Promise<GuardianConsent>;
   
   // Opportunities
-  createOpportunity(opportunity: InsertOpportunity): Promise<Opportunity>;
+  createOpportunity(opportunity: InsertOpportunity, status?: OpportunityStatus): Promise<Opportunity>;
   getOpportunityById(id: number): Promise<Opportunity | undefined>;
   updateOpportunity(id: number, updates: Partial<Opportunity>): Promise<Opportunity | undefined>;
   deleteOpportunity(id: number): Promise<boolean>;
   getOpportunitiesBySchoolId(schoolId: number): Promise<Opportunity[]>;
-  getOpportunitiesForUser(userId: number): Promise<Opportunity[]>;
-  searchOpportunities(query: string, filters: any): Promise<Opportunity[]>;
+  setOpportunityStatus(
+    id: number,
+    status: OpportunityStatus,
+    review?: Omit<InsertOpportunityReview, "opportunityId">,
+  ): Promise<Opportunity | undefined>;
+  getOpportunityReviews(opportunityId: number): Promise<any[]>;
+  getOpportunitiesPendingReview(schoolId?: number): Promise<any[]>;
   
   // Student Interests
   registerInterest(interest: InsertStudentInterest): Promise<StudentInterest>;
-  unregisterInterest(studentId: number, opportunityId: number): Promise<boolean>;
+  unregisterInterest(studentId: number, opportunityId: number): Promise<StudentInterest[]>;
+  promoteWaitlisted(opportunityId: number): Promise<StudentInterest[]>;
+  getWaitlistPosition(interest: StudentInterest): Promise<number | null>;
+  getInterestById(id: number): Promise<StudentInterest | undefined>;
   getInterestsByOpportunityId(opportunityId: number): Promise<StudentInterest[]>;
   getInterestsByStudentId(studentId: number): Promise<StudentInterest[]>;
-  getInterestedStudentsForOpportunity(opportunityId: number): Promise<User[]>;
+  getInterestedStudentsForOpportunity(opportunityId: number): Promise<any[]>;
   
   // Documents
   addDocument(document: InsertDocument): Promise<Document>;
@@ -126,6 +335,457 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
 
+  // Password Reset
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [createdToken] = await db.insert(passwordResetTokens).values(token).returning();
+    return createdToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async consumePasswordResetToken(id: number): Promise<boolean> {
+    // Only succeeds for the first caller, so a token can never be redeemed twice
+    const consumed = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return consumed.length > 0;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<boolean> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+    return true;
+  }
+
+  // Password changes. The hash being replaced moves into the history so the
+  // reuse check can see it; older entries beyond the policy maximum are dropped.
+  async setUserPassword(
+    userId: number,
+    passwordHash: string,
+    options: { mustChangePassword: boolean }
+  ): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ password: users.password })
+        .from(users)
+        .where(eq(users.id, userId));
+      if (!current) return undefined;
+
+      await tx.insert(passwordHistory).values({ userId, passwordHash: current.password });
+
+      const [updatedUser] = await tx
+        .update(users)
+        .set({
+          password: passwordHash,
+          passwordChangedAt: new Date(),
+          mustChangePassword: options.mustChangePassword,
+        })
+        .where(eq(users.id, userId))
+        .returning();
+
+      const kept = tx
+        .select({ id: passwordHistory.id })
+        .from(passwordHistory)
+        .where(eq(passwordHistory.userId, userId))
+        .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+        .limit(MAX_PASSWORD_HISTORY);
+      await tx
+        .delete(passwordHistory)
+        .where(and(eq(passwordHistory.userId, userId), not(inArray(passwordHistory.id, kept))));
+
+      return updatedUser;
+    });
+  }
+
+  async getPasswordHistory(userId: number, limit: number): Promise<PasswordHistoryEntry[]> {
+    if (limit <= 0) return [];
+    return await db
+      .select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit);
+  }
+
+  // Email Verification
+  async createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken> {
+    const [createdToken] = await db.insert(emailVerificationTokens).values(token).returning();
+    return createdToken;
+  }
+
+  async getEmailVerificationTokenByHash(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async consumeEmailVerificationToken(id: number): Promise<boolean> {
+    const consumed = await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(emailVerificationTokens.id, id), isNull(emailVerificationTokens.usedAt)))
+      .returning();
+    return consumed.length > 0;
+  }
+
+  async invalidateEmailVerificationTokens(userId: number): Promise<boolean> {
+    await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(emailVerificationTokens.userId, userId), isNull(emailVerificationTokens.usedAt)));
+    return true;
+  }
+
+  async markEmailVerified(userId: number): Promise<User | undefined> {
+    return this.updateUser(userId, { emailVerified: true, emailVerifiedAt: new Date() });
+  }
+
+  // Two-Factor Authentication
+  async setTwoFactorSecret(userId: number, secret: string): Promise<User | undefined> {
+    return this.updateUser(userId, { twoFactorSecret: secret, twoFactorEnabled: false });
+  }
+
+  async enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<User | undefined> {
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+    return this.updateUser(userId, { twoFactorEnabled: true });
+  }
+
+  async disableTwoFactor(userId: number): Promise<User | undefined> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    return this.updateUser(userId, { twoFactorSecret: null, twoFactorEnabled: false });
+  }
+
+  async replaceRecoveryCodes(userId: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    await db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    if (recoveryCodeHashes.length > 0) {
+      await db
+        .insert(twoFactorRecoveryCodes)
+        .values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+    }
+    return true;
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const consumed = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning();
+    return consumed.length > 0;
+  }
+
+  async countRemainingRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql`count(*)`.mapWith(Number) })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count || 0;
+  }
+
+  // API Tokens
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [createdToken] = await db.insert(apiTokens).values(token).returning();
+    return createdToken;
+  }
+
+  async getApiTokenByAccessHash(accessTokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.accessTokenHash, accessTokenHash));
+    return token;
+  }
+
+  async getApiTokenByRefreshHash(refreshTokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.refreshTokenHash, refreshTokenHash));
+    return token;
+  }
+
+  async rotateApiToken(
+    id: number,
+    previousRefreshHash: string,
+    updates: Pick<ApiToken, "accessTokenHash" | "refreshTokenHash" | "accessExpiresAt" | "refreshExpiresAt">
+  ): Promise<ApiToken | undefined> {
+    // Matching on the old refresh hash means a refresh token can only be used once
+    const [rotatedToken] = await db
+      .update(apiTokens)
+      .set({ ...updates, lastUsedAt: new Date() })
+      .where(and(
+        eq(apiTokens.id, id),
+        eq(apiTokens.refreshTokenHash, previousRefreshHash),
+        isNull(apiTokens.revokedAt)
+      ))
+      .returning();
+    return rotatedToken;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date() }).where(eq(apiTokens.id, id));
+  }
+
+  async getActiveApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(and(
+        eq(apiTokens.userId, userId),
+        isNull(apiTokens.revokedAt),
+        sql`${apiTokens.refreshExpiresAt} > now()`
+      ))
+      .orderBy(desc(apiTokens.lastUsedAt));
+  }
+
+  async revokeApiToken(id: number, userId: number): Promise<boolean> {
+    const revoked = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning();
+    return revoked.length > 0;
+  }
+
+  async revokeApiTokensForUser(userId: number): Promise<boolean> {
+    await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)));
+    return true;
+  }
+
+  // Login Attempts
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void> {
+    await db.insert(loginAttempts).values(attempt);
+  }
+
+  async countRecentFailedLogins(ipAddress: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: sql`count(*)`.mapWith(Number) })
+      .from(loginAttempts)
+      .where(and(
+        eq(loginAttempts.ipAddress, ipAddress),
+        eq(loginAttempts.succeeded, false),
+        sql`${loginAttempts.createdAt} > ${since}`
+      ));
+    return result?.count || 0;
+  }
+
+  async incrementFailedLogins(userId: number): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ failedLoginCount: sql`${users.failedLoginCount} + 1` })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async lockUser(userId: number, lockedUntil: Date): Promise<User | undefined> {
+    return this.updateUser(userId, { lockedUntil, failedLoginCount: 0 });
+  }
+
+  async clearLoginLock(userId: number): Promise<User | undefined> {
+    return this.updateUser(userId, { lockedUntil: null, failedLoginCount: 0 });
+  }
+
+  // Sessions
+  async getSessionsByUserId(userId: number): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(
+        sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+        sql`${sessions.expire} > now()`
+      ))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const deleted = await db.delete(sessions).where(eq(sessions.sid, sid)).returning();
+    return deleted.length > 0;
+  }
+
+  async deleteSessionsForUser(userId: number, exceptSid?: string): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(and(
+        sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+        exceptSid ? not(eq(sessions.sid, exceptSid)) : undefined
+      ))
+      .returning();
+    return deleted.length;
+  }
+
+  // Audit Log
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [createdEntry] = await db.insert(auditLogs).values(entry).returning();
+    return createdEntry;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters): Promise<{ entries: any[]; total: number }> {
+    const conditions = and(
+      filters.schoolId !== undefined ? eq(auditLogs.schoolId, filters.schoolId) : undefined,
+      filters.actorId !== undefined ? eq(auditLogs.actorId, filters.actorId) : undefined,
+      filters.entityType ? eq(auditLogs.entityType, filters.entityType) : undefined,
+      filters.action ? like(auditLogs.action, `%${filters.action}%`) : undefined,
+      filters.from ? sql`${auditLogs.createdAt} >= ${filters.from}` : undefined,
+      filters.to ? sql`${auditLogs.createdAt} <= ${filters.to}` : undefined
+    );
+
+    const entries = await db
+      .select({
+        id: auditLogs.id,
+        actorId: auditLogs.actorId,
+        actorFirstName: users.firstName,
+        actorLastName: users.lastName,
+        actorEmail: users.email,
+        action: auditLogs.action,
+        entityType: auditLogs.entityType,
+        entityId: auditLogs.entityId,
+        schoolId: auditLogs.schoolId,
+        schoolName: schools.name,
+        changes: auditLogs.changes,
+        ipAddress: auditLogs.ipAddress,
+        userAgent: auditLogs.userAgent,
+        createdAt: auditLogs.createdAt,
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.actorId, users.id))
+      .leftJoin(schools, eq(auditLogs.schoolId, schools.id))
+      .where(conditions)
+      .orderBy(desc(auditLogs.createdAt), desc(auditLogs.id))
+      .limit(filters.limit ?? 50)
+      .offset(filters.offset ?? 0);
+
+    const [result] = await db
+      .select({ count: sql`count(*)`.mapWith(Number) })
+      .from(auditLogs)
+      .where(conditions);
+
+    return { entries, total: result?.count || 0 };
+  }
+
+  // Roster Sync History
+  async createRosterSyncRun(run: InsertRosterSyncRun): Promise<RosterSyncRun> {
+    const [createdRun] = await db.insert(rosterSyncRuns).values(run).returning();
+    return createdRun;
+  }
+
+  async updateRosterSyncRun(id: number, updates: Partial<RosterSyncRun>): Promise<RosterSyncRun | undefined> {
+    const [updatedRun] = await db
+      .update(rosterSyncRuns)
+      .set(updates)
+      .where(eq(rosterSyncRuns.id, id))
+      .returning();
+    return updatedRun;
+  }
+
+  // The change list can be large, so it is only loaded for a single run
+  async getRosterSyncRuns(limit = 50): Promise<any[]> {
+    return await db
+      .select({
+        id: rosterSyncRuns.id,
+        trigger: rosterSyncRuns.trigger,
+        source: rosterSyncRuns.source,
+        status: rosterSyncRuns.status,
+        summary: rosterSyncRuns.summary,
+        error: rosterSyncRuns.error,
+        triggeredById: rosterSyncRuns.triggeredById,
+        triggeredByFirstName: users.firstName,
+        triggeredByLastName: users.lastName,
+        startedAt: rosterSyncRuns.startedAt,
+        finishedAt: rosterSyncRuns.finishedAt,
+      })
+      .from(rosterSyncRuns)
+      .leftJoin(users, eq(rosterSyncRuns.triggeredById, users.id))
+      .orderBy(desc(rosterSyncRuns.startedAt), desc(rosterSyncRuns.id))
+      .limit(limit);
+  }
+
+  async getRosterSyncRunById(id: number): Promise<RosterSyncRun | undefined> {
+    const [run] = await db.select().from(rosterSyncRuns).where(eq(rosterSyncRuns.id, id));
+    return run;
+  }
+
+  async getLatestRosterSyncRun(trigger: string): Promise<RosterSyncRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(rosterSyncRuns)
+      .where(and(eq(rosterSyncRuns.trigger, trigger), eq(rosterSyncRuns.status, "success")))
+      .orderBy(desc(rosterSyncRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  // Data Retention History
+  async createRetentionRun(run: InsertRetentionRun): Promise<RetentionRun> {
+    const [createdRun] = await db.insert(retentionRuns).values(run).returning();
+    return createdRun;
+  }
+
+  async updateRetentionRun(id: number, updates: Partial<RetentionRun>): Promise<RetentionRun | undefined> {
+    const [updatedRun] = await db
+      .update(retentionRuns)
+      .set(updates)
+      .where(eq(retentionRuns.id, id))
+      .returning();
+    return updatedRun;
+  }
+
+  // The removed list can be large, so it is only loaded for a single run
+  async getRetentionRuns(limit = 50): Promise<any[]> {
+    return await db
+      .select({
+        id: retentionRuns.id,
+        trigger: retentionRuns.trigger,
+        status: retentionRuns.status,
+        summary: retentionRuns.summary,
+        error: retentionRuns.error,
+        triggeredById: retentionRuns.triggeredById,
+        triggeredByFirstName: users.firstName,
+        triggeredByLastName: users.lastName,
+        startedAt: retentionRuns.startedAt,
+        finishedAt: retentionRuns.finishedAt,
+      })
+      .from(retentionRuns)
+      .leftJoin(users, eq(retentionRuns.triggeredById, users.id))
+      .orderBy(desc(retentionRuns.startedAt), desc(retentionRuns.id))
+      .limit(limit);
+  }
+
+  async getRetentionRunById(id: number): Promise<RetentionRun | undefined> {
+    const [run] = await db.select().from(retentionRuns).where(eq(retentionRuns.id, id));
+    return run;
+  }
+
+  // Any finished run counts, so a failing purge isn't retried every check
+  async getLatestRetentionRun(trigger: string): Promise<RetentionRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(retentionRuns)
+      .where(eq(retentionRuns.trigger, trigger))
+      .orderBy(desc(retentionRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
   // Schools
   async createSchool(school: InsertSchool): Promise<School> {
     const [createdSchool] = await db.insert(schools).values(school).returning();
@@ -156,8 +816,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Users
-  async getUsersBySchoolId(schoolId: number, role?: string): Promise<any[]> {
-    const query = db
+  // Inactive users are left out unless asked for, so they don't show up in pickers
+  async getUsersBySchoolId(schoolId: number, role?: string, includeInactive = false): Promise<any[]> {
+    const conditions = [eq(users.schoolId, schoolId)];
+    if (role && role !== 'all') {
+      conditions.push(eq(userRoles.name, role));
+    }
+    if (!includeInactive) {
+      conditions.push(eq(users.isActive, true));
+    }
+
+    return await db
       .select({
         id: users.id,
         email: users.email,
@@ -167,23 +836,22 @@ export class DatabaseStorage implements IStorage {
         roleId: users.roleId,
         schoolId: users.schoolId,
         isActive: users.isActive,
+        lockedUntil: users.lockedUntil,
         profilePicture: users.profilePicture,
+        erasedAt: users.erasedAt,
+        deactivatedAt: users.deactivatedAt,
+        deactivationReason: users.deactivationReason,
         createdAt: users.createdAt,
         roleName: userRoles.name,
         roleDescription: userRoles.description,
       })
       .from(users)
       .innerJoin(userRoles, eq(users.roleId, userRoles.id))
-      .where(eq(users.schoolId, schoolId));
-
-    if (role && role !== 'all') {
-      query.where(and(eq(users.schoolId, schoolId), eq(userRoles.name, role)));
-    }
-
-    return await query.orderBy(desc(users.createdAt));
+      .where(and(...conditions))
+      .orderBy(desc(users.createdAt));
   }
 
-  async getUsersByRole(role: string): Promise<any[]> {
+  async getUsersByRole(role: string, includeInactive = false): Promise<any[]> {
     return await db
       .select({
         id: users.id,
@@ -194,6 +862,7 @@ export class DatabaseStorage implements IStorage {
         roleId: users.roleId,
         schoolId: users.schoolId,
         isActive: users.isActive,
+        lockedUntil: users.lockedUntil,
         profilePicture: users.profilePicture,
         createdAt: users.createdAt,
         roleName: userRoles.name,
@@ -201,17 +870,504 @@ export class DatabaseStorage implements IStorage {
       })
       .from(users)
       .innerJoin(userRoles, eq(users.roleId, userRoles.id))
-      .where(eq(userRoles.name, role))
+      .where(
+        includeInactive
+          ? eq(userRoles.name, role)
+          : and(eq(userRoles.name, role), eq(users.isActive, true))
+      )
+      .orderBy(users.lastName, users.firstName);
+  }
+
+  async getAuthoredContentCounts(userId: number): Promise<{ opportunities: number; newsPosts: number }> {
+    const [[authoredOpportunities], [authoredNewsPosts]] = await Promise.all([
+      db
+        .select({ count: sql`count(*)`.mapWith(Number) })
+        .from(opportunities)
+        .where(eq(opportunities.createdById, userId)),
+      db
+        .select({ count: sql`count(*)`.mapWith(Number) })
+        .from(newsPosts)
+        .where(eq(newsPosts.authorId, userId)),
+    ]);
+    return {
+      opportunities: authoredOpportunities.count,
+      newsPosts: authoredNewsPosts.count,
+    };
+  }
+
+  // Active staff who can own opportunities or news: the school's own staff,
+  // plus users who work across every school
+  async getReassignmentCandidates(schoolId: number | null, excludeUserId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        roleName: userRoles.name,
+      })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(
+        and(
+          eq(users.isActive, true),
+          not(eq(users.id, excludeUserId)),
+          or(eq(userRoles.canCreateOpportunities, true), eq(userRoles.canManageNews, true)),
+          schoolId
+            ? or(eq(users.schoolId, schoolId), eq(userRoles.canManageSchools, true))
+            : eq(userRoles.canManageSchools, true)
+        )
+      )
       .orderBy(users.lastName, users.firstName);
   }
 
+  // Deactivation keeps the account and its registrations, so attendance
+  // history and reports are unchanged. Authored opportunities and news posts
+  // move to another staff member in the same transaction.
+  async deactivateUser(
+    id: number,
+    options: { reassignToId: number | null; reason: string | null }
+  ): Promise<{ user: User; reassigned: { opportunities: number; newsPosts: number } }> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({
+          isActive: false,
+          deactivatedAt: new Date(),
+          deactivationReason: options.reason,
+        })
+        .where(eq(users.id, id))
+        .returning();
+
+      const reassigned = { opportunities: 0, newsPosts: 0 };
+      if (options.reassignToId) {
+        reassigned.opportunities = (
+          await tx
+            .update(opportunities)
+            .set({ createdById: options.reassignToId, updatedAt: new Date() })
+            .where(eq(opportunities.createdById, id))
+            .returning({ id: opportunities.id })
+        ).length;
+        reassigned.newsPosts = (
+          await tx
+            .update(newsPosts)
+            .set({ authorId: options.reassignToId, updatedAt: new Date() })
+            .where(eq(newsPosts.authorId, id))
+            .returning({ id: newsPosts.id })
+        ).length;
+      }
+
+      return { user, reassigned };
+    });
+  }
+
   async getUserRoles(): Promise<UserRole[]> {
     return await db.select().from(userRoles).orderBy(userRoles.name);
   }
 
+  async getUserRoleByName(name: string): Promise<UserRole | undefined> {
+    const [role] = await db.select().from(userRoles).where(eq(userRoles.name, name));
+    return role;
+  }
+
+  async getUserRoleById(id: number): Promise<UserRole | undefined> {
+    const [role] = await db.select().from(userRoles).where(eq(userRoles.id, id));
+    return role;
+  }
+
+  async createUserRole(role: InsertUserRole): Promise<UserRole> {
+    const [createdRole] = await db.insert(userRoles).values(role).returning();
+    return createdRole;
+  }
+
+  async updateUserRole(id: number, updates: Partial<UserRole>): Promise<UserRole | undefined> {
+    const [updatedRole] = await db
+      .update(userRoles)
+      .set(updates)
+      .where(eq(userRoles.id, id))
+      .returning();
+    return updatedRole;
+  }
+
+  async deleteUserRole(id: number): Promise<boolean> {
+    await db.delete(userRoles).where(eq(userRoles.id, id));
+    return true;
+  }
+
+  async countUsersWithRole(roleId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql`count(*)`.mapWith(Number) })
+      .from(users)
+      .where(eq(users.roleId, roleId));
+    return result?.count || 0;
+  }
+
+  // Active roles that can manage users, used to stop the last one being removed
+  async countUserManagerRoles(excludeRoleId?: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql`count(*)`.mapWith(Number) })
+      .from(userRoles)
+      .where(and(
+        eq(userRoles.canManageUsers, true),
+        eq(userRoles.isRetired, false),
+        excludeRoleId ? not(eq(userRoles.id, excludeRoleId)) : undefined
+      ));
+    return result?.count || 0;
+  }
+
+  // Case-insensitive, so an import can match accounts however they were typed
+  async getUsersByEmailsOrUsernames(emails: string[], usernames: string[]): Promise<User[]> {
+    if (!emails.length && !usernames.length) return [];
+
+    return await db
+      .select()
+      .from(users)
+      .where(or(
+        emails.length ? inArray(sql`lower(${users.email})`, emails.map((e) => e.toLowerCase())) : undefined,
+        usernames.length ? inArray(sql`lower(${users.username})`, usernames.map((u) => u.toLowerCase())) : undefined
+      ));
+  }
+
+  // Bulk import: all rows are written or none are
+  async importUsers(
+    creates: InsertUser[],
+    updates: { id: number; updates: Partial<User> }[]
+  ): Promise<{ created: User[]; updated: User[] }> {
+    return await db.transaction(async (tx) => {
+      const created = creates.length
+        ? await tx.insert(users).values(creates).returning()
+        : [];
+
+      const updated: User[] = [];
+      for (const { id, updates: changes } of updates) {
+        const [user] = await tx.update(users).set(changes).where(eq(users.id, id)).returning();
+        if (user) updated.push(user);
+      }
+
+      return { created, updated };
+    });
+  }
+
+  // Registration Approvals
+  async getPendingRegistrations(schoolId?: number): Promise<any[]> {
+    const conditions = [eq(users.approvalStatus, 'pending')];
+    if (schoolId) {
+      conditions.push(eq(users.schoolId, schoolId));
+    }
+
+    return await db
+      .select({
+        id: users.id,
+        email: users.email,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        roleId: users.roleId,
+        schoolId: users.schoolId,
+        emailVerified: users.emailVerified,
+        createdAt: users.createdAt,
+        roleName: userRoles.name,
+        schoolName: schools.name,
+      })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .leftJoin(schools, eq(users.schoolId, schools.id))
+      .where(and(...conditions))
+      .orderBy(asc(users.createdAt));
+  }
+
+  async setRegistrationDecision(
+    userIds: number[],
+    status: "approved" | "rejected",
+    reviewedById: number,
+    note?: string
+  ): Promise<User[]> {
+    if (userIds.length === 0) return [];
+
+    // Only pending registrations can be decided, so repeated clicks are harmless
+    return await db
+      .update(users)
+      .set({
+        approvalStatus: status,
+        approvalNote: status === 'rejected' ? note || null : null,
+        reviewedById,
+        reviewedAt: new Date(),
+      })
+      .where(and(inArray(users.id, userIds), eq(users.approvalStatus, 'pending')))
+      .returning();
+  }
+
+  // Invitations
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    const [createdInvitation] = await db.insert(invitations).values(invitation).returning();
+    return createdInvitation;
+  }
+
+  async getInvitationById(id: number): Promise<Invitation | undefined> {
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.id, id));
+    return invitation;
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(invitations)
+      .where(eq(invitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  // Unaccepted and unrevoked; an expired invitation still counts until it is revoked or resent
+  async getPendingInvitationByEmail(email: string): Promise<Invitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(invitations)
+      .where(and(
+        eq(sql`lower(${invitations.email})`, email.toLowerCase()),
+        isNull(invitations.acceptedAt),
+        isNull(invitations.revokedAt)
+      ));
+    return invitation;
+  }
+
+  async getInvitations(schoolId?: number): Promise<any[]> {
+    return await db
+      .select({
+        id: invitations.id,
+        email: invitations.email,
+        roleId: invitations.roleId,
+        schoolId: invitations.schoolId,
+        expiresAt: invitations.expiresAt,
+        lastSentAt: invitations.lastSentAt,
+        acceptedAt: invitations.acceptedAt,
+        revokedAt: invitations.revokedAt,
+        createdAt: invitations.createdAt,
+        roleName: userRoles.name,
+        schoolName: schools.name,
+        invitedByFirstName: users.firstName,
+        invitedByLastName: users.lastName,
+      })
+      .from(invitations)
+      .innerJoin(userRoles, eq(invitations.roleId, userRoles.id))
+      .innerJoin(schools, eq(invitations.schoolId, schools.id))
+      .leftJoin(users, eq(invitations.invitedById, users.id))
+      .where(schoolId ? eq(invitations.schoolId, schoolId) : undefined)
+      .orderBy(desc(invitations.createdAt));
+  }
+
+  async getPendingGuardianInvitations(studentId: number): Promise<Invitation[]> {
+    return await db
+      .select()
+      .from(invitations)
+      .where(and(
+        eq(invitations.studentId, studentId),
+        isNull(invitations.acceptedAt),
+        isNull(invitations.revokedAt)
+      ))
+      .orderBy(asc(invitations.createdAt));
+  }
+
+  async updateInvitation(id: number, updates: Partial<Invitation>): Promise<Invitation | undefined> {
+    const [updatedInvitation] = await db
+      .update(invitations)
+      .set(updates)
+      .where(eq(invitations.id, id))
+      .returning();
+    return updatedInvitation;
+  }
+
+  // Claims the invitation and creates its account together. Returns undefined
+  // if the invitation was accepted or revoked in the meantime.
+  async acceptInvitation(id: number, user: InsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const claimed = await tx
+        .update(invitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(invitations.id, id),
+          isNull(invitations.acceptedAt),
+          isNull(invitations.revokedAt)
+        ))
+        .returning();
+      if (claimed.length === 0) return undefined;
+
+      const [createdUser] = await tx.insert(users).values(user).returning();
+      await tx
+        .update(invitations)
+        .set({ acceptedUserId: createdUser.id })
+        .where(eq(invitations.id, id));
+
+      const [invitation] = claimed;
+      if (invitation.studentId) {
+        await tx.insert(guardianStudents).values({
+          guardianId: createdUser.id,
+          studentId: invitation.studentId,
+          relationship: invitation.relationship,
+          createdById: invitation.invitedById,
+        });
+      }
+      return createdUser;
+    });
+  }
+
+  // Guardians
+  async createGuardianLink(link: InsertGuardianStudent): Promise<GuardianStudent> {
+    const [createdLink] = await db.insert(guardianStudents).values(link).returning();
+    return createdLink;
+  }
+
+  async getGuardianLink(guardianId: number, studentId: number): Promise<GuardianStudent | undefined> {
+    const [link] = await db
+      .select()
+      .from(guardianStudents)
+      .where(and(eq(guardianStudents.guardianId, guardianId), eq(guardianStudents.studentId, studentId)));
+    return link;
+  }
+
+  async deleteGuardianLink(guardianId: number, studentId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(guardianStudents)
+      .where(and(eq(guardianStudents.guardianId, guardianId), eq(guardianStudents.studentId, studentId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getGuardiansForStudent(studentId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        isActive: users.isActive,
+        relationship: guardianStudents.relationship,
+        linkedAt: guardianStudents.createdAt,
+      })
+      .from(guardianStudents)
+      .innerJoin(users, eq(guardianStudents.guardianId, users.id))
+      .where(eq(guardianStudents.studentId, studentId))
+      .orderBy(asc(guardianStudents.createdAt));
+  }
+
+  async getStudentsForGuardian(guardianId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        schoolId: users.schoolId,
+        schoolName: schools.name,
+        relationship: guardianStudents.relationship,
+      })
+      .from(guardianStudents)
+      .innerJoin(users, eq(guardianStudents.studentId, users.id))
+      .leftJoin(schools, eq(users.schoolId, schools.id))
+      .where(eq(guardianStudents.guardianId, guardianId))
+      .orderBy(asc(users.firstName));
+  }
+
+  async getStudentInterestsWithOpportunities(studentId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: studentInterests.id,
+        status: studentInterests.status,
+        registrationDate: studentInterests.registrationDate,
+        opportunity: {
+          id: opportunities.id,
+          title: opportunities.title,
+          organization: opportunities.organization,
+          location: opportunities.location,
+          isVirtual: opportunities.isVirtual,
+          requiresGuardianConsent: opportunities.requiresGuardianConsent,
+          startDate: opportunities.startDate,
+          endDate: opportunities.endDate,
+          applicationDeadline: opportunities.applicationDeadline,
+        },
+      })
+      .from(studentInterests)
+      .innerJoin(opportunities, eq(studentInterests.opportunityId, opportunities.id))
+      .where(eq(studentInterests.studentId, studentId))
+      .orderBy(asc(opportunities.startDate));
+  }
+
+  async getStudentFormRequestsWithOpportunities(studentId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: formRequests.id,
+        requestDate: formRequests.requestDate,
+        fulfilled: formRequests.fulfilled,
+        emailSent: formRequests.emailSent,
+        opportunityId: opportunities.id,
+        opportunityTitle: opportunities.title,
+      })
+      .from(formRequests)
+      .innerJoin(opportunities, eq(formRequests.opportunityId, opportunities.id))
+      .where(eq(formRequests.studentId, studentId))
+      .orderBy(desc(formRequests.requestDate));
+  }
+
+  async getGuardianConsentsByInterestIds(interestIds: number[]): Promise<GuardianConsent[]> {
+    if (interestIds.length === 0) return [];
+
+    return await db
+      .select()
+      .from(guardianConsents)
+      .where(inArray(guardianConsents.interestId, interestIds));
+  }
+
+  // A guardian can change their mind, so a new decision replaces the old one
+  // Records the decision and moves the registration out of (or back into)
+  // the waiting state in one go
+  async setGuardianConsent(consent: InsertGuardianConsent): Promise<GuardianConsent> {
+    return await db.transaction(async (tx) => {
+      const [interest] = await tx
+        .select()
+        .from(studentInterests)
+        .where(eq(studentInterests.id, consent.interestId));
+
+      // A declined registration gave up its place, so approving it later
+      // joins the waitlist if the opportunity has filled up since
+      let status = consent.decision === 'approved' ? 'registered' : 'consent_declined';
+      if (status === 'registered' && interest?.status === 'consent_declined') {
+        const { hasFreePlace } = await lockPlaces(tx, interest.opportunityId);
+        if (!hasFreePlace) status = 'waitlisted';
+      }
+
+      const [savedConsent] = await tx
+        .insert(guardianConsents)
+        .values(consent)
+        .onConflictDoUpdate({
+          target: guardianConsents.interestId,
+          set: {
+            guardianId: consent.guardianId,
+            decision: consent.decision,
+            note: consent.note ?? null,
+            decidedAt: new Date(),
+          },
+        })
+        .returning();
+
+      await tx
+        .update(studentInterests)
+        .set({ status })
+        .where(eq(studentInterests.id, consent.interestId));
+
+      return savedConsent;
+    });
+  }
+
   // Opportunities
-  async createOpportunity(opportunity: InsertOpportunity): Promise<Opportunity> {
-    const [createdOpportunity] = await db.insert(opportunities).values(opportunity).returning();
+  async createOpportunity(
+    opportunity: InsertOpportunity,
+    status: OpportunityStatus = "draft",
+  ): Promise<Opportunity> {
+    const [createdOpportunity] = await db
+      .insert(opportunities)
+      .values({
+        ...opportunity,
+        status,
+        publishedAt: status === "published" ? new Date() : null,
+      })
+      .returning();
     return createdOpportunity;
   }
 
@@ -242,215 +1398,152 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(opportunities.createdAt));
   }
 
-  async getOpportunitiesForUser(userId: number): Promise<Opportunity[]> {
-    // Get user to determine role and school
-    const user = await this.getUserById(userId);
-    if (!user) return [];
-    
-    // Get user role permissions
-    const [roleData] = await db.select().from(userRoles).where(eq(userRoles.id, user.roleId));
-    
-    if (roleData?.canEditAllOpportunities) {
-      // Users with global editing permissions can see all opportunities
-      return await db
-        .select()
-        .from(opportunities)
-        .orderBy(desc(opportunities.createdAt));
-    } else if (roleData?.canEditSchoolOpportunities || roleData?.canCreateOpportunities) {
-      // Admin and teachers see their school's opportunities and global ones
-      const conditions = [
-        eq(opportunities.schoolId, user.schoolId!),
-        eq(opportunities.isGlobal, true)
-      ];
-      
-      // Add visible to schools condition if user has a school
-      if (user.schoolId) {
-        conditions.push(sql`${user.schoolId} = ANY(${opportunities.visibleToSchools})`);
-      }
-      
-      return await db
-        .select()
-        .from(opportunities)
-        .where(or(...conditions))
-        .orderBy(desc(opportunities.createdAt));
-    } else {
-      // Students see their school's opportunities, global ones, and those shared with their school
-      const conditions = [
-        eq(opportunities.schoolId, user.schoolId!),
-        eq(opportunities.isGlobal, true)
-      ];
-      
-      // Add visible to schools condition if user has a school
-      if (user.schoolId) {
-        conditions.push(sql`${user.schoolId} = ANY(${opportunities.visibleToSchools})`);
-      }
-      
-      let baseQuery = db
-        .select()
-        .from(opportunities)
-        .where(or(...conditions));
-      
-      // Apply student preferences if they exist
-      const studentPreferences = await this.getStudentPreferencesByUserId(userId);
-      console.log('Student preferences for filtering:', studentPreferences);
-      
-      if (studentPreferences) {
-        const categoryConditions = [];
-        
-        // Filter by industries - OR within industry preferences
-        if (studentPreferences.industries && studentPreferences.industries.length > 0) {
-          const industryConditions = studentPreferences.industries.map(industry => 
-            eq(opportunities.industry, industry)
-          );
-          categoryConditions.push(or(...industryConditions));
-        }
-        
-        // Filter by opportunity types - OR within type preferences
-        if (studentPreferences.opportunityTypes && studentPreferences.opportunityTypes.length > 0) {
-          const typeConditions = studentPreferences.opportunityTypes.map(oppType => 
-            eq(opportunities.opportunityType, oppType)
-          );
-          categoryConditions.push(or(...typeConditions));
-        }
-        
-        // Filter by age groups - OR within age group preferences
-        if (studentPreferences.ageGroups && studentPreferences.ageGroups.length > 0) {
-          const ageConditions = studentPreferences.ageGroups.map(ageGroup => 
-            sql`${ageGroup} = ANY(${opportunities.ageGroup})`
-          );
-          categoryConditions.push(or(...ageConditions));
-        }
-        
-        // Apply preference filters with OR logic between all categories
-        if (categoryConditions.length > 0) {
-          const combinedConditions = and(or(...conditions), or(...categoryConditions));
-          return await db
-            .select()
-            .from(opportunities)
-            .where(combinedConditions)
-            .orderBy(desc(opportunities.createdAt));
-        }
+  // Moves an opportunity to a new status, recording the reviewer's decision
+  // alongside it when there is one
+  async setOpportunityStatus(
+    id: number,
+    status: OpportunityStatus,
+    review?: Omit<InsertOpportunityReview, "opportunityId">,
+  ): Promise<Opportunity | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [updatedOpportunity] = await tx
+        .update(opportunities)
+        .set({
+          status,
+          updatedAt: now,
+          // Keep the date it first went live when it is closed and reopened
+          ...(status === "published"
+            ? { publishedAt: sql`coalesce(${opportunities.publishedAt}, ${now})` }
+            : {}),
+          archivedAt: status === "archived" ? now : null,
+        })
+        .where(eq(opportunities.id, id))
+        .returning();
+
+      if (updatedOpportunity && review) {
+        await tx.insert(opportunityReviews).values({ ...review, opportunityId: id });
       }
-      
-      return await baseQuery.orderBy(desc(opportunities.createdAt));
-    }
+      return updatedOpportunity;
+    });
   }
 
-  async searchOpportunities(query: string, filters: any): Promise<Opportunity[]> {
-    let baseQuery = db.select().from(opportunities);
-    
-    // Apply text search if provided
-    if (query) {
-      baseQuery = baseQuery.where(
-        or(
-          like(opportunities.title, `%${query}%`),
-          like(opportunities.description, `%${query}%`),
-          like(opportunities.organization, `%${query}%`)
-        )
-      );
-    }
-    
-    // Apply filters
-    if (filters) {
-      if (filters.industry) {
-        baseQuery = baseQuery.where(eq(opportunities.industry, filters.industry));
-      }
-      
-      if (filters.ageGroup && filters.ageGroup.length) {
-        baseQuery = baseQuery.where(inArray(opportunities.ageGroup, filters.ageGroup));
-      }
-      
-      if (filters.location) {
-        baseQuery = baseQuery.where(like(opportunities.location, `%${filters.location}%`));
-      }
-      
-      if (filters.startDate) {
-        baseQuery = baseQuery.where(sql`${opportunities.startDate} >= ${filters.startDate}`);
-      }
-      
-      if (filters.endDate) {
-        baseQuery = baseQuery.where(sql`${opportunities.endDate} <= ${filters.endDate}`);
-      }
-      
-      if (filters.ethnicityFocus) {
-        baseQuery = baseQuery.where(eq(opportunities.ethnicityFocus, filters.ethnicityFocus));
-      }
-      
-      if (filters.genderFocus) {
-        baseQuery = baseQuery.where(eq(opportunities.genderFocus, filters.genderFocus));
-      }
-      
-      if (filters.isVirtual !== undefined) {
-        baseQuery = baseQuery.where(eq(opportunities.isVirtual, filters.isVirtual));
-      }
-      
-      if (filters.schoolId) {
-        baseQuery = baseQuery.where(
-          or(
-            eq(opportunities.schoolId, filters.schoolId),
-            eq(opportunities.isGlobal, true),
-            inArray(filters.schoolId, opportunities.visibleToSchools)
-          )
-        );
-      }
-      
-      // Filter by creator ID for "My Posts" view
-      if (filters.createdById) {
-        baseQuery = baseQuery.where(eq(opportunities.createdById, filters.createdById));
-      }
+  async getOpportunityReviews(opportunityId: number): Promise<any[]> {
+    return await db
+      .select({
+        id: opportunityReviews.id,
+        decision: opportunityReviews.decision,
+        comment: opportunityReviews.comment,
+        createdAt: opportunityReviews.createdAt,
+        reviewerId: opportunityReviews.reviewerId,
+        reviewerFirstName: users.firstName,
+        reviewerLastName: users.lastName,
+      })
+      .from(opportunityReviews)
+      .leftJoin(users, eq(opportunityReviews.reviewerId, users.id))
+      .where(eq(opportunityReviews.opportunityId, opportunityId))
+      .orderBy(desc(opportunityReviews.createdAt));
+  }
+
+  // Opportunities waiting for approval, oldest first. Leave out the school
+  // to get the queue across every school.
+  async getOpportunitiesPendingReview(schoolId?: number): Promise<any[]> {
+    const conditions = [eq(opportunities.status, "pending_review")];
+    if (schoolId !== undefined) {
+      conditions.push(eq(opportunities.schoolId, schoolId));
     }
-    
-    // Order by created date
-    baseQuery = baseQuery.orderBy(desc(opportunities.createdAt));
-    
-    return await baseQuery;
+
+    return await db
+      .select({
+        opportunity: opportunities,
+        schoolName: schools.name,
+        creatorFirstName: users.firstName,
+        creatorLastName: users.lastName,
+        creatorEmail: users.email,
+      })
+      .from(opportunities)
+      .leftJoin(schools, eq(opportunities.schoolId, schools.id))
+      .leftJoin(users, eq(opportunities.createdById, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(opportunities.updatedAt));
   }
 
   // Student Interests
+  // Students who register once every place is taken join the waitlist
   async registerInterest(interest: InsertStudentInterest): Promise<StudentInterest> {
-    // Check if already registered
-    const [existing] = await db
-      .select()
-      .from(studentInterests)
-      .where(
-        and(
-          eq(studentInterests.studentId, interest.studentId),
-          eq(studentInterests.opportunityId, interest.opportunityId)
-        )
-      );
-    
-    if (existing) {
-      return existing;
-    }
+    return await db.transaction(async (tx) => {
+      const { hasFreePlace } = await lockPlaces(tx, interest.opportunityId);
 
-    // Check if opportunity has space limits
-    const opportunity = await this.getOpportunityById(interest.opportunityId);
-    if (opportunity && opportunity.numberOfSpaces) {
-      // Count current registrations
-      const [currentCount] = await db
-        .select({ count: sql`count(*)`.mapWith(Number) })
+      // Check if already registered
+      const [existing] = await tx
+        .select()
         .from(studentInterests)
-        .where(eq(studentInterests.opportunityId, interest.opportunityId));
-      
-      if (currentCount.count >= opportunity.numberOfSpaces) {
-        throw new Error('No spaces left for this opportunity');
+        .where(
+          and(
+            eq(studentInterests.studentId, interest.studentId),
+            eq(studentInterests.opportunityId, interest.opportunityId)
+          )
+        );
+
+      if (existing) {
+        return existing;
       }
-    }
-    
-    const [createdInterest] = await db.insert(studentInterests).values(interest).returning();
-    return createdInterest;
+
+      const [createdInterest] = await tx
+        .insert(studentInterests)
+        .values(hasFreePlace ? interest : { ...interest, status: 'waitlisted' })
+        .returning();
+      return createdInterest;
+    });
   }
 
-  async unregisterInterest(studentId: number, opportunityId: number): Promise<boolean> {
-    await db
-      .delete(studentInterests)
+  // Returns the waitlisted registrations that took over the freed place
+  async unregisterInterest(studentId: number, opportunityId: number): Promise<StudentInterest[]> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(studentInterests)
+        .where(
+          and(
+            eq(studentInterests.studentId, studentId),
+            eq(studentInterests.opportunityId, opportunityId)
+          )
+        );
+      return await promoteFromWaitlist(tx, opportunityId);
+    });
+  }
+
+  // For when places free up other than by a student leaving, such as a
+  // guardian declining or the opportunity gaining places
+  async promoteWaitlisted(opportunityId: number): Promise<StudentInterest[]> {
+    return await db.transaction((tx) => promoteFromWaitlist(tx, opportunityId));
+  }
+
+  // 1 for the next student in line; null when the student isn't waitlisted
+  async getWaitlistPosition(interest: StudentInterest): Promise<number | null> {
+    if (interest.status !== 'waitlisted') return null;
+
+    const [ahead] = await db
+      .select({ count: sql`count(*)`.mapWith(Number) })
+      .from(studentInterests)
       .where(
         and(
-          eq(studentInterests.studentId, studentId),
-          eq(studentInterests.opportunityId, opportunityId)
+          eq(studentInterests.opportunityId, interest.opportunityId),
+          eq(studentInterests.status, 'waitlisted'),
+          or(
+            lt(studentInterests.registrationDate, interest.registrationDate),
+            and(
+              eq(studentInterests.registrationDate, interest.registrationDate),
+              lt(studentInterests.id, interest.id)
+            )
+          )
         )
       );
-    return true;
+    return ahead.count + 1;
+  }
+
+  async getInterestById(id: number): Promise<StudentInterest | undefined> {
+    const [interest] = await db.select().from(studentInterests).where(eq(studentInterests.id, id));
+    return interest;
   }
 
   async getInterestsByOpportunityId(opportunityId: number): Promise<StudentInterest[]> {
@@ -469,24 +1562,33 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(studentInterests.registrationDate));
   }
 
-  async getInterestedStudentsForOpportunity(opportunityId: number): Promise<User[]> {
+  async getInterestedStudentsForOpportunity(opportunityId: number): Promise<any[]> {
     const interests = await db
       .select({
         user: users,
+        interestId: studentInterests.id,
+        status: studentInterests.status,
         registrationDate: studentInterests.registrationDate,
+        consentDecision: guardianConsents.decision,
+        consentDecidedAt: guardianConsents.decidedAt,
         school: schools
       })
       .from(studentInterests)
       .innerJoin(users, eq(studentInterests.studentId, users.id))
       .leftJoin(schools, eq(users.schoolId, schools.id))
+      .leftJoin(guardianConsents, eq(guardianConsents.interestId, studentInterests.id))
       .where(eq(studentInterests.opportunityId, opportunityId))
       .orderBy(desc(studentInterests.registrationDate));
     
     return interests.map(interest => ({
       ...interest.user,
+      interestId: interest.interestId,
+      status: interest.status,
       registrationDate: interest.registrationDate,
+      consentDecision: interest.consentDecision,
+      consentDecidedAt: interest.consentDecidedAt,
       school: interest.school
-    } as any));
+    }));
   }
 
   // Documents
@@ -770,13 +1872,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getStudentInterestStats(): Promise<any> {
-    // Count interests by opportunity for simple mapping
+    // Count places taken by opportunity for simple mapping
     const interestCounts = await db
       .select({
         opportunityId: studentInterests.opportunityId,
         count: sql`count(*)`.mapWith(Number)
       })
       .from(studentInterests)
+      .where(notInArray(studentInterests.status, NON_PLACE_INTEREST_STATUSES))
       .groupBy(studentInterests.opportunityId);
     
     // Convert to simple object mapping opportunityId -> count
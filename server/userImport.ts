@@ -0,0 +1,273 @@
+import crypto from "crypto";
+import { z } from "zod";
+import {
+  insertUserSchema,
+  type InsertUser,
+  type School,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import type { SpreadsheetRow } from "./spreadsheet";
+import { checkPassword, type PasswordPolicy } from "./passwordPolicy";
+
+// User fields a spreadsheet column can be mapped to
+export const USER_IMPORT_FIELDS = [
+  "email",
+  "username",
+  "firstName",
+  "lastName",
+  "password",
+  "role",
+  "school",
+] as const;
+
+export type UserImportField = (typeof USER_IMPORT_FIELDS)[number];
+
+// Field -> spreadsheet column header
+export type UserImportMapping = Partial<Record<UserImportField, string>>;
+
+export type UserImportAction = "create" | "update" | "duplicate" | "error";
+
+export interface UserImportRow {
+  rowNumber: number;
+  action: UserImportAction;
+  email: string;
+  name: string;
+  errors: string[];
+  // Fields an update would change
+  changes: string[];
+  userId?: number;
+  data?: InsertUser;
+}
+
+export interface UserImportPlan {
+  rows: UserImportRow[];
+  summary: Record<UserImportAction, number>;
+}
+
+export interface UserImportContext {
+  roles: UserRole[];
+  schools: School[];
+  // Users that already have one of the file's emails or usernames
+  existingUsers: User[];
+  defaultRoleId?: number;
+  defaultSchoolId: number | null;
+  // null means any school
+  allowedSchoolIds: number[] | null;
+  // Only users with global scope may hand out roles that have it
+  canAssignGlobalRoles: boolean;
+  sendInvites: boolean;
+  passwordPolicy: PasswordPolicy;
+}
+
+// Header spellings recognised without an explicit mapping
+const FIELD_ALIASES: Record<UserImportField, string[]> = {
+  email: ["email", "emailaddress", "mail"],
+  username: ["username", "login", "userid"],
+  firstName: ["firstname", "givenname", "forename", "first"],
+  lastName: ["lastname", "surname", "familyname", "last"],
+  password: ["password"],
+  role: ["role", "roletype", "type"],
+  school: ["school", "schoolname", "schoolid"],
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessColumnMapping(headers: string[]): UserImportMapping {
+  const mapping: UserImportMapping = {};
+  for (const field of USER_IMPORT_FIELDS) {
+    const header = headers.find((h) =>
+      FIELD_ALIASES[field].includes(normalizeHeader(h)),
+    );
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+}
+
+// Accounts created for an invite get a password nobody knows; the invite
+// link is used to choose a real one.
+const generatePlaceholderPassword = () => crypto.randomBytes(24).toString("hex");
+
+const findByNameOrId = <T extends { id: number; name: string }>(
+  items: T[],
+  value: string,
+) =>
+  items.find(
+    (item) =>
+      String(item.id) === value || item.name.toLowerCase() === value.toLowerCase(),
+  );
+
+// Work out what importing each row would do, without writing anything
+export function planUserImport(
+  rows: SpreadsheetRow[],
+  mapping: UserImportMapping,
+  context: UserImportContext,
+): UserImportPlan {
+  const usersByEmail = new Map(
+    context.existingUsers.map((user) => [user.email.toLowerCase(), user]),
+  );
+  const usersByUsername = new Map(
+    context.existingUsers.map((user) => [user.username.toLowerCase(), user]),
+  );
+  const seenEmails = new Map<string, number>();
+  const seenUsernames = new Map<string, number>();
+
+  const planned = rows.map((row): UserImportRow => {
+    const value = (field: UserImportField) =>
+      mapping[field] ? (row.values[mapping[field]!] ?? "").trim() : "";
+
+    const email = value("email").toLowerCase();
+    const username = value("username") || email.split("@")[0];
+    const firstName = value("firstName");
+    const lastName = value("lastName");
+    const errors: string[] = [];
+    const result: UserImportRow = {
+      rowNumber: row.rowNumber,
+      action: "error",
+      email,
+      name: `${firstName} ${lastName}`.trim(),
+      errors,
+      changes: [],
+    };
+
+    if (!email) errors.push("Email is required");
+    if (!firstName || !lastName) errors.push("First and last name are required");
+
+    // Later rows repeating an email are skipped, not errors
+    const firstRow = seenEmails.get(email);
+    if (email && firstRow !== undefined) {
+      result.action = "duplicate";
+      errors.push(`Same email as row ${firstRow}`);
+      return result;
+    }
+    if (email) seenEmails.set(email, row.rowNumber);
+
+    const usernameRow = seenUsernames.get(username.toLowerCase());
+    if (username && usernameRow !== undefined) {
+      errors.push(`Username "${username}" is also used in row ${usernameRow}`);
+    } else if (username) {
+      seenUsernames.set(username.toLowerCase(), row.rowNumber);
+    }
+
+    // Role
+    const roleValue = value("role");
+    const role = roleValue
+      ? findByNameOrId(context.roles, roleValue)
+      : context.roles.find((r) => r.id === context.defaultRoleId);
+    if (!role) {
+      errors.push(roleValue ? `Unknown role "${roleValue}"` : "Role is required");
+    } else if (role.isRetired) {
+      errors.push(`Role "${role.name}" can no longer be assigned`);
+    } else if (role.canManageSchools && !context.canAssignGlobalRoles) {
+      errors.push(`You cannot assign the "${role.name}" role`);
+    }
+
+    // School
+    const schoolValue = value("school");
+    let schoolId = context.defaultSchoolId;
+    if (schoolValue) {
+      const school = findByNameOrId(context.schools, schoolValue);
+      if (!school) {
+        errors.push(`Unknown school "${schoolValue}"`);
+      }
+      schoolId = school?.id ?? null;
+    }
+    if (
+      schoolId !== null &&
+      context.allowedSchoolIds &&
+      !context.allowedSchoolIds.includes(schoolId)
+    ) {
+      errors.push("You can only import users into your own school");
+    }
+
+    const existing = usersByEmail.get(email);
+    const password = context.sendInvites
+      ? generatePlaceholderPassword()
+      : value("password");
+    if (!existing && !password) {
+      errors.push("Password is required unless invite emails are sent");
+    }
+    if (!existing && password && !context.sendInvites) {
+      errors.push(...checkPassword(password, context.passwordPolicy));
+    }
+
+    const parsed = insertUserSchema.safeParse({
+      email,
+      username,
+      firstName,
+      lastName,
+      // Passwords of existing users are never changed by an import
+      password: existing ? "unchanged" : password,
+      roleId: role?.id,
+      schoolId,
+    });
+    if (!parsed.success) {
+      // A missing role has already been explained above
+      errors.push(
+        ...formatIssues(
+          parsed.error.issues.filter((issue) => role || issue.path[0] !== "roleId"),
+        ),
+      );
+    }
+    if (email && !z.string().email().safeParse(email).success) {
+      errors.push(`Invalid email address "${email}"`);
+    }
+
+    const usernameOwner = usersByUsername.get(username.toLowerCase());
+    if (usernameOwner && usernameOwner.id !== existing?.id) {
+      errors.push(`Username "${username}" is already taken`);
+    }
+
+    if (existing) {
+      if (
+        context.allowedSchoolIds &&
+        (existing.schoolId === null ||
+          !context.allowedSchoolIds.includes(existing.schoolId))
+      ) {
+        errors.push("This email belongs to a user outside your school");
+      }
+
+      const existingRole = context.roles.find((r) => r.id === existing.roleId);
+      if (existingRole?.canManageSchools && !context.canAssignGlobalRoles) {
+        errors.push("This email belongs to a user you cannot manage");
+      }
+    }
+
+    if (errors.length || !parsed.success) {
+      return result;
+    }
+
+    if (existing) {
+      const data = parsed.data;
+      result.action = "update";
+      result.userId = existing.id;
+      result.changes = (
+        ["username", "firstName", "lastName", "roleId", "schoolId"] as const
+      ).filter((field) => data[field] !== existing[field]);
+      result.data = data;
+    } else {
+      result.action = "create";
+      // Passwords from the file were chosen by an admin, so users replace
+      // them when they first sign in
+      result.data = { ...parsed.data, mustChangePassword: !context.sendInvites };
+    }
+
+    return result;
+  });
+
+  const summary: Record<UserImportAction, number> = {
+    create: 0,
+    update: 0,
+    duplicate: 0,
+    error: 0,
+  };
+  planned.forEach((row) => summary[row.action]++);
+
+  return { rows: planned, summary };
+}
+
+const formatIssues = (issues: z.ZodIssue[]) =>
+  issues.map((issue) =>
+    issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+  );
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { can, type PolicyUser } from "./policy";
+
+const superadmin: PolicyUser = {
+  id: 1,
+  schoolId: null,
+  role: "superadmin",
+  permissions: {
+    canManageSchools: true,
+    canManageUsers: true,
+    canEditAllOpportunities: true,
+    canViewOpportunities: true,
+  },
+};
+
+const schoolAdmin: PolicyUser = {
+  id: 2,
+  schoolId: 10,
+  role: "admin",
+  permissions: {
+    canManageUsers: true,
+    canManageSettings: true,
+    canEditSchoolOpportunities: true,
+    canViewOpportunities: true,
+    canViewAttendees: true,
+  },
+};
+
+const teacher: PolicyUser = {
+  id: 3,
+  schoolId: 10,
+  role: "teacher",
+  permissions: {
+    canCreateOpportunities: true,
+    canEditOwnOpportunities: true,
+    canViewOpportunities: true,
+  },
+};
+
+const student: PolicyUser = {
+  id: 4,
+  schoolId: 10,
+  role: "student",
+  permissions: { canViewOpportunities: true },
+};
+
+const opportunity = (overrides = {}) => ({
+  schoolId: 10,
+  createdById: 3,
+  status: "published",
+  ...overrides,
+});
+
+describe("can", () => {
+  it("refuses everything without a user", () => {
+    expect(can(null, "opportunity:view")).toBe(false);
+    expect(can(undefined, "reports:view")).toBe(false);
+  });
+
+  describe("opportunities", () => {
+    it("shows published opportunities from the student's own school only", () => {
+      expect(can(student, "opportunity:view", opportunity())).toBe(true);
+      expect(can(student, "opportunity:view", opportunity({ schoolId: 20 }))).toBe(false);
+    });
+
+    it("shows other schools' opportunities that are global or shared with the school", () => {
+      expect(
+        can(student, "opportunity:view", opportunity({ schoolId: 20, isGlobal: true })),
+      ).toBe(true);
+      expect(
+        can(student, "opportunity:view", opportunity({ schoolId: 20, visibleToSchools: [10] })),
+      ).toBe(true);
+    });
+
+    it("hides drafts from people who can't edit or review them", () => {
+      const draft = opportunity({ status: "draft" });
+      expect(can(student, "opportunity:view", draft)).toBe(false);
+      expect(can(teacher, "opportunity:view", draft)).toBe(true);
+      expect(can(schoolAdmin, "opportunity:view", draft)).toBe(true);
+    });
+
+    it("lets authors edit only their own opportunities", () => {
+      expect(can(teacher, "opportunity:update", opportunity())).toBe(true);
+      expect(can(teacher, "opportunity:update", opportunity({ createdById: 99 }))).toBe(false);
+    });
+
+    it("lets school-wide editors edit and review within their school only", () => {
+      const otherSchool = opportunity({ schoolId: 20, createdById: 99 });
+      expect(can(schoolAdmin, "opportunity:update", opportunity({ createdById: 99 }))).toBe(true);
+      expect(can(schoolAdmin, "opportunity:update", otherSchool)).toBe(false);
+      expect(can(schoolAdmin, "opportunity:review", opportunity())).toBe(true);
+      expect(can(schoolAdmin, "opportunity:review", otherSchool)).toBe(false);
+    });
+
+    it("doesn't let authors review their own posts", () => {
+      expect(can(teacher, "opportunity:review", opportunity())).toBe(false);
+    });
+
+    it("keeps global publishing to users with global scope", () => {
+      expect(can(superadmin, "opportunity:publishGlobal")).toBe(true);
+      expect(can(schoolAdmin, "opportunity:publishGlobal")).toBe(false);
+    });
+
+    it("only takes registrations for published opportunities", () => {
+      expect(can(student, "interest:create", opportunity())).toBe(true);
+      expect(can(student, "interest:create", opportunity({ status: "closed" }))).toBe(false);
+    });
+  });
+
+  describe("users", () => {
+    it("lets admins manage users in their own school only", () => {
+      expect(can(schoolAdmin, "user:manage", { id: 5, schoolId: 10 })).toBe(true);
+      expect(can(schoolAdmin, "user:manage", { id: 6, schoolId: 20 })).toBe(false);
+      expect(can(superadmin, "user:manage", { id: 6, schoolId: 20 })).toBe(true);
+    });
+
+    it("lets anyone view and export their own account", () => {
+      expect(can(student, "user:view", { id: 4, schoolId: 10 })).toBe(true);
+      expect(can(student, "user:exportData", { id: 4, schoolId: 10 })).toBe(true);
+      expect(can(student, "user:view", { id: 5, schoolId: 10 })).toBe(false);
+    });
+
+    it("never lets admins erase themselves", () => {
+      expect(can(schoolAdmin, "user:erase", { id: 5, schoolId: 10 })).toBe(true);
+      expect(can(schoolAdmin, "user:erase", { id: 2, schoolId: 10 })).toBe(false);
+    });
+
+    it("checks a new account's school when it has no id yet", () => {
+      expect(can(schoolAdmin, "user:manage", { schoolId: 10 })).toBe(true);
+      expect(can(schoolAdmin, "user:manage", { schoolId: 20 })).toBe(false);
+    });
+
+    it("lets superadmins impersonate anyone but superadmins", () => {
+      expect(can(superadmin, "user:impersonate", { id: 4, role: "student" })).toBe(true);
+      expect(can(superadmin, "user:impersonate", { id: 9, role: "superadmin" })).toBe(false);
+      expect(can(superadmin, "user:impersonate", { id: 1, role: "superadmin" })).toBe(false);
+      expect(can(schoolAdmin, "user:impersonate", { id: 4, role: "student" })).toBe(false);
+    });
+  });
+
+  describe("schools and guardians", () => {
+    it("lets school admins update their own school only", () => {
+      expect(can(schoolAdmin, "school:update", { id: 10 })).toBe(true);
+      expect(can(schoolAdmin, "school:update", { id: 20 })).toBe(false);
+      expect(can(schoolAdmin, "school:manage")).toBe(false);
+    });
+
+    it("limits guardians to their own links", () => {
+      const guardian: PolicyUser = { id: 7, schoolId: null, role: "guardian" };
+      expect(can(guardian, "consent:decide", { guardianId: 7 })).toBe(true);
+      expect(can(guardian, "consent:decide", { guardianId: 8 })).toBe(false);
+      expect(can(schoolAdmin, "guardian:view", { guardianId: 2 })).toBe(false);
+    });
+
+    it("scopes the audit log to the admin's school", () => {
+      expect(can(schoolAdmin, "audit:view", { schoolId: 10 })).toBe(true);
+      expect(can(schoolAdmin, "audit:view", { schoolId: 20 })).toBe(false);
+      expect(can(superadmin, "audit:view", { schoolId: 20 })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,370 @@
+// Authorization policy shared by the server routes and the client UI.
+// Every "can this user do X" decision should go through `can()` so the API
+// and the buttons the client shows never disagree.
+
+// Permission flags stored on the user_roles table
+export const PERMISSION_FLAGS = [
+  "canCreateOpportunities",
+  "canEditOwnOpportunities",
+  "canEditSchoolOpportunities",
+  "canEditAllOpportunities",
+  "canViewOpportunities",
+  "canManageUsers",
+  "canManageSchools",
+  "canViewReports",
+  "canManageSettings",
+  "canManagePreferences",
+  "canUploadDocuments",
+  "canViewAttendees",
+  "canManageNews",
+] as const;
+
+export type PermissionFlag = (typeof PERMISSION_FLAGS)[number];
+
+export type RolePermissions = Partial<Record<PermissionFlag, boolean | null>>;
+
+// The subset of a user the policy needs. The server builds this from the
+// user and their role; the client gets it from /api/auth/current-user.
+export interface PolicyUser {
+  id: number;
+  schoolId: number | null;
+  role?: string;
+  permissions?: RolePermissions;
+}
+
+export interface OpportunityResource {
+  schoolId: number | null;
+  createdById: number | null;
+  isGlobal?: boolean | null;
+  visibleToSchools?: number[] | null;
+  status?: string;
+}
+
+export interface DocumentResource {
+  uploadedById: number | null;
+  opportunity: OpportunityResource;
+}
+
+export interface NewsResource {
+  schoolId: number | null;
+  authorId: number | null;
+  isGlobal?: boolean | null;
+}
+
+export interface InterestResource {
+  studentId: number;
+  opportunity: OpportunityResource;
+}
+
+export interface UserResource {
+  // Unset for an account that is about to be created
+  id?: number;
+  schoolId: number | null;
+}
+
+export interface ImpersonationResource {
+  id: number;
+  role?: string;
+}
+
+export interface SchoolResource {
+  id: number;
+}
+
+export interface InvitationResource {
+  schoolId: number;
+}
+
+// The guardian side of a guardian-student link
+export interface GuardianLinkResource {
+  guardianId: number;
+}
+
+export interface AuditResource {
+  schoolId: number | null;
+}
+
+// Each action and the resource it is checked against. Calling `can()`
+// without a resource answers "could this user ever do this", which is what
+// navigation and page guards need before a specific record is loaded.
+export interface PolicyResources {
+  "opportunity:view": OpportunityResource;
+  "opportunity:create": undefined;
+  "opportunity:update": OpportunityResource;
+  "opportunity:delete": OpportunityResource;
+  "opportunity:publishGlobal": undefined;
+  "opportunity:review": OpportunityResource;
+  "opportunity:viewAttendees": OpportunityResource;
+  "document:upload": OpportunityResource;
+  "document:view": DocumentResource;
+  "document:delete": DocumentResource;
+  "news:view": NewsResource;
+  "news:create": undefined;
+  "news:update": NewsResource;
+  "news:delete": NewsResource;
+  "news:publishGlobal": undefined;
+  "interest:view": InterestResource;
+  "interest:create": OpportunityResource;
+  "user:view": UserResource;
+  "user:manage": UserResource;
+  "user:impersonate": ImpersonationResource;
+  "user:exportData": UserResource;
+  "user:erase": UserResource;
+  "invitation:manage": InvitationResource;
+  "guardian:view": GuardianLinkResource;
+  "consent:decide": GuardianLinkResource;
+  "role:manage": undefined;
+  "school:manage": undefined;
+  "school:update": SchoolResource;
+  "settings:manage": undefined;
+  "retention:manage": undefined;
+  "reports:view": undefined;
+  "preferences:manage": undefined;
+  "audit:view": AuditResource;
+}
+
+export type PolicyAction = keyof PolicyResources;
+
+const has = (user: PolicyUser, flag: PermissionFlag) =>
+  Boolean(user.permissions?.[flag]);
+
+// Users who manage schools work across every school
+const hasGlobalScope = (user: PolicyUser) => has(user, "canManageSchools");
+
+const isSameSchool = (user: PolicyUser, schoolId: number | null) =>
+  user.schoolId !== null && user.schoolId === schoolId;
+
+const canSeeOpportunity = (user: PolicyUser, opportunity: OpportunityResource) =>
+  hasGlobalScope(user) ||
+  Boolean(opportunity.isGlobal) ||
+  isSameSchool(user, opportunity.schoolId) ||
+  (user.schoolId !== null &&
+    Boolean(opportunity.visibleToSchools?.includes(user.schoolId)));
+
+const canEditOpportunity = (user: PolicyUser, opportunity?: OpportunityResource) => {
+  if (has(user, "canEditAllOpportunities")) return true;
+  if (!opportunity) {
+    return (
+      has(user, "canEditSchoolOpportunities") ||
+      has(user, "canEditOwnOpportunities")
+    );
+  }
+  return (
+    (has(user, "canEditSchoolOpportunities") &&
+      isSameSchool(user, opportunity.schoolId)) ||
+    (has(user, "canEditOwnOpportunities") &&
+      opportunity.createdById === user.id)
+  );
+};
+
+// Reviewers approve posts for schools that require it: school-wide editors
+// for their school, global editors everywhere
+const canReviewOpportunity = (user: PolicyUser, opportunity?: OpportunityResource) => {
+  if (has(user, "canEditAllOpportunities")) return true;
+  return (
+    has(user, "canEditSchoolOpportunities") &&
+    (!opportunity || isSameSchool(user, opportunity.schoolId))
+  );
+};
+
+// Drafts and other unpublished opportunities are only visible to the people
+// who can edit or review them
+const canSeeStatus = (user: PolicyUser, opportunity: OpportunityResource) =>
+  !opportunity.status ||
+  opportunity.status === "published" ||
+  canEditOpportunity(user, opportunity) ||
+  canReviewOpportunity(user, opportunity);
+
+const canViewAttendees = (user: PolicyUser, opportunity?: OpportunityResource) => {
+  if (has(user, "canEditAllOpportunities")) return true;
+  if (!opportunity) return has(user, "canViewAttendees");
+  return (
+    (has(user, "canViewAttendees") && isSameSchool(user, opportunity.schoolId)) ||
+    opportunity.createdById === user.id
+  );
+};
+
+const canManageUser = (user: PolicyUser, target?: UserResource) =>
+  has(user, "canManageUsers") &&
+  (!target || hasGlobalScope(user) || isSameSchool(user, target.schoolId));
+
+export function can<A extends PolicyAction>(
+  user: PolicyUser | null | undefined,
+  action: A,
+  resource?: PolicyResources[A],
+): boolean {
+  if (!user) return false;
+
+  switch (action) {
+    case "opportunity:view": {
+      const opportunity = resource as OpportunityResource | undefined;
+      return (
+        has(user, "canViewOpportunities") &&
+        (!opportunity ||
+          (canSeeOpportunity(user, opportunity) && canSeeStatus(user, opportunity)))
+      );
+    }
+    case "opportunity:create":
+      return has(user, "canCreateOpportunities");
+    case "opportunity:update":
+    case "opportunity:delete":
+      return canEditOpportunity(user, resource as OpportunityResource | undefined);
+    case "opportunity:publishGlobal":
+    case "news:publishGlobal":
+      return hasGlobalScope(user);
+    case "opportunity:review":
+      return canReviewOpportunity(user, resource as OpportunityResource | undefined);
+    case "opportunity:viewAttendees":
+      return canViewAttendees(user, resource as OpportunityResource | undefined);
+
+    case "document:upload": {
+      const opportunity = resource as OpportunityResource | undefined;
+      if (has(user, "canEditAllOpportunities")) return true;
+      return (
+        has(user, "canUploadDocuments") &&
+        (!opportunity ||
+          isSameSchool(user, opportunity.schoolId) ||
+          opportunity.createdById === user.id)
+      );
+    }
+    case "document:view": {
+      const document = resource as DocumentResource | undefined;
+      return (
+        has(user, "canViewOpportunities") &&
+        (!document || canSeeOpportunity(user, document.opportunity))
+      );
+    }
+    case "document:delete": {
+      const document = resource as DocumentResource | undefined;
+      if (!document) return canEditOpportunity(user) || has(user, "canUploadDocuments");
+      return (
+        canEditOpportunity(user, document.opportunity) ||
+        document.uploadedById === user.id
+      );
+    }
+
+    case "news:view": {
+      const post = resource as NewsResource | undefined;
+      return (
+        !post ||
+        hasGlobalScope(user) ||
+        Boolean(post.isGlobal) ||
+        isSameSchool(user, post.schoolId)
+      );
+    }
+    case "news:create":
+      return has(user, "canManageNews");
+    case "news:update":
+    case "news:delete": {
+      const post = resource as NewsResource | undefined;
+      if (!post) return has(user, "canManageNews");
+      return (
+        hasGlobalScope(user) ||
+        (has(user, "canManageNews") && isSameSchool(user, post.schoolId)) ||
+        post.authorId === user.id
+      );
+    }
+
+    case "interest:view": {
+      const interest = resource as InterestResource | undefined;
+      if (!interest) return true;
+      return (
+        interest.studentId === user.id ||
+        canViewAttendees(user, interest.opportunity)
+      );
+    }
+    // Only published opportunities take registrations
+    case "interest:create": {
+      const opportunity = resource as OpportunityResource | undefined;
+      return (
+        has(user, "canViewOpportunities") &&
+        (!opportunity ||
+          (canSeeOpportunity(user, opportunity) &&
+            (!opportunity.status || opportunity.status === "published")))
+      );
+    }
+
+    case "user:view": {
+      const target = resource as UserResource | undefined;
+      if (target?.id === user.id) return true;
+      return (
+        canManageUser(user, target) ||
+        ((has(user, "canViewAttendees") || has(user, "canEditAllOpportunities")) &&
+          (!target || hasGlobalScope(user) || isSameSchool(user, target.schoolId)))
+      );
+    }
+    case "user:manage":
+      return canManageUser(user, resource as UserResource | undefined);
+
+    // Anyone can download their own data; admins can for the users they manage
+    case "user:exportData": {
+      const target = resource as UserResource | undefined;
+      return target?.id === user.id || canManageUser(user, target);
+    }
+    // Erasure is done for someone, never to yourself
+    case "user:erase": {
+      const target = resource as UserResource | undefined;
+      return canManageUser(user, target) && target?.id !== user.id;
+    }
+
+    // Staff join a school by invitation, so inviting follows user management
+    case "invitation:manage": {
+      const invitation = resource as InvitationResource | undefined;
+      return (
+        has(user, "canManageUsers") &&
+        (!invitation || hasGlobalScope(user) || isSameSchool(user, invitation.schoolId))
+      );
+    }
+
+    // Guardians only ever see the students they are linked to
+    case "guardian:view":
+    case "consent:decide": {
+      const link = resource as GuardianLinkResource | undefined;
+      return user.role === "guardian" && (!link || link.guardianId === user.id);
+    }
+
+    // Superadmins can view as anyone except themselves and other superadmins
+    case "user:impersonate": {
+      const target = resource as ImpersonationResource | undefined;
+      if (user.role !== "superadmin") return false;
+      return !target || (target.id !== user.id && target.role !== "superadmin");
+    }
+
+    // Roles are edited by the built-in superadmin role only
+    case "role:manage":
+      return user.role === "superadmin";
+    case "school:manage":
+      return hasGlobalScope(user);
+    // School admins can update their own school's profile
+    case "school:update": {
+      const school = resource as SchoolResource | undefined;
+      if (hasGlobalScope(user)) return true;
+      return (
+        has(user, "canManageSettings") &&
+        (!school || isSameSchool(user, school.id))
+      );
+    }
+    case "settings:manage":
+      return has(user, "canManageSettings");
+    // Retention deletes data across every school
+    case "retention:manage":
+      return user.role === "superadmin";
+    case "reports:view":
+      return has(user, "canViewReports");
+    case "preferences:manage":
+      return has(user, "canManagePreferences");
+
+    // Superadmins see the whole audit log; school admins see their school's
+    case "audit:view": {
+      const entry = resource as AuditResource | undefined;
+      if (hasGlobalScope(user)) return true;
+      return (
+        has(user, "canManageUsers") &&
+        (!entry || isSameSchool(user, entry.schoolId))
+      );
+    }
+
+    default:
+      return false;
+  }
+}
@@ -5,14 +5,17 @@ import {
   integer,
   boolean,
   timestamp,
+  doublePrecision,
   foreignKey,
   varchar,
   jsonb,
   primaryKey,
+  index,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // Schools table
 export const schools = pgTable("schools", {
@@ -20,6 +23,13 @@ export const schools = pgTable("schools", {
   name: text("name").notNull(),
   description: text("description"),
   logoUrl: text("logo_url"),
+  // When set, opportunities posted by staff who can't review them wait in
+  // the review queue instead of being published straight away
+  requireOpportunityApproval: boolean("require_opportunity_approval")
+    .default(false)
+    .notNull(),
+  // OneRoster org sourcedId when the school is synced from an SIS
+  sisSourcedId: text("sis_sourced_id").unique(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -51,11 +61,16 @@ export const userRoles = pgTable("user_roles", {
   canViewAttendees: boolean("can_view_attendees").default(false),
   canManageNews: boolean("can_manage_news").default(false),
   requiresSchool: boolean("requires_school").default(true),
+  // Only enforced for staff roles that can manage users or schools
+  requiresTwoFactor: boolean("requires_two_factor").default(false),
+  // Retired roles stay on existing users but can no longer be assigned
+  isRetired: boolean("is_retired").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertUserRoleSchema = createInsertSchema(userRoles).omit({
   id: true,
+  isRetired: true,
   createdAt: true,
 });
 export type InsertUserRole = z.infer<typeof insertUserRoleSchema>;
@@ -75,13 +90,51 @@ export const users = pgTable("users", {
     onDelete: "cascade",
   }), // Optional for admins/superadmins
   isActive: boolean("is_active").default(true).notNull(),
+  // Self-registered accounts start unverified; accounts created by staff are trusted
+  emailVerified: boolean("email_verified").default(true).notNull(),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  approvalStatus: text("approval_status").default("approved").notNull(), // pending, approved, rejected
+  approvalNote: text("approval_note"), // Reason given when a registration is rejected
+  reviewedById: integer("reviewed_by_id"),
+  reviewedAt: timestamp("reviewed_at"),
+  // The secret is stored as soon as enrolment starts but only used once confirmed
+  twoFactorSecret: text("two_factor_secret"),
+  twoFactorEnabled: boolean("two_factor_enabled").default(false).notNull(),
+  failedLoginCount: integer("failed_login_count").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  // Null for accounts created before password changes were tracked
+  passwordChangedAt: timestamp("password_changed_at"),
+  // Set after an admin chooses the password, or when a staff password expires
+  mustChangePassword: boolean("must_change_password").default(false).notNull(),
   profilePicture: text("profile_picture"),
+  // OneRoster user sourcedId when the account is synced from an SIS
+  sisSourcedId: text("sis_sourced_id").unique(),
+  // Set when the account was anonymised on a data erasure request
+  erasedAt: timestamp("erased_at"),
+  // Offboarding: inactive accounts can't sign in and are left out of pickers
+  deactivatedAt: timestamp("deactivated_at"),
+  deactivationReason: text("deactivation_reason"),
+  // Last authenticated request or token refresh, updated at most hourly
+  lastSeenAt: timestamp("last_seen_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   isActive: true,
+  emailVerifiedAt: true,
+  approvalNote: true,
+  reviewedById: true,
+  reviewedAt: true,
+  twoFactorSecret: true,
+  twoFactorEnabled: true,
+  failedLoginCount: true,
+  lockedUntil: true,
+  passwordChangedAt: true,
+  erasedAt: true,
+  deactivatedAt: true,
+  deactivationReason: true,
+  lastSeenAt: true,
   createdAt: true,
 });
 
@@ -108,9 +161,334 @@ export type UserWithPermissions = User & {
     name: string;
     logoUrl?: string;
     description?: string;
+    requireOpportunityApproval?: boolean;
   };
 };
 
+// Password reset tokens (only the SHA-256 hash of the token is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(
+  passwordResetTokens,
+).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type InsertPasswordResetToken = z.infer<
+  typeof insertPasswordResetTokenSchema
+>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+// Hashes of a user's previous passwords, so recent ones can't be reused
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+
+// Email verification tokens for self-registered accounts
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertEmailVerificationTokenSchema = createInsertSchema(
+  emailVerificationTokens,
+).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type InsertEmailVerificationToken = z.infer<
+  typeof insertEmailVerificationTokenSchema
+>;
+export type EmailVerificationToken =
+  typeof emailVerificationTokens.$inferSelect;
+
+// Invitation links for staff. Teachers and school admins can only join a
+// school through one of these; the link fixes their school and role.
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  roleId: integer("role_id")
+    .references(() => userRoles.id, { onDelete: "restrict" })
+    .notNull(),
+  schoolId: integer("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedById: integer("invited_by_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastSentAt: timestamp("last_sent_at").defaultNow().notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedUserId: integer("accepted_user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  revokedAt: timestamp("revoked_at"),
+  // Guardian invitations name the student the guardian is linked to on acceptance
+  studentId: integer("student_id").references(() => users.id, {
+    onDelete: "cascade",
+  }),
+  relationship: text("relationship"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertInvitationSchema = createInsertSchema(invitations).omit({
+  id: true,
+  lastSentAt: true,
+  acceptedAt: true,
+  acceptedUserId: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+
+// Links guardian accounts to students. A student can have several guardians
+// and a guardian several children.
+export const guardianStudents = pgTable(
+  "guardian_students",
+  {
+    id: serial("id").primaryKey(),
+    guardianId: integer("guardian_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    studentId: integer("student_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    relationship: text("relationship"), // mother, father, carer, etc.
+    createdById: integer("created_by_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.guardianId, table.studentId)],
+);
+
+export const insertGuardianStudentSchema = createInsertSchema(
+  guardianStudents,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertGuardianStudent = z.infer<typeof insertGuardianStudentSchema>;
+export type GuardianStudent = typeof guardianStudents.$inferSelect;
+
+// Single-use recovery codes for users who lose their authenticator
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+
+// Every password login attempt, used for per-IP throttling
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  ipAddress: text("ip_address"),
+  userId: integer("user_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  succeeded: boolean("succeeded").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+
+// Express sessions, written by connect-pg-simple. Device, IP and last-seen
+// details are kept inside `sess` alongside the passport user id.
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: jsonb("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("IDX_session_expire").on(table.expire)],
+);
+
+export type Session = typeof sessions.$inferSelect;
+
+// Bearer tokens for the mobile app, one row per signed-in device
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  accessTokenHash: text("access_token_hash").notNull().unique(),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  deviceName: text("device_name"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  accessExpiresAt: timestamp("access_expires_at").notNull(),
+  refreshExpiresAt: timestamp("refresh_expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// Append-only record of administrative and data-changing actions. Rows are
+// never updated or deleted; `changes` holds a per-field before/after diff.
+export const auditLogs = pgTable(
+  "audit_logs",
+  {
+    id: serial("id").primaryKey(),
+    actorId: integer("actor_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    action: text("action").notNull(),
+    entityType: text("entity_type").notNull(),
+    entityId: text("entity_id"),
+    schoolId: integer("school_id").references(() => schools.id, {
+      onDelete: "set null",
+    }),
+    changes: jsonb("changes"),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("IDX_audit_logs_created_at").on(table.createdAt),
+    index("IDX_audit_logs_school_id").on(table.schoolId),
+  ],
+);
+
+export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+
+// Class rosters synced from a school's SIS (OneRoster classes.csv and
+// enrollments.csv). Only changed by roster sync, never edited in the app.
+export const rosterClasses = pgTable("roster_classes", {
+  id: serial("id").primaryKey(),
+  sisSourcedId: text("sis_sourced_id").notNull().unique(),
+  schoolId: integer("school_id")
+    .references(() => schools.id, { onDelete: "cascade" })
+    .notNull(),
+  title: text("title").notNull(),
+  classCode: text("class_code"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type RosterClass = typeof rosterClasses.$inferSelect;
+
+export const rosterEnrollments = pgTable("roster_enrollments", {
+  id: serial("id").primaryKey(),
+  sisSourcedId: text("sis_sourced_id").notNull().unique(),
+  classId: integer("class_id")
+    .references(() => rosterClasses.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: integer("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  role: text("role").notNull(), // student, teacher, administrator
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type RosterEnrollment = typeof rosterEnrollments.$inferSelect;
+
+// One row per roster sync, with counts and the list of changes it made
+export const rosterSyncRuns = pgTable("roster_sync_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(), // upload, schedule
+  source: text("source"), // file names or watched directory
+  fileHash: text("file_hash"), // lets scheduled runs skip files already synced
+  status: text("status").default("running").notNull(), // running, success, failed
+  summary: jsonb("summary"),
+  changes: jsonb("changes"),
+  error: text("error"),
+  triggeredById: integer("triggered_by_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const insertRosterSyncRunSchema = createInsertSchema(rosterSyncRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export type InsertRosterSyncRun = z.infer<typeof insertRosterSyncRunSchema>;
+export type RosterSyncRun = typeof rosterSyncRuns.$inferSelect;
+
+// One row per data retention purge, with the rules it applied and what it removed
+export const retentionRuns = pgTable("retention_runs", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(), // manual, schedule
+  status: text("status").default("running").notNull(), // running, success, failed
+  rules: jsonb("rules"), // the retention rules as they were when the purge ran
+  summary: jsonb("summary"),
+  removed: jsonb("removed"),
+  error: text("error"),
+  triggeredById: integer("triggered_by_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const insertRetentionRunSchema = createInsertSchema(retentionRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export type InsertRetentionRun = z.infer<typeof insertRetentionRunSchema>;
+export type RetentionRun = typeof retentionRuns.$inferSelect;
+
 // Define user preferences
 export const studentPreferences = pgTable("student_preferences", {
   id: serial("id").primaryKey(),
@@ -139,43 +517,85 @@ export type InsertStudentPreferences = z.infer<
 export type StudentPreferences = typeof studentPreferences.$inferSelect;
 
 // Opportunities table
-export const opportunities = pgTable("opportunities", {
-  id: serial("id").primaryKey(),
-  title: text("title").notNull(),
-  organization: text("organization").notNull(),
-  description: text("description").notNull(),
-  details: text("details"),
-  requirements: text("requirements"),
-  applicationProcess: text("application_process"),
-  imageUrl: text("image_url"),
-  startDate: timestamp("start_date").notNull(),
-  endDate: timestamp("end_date").notNull(),
-  applicationDeadline: timestamp("application_deadline").notNull(),
-  location: text("location").notNull(),
-  isVirtual: boolean("is_virtual").default(false),
-  opportunityType: text("opportunity_type").notNull(), // Internship, Volunteer, Workshop, etc.
-  compensation: text("compensation"),
-  industry: text("industry").notNull(),
-  ageGroup: text("age_group").array().notNull(),
-  ethnicityFocus: text("ethnicity_focus"),
-  genderFocus: text("gender_focus"),
-  contactPerson: text("contact_person"),
-  contactEmail: text("contact_email"),
-  externalUrl: text("external_url"),
-  numberOfSpaces: integer("number_of_spaces"),
-  createdById: integer("created_by_id").references(() => users.id),
-  schoolId: integer("school_id").references(() => schools.id, {
-    onDelete: "cascade",
-  }),
-  isGlobal: boolean("is_global").default(false), // For opportunities visible to all schools (superadmin)
-  visibleToSchools: integer("visible_to_schools").array(), // Array of school IDs for multi-school visibility
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+// The weighted document opportunity search matches against: title ranks
+// highest, then organization and industry, then description, then
+// requirements. Queries must use this exact expression for Postgres to use
+// the GIN index on it.
+export const opportunitySearchDocument = sql.raw(
+  "(setweight(to_tsvector('english', coalesce(title, '')), 'A') || " +
+    "setweight(to_tsvector('english', coalesce(organization, '')), 'B') || " +
+    "setweight(to_tsvector('english', coalesce(industry, '')), 'B') || " +
+    "setweight(to_tsvector('english', coalesce(description, '')), 'C') || " +
+    "setweight(to_tsvector('english', coalesce(requirements, '')), 'D'))",
+);
+
+// Where an opportunity is in its lifecycle. Only published opportunities
+// are shown to students or accept registrations.
+export const OPPORTUNITY_STATUSES = [
+  "draft",
+  "pending_review",
+  "scheduled",
+  "published",
+  "closed",
+  "archived",
+] as const;
+
+export type OpportunityStatus = (typeof OPPORTUNITY_STATUSES)[number];
+
+export const opportunities = pgTable(
+  "opportunities",
+  {
+    id: serial("id").primaryKey(),
+    title: text("title").notNull(),
+    organization: text("organization").notNull(),
+    description: text("description").notNull(),
+    details: text("details"),
+    requirements: text("requirements"),
+    applicationProcess: text("application_process"),
+    imageUrl: text("image_url"),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date").notNull(),
+    applicationDeadline: timestamp("application_deadline").notNull(),
+    location: text("location").notNull(),
+    // Optional coordinates of the location, used to sort by distance
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    isVirtual: boolean("is_virtual").default(false),
+    requiresGuardianConsent: boolean("requires_guardian_consent").default(false), // Registrations wait for a guardian's approval
+    opportunityType: text("opportunity_type").notNull(), // Internship, Volunteer, Workshop, etc.
+    compensation: text("compensation"),
+    industry: text("industry").notNull(),
+    ageGroup: text("age_group").array().notNull(),
+    ethnicityFocus: text("ethnicity_focus"),
+    genderFocus: text("gender_focus"),
+    contactPerson: text("contact_person"),
+    contactEmail: text("contact_email"),
+    externalUrl: text("external_url"),
+    numberOfSpaces: integer("number_of_spaces"),
+    createdById: integer("created_by_id").references(() => users.id),
+    schoolId: integer("school_id").references(() => schools.id, {
+      onDelete: "cascade",
+    }),
+    isGlobal: boolean("is_global").default(false), // For opportunities visible to all schools (superadmin)
+    visibleToSchools: integer("visible_to_schools").array(), // Array of school IDs for multi-school visibility
+    // Existing rows predate the workflow and were already live, hence the
+    // default; new opportunities are created as drafts
+    status: text("status").default("published").notNull(), // draft, pending_review, scheduled, published, closed, archived
+    publishAt: timestamp("publish_at"), // Submitted opportunities wait as scheduled until then
+    publishedAt: timestamp("published_at"),
+    archivedAt: timestamp("archived_at"), // Set when archived by hand or by data retention
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  () => [index("IDX_opportunities_search").using("gin", opportunitySearchDocument)],
+);
 
 export const insertOpportunitySchema = createInsertSchema(opportunities)
   .omit({
     id: true,
+    status: true,
+    publishedAt: true,
+    archivedAt: true,
     createdAt: true,
     updatedAt: true,
   })
@@ -184,11 +604,41 @@ export const insertOpportunitySchema = createInsertSchema(opportunities)
     startDate: z.string().transform((str) => new Date(str)),
     endDate: z.string().transform((str) => new Date(str)),
     applicationDeadline: z.string().transform((str) => new Date(str)),
+    publishAt: z
+      .string()
+      .nullish()
+      .transform((str) => (str ? new Date(str) : null)),
   });
 
 export type InsertOpportunity = z.infer<typeof insertOpportunitySchema>;
 export type Opportunity = typeof opportunities.$inferSelect;
 
+// Reviewer decisions on opportunities waiting for approval
+export const opportunityReviews = pgTable("opportunity_reviews", {
+  id: serial("id").primaryKey(),
+  opportunityId: integer("opportunity_id")
+    .references(() => opportunities.id, { onDelete: "cascade" })
+    .notNull(),
+  reviewerId: integer("reviewer_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  decision: text("decision").notNull(), // approved, changes_requested
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertOpportunityReviewSchema = createInsertSchema(
+  opportunityReviews,
+).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOpportunityReview = z.infer<
+  typeof insertOpportunityReviewSchema
+>;
+export type OpportunityReview = typeof opportunityReviews.$inferSelect;
+
 // Documents related to opportunities
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
@@ -222,7 +672,7 @@ export const studentInterests = pgTable("student_interests", {
     .references(() => opportunities.id, { onDelete: "cascade" })
     .notNull(),
   registrationDate: timestamp("registration_date").defaultNow().notNull(),
-  status: text("status").default("registered").notNull(), // registered, attended, completed, etc.
+  status: text("status").default("registered").notNull(), // registered, pending_consent, consent_declined, waitlisted, attended, completed, etc.
   notes: text("notes"),
 });
 
@@ -236,6 +686,36 @@ export const insertStudentInterestSchema = createInsertSchema(
 export type InsertStudentInterest = z.infer<typeof insertStudentInterestSchema>;
 export type StudentInterest = typeof studentInterests.$inferSelect;
 
+// Registrations that don't take up one of an opportunity's places. Waitlisted
+// students are queued by registration date.
+export const NON_PLACE_INTEREST_STATUSES = ["waitlisted", "consent_declined"];
+
+// A guardian's decision on a registration that needs their consent. One row
+// per registration; the latest decision by any linked guardian stands.
+export const guardianConsents = pgTable("guardian_consents", {
+  id: serial("id").primaryKey(),
+  interestId: integer("interest_id")
+    .references(() => studentInterests.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  guardianId: integer("guardian_id").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  decision: text("decision").notNull(), // approved, declined
+  note: text("note"),
+  decidedAt: timestamp("decided_at").defaultNow().notNull(),
+});
+
+export const insertGuardianConsentSchema = createInsertSchema(
+  guardianConsents,
+).omit({
+  id: true,
+  decidedAt: true,
+});
+
+export type InsertGuardianConsent = z.infer<typeof insertGuardianConsentSchema>;
+export type GuardianConsent = typeof guardianConsents.$inferSelect;
+
 // News feed for announcements
 export const newsPosts = pgTable("news_posts", {
   id: serial("id").primaryKey(),